@@ -0,0 +1,153 @@
+/**
+ * Build the bundled gazetteer (src/lib/gazetteer/data.json) from GeoNames dumps
+ *
+ * Usage:
+ *   npx tsx scripts/build-gazetteer.ts ./geonames                          # 25 cities per country
+ *   npx tsx scripts/build-gazetteer.ts ./geonames --cities-per-country 40
+ *
+ * The directory must contain these files from https://download.geonames.org/export/dump/:
+ * - countryInfo.txt       (languages per country)
+ * - admin1CodesASCII.txt  (states, provinces, regions)
+ * - cities15000.txt       (cities with more than 15,000 inhabitants)
+ *
+ * Alternate names already in data.json (e.g. "Bayern" for "Bavaria") are kept
+ * when the primary name still matches, so hand-added local names survive a rebuild.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+type GazetteerCountry = {
+  languages: string[];
+  regions: Record<string, string[]>;
+  cities: (string | null)[][];
+};
+
+const DATA_PATH = resolve(process.cwd(), 'src/lib/gazetteer/data.json');
+const DEFAULT_CITIES_PER_COUNTRY = 25;
+
+function readLines(dir: string, file: string): string[][] {
+  return readFileSync(resolve(dir, file), 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim() && !line.startsWith('#'))
+    .map((line) => line.split('\t'));
+}
+
+function normalize(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Primary name first, then alternates without duplicates
+function mergeNames(names: (string | undefined)[], existing: string[][]): string[] {
+  const merged: string[] = [];
+  const add = (name: string | undefined) => {
+    if (name && !merged.some((n) => n === name)) {
+      merged.push(name);
+    }
+  };
+
+  names.forEach(add);
+  const primary = normalize(merged[0] ?? '');
+  existing.find((entry) => entry.some((name) => normalize(name) === primary))?.forEach(add);
+  return merged;
+}
+
+/**
+ * Same layout as the checked-in file: one region or city per line
+ */
+function formatGazetteer(data: Record<string, GazetteerCountry>): string {
+  const countries = Object.keys(data).sort().map((code) => {
+    const { languages, regions, cities } = data[code];
+    const regionLines = Object.entries(regions).map(
+      ([regionCode, names]) => `      ${JSON.stringify(regionCode)}: ${JSON.stringify(names)}`,
+    );
+    const cityLines = cities.map((city) => `      ${JSON.stringify(city)}`);
+
+    return [
+      `  ${JSON.stringify(code)}: {`,
+      `    "languages": ${JSON.stringify(languages)},`,
+      regionLines.length > 0 ? `    "regions": {\n${regionLines.join(',\n')}\n    },` : '    "regions": {},',
+      cityLines.length > 0 ? `    "cities": [\n${cityLines.join(',\n')}\n    ]` : '    "cities": []',
+      '  }',
+    ].join('\n');
+  });
+
+  return `{\n${countries.join(',\n')}\n}\n`;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const dir = args.find((arg) => !arg.startsWith('--'));
+  const limitIndex = args.indexOf('--cities-per-country');
+  const citiesPerCountry = limitIndex >= 0
+    ? parseInt(args[limitIndex + 1], 10)
+    : DEFAULT_CITIES_PER_COUNTRY;
+
+  if (!dir || !Number.isFinite(citiesPerCountry)) {
+    console.error('Usage: npx tsx scripts/build-gazetteer.ts <geonames-dir> [--cities-per-country N]');
+    process.exit(1);
+  }
+
+  let existing: Record<string, GazetteerCountry> = {};
+  try {
+    existing = JSON.parse(readFileSync(DATA_PATH, 'utf-8'));
+  } catch {
+    console.warn('⚠️  No existing gazetteer - alternate names start empty.');
+  }
+
+  const data: Record<string, GazetteerCountry> = {};
+
+  // countryInfo.txt: ISO, ..., Languages (column 15, e.g. "en-CA,fr-CA,iu")
+  for (const columns of readLines(dir, 'countryInfo.txt')) {
+    const code = columns[0];
+    const languages = Array.from(new Set(
+      (columns[15] || '').split(',').map((tag) => tag.split('-')[0].trim()).filter((tag) => tag.length === 2 || tag.length === 3),
+    ));
+    data[code] = { languages, regions: {}, cities: [] };
+  }
+
+  // admin1CodesASCII.txt: "CA.08", name, ascii name, geonameid
+  for (const [fullCode, name, asciiName] of readLines(dir, 'admin1CodesASCII.txt')) {
+    const [countryCode, regionCode] = fullCode.split('.');
+    const country = data[countryCode];
+    if (!country || !regionCode) continue;
+
+    country.regions[regionCode] = mergeNames(
+      [name, asciiName],
+      Object.values(existing[countryCode]?.regions ?? {}),
+    );
+  }
+
+  // cities15000.txt: geonameid, name, ascii name, ..., country (8), admin1 (10), population (14)
+  const citiesByCountry = new Map<string, { population: number; row: string[] }[]>();
+  for (const row of readLines(dir, 'cities15000.txt')) {
+    const countryCode = row[8];
+    const cities = citiesByCountry.get(countryCode) ?? [];
+    cities.push({ population: parseInt(row[14], 10) || 0, row });
+    citiesByCountry.set(countryCode, cities);
+  }
+
+  for (const [countryCode, cities] of citiesByCountry) {
+    const country = data[countryCode];
+    if (!country) continue;
+
+    const existingCities = (existing[countryCode]?.cities ?? [])
+      .map(([, ...names]) => names.filter((name): name is string => Boolean(name)));
+
+    country.cities = cities
+      .sort((a, b) => b.population - a.population)
+      .slice(0, citiesPerCountry)
+      .map(({ row }) => {
+        const regionCode = country.regions[row[10]] ? row[10] : null;
+        return [regionCode, ...mergeNames([row[1], row[2]], existingCities)];
+      });
+  }
+
+  writeFileSync(DATA_PATH, formatGazetteer(data));
+
+  const regionCount = Object.values(data).reduce((sum, c) => sum + Object.keys(c.regions).length, 0);
+  const cityCount = Object.values(data).reduce((sum, c) => sum + c.cities.length, 0);
+  console.log(`✅ Wrote ${Object.keys(data).length} countries, ${regionCount} regions, ${cityCount} cities to ${DATA_PATH}`);
+}
+
+main();
@@ -57,8 +57,27 @@ async function checkImages() {
     console.log('✅ Images found:', data.images?.length || 0, 'images');
     console.log('📅 Cached at:', new Date(data.created_at).toLocaleString());
     if (data.images) {
+      // Last result of the image health sweeper per original URL (/api/cron/image-health)
+      const urls = data.images.map((img: any) => img.source_url ?? img.image_url);
+      const { data: checks } = await supabase
+        .from('image_health_checks')
+        .select('image_url, status, http_status, width, height, error, checked_at')
+        .in('image_url', urls);
+      const checksByUrl = new Map((checks ?? []).map((check: any) => [check.image_url, check]));
+
       data.images.forEach((img: any, i: number) => {
         console.log(`  ${i+1}. ${img.image_url}`);
+        if (img.source_url) {
+          console.log(`     original: ${img.source_url}`);
+        }
+        const check = checksByUrl.get(img.source_url ?? img.image_url);
+        if (check) {
+          const size = check.width && check.height ? `, ${check.width}x${check.height}` : '';
+          const detail = check.error ? ` - ${check.error}` : '';
+          console.log(`     health: ${check.status} (HTTP ${check.http_status ?? '-'}${size}${detail}), checked ${new Date(check.checked_at).toLocaleString()}`);
+        } else {
+          console.log('     health: not checked yet');
+        }
       });
     }
   }
@@ -0,0 +1,279 @@
+/**
+ * Offline evaluation of the enrichment pipeline against a golden dataset
+ *
+ * Usage:
+ *   npx tsx scripts/eval-enrichment.ts                                  # replay fixtures/eval, print metrics
+ *   npx tsx scripts/eval-enrichment.ts --out eval-main.json --label main # also save the report
+ *   npx tsx scripts/eval-enrichment.ts --compare eval-main.json         # replay and diff against a saved report
+ *   npx tsx scripts/eval-enrichment.ts --diff eval-main.json eval-new.json
+ *   npx tsx scripts/eval-enrichment.ts --record [caseId ...]            # re-record responses with the live provider
+ *   npx tsx scripts/eval-enrichment.ts --import-reviews                 # add approved/rejected review queue results as cases
+ *
+ * Each case in fixtures/eval/*.json holds a playground (OSM ID, location, OSM
+ * name), the known-correct answer and a recorded model response. Replaying runs
+ * the recorded response through parsing, the location checks, validateSources,
+ * validateDescription and scoreResult - no network, no cache.
+ *
+ * Typical workflows:
+ * - Threshold change: save a report on main, change THRESHOLDS, --compare
+ * - Prompt change: save a report on main, change the prompt, --record, --compare
+ * - Moderation feedback: --import-reviews turns reviewed results into cases
+ *   (review-<id>.json); rejected ones are expected to be rejected
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, join, resolve } from 'path';
+import { createClient } from '@supabase/supabase-js';
+import { buildInsightsPrompt } from '../src/lib/gemini';
+import { getInsightsProvider } from '../src/lib/insights-providers';
+import { normalizeInsightsLocale } from '../src/lib/insights-locale';
+import {
+  INSIGHTS_REVIEW_COLUMNS,
+  toInsightsReview,
+  type InsightsReviewRow,
+} from '../src/lib/insights-review';
+import {
+  diffEvalReports,
+  reviewToEvalCase,
+  runEnrichmentEval,
+  type DecisionMetrics,
+  type EvalCase,
+  type EvalReport,
+  type EvalReportDiff,
+  type RateMetric,
+} from '../src/lib/enrichment-eval';
+
+// Load environment variables (only needed for --record and --import-reviews)
+try {
+  const envPath = resolve(process.cwd(), '.env.local');
+  const envContent = readFileSync(envPath, 'utf-8');
+  envContent.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=');
+      if (key && valueParts.length > 0) {
+        const value = valueParts.join('=').replace(/^["']|["']$/g, '');
+        process.env[key.trim()] = value.trim();
+      }
+    }
+  });
+} catch {
+  // Replaying doesn't need any environment variables
+}
+
+const CASES_DIR = process.env.EVAL_CASES_DIR || resolve(process.cwd(), 'fixtures/eval');
+
+type CaseFile = { path: string; evalCase: EvalCase };
+
+function loadCases(): CaseFile[] {
+  return readdirSync(CASES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => {
+      const path = join(CASES_DIR, file);
+      const evalCase = JSON.parse(readFileSync(path, 'utf-8')) as EvalCase;
+      return { path, evalCase: { ...evalCase, id: evalCase.id || basename(file, '.json') } };
+    });
+}
+
+function readReport(path: string): EvalReport {
+  return JSON.parse(readFileSync(resolve(process.cwd(), path), 'utf-8')) as EvalReport;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDecision(name: string, metrics: DecisionMetrics): string {
+  return `${name.padEnd(16)} precision ${formatPercent(metrics.precision).padStart(6)}  recall ${formatPercent(metrics.recall).padStart(6)}` +
+    `  (TP ${metrics.truePositives}, FP ${metrics.falsePositives}, TN ${metrics.trueNegatives}, FN ${metrics.falseNegatives})`;
+}
+
+function formatRate(name: string, metric: RateMetric): string {
+  return `${name.padEnd(16)} ${formatPercent(metric.rate).padStart(6)}  (${metric.matched}/${metric.total})`;
+}
+
+function printReport(report: EvalReport) {
+  const { metrics } = report;
+
+  console.log(`\n📊 Enrichment eval "${report.label}" (${metrics.cases} cases, cache version ${report.cacheVersion})\n`);
+  console.log(formatDecision('Accept', metrics.accept));
+  console.log(formatDecision('Cache', metrics.cache));
+  console.log(formatRate('Name accuracy', metrics.nameAccuracy));
+  console.log(formatRate('Tier agreement', metrics.tierAgreement));
+  console.log(formatRate('Feature precision', metrics.featurePrecision));
+  console.log(formatRate('Feature recall', metrics.featureRecall));
+
+  const misses = report.cases.filter((result) =>
+    result.accepted !== result.expectedAccept ||
+    result.nameMatches === false ||
+    result.tierMatches === false
+  );
+
+  if (misses.length > 0) {
+    console.log('\n❌ Misses:');
+    for (const result of misses) {
+      const problems: string[] = [];
+      if (result.accepted !== result.expectedAccept) {
+        problems.push(result.accepted ? 'accepted (expected reject)' : `rejected: ${result.rejection} (expected accept)`);
+      }
+      if (result.nameMatches === false) problems.push(`name "${result.name}"`);
+      if (result.tierMatches === false) problems.push(`tier ${result.tier}`);
+
+      console.log(`   ${result.id}: ${problems.join(', ')}${result.score !== null ? ` [score ${result.score}]` : ''}`);
+      if (result.flags.length > 0) {
+        console.log(`      flags: ${result.flags.join(', ')}`);
+      }
+    }
+  } else {
+    console.log('\n✅ Every case matches its expected answer');
+  }
+}
+
+function printDiff(diff: EvalReportDiff) {
+  console.log(`\n🔀 "${diff.baseline}" → "${diff.candidate}"\n`);
+
+  for (const { metric, baseline, candidate } of diff.metrics) {
+    const delta = baseline !== null && candidate !== null ? candidate - baseline : null;
+    const marker = delta === null || Math.abs(delta) < 0.0005 ? ' ' : delta > 0 ? '▲' : '▼';
+    console.log(`${marker} ${metric.padEnd(20)} ${formatPercent(baseline).padStart(6)} → ${formatPercent(candidate).padStart(6)}`);
+  }
+
+  if (diff.changes.length === 0) {
+    console.log('\nNo case changed.');
+    return;
+  }
+
+  console.log('\nChanged cases:');
+  for (const change of diff.changes) {
+    const marker = change.improved === null ? '•' : change.improved ? '✅' : '❌';
+    console.log(`   ${marker} ${change.id} ${change.field}: ${JSON.stringify(change.baseline)} → ${JSON.stringify(change.candidate)}`);
+  }
+}
+
+async function recordCases(caseFiles: CaseFile[]) {
+  const provider = getInsightsProvider();
+
+  for (const { path, evalCase } of caseFiles) {
+    const { location, name, osmId, osmTags } = evalCase;
+    console.log(`🎙️  Recording ${evalCase.id} with provider "${provider.id}"...`);
+
+    const response = await provider.generateInsights({
+      prompt: buildInsightsPrompt({ location, name, osmTags, locale: normalizeInsightsLocale(evalCase.locale) }),
+      location,
+      name,
+      osmId,
+    });
+
+    if (!response) {
+      console.error(`   ❌ No response - keeping the previous recording`);
+      continue;
+    }
+
+    // Rewrite the file as stored (without the id derived from the file name)
+    const stored = JSON.parse(readFileSync(path, 'utf-8')) as EvalCase;
+    stored.recorded = { text: response.text, sources: response.sources, sourceTitles: response.sourceTitles };
+    stored.recordedAt = new Date().toISOString();
+    writeFileSync(path, `${JSON.stringify(stored, null, 2)}\n`);
+  }
+}
+
+function createScriptClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+async function importReviews() {
+  const supabase = createScriptClient();
+  const { data, error } = await supabase
+    .from(process.env.INSIGHTS_REVIEWS_TABLE_NAME || 'insights_reviews')
+    .select(INSIGHTS_REVIEW_COLUMNS)
+    .in('status', ['approved', 'rejected'])
+    .order('id');
+
+  if (error) {
+    throw new Error(`Could not load reviews: ${error.message}`);
+  }
+
+  let added = 0;
+  for (const row of (data ?? []) as InsightsReviewRow[]) {
+    const evalCase = reviewToEvalCase(toInsightsReview(row));
+    if (!evalCase) continue;
+
+    // Existing cases may have been hand-tuned - never overwrite them
+    const path = join(CASES_DIR, `${evalCase.id}.json`);
+    if (existsSync(path)) continue;
+
+    writeFileSync(path, `${JSON.stringify(evalCase, null, 2)}\n`);
+    console.log(`📥 ${evalCase.id}: ${evalCase.notes}`);
+    added++;
+  }
+
+  console.log(`\n📥 Imported ${added} reviewed result(s) into ${CASES_DIR}`);
+}
+
+function getOption(args: string[], option: string): string | undefined {
+  const index = args.indexOf(option);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--diff') {
+    if (args.length < 3) {
+      console.error('Usage: npx tsx scripts/eval-enrichment.ts --diff <baseline.json> <candidate.json>');
+      process.exit(1);
+    }
+    printDiff(diffEvalReports(readReport(args[1]), readReport(args[2])));
+    return;
+  }
+
+  if (args[0] === '--import-reviews') {
+    await importReviews();
+  }
+
+  let caseFiles = loadCases();
+  if (caseFiles.length === 0) {
+    console.error(`❌ No eval cases found in ${CASES_DIR}`);
+    process.exit(1);
+  }
+
+  if (args[0] === '--record') {
+    const ids = args.slice(1);
+    if (ids.length > 0) {
+      caseFiles = caseFiles.filter(({ evalCase }) => ids.includes(evalCase.id));
+    }
+    await recordCases(caseFiles);
+    // Reload so the report uses the new recordings
+    caseFiles = loadCases();
+  }
+
+  const report = runEnrichmentEval({
+    cases: caseFiles.map(({ evalCase }) => evalCase),
+    label: getOption(args, '--label'),
+  });
+  printReport(report);
+
+  const outPath = getOption(args, '--out');
+  if (outPath) {
+    writeFileSync(resolve(process.cwd(), outPath), `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\n💾 Saved report to ${outPath}`);
+  }
+
+  const comparePath = getOption(args, '--compare');
+  if (comparePath) {
+    printDiff(diffEvalReports(readReport(comparePath), report));
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Eval failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,180 @@
+/**
+ * Import leisure=playground features into the self-hosted playground index
+ *
+ * Usage:
+ *   npx tsx scripts/import-playground-index.ts              # all configured regions
+ *   npx tsx scripts/import-playground-index.ts sf-bay-area  # specific regions
+ *
+ * Regions are configured in src/lib/playground-index-regions.ts. For each region this script will:
+ * 1. Query Overpass cell by cell (OVERPASS_ENDPOINTS is respected)
+ * 2. Upsert every playground into playground_index
+ * 3. Delete playgrounds that disappeared from OSM since the last import
+ * 4. Record the region in playground_index_regions so /api/search answers from the index
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { createClient } from '@supabase/supabase-js';
+import type { OSMQueryResults } from '../src/types/osm';
+import {
+  PLAYGROUND_INDEX_REGIONS,
+  splitRegionIntoCells,
+  type PlaygroundIndexRegion,
+} from '../src/lib/playground-index-regions';
+
+// Load environment variables
+try {
+  const envPath = resolve(process.cwd(), '.env.local');
+  const envContent = readFileSync(envPath, 'utf-8');
+  envContent.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=');
+      if (key && valueParts.length > 0) {
+        const value = valueParts.join('=').replace(/^["']|["']$/g, '');
+        process.env[key.trim()] = value.trim();
+      }
+    }
+  });
+} catch (error) {
+  console.warn('⚠️  Could not load .env.local file.');
+}
+
+const PLAYGROUND_INDEX_TABLE = 'playground_index';
+const PLAYGROUND_INDEX_REGIONS_TABLE = 'playground_index_regions';
+// Per-cell Overpass result limit; a cell hitting it is reported as possibly truncated
+const CELL_RESULT_LIMIT = 5000;
+const UPSERT_BATCH_SIZE = 500;
+
+function createScriptClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  // The index tables are read-only for the anon key
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing Supabase environment variables (NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+function toIndexRow(element: OSMQueryResults, region: string, importedAt: string) {
+  const { lat, lon } = element.type === 'node' ? element : element.center;
+
+  return {
+    osm_type: element.type,
+    osm_id: element.id,
+    lat,
+    lon,
+    tags: element.tags || {},
+    region,
+    imported_at: importedAt,
+  };
+}
+
+async function importRegion(
+  supabase: ReturnType<typeof createScriptClient>,
+  region: PlaygroundIndexRegion,
+): Promise<number> {
+  // Imported after env loading so OVERPASS_ENDPOINTS from .env.local applies
+  const { runOSMQuery } = await import('../src/lib/osm');
+
+  const importedAt = new Date().toISOString();
+  const cells = splitRegionIntoCells(region);
+  const rows = new Map<string, ReturnType<typeof toIndexRow>>();
+
+  console.log(`\n🗺️  Importing ${region.name} (${cells.length} cells)`);
+
+  for (const [index, cell] of cells.entries()) {
+    const elements = await runOSMQuery({
+      bounds: cell,
+      leisure: 'playground',
+      timeout: 25,
+      limit: CELL_RESULT_LIMIT,
+    });
+
+    for (const element of elements) {
+      const position = element.type === 'node' ? element : element.center;
+      if (position?.lat == null || position?.lon == null) {
+        continue;
+      }
+      // Features on cell edges are returned twice
+      rows.set(`${element.type}/${element.id}`, toIndexRow(element, region.name, importedAt));
+    }
+
+    const truncated = elements.length >= CELL_RESULT_LIMIT ? ' ⚠️  limit reached, cell may be truncated' : '';
+    console.log(`   Cell ${index + 1}/${cells.length}: ${elements.length} playgrounds${truncated}`);
+  }
+
+  const allRows = Array.from(rows.values());
+  for (let i = 0; i < allRows.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from(PLAYGROUND_INDEX_TABLE)
+      .upsert(allRows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: 'osm_type,osm_id' });
+
+    if (error) {
+      throw new Error(`Failed to upsert playgrounds: ${error.message}`);
+    }
+  }
+
+  // Anything this run didn't touch was removed from OSM (or retagged)
+  const { count: removedCount, error: deleteError } = await supabase
+    .from(PLAYGROUND_INDEX_TABLE)
+    .delete({ count: 'exact' })
+    .eq('region', region.name)
+    .lt('imported_at', importedAt);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete stale playgrounds: ${deleteError.message}`);
+  }
+
+  // Only mark the region as covered once all of its playgrounds are in
+  const { error: regionError } = await supabase
+    .from(PLAYGROUND_INDEX_REGIONS_TABLE)
+    .upsert({
+      name: region.name,
+      south: region.south,
+      west: region.west,
+      north: region.north,
+      east: region.east,
+      feature_count: allRows.length,
+      imported_at: importedAt,
+    }, { onConflict: 'name' });
+
+  if (regionError) {
+    throw new Error(`Failed to record region: ${regionError.message}`);
+  }
+
+  console.log(`✅ ${region.name}: ${allRows.length} playgrounds imported, ${removedCount || 0} stale removed`);
+  return allRows.length;
+}
+
+async function main() {
+  const requestedNames = process.argv.slice(2);
+  const regions = requestedNames.length > 0
+    ? PLAYGROUND_INDEX_REGIONS.filter(region => requestedNames.includes(region.name))
+    : PLAYGROUND_INDEX_REGIONS;
+
+  const unknownNames = requestedNames.filter(
+    name => !PLAYGROUND_INDEX_REGIONS.some(region => region.name === name)
+  );
+  if (unknownNames.length > 0) {
+    console.error(`❌ Unknown region(s): ${unknownNames.join(', ')}`);
+    console.error(`   Configured: ${PLAYGROUND_INDEX_REGIONS.map(region => region.name).join(', ')}`);
+    process.exit(1);
+  }
+
+  const supabase = createScriptClient();
+  let total = 0;
+
+  for (const region of regions) {
+    total += await importRegion(supabase, region);
+  }
+
+  console.log(`\n🎉 Done: ${total} playgrounds across ${regions.length} region(s)`);
+}
+
+main().catch(error => {
+  console.error('❌ Import failed:', error);
+  process.exit(1);
+});
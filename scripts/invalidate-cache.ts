@@ -2,6 +2,7 @@ import { readFileSync } from 'fs';
 import { resolve } from 'path';
 import { createClient } from '@supabase/supabase-js';
 import { buildAIInsightsCacheKey, buildImagesCacheKey } from '../src/lib/cache-keys';
+import { SUPPORTED_INSIGHTS_LOCALES } from '../src/lib/insights-locale';
 
 // Load environment variables
 try {
@@ -46,14 +47,14 @@ async function invalidateCache() {
   console.log('🗑️  Invalidating all cache for:', osmId);
   console.log('');
 
-  // Invalidate AI insights cache
-  const aiCacheKey = buildAIInsightsCacheKey({ osmId });
-  console.log('1. AI Insights Cache:', aiCacheKey);
+  // Invalidate AI insights cache (every locale)
+  const aiCacheKeys = SUPPORTED_INSIGHTS_LOCALES.map((locale) => buildAIInsightsCacheKey({ osmId, locale }));
+  console.log('1. AI Insights Cache:', aiCacheKeys.join(', '));
 
   const { error: aiError } = await supabase
     .from('ai_insights_cache')
     .delete()
-    .eq('cache_key', aiCacheKey);
+    .in('cache_key', aiCacheKeys);
 
   if (aiError) {
     if (aiError.code === 'PGRST116') {
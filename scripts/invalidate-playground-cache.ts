@@ -15,6 +15,7 @@ import { readFileSync } from 'fs';
 import { resolve } from 'path';
 import { createClient } from '@supabase/supabase-js';
 import { buildAIInsightsCacheKey, buildImagesCacheKey } from '@/lib/cache-keys';
+import { SUPPORTED_INSIGHTS_LOCALES } from '@/lib/insights-locale';
 
 // Load environment variables from .env.local manually
 try {
@@ -87,18 +88,18 @@ async function invalidatePlayground(osmId: string): Promise<{
 
   console.log(`\n🔍 Processing playground: ${osmId}`);
 
-  // Generate cache keys
-  const aiInsightsKey = buildAIInsightsCacheKey({ osmId });
+  // Generate cache keys (AI insights are cached per locale)
+  const aiInsightsKeys = SUPPORTED_INSIGHTS_LOCALES.map((locale) => buildAIInsightsCacheKey({ osmId, locale }));
   const imagesKey = buildImagesCacheKey({ osmId });
 
-  console.log(`   AI Insights key: ${aiInsightsKey}`);
+  console.log(`   AI Insights keys: ${aiInsightsKeys.join(', ')}`);
   console.log(`   Images key: ${imagesKey}`);
 
   // Delete AI insights cache
   const { data: aiData, error: aiError } = await supabase
     .from(AI_INSIGHTS_CACHE_TABLE)
     .delete()
-    .eq('cache_key', aiInsightsKey)
+    .in('cache_key', aiInsightsKeys)
     .select();
 
   if (aiError) {
@@ -107,7 +108,7 @@ async function invalidatePlayground(osmId: string): Promise<{
 
   const aiDeleted = aiData?.length || 0;
   if (aiDeleted > 0) {
-    console.log(`   ✅ Deleted ${aiDeleted} AI insights cache entry`);
+    console.log(`   ✅ Deleted ${aiDeleted} AI insights cache ${aiDeleted === 1 ? 'entry' : 'entries'}`);
   } else {
     console.log(`   ℹ️  No AI insights cache found`);
   }
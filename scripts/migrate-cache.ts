@@ -0,0 +1,91 @@
+/**
+ * Upgrade cached AI insights to the current schema version in place
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-cache.ts --dry-run                     # report what would change
+ *   npx tsx scripts/migrate-cache.ts                               # upgrade every outdated row
+ *   npx tsx scripts/migrate-cache.ts --adopt v17-tier-fields-fixed # first move rows from an old key version
+ *
+ * Migrations live in src/lib/cache-migrations.ts. Rows are also upgraded lazily
+ * when read, so running this is optional - it just avoids the first-read write
+ * and shows how many rows each migration touched.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { createClient } from '@supabase/supabase-js';
+import { AI_INSIGHTS_CACHE_VERSION } from '../src/lib/cache-keys';
+import {
+  AI_INSIGHTS_CACHE_MIGRATIONS,
+  adoptLegacyAIInsightsKeys,
+  runAIInsightsCacheMigrations,
+  type CacheMigrationReport,
+} from '../src/lib/cache-migrations';
+
+// Load environment variables
+try {
+  const envPath = resolve(process.cwd(), '.env.local');
+  const envContent = readFileSync(envPath, 'utf-8');
+  envContent.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=');
+      if (key && valueParts.length > 0) {
+        const value = valueParts.join('=').replace(/^["']|["']$/g, '');
+        process.env[key.trim()] = value.trim();
+      }
+    }
+  });
+} catch {
+  console.warn('⚠️  Could not load .env.local file.');
+}
+
+function createScriptClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+function getOption(args: string[], option: string): string | undefined {
+  const index = args.indexOf(option);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function printReport(report: CacheMigrationReport) {
+  const verb = report.dryRun ? 'Would upgrade' : 'Upgraded';
+
+  console.log(`\n📊 ${verb} ${report.upgraded} of ${report.scanned} outdated row(s) to schema version ${report.targetVersion}\n`);
+  for (const migration of report.migrations) {
+    const definition = AI_INSIGHTS_CACHE_MIGRATIONS.find(({ version }) => version === migration.version);
+    console.log(`   v${String(migration.version).padEnd(3)} ${migration.name.padEnd(20)} ${String(migration.touched).padStart(6)} row(s)  ${definition?.description ?? ''}`);
+  }
+
+  if (report.failed > 0) {
+    console.log(`\n❌ ${report.failed} row(s) failed to update`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const supabase = createScriptClient();
+
+  const legacyVersion = getOption(args, '--adopt');
+  if (legacyVersion) {
+    const adopted = await adoptLegacyAIInsightsKeys({ supabase, legacyVersion, dryRun });
+    console.log(`🔑 ${dryRun ? 'Would adopt' : 'Adopted'} ${adopted} row(s) from "${legacyVersion}" into "${AI_INSIGHTS_CACHE_VERSION}"`);
+  }
+
+  const report = await runAIInsightsCacheMigrations({ supabase, dryRun });
+  printReport(report);
+}
+
+main().catch((error) => {
+  console.error('❌ Migration failed:', error);
+  process.exit(1);
+});
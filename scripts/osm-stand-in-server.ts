@@ -0,0 +1,304 @@
+/**
+ * Offline Overpass + Nominatim stand-in
+ *
+ * Serves the subset of the Overpass and Nominatim APIs the app uses from a
+ * checked-in OSM extract (GeoJSON, osmtogeojson format), so /api/search, the
+ * playground detail page and reverse geocoding run without network access.
+ *
+ * Supported endpoints:
+ * - POST/GET /api/interpreter   Overpass QL bbox queries: node/way/relation["key"="value"](s,w,n,e); out center N;
+ * - GET /lookup?osm_ids=W1,N2   Nominatim lookup
+ * - GET /reverse?lat=..&lon=..  Nominatim reverse geocoding (nearest feature, else the extract's default address)
+ *
+ * Usage:
+ *   npx tsx scripts/osm-stand-in-server.ts [extract.geojson] [--port 8787]
+ *
+ * Then point the app at it:
+ *   OVERPASS_ENDPOINTS=http://localhost:8787/api/interpreter
+ *   NOMINATIM_BASE_URL=http://localhost:8787
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { OSMPlaceDetails, OSMQueryResults } from '../src/types/osm';
+
+type OSMType = 'node' | 'way' | 'relation';
+
+type ExtractFeature = {
+  type: 'Feature';
+  properties: Record<string, string>;
+  geometry: { type: 'Point'; coordinates: [number, number] };
+};
+
+type Extract = {
+  type: 'FeatureCollection';
+  attribution?: string;
+  defaultAddress?: Record<string, string>;
+  features: ExtractFeature[];
+};
+
+type Element = {
+  type: OSMType;
+  id: number;
+  lat: number;
+  lon: number;
+  tags: Record<string, string>;
+};
+
+const args = process.argv.slice(2);
+const portFlagIndex = args.indexOf('--port');
+const port = portFlagIndex !== -1
+  ? parseInt(args[portFlagIndex + 1], 10)
+  : parseInt(process.env.OSM_STAND_IN_PORT || '8787', 10);
+const extractPath = resolve(
+  process.cwd(),
+  args.find((arg, index) => !arg.startsWith('--') && index !== portFlagIndex + 1) ||
+    'fixtures/osm/palo-alto.geojson',
+);
+
+const LICENCE = 'Data © OpenStreetMap contributors, ODbL 1.0. https://osm.org/copyright';
+// Reverse geocoding snaps to a feature within this distance, otherwise uses the default address
+const REVERSE_SNAP_DISTANCE_M = 1000;
+
+const extract = JSON.parse(readFileSync(extractPath, 'utf-8')) as Extract;
+
+const elements: Element[] = extract.features
+  .filter((feature) => feature.geometry?.type === 'Point' && feature.properties?.['@id'])
+  .map((feature) => {
+    const { '@id': osmRef, ...tags } = feature.properties;
+    const [type, id] = osmRef.split('/') as [OSMType, string];
+    const [lon, lat] = feature.geometry.coordinates;
+    return { type, id: parseInt(id, 10), lat, lon, tags };
+  });
+
+const extractBounds = elements.reduce(
+  (bounds, element) => ({
+    south: Math.min(bounds.south, element.lat),
+    west: Math.min(bounds.west, element.lon),
+    north: Math.max(bounds.north, element.lat),
+    east: Math.max(bounds.east, element.lon),
+  }),
+  { south: Infinity, west: Infinity, north: -Infinity, east: -Infinity },
+);
+
+// Haversine distance in meters
+function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function toOverpassElement(element: Element): OSMQueryResults {
+  const { type, id, lat, lon, tags } = element;
+  if (type === 'node') {
+    return { type, id, lat, lon, tags };
+  }
+  if (type === 'way') {
+    return { type, id, center: { lat, lon }, nodes: [], tags };
+  }
+  return { type, id, center: { lat, lon }, members: [], tags };
+}
+
+function buildAddress(element: Element | null): OSMPlaceDetails['address'] {
+  const address: OSMPlaceDetails['address'] = { ...extract.defaultAddress };
+  if (!element) {
+    return address;
+  }
+
+  if (element.tags.name) {
+    address[element.tags.leisure || 'amenity'] = element.tags.name;
+  }
+  if (element.tags['addr:street']) address.road = element.tags['addr:street'];
+  if (element.tags['addr:city']) address.city = element.tags['addr:city'];
+  if (element.tags['addr:postcode']) address.postcode = element.tags['addr:postcode'];
+  return address;
+}
+
+function toPlaceDetails(element: Element): OSMPlaceDetails {
+  const address = buildAddress(element);
+  const name = element.tags.name || '';
+  const displayName = [name, address.road, address.city, address.county, address.state, address.postcode, address.country]
+    .filter(Boolean)
+    .join(', ');
+  const delta = 0.0005;
+
+  return {
+    place_id: element.id,
+    licence: LICENCE,
+    osm_type: element.type,
+    osm_id: element.id,
+    lat: element.lat.toFixed(7),
+    lon: element.lon.toFixed(7),
+    class: element.tags.leisure ? 'leisure' : 'amenity',
+    type: element.tags.leisure || element.tags.amenity || 'yes',
+    place_rank: 30,
+    importance: 0.00001,
+    addresstype: element.tags.leisure ? 'leisure' : 'amenity',
+    name,
+    display_name: displayName,
+    address,
+    boundingbox: [
+      (element.lat - delta).toFixed(7),
+      (element.lat + delta).toFixed(7),
+      (element.lon - delta).toFixed(7),
+      (element.lon + delta).toFixed(7),
+    ],
+  };
+}
+
+// Answer the Overpass QL shapes produced by runOSMQuery
+function handleOverpassQuery(query: string): { status: number; body: unknown } {
+  const statementPattern = /(node|way|relation)\["([^"]+)"="([^"]+)"\]\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)/g;
+  const statements = Array.from(query.matchAll(statementPattern));
+
+  if (statements.length === 0) {
+    return {
+      status: 400,
+      body: { remark: 'runtime error: the stand-in only supports ["key"="value"](south,west,north,east) queries' },
+    };
+  }
+
+  const limitMatch = query.match(/out\s+center\s+(\d+)/);
+  const limit = limitMatch ? parseInt(limitMatch[1], 10) : Infinity;
+
+  const matched = new Map<string, Element>();
+  for (const [, type, key, value, south, west, north, east] of statements) {
+    for (const element of elements) {
+      if (
+        element.type === type &&
+        element.tags[key] === value &&
+        element.lat >= parseFloat(south) &&
+        element.lat <= parseFloat(north) &&
+        element.lon >= parseFloat(west) &&
+        element.lon <= parseFloat(east)
+      ) {
+        matched.set(`${element.type}/${element.id}`, element);
+      }
+    }
+  }
+
+  return {
+    status: 200,
+    body: {
+      version: 0.6,
+      generator: 'osm-stand-in',
+      osm3s: { copyright: LICENCE },
+      elements: Array.from(matched.values()).slice(0, limit).map(toOverpassElement),
+    },
+  };
+}
+
+function handleLookup(params: URLSearchParams): { status: number; body: unknown } {
+  const osmIds = (params.get('osm_ids') || '').split(',').map((id) => id.trim()).filter(Boolean);
+  const typeByPrefix: Record<string, OSMType> = { N: 'node', W: 'way', R: 'relation' };
+
+  const results = osmIds
+    .map((osmId) => {
+      const type = typeByPrefix[osmId[0]?.toUpperCase()];
+      const id = parseInt(osmId.slice(1), 10);
+      return elements.find((element) => element.type === type && element.id === id);
+    })
+    .filter((element): element is Element => element !== undefined)
+    .map(toPlaceDetails);
+
+  return { status: 200, body: results };
+}
+
+function handleReverse(params: URLSearchParams): { status: number; body: unknown } {
+  const lat = parseFloat(params.get('lat') || '');
+  const lon = parseFloat(params.get('lon') || '');
+
+  if (Number.isNaN(lat) || Number.isNaN(lon)) {
+    return { status: 400, body: { error: { code: 400, message: 'Parameter lat/lon is missing or invalid' } } };
+  }
+
+  let nearest: Element | null = null;
+  let nearestDistance = Infinity;
+  for (const element of elements) {
+    const distance = distanceMeters(lat, lon, element.lat, element.lon);
+    if (distance < nearestDistance) {
+      nearest = element;
+      nearestDistance = distance;
+    }
+  }
+
+  if (nearest && nearestDistance <= REVERSE_SNAP_DISTANCE_M) {
+    return { status: 200, body: { ...toPlaceDetails(nearest), lat: String(lat), lon: String(lon) } };
+  }
+
+  // Outside the extract (with ~5km margin) there's nothing to answer with
+  const margin = 0.05;
+  const insideExtract =
+    lat >= extractBounds.south - margin && lat <= extractBounds.north + margin &&
+    lon >= extractBounds.west - margin && lon <= extractBounds.east + margin;
+  if (!insideExtract) {
+    return { status: 200, body: { error: 'Unable to geocode' } };
+  }
+
+  const address = buildAddress(null);
+  return {
+    status: 200,
+    body: {
+      place_id: 0,
+      licence: LICENCE,
+      lat: String(lat),
+      lon: String(lon),
+      display_name: [address.city, address.county, address.state, address.postcode, address.country].filter(Boolean).join(', '),
+      address,
+    },
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolveBody, reject) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => resolveBody(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+
+  try {
+    if (url.pathname === '/api/interpreter') {
+      let query = url.searchParams.get('data') || '';
+      if (req.method === 'POST') {
+        const body = await readBody(req);
+        query = new URLSearchParams(body).get('data') || body;
+      }
+      const { status, body } = handleOverpassQuery(query);
+      sendJson(res, status, body);
+    } else if (url.pathname === '/lookup') {
+      const { status, body } = handleLookup(url.searchParams);
+      sendJson(res, status, body);
+    } else if (url.pathname === '/reverse') {
+      const { status, body } = handleReverse(url.searchParams);
+      sendJson(res, status, body);
+    } else {
+      sendJson(res, 404, { error: `Unknown endpoint ${url.pathname}` });
+    }
+
+    console.log(`${req.method} ${url.pathname} → ${res.statusCode}`);
+  } catch (error) {
+    console.error('❌ Request failed:', error);
+    sendJson(res, 500, { error: 'Internal stand-in error' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`🗺️  OSM stand-in serving ${elements.length} features from ${extractPath}`);
+  console.log(`   OVERPASS_ENDPOINTS=http://localhost:${port}/api/interpreter`);
+  console.log(`   NOMINATIM_BASE_URL=http://localhost:${port}`);
+});
@@ -0,0 +1,280 @@
+/**
+ * Simulate several serverless instances in one process and check that they
+ * coordinate through a shared store (src/lib/coordination.ts)
+ *
+ * Usage:
+ *   npx tsx scripts/simulate-instances.ts                       # shared in-memory store
+ *   npx tsx scripts/simulate-instances.ts --postgres            # shared Postgres store (section 9 of the schema)
+ *   npx tsx scripts/simulate-instances.ts --instances 8 --requests 80 --keys 5
+ *
+ * Each instance is its own coordinator (own in-flight map) on top of one
+ * store, calling a fake upstream API with latency. Checks:
+ * - Single-flight: concurrent requests for a key call the upstream once
+ * - Token bucket: calls across instances never exceed burst + rate
+ * - Lease expiry: a lock held by a "crashed" instance is taken over
+ * - Lease renewal: work running longer than the lease isn't run twice
+ *
+ * Exits with code 1 if a check fails.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { createClient } from '@supabase/supabase-js';
+import {
+  createCoordinator,
+  createMemoryCoordinationStore,
+  createPostgresCoordinationStore,
+  type CoordinationStore,
+  type Coordinator,
+  type TokenBucketLimit,
+} from '../src/lib/coordination';
+
+// Load environment variables (only needed for --postgres)
+try {
+  const envPath = resolve(process.cwd(), '.env.local');
+  const envContent = readFileSync(envPath, 'utf-8');
+  envContent.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=');
+      if (key && valueParts.length > 0) {
+        const value = valueParts.join('=').replace(/^["']|["']$/g, '');
+        process.env[key.trim()] = value.trim();
+      }
+    }
+  });
+} catch {
+  // The in-memory simulation doesn't need any environment variables
+}
+
+function createScriptClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  // The coordination tables and functions are closed to the anon key
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing Supabase environment variables (NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+function getOption(args: string[], option: string, fallback: number): number {
+  const index = args.indexOf(option);
+  const value = index >= 0 ? parseInt(args[index + 1]) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+type CheckResult = { name: string; passed: boolean; detail: string };
+
+/**
+ * Fire concurrent requests for a few keys across all instances
+ * The "cache" is shared like the real cache table; the upstream counts calls
+ */
+async function checkSingleFlight({
+  instances,
+  runId,
+  requests,
+  keys,
+  latencyMs,
+}: {
+  instances: Coordinator[];
+  runId: string;
+  requests: number;
+  keys: number;
+  latencyMs: number;
+}): Promise<CheckResult> {
+  const cache = new Map<string, string>();
+  const upstreamCalls = new Map<string, number>();
+
+  const callUpstream = async (key: string) => {
+    upstreamCalls.set(key, (upstreamCalls.get(key) ?? 0) + 1);
+    await sleep(latencyMs);
+    const value = `result for ${key}`;
+    cache.set(key, value);
+    return value;
+  };
+
+  const results = await Promise.all(
+    Array.from({ length: requests }, (_, index) => {
+      const instance = instances[index % instances.length];
+      const key = `${runId}:gemini:key-${index % keys}`;
+      return instance.singleFlight(
+        key,
+        async () => cache.get(key) ?? callUpstream(key),
+        { peek: async () => cache.get(key) },
+      );
+    }),
+  );
+
+  const duplicated = Array.from(upstreamCalls.entries()).filter(([, calls]) => calls > 1);
+  const missing = results.filter((result) => !result).length;
+  return {
+    name: 'Single-flight',
+    passed: duplicated.length === 0 && upstreamCalls.size === keys && missing === 0,
+    detail: `${requests} requests for ${keys} keys on ${instances.length} instances → ${Array.from(upstreamCalls.values()).reduce((sum, calls) => sum + calls, 0)} upstream calls` +
+      (duplicated.length > 0 ? ` (duplicated: ${duplicated.map(([key, calls]) => `${key} ×${calls}`).join(', ')})` : ''),
+  };
+}
+
+/**
+ * Take tokens from one bucket on every instance and compare the grant times
+ * with what the bucket allows (burst up front, then refillPerSecond)
+ */
+async function checkTokenBucket({
+  instances,
+  runId,
+  requests,
+  limit,
+}: {
+  instances: Coordinator[];
+  runId: string;
+  requests: number;
+  limit: TokenBucketLimit;
+}): Promise<CheckResult> {
+  const bucket = `${runId}:api:simulated`;
+  const startedAt = Date.now();
+  const grantedAt: number[] = [];
+
+  await Promise.all(
+    Array.from({ length: requests }, async (_, index) => {
+      const granted = await instances[index % instances.length].waitForToken(bucket, limit);
+      if (granted) {
+        grantedAt.push(Date.now() - startedAt);
+      }
+    }),
+  );
+
+  // Grants by time t can't exceed capacity + t * refillPerSecond (small slack for timers)
+  const sorted = grantedAt.sort((a, b) => a - b);
+  const violations = sorted.filter((elapsedMs, index) =>
+    index + 1 > limit.capacity + ((elapsedMs + 50) / 1000) * limit.refillPerSecond,
+  );
+  const elapsedMs = sorted[sorted.length - 1] ?? 0;
+
+  return {
+    name: 'Token bucket',
+    passed: grantedAt.length === requests && violations.length === 0,
+    detail: `${grantedAt.length}/${requests} tokens in ${(elapsedMs / 1000).toFixed(1)}s ` +
+      `(burst ${limit.capacity}, ${(limit.refillPerSecond * 60).toFixed(0)}/min)` +
+      (violations.length > 0 ? `, ${violations.length} granted too early` : ''),
+  };
+}
+
+/**
+ * A "crashed" instance takes a lock and never releases it;
+ * another instance must run once the lease expires
+ */
+async function checkLeaseExpiry({
+  store,
+  runId,
+  leaseMs,
+}: {
+  store: CoordinationStore;
+  runId: string;
+  leaseMs: number;
+}): Promise<CheckResult> {
+  const key = `${runId}:gemini:crashed`;
+  const survivor = createCoordinator({ store, instanceId: 'survivor', lockLeaseMs: leaseMs, lockPollMs: 100 });
+
+  const crashedLock = await store.acquireLock(key, leaseMs);
+  const startedAt = Date.now();
+  await survivor.singleFlight(key, async () => 'recovered');
+  const waitedMs = Date.now() - startedAt;
+
+  return {
+    name: 'Lease expiry',
+    passed: crashedLock !== null && waitedMs >= leaseMs * 0.9 && waitedMs < leaseMs + 5000,
+    detail: `survivor ran after ${(waitedMs / 1000).toFixed(1)}s (lease ${(leaseMs / 1000).toFixed(1)}s)`,
+  };
+}
+
+/**
+ * One instance runs work for several leases; another instance asking for the
+ * same key must wait for it (renewed lease) instead of running it again
+ */
+async function checkLeaseRenewal({
+  store,
+  runId,
+  leaseMs,
+}: {
+  store: CoordinationStore;
+  runId: string;
+  leaseMs: number;
+}): Promise<CheckResult> {
+  const key = `${runId}:gemini:slow`;
+  const [slow, other] = ['slow', 'other'].map((instanceId) =>
+    createCoordinator({ store, instanceId, lockLeaseMs: leaseMs, lockPollMs: 100 }),
+  );
+
+  let running = 0;
+  let overlapped = false;
+  const work = (durationMs: number) => async () => {
+    running++;
+    overlapped ||= running > 1;
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+    running--;
+    return 'done';
+  };
+
+  const slowRun = slow.singleFlight(key, work(leaseMs * 3));
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  await Promise.all([slowRun, other.singleFlight(key, work(10))]);
+
+  return {
+    name: 'Lease renewal',
+    passed: !overlapped,
+    detail: overlapped
+      ? `second instance ran while the first held the key (lease ${(leaseMs / 1000).toFixed(1)}s)`
+      : `work ran ${((leaseMs * 3) / 1000).toFixed(1)}s on a ${(leaseMs / 1000).toFixed(1)}s lease without a second run`,
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const usePostgres = args.includes('--postgres');
+  const instanceCount = getOption(args, '--instances', 4);
+  const requests = getOption(args, '--requests', 40);
+  const keys = getOption(args, '--keys', 3);
+  const latencyMs = getOption(args, '--latency', 300);
+
+  let store: CoordinationStore;
+  if (usePostgres) {
+    const supabase = createScriptClient();
+    store = createPostgresCoordinationStore({ getClient: async () => supabase });
+  } else {
+    store = createMemoryCoordinationStore();
+  }
+
+  // Keys and buckets are unique per run so runs against Postgres don't interfere
+  const runId = `sim-${Date.now().toString(36)}`;
+  const instances = Array.from({ length: instanceCount }, (_, index) =>
+    createCoordinator({ store, instanceId: `instance-${index + 1}`, lockPollMs: 50 }),
+  );
+
+  console.log(`\n🧪 Simulating ${instanceCount} instances on a shared ${store.id} store (run ${runId})\n`);
+
+  const results = [
+    await checkSingleFlight({ instances, runId, requests, keys, latencyMs }),
+    await checkTokenBucket({ instances, runId, requests: 30, limit: { capacity: 5, refillPerSecond: 10 } }),
+    await checkLeaseExpiry({ store, runId, leaseMs: 1500 }),
+    await checkLeaseRenewal({ store, runId, leaseMs: 1500 }),
+  ];
+
+  for (const result of results) {
+    console.log(`${result.passed ? '✅' : '❌'} ${result.name.padEnd(14)} ${result.detail}`);
+  }
+
+  if (results.some((result) => !result.passed)) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Simulation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/contexts/auth-context";
+import { fetchImageLinkRotReport, fetchPlaygroundImageRanking } from "@/lib/api/client";
+import type { ImageLinkRotReport } from "@/lib/image-health";
+import type { PlaygroundImageRanking } from "@/lib/image-ranking";
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function ImageHealthPage() {
+  const { user, isAdmin, isLoading } = useAuth();
+  const router = useRouter();
+
+  const [report, setReport] = useState<ImageLinkRotReport | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+
+  const [osmId, setOsmId] = useState("");
+  const [ranking, setRanking] = useState<PlaygroundImageRanking | null>(null);
+  const [isFetchingRanking, setIsFetchingRanking] = useState(false);
+  const [rankingError, setRankingError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user && !isLoading) {
+      router.push("/");
+    }
+  }, [user, isLoading, router]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const controller = new AbortController();
+    setIsFetching(true);
+    fetchImageLinkRotReport({ signal: controller.signal }).then((result) => {
+      if (controller.signal.aborted) return;
+      setReport(result);
+      setIsFetching(false);
+    });
+
+    return () => controller.abort();
+  }, [isAdmin]);
+
+  const handleRankingSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!osmId.trim()) return;
+
+    setIsFetchingRanking(true);
+    setRankingError(null);
+    const result = await fetchPlaygroundImageRanking({ osmId: osmId.trim() });
+    setRanking(result);
+    setRankingError(result ? null : "The images could not be loaded.");
+    setIsFetchingRanking(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-4">
+        <p className="text-muted-foreground">This page is for administrators only.</p>
+      </div>
+    );
+  }
+
+  const suggested = report?.domains.filter((domain) => domain.isSuggested) ?? [];
+
+  return (
+    <div className="mx-auto flex w-full max-w-3xl flex-1 flex-col gap-4 p-4">
+      <div>
+        <h1 className="text-2xl font-bold">Image Health</h1>
+        <p className="text-muted-foreground text-sm">
+          Link rot per image domain from the latest check of every cached image. Domains that rot often are
+          candidates for <code>EXCLUDED_DOMAINS</code> in <code>src/lib/google-image-search.ts</code>.
+        </p>
+      </div>
+
+      {isFetching ? (
+        <p className="text-muted-foreground">Loading report...</p>
+      ) : !report ? (
+        <p className="text-muted-foreground">The report could not be loaded.</p>
+      ) : report.checked === 0 ? (
+        <p className="text-muted-foreground">No images checked yet.</p>
+      ) : (
+        <>
+          <p className="text-sm">
+            {report.checked} images checked · {report.broken} broken · {report.unreachable} unreachable (
+            {formatPercent((report.broken + report.unreachable) / report.checked)} link rot)
+          </p>
+
+          {suggested.length > 0 && (
+            <p className="text-sm">
+              Suggested exclusions: {suggested.map((domain) => `'${domain.domain}'`).join(", ")}
+            </p>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="py-1 font-medium">Domain</th>
+                <th className="py-1 font-medium">Checked</th>
+                <th className="py-1 font-medium">Broken</th>
+                <th className="py-1 font-medium">Unreachable</th>
+                <th className="py-1 font-medium">Link rot</th>
+                <th className="py-1 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {report.domains.map((domain) => (
+                <tr key={domain.domain} className="border-t">
+                  <td className="py-1 font-medium break-all">{domain.domain}</td>
+                  <td className="py-1">{domain.checked}</td>
+                  <td className="py-1">{domain.broken}</td>
+                  <td className="py-1">{domain.unreachable}</td>
+                  <td className={domain.isSuggested ? "py-1 font-semibold" : "py-1"}>
+                    {formatPercent(domain.rotRate)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {domain.isExcluded ? (
+                      <Badge variant="outline">Excluded</Badge>
+                    ) : domain.isSuggested ? (
+                      <Badge variant="destructive">Exclude?</Badge>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <div>
+        <h2 className="text-lg font-semibold">Image ranking</h2>
+        <p className="text-muted-foreground text-sm">
+          Why a playground&apos;s cached images were picked, best first. Near-duplicates are collapsed into the
+          image that was kept.
+        </p>
+      </div>
+
+      <form onSubmit={handleRankingSubmit} className="flex gap-2">
+        <Input
+          value={osmId}
+          onChange={(event) => setOsmId(event.target.value)}
+          placeholder="OSM ID (e.g. W38898763)"
+          aria-label="OSM ID"
+        />
+        <Button type="submit" disabled={isFetchingRanking || !osmId.trim()}>
+          {isFetchingRanking ? "Loading..." : "Explain"}
+        </Button>
+      </form>
+
+      {rankingError && <p className="text-muted-foreground">{rankingError}</p>}
+
+      {ranking && (
+        <>
+          <p className="text-muted-foreground text-sm">
+            {ranking.cacheKey} · weights: relevance {ranking.config.weights.relevance}, resolution{" "}
+            {ranking.config.weights.resolution}, orientation {ranking.config.weights.orientation}, watermark{" "}
+            {ranking.config.weights.watermark} · same-domain penalty {ranking.config.diversityPenalty} · duplicates
+            within {ranking.config.duplicateMaxDistance} bits
+          </p>
+
+          {ranking.images.length === 0 ? (
+            <p className="text-muted-foreground">No cached images.</p>
+          ) : (
+            ranking.images.map((image, index) => (
+              <Card key={image.image_url}>
+                <CardHeader className="gap-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex min-w-0 gap-3">
+                      <Image
+                        src={image.thumbnail_url ?? image.image_url}
+                        alt={image.title || `Image ${index + 1}`}
+                        width={96}
+                        height={64}
+                        className="h-16 w-24 shrink-0 rounded object-cover"
+                        unoptimized={true}
+                      />
+                      <div className="min-w-0">
+                        <h3 className="truncate font-semibold">{image.title || `Image ${index + 1}`}</h3>
+                        <p className="text-muted-foreground truncate text-sm">{image.source_url ?? image.image_url}</p>
+                        <p className="text-muted-foreground truncate text-xs">
+                          {image.provider ?? "google"} ·{" "}
+                          {image.license
+                            ? `${image.license.name}${image.license.attribution ? ` (${image.license.attribution})` : ""}`
+                            : "Licence unknown"}
+                        </p>
+                      </div>
+                    </div>
+                    <Badge variant="outline" className="shrink-0">
+                      {image.ranking ? image.ranking.score : "Not ranked"}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                {image.ranking && (
+                  <CardContent className="flex flex-col gap-2 text-sm">
+                    <p>
+                      Relevance {image.ranking.relevance} · Resolution {image.ranking.resolution} · Orientation{" "}
+                      {image.ranking.orientation} · Watermark {image.ranking.watermark}
+                      {image.ranking.diversityPenalty > 0 && ` · −${image.ranking.diversityPenalty} same domain`}
+                    </p>
+                    <ul className="text-muted-foreground list-disc pl-5">
+                      {image.ranking.reasons.map((reason) => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                    {image.ranking.duplicates && (
+                      <div className="text-muted-foreground">
+                        Near-duplicates:
+                        <ul className="list-disc pl-5">
+                          {image.ranking.duplicates.map((url) => (
+                            <li key={url} className="break-all">
+                              {url}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </CardContent>
+                )}
+              </Card>
+            ))
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { UserPhotoReviewCard } from "@/components/user-photo-review-card";
+import { useAuth } from "@/contexts/auth-context";
+import { fetchUserPhotos } from "@/lib/api/client";
+import type { UserPhoto, UserPhotoStatus } from "@/lib/user-photos";
+
+const STATUS_TABS: { status: UserPhotoStatus; label: string }[] = [
+  { status: "pending", label: "Pending" },
+  { status: "approved", label: "Approved" },
+  { status: "rejected", label: "Rejected" },
+];
+
+export default function PhotosPage() {
+  const { user, isAdmin, isLoading } = useAuth();
+  const router = useRouter();
+
+  const [status, setStatus] = useState<UserPhotoStatus>("pending");
+  const [photos, setPhotos] = useState<UserPhoto[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+
+  useEffect(() => {
+    if (!user && !isLoading) {
+      router.push("/");
+    }
+  }, [user, isLoading, router]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const controller = new AbortController();
+    setIsFetching(true);
+    fetchUserPhotos({ status, signal: controller.signal }).then((result) => {
+      if (controller.signal.aborted) return;
+      setPhotos(result);
+      setIsFetching(false);
+    });
+
+    return () => controller.abort();
+  }, [isAdmin, status]);
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-4">
+        <p className="text-muted-foreground">This page is for administrators only.</p>
+      </div>
+    );
+  }
+
+  // Decided photos leave the current list
+  const handleUpdated = (updated: UserPhoto) => {
+    setPhotos((current) =>
+      updated.status === status
+        ? current.map((photo) => (photo.id === updated.id ? updated : photo))
+        : current.filter((photo) => photo.id !== updated.id),
+    );
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-3xl flex-1 flex-col gap-4 p-4">
+      <div>
+        <h1 className="text-2xl font-bold">Photo Moderation</h1>
+        <p className="text-muted-foreground text-sm">
+          Photos uploaded by visitors. Approved photos are shown ahead of search-engine images; pending
+          ones are only visible to their uploader and administrators.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {STATUS_TABS.map((tab) => (
+          <Button
+            key={tab.status}
+            variant={tab.status === status ? "default" : "outline"}
+            size="sm"
+            onClick={() => setStatus(tab.status)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      {isFetching ? (
+        <p className="text-muted-foreground">Loading photos...</p>
+      ) : photos.length === 0 ? (
+        <p className="text-muted-foreground">No {status} photos.</p>
+      ) : (
+        photos.map((photo) => (
+          <UserPhotoReviewCard key={photo.id} photo={photo} onUpdated={handleUpdated} />
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { InsightsReviewCard } from "@/components/insights-review-card";
+import { useAuth } from "@/contexts/auth-context";
+import { fetchInsightsReviews } from "@/lib/api/client";
+import type { InsightsReview, InsightsReviewStatus } from "@/lib/insights-review";
+
+const STATUS_TABS: { status: InsightsReviewStatus; label: string }[] = [
+  { status: "pending", label: "Pending" },
+  { status: "approved", label: "Approved" },
+  { status: "rejected", label: "Rejected" },
+];
+
+export default function ReviewsPage() {
+  const { user, isAdmin, isLoading } = useAuth();
+  const router = useRouter();
+
+  const [status, setStatus] = useState<InsightsReviewStatus>("pending");
+  const [reviews, setReviews] = useState<InsightsReview[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+
+  useEffect(() => {
+    if (!user && !isLoading) {
+      router.push("/");
+    }
+  }, [user, isLoading, router]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const controller = new AbortController();
+    setIsFetching(true);
+    fetchInsightsReviews({ status, signal: controller.signal }).then((result) => {
+      if (controller.signal.aborted) return;
+      setReviews(result);
+      setIsFetching(false);
+    });
+
+    return () => controller.abort();
+  }, [isAdmin, status]);
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-4">
+        <p className="text-muted-foreground">This page is for administrators only.</p>
+      </div>
+    );
+  }
+
+  // Decided reviews leave the pending list
+  const handleUpdated = (updated: InsightsReview) => {
+    setReviews((current) =>
+      updated.status === status
+        ? current.map((review) => (review.id === updated.id ? updated : review))
+        : current.filter((review) => review.id !== updated.id),
+    );
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-3xl flex-1 flex-col gap-4 p-4">
+      <div>
+        <h1 className="text-2xl font-bold">Review Queue</h1>
+        <p className="text-muted-foreground text-sm">
+          AI results that passed validation but scored too low to cache. Pending results are shown to
+          visitors until they are approved or rejected.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {STATUS_TABS.map((tab) => (
+          <Button
+            key={tab.status}
+            variant={tab.status === status ? "default" : "outline"}
+            size="sm"
+            onClick={() => setStatus(tab.status)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      {isFetching ? (
+        <p className="text-muted-foreground">Loading reviews...</p>
+      ) : reviews.length === 0 ? (
+        <p className="text-muted-foreground">No {status} reviews.</p>
+      ) : (
+        reviews.map((review) => (
+          <InsightsReviewCard key={review.id} review={review} onUpdated={handleUpdated} />
+        ))
+      )}
+    </div>
+  );
+}
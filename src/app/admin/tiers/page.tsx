@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { useAuth } from "@/contexts/auth-context";
+import { fetchTierReport } from "@/lib/api/client";
+import { formatEnumString } from "@/lib/utils";
+import type { PlaygroundTier } from "@/lib/tier-calculator";
+import type { TierReport } from "@/lib/tier-report";
+
+const TIERS: PlaygroundTier[] = ["neighborhood", "gem", "star"];
+
+export default function TiersPage() {
+  const { user, isAdmin, isLoading } = useAuth();
+  const router = useRouter();
+
+  const [report, setReport] = useState<TierReport | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+
+  useEffect(() => {
+    if (!user && !isLoading) {
+      router.push("/");
+    }
+  }, [user, isLoading, router]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const controller = new AbortController();
+    setIsFetching(true);
+    fetchTierReport({ signal: controller.signal }).then((result) => {
+      if (controller.signal.aborted) return;
+      setReport(result);
+      setIsFetching(false);
+    });
+
+    return () => controller.abort();
+  }, [isAdmin]);
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-4">
+        <p className="text-muted-foreground">This page is for administrators only.</p>
+      </div>
+    );
+  }
+
+  const compared = report ? report.total - report.withoutModelTier : 0;
+
+  return (
+    <div className="mx-auto flex w-full max-w-3xl flex-1 flex-col gap-4 p-4">
+      <div>
+        <h1 className="text-2xl font-bold">Tier Report</h1>
+        <p className="text-muted-foreground text-sm">
+          Gemini&apos;s tier compared with the points-based calculated tier for recently cached playgrounds.
+          The stored tier is a weighted blend of both.
+        </p>
+      </div>
+
+      {isFetching ? (
+        <p className="text-muted-foreground">Loading report...</p>
+      ) : !report ? (
+        <p className="text-muted-foreground">The report could not be loaded.</p>
+      ) : (
+        <>
+          <p className="text-sm">
+            {report.agreements} of {compared} agree
+            {compared > 0 && ` (${Math.round((report.agreements / compared) * 100)}%)`}
+            {report.withoutModelTier > 0 && ` · ${report.withoutModelTier} without a Gemini tier`}
+          </p>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="py-1 font-medium">Gemini ↓ / Calculated →</th>
+                {TIERS.map((tier) => (
+                  <th key={tier} className="py-1 font-medium">
+                    {formatEnumString(tier)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {TIERS.map((modelTier) => (
+                <tr key={modelTier} className="border-t">
+                  <td className="py-1 font-medium">{formatEnumString(modelTier)}</td>
+                  {TIERS.map((tier) => (
+                    <td key={tier} className={modelTier === tier ? "py-1 font-semibold" : "py-1"}>
+                      {report.matrix[modelTier][tier]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {report.disagreements.length === 0 ? (
+            <p className="text-muted-foreground">No disagreements.</p>
+          ) : (
+            report.disagreements.map((entry) => (
+              <Card key={entry.cacheKey}>
+                <CardHeader className="gap-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h2 className="text-lg font-semibold">{entry.name || "Unnamed"}</h2>
+                      <p className="text-muted-foreground text-sm">{entry.cacheKey}</p>
+                    </div>
+                    <Badge variant="outline" className="shrink-0">
+                      {entry.tier ? formatEnumString(entry.tier) : "No tier"} · {entry.tierScore.score}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-2 text-sm">
+                  <p>
+                    Gemini: {formatEnumString(entry.tierScore.model_tier || "none")} · Calculated:{" "}
+                    {formatEnumString(entry.tierScore.calculated_tier)} ({entry.tierScore.calculated_score} points)
+                  </p>
+                  {entry.tierScore.reasons.length > 0 && (
+                    <ul className="text-muted-foreground list-disc pl-5">
+                      {entry.tierScore.reasons.map((reason) => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { useAuth } from "@/contexts/auth-context";
+import { fetchApiUsageReport } from "@/lib/api/client";
+import { formatEnumString } from "@/lib/utils";
+import type { ApiUsageReport } from "@/lib/api-usage";
+
+const REPORT_DAYS = 30;
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value < 10 ? 3 : 2)}`;
+}
+
+function formatHitRatio({ cacheHits, cacheMisses }: { cacheHits: number; cacheMisses: number }): string {
+  const lookups = cacheHits + cacheMisses;
+  return lookups > 0 ? `${Math.round((cacheHits / lookups) * 100)}%` : "–";
+}
+
+export default function UsagePage() {
+  const { user, isAdmin, isLoading } = useAuth();
+  const router = useRouter();
+
+  const [report, setReport] = useState<ApiUsageReport | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+
+  useEffect(() => {
+    if (!user && !isLoading) {
+      router.push("/");
+    }
+  }, [user, isLoading, router]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const controller = new AbortController();
+    setIsFetching(true);
+    fetchApiUsageReport({ days: REPORT_DAYS, signal: controller.signal }).then((result) => {
+      if (controller.signal.aborted) return;
+      setReport(result);
+      setIsFetching(false);
+    });
+
+    return () => controller.abort();
+  }, [isAdmin]);
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-4">
+        <p className="text-muted-foreground">This page is for administrators only.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto flex w-full max-w-3xl flex-1 flex-col gap-4 p-4">
+      <div>
+        <h1 className="text-2xl font-bold">API Usage</h1>
+        <p className="text-muted-foreground text-sm">
+          Estimated Gemini and Custom Search spend over the last {REPORT_DAYS} days (UTC). Once a budget is
+          exhausted, only cached results are served until it resets.
+        </p>
+      </div>
+
+      {isFetching ? (
+        <p className="text-muted-foreground">Loading report...</p>
+      ) : !report ? (
+        <p className="text-muted-foreground">The report could not be loaded.</p>
+      ) : (
+        <>
+          <p className="text-sm">
+            {formatUsd(report.totalCostUsd)} across {report.calls} calls · cache hit ratio {formatHitRatio(report)}
+          </p>
+
+          {report.budgets.map((budget) => (
+            <Card key={budget.service}>
+              <CardHeader className="gap-1">
+                <div className="flex items-start justify-between gap-2">
+                  <h2 className="text-lg font-semibold">{formatEnumString(budget.service)}</h2>
+                  <Badge variant={budget.exhausted ? "destructive" : "outline"} className="shrink-0">
+                    {budget.exhausted ? "Cache only" : "Active"}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="flex flex-col gap-1 text-sm">
+                <p>
+                  Today: {formatUsd(budget.dailySpentUsd)}
+                  {budget.dailyLimitUsd !== null ? ` of ${formatUsd(budget.dailyLimitUsd)}` : " (no daily budget)"}
+                </p>
+                <p>
+                  This month: {formatUsd(budget.monthlySpentUsd)}
+                  {budget.monthlyLimitUsd !== null
+                    ? ` of ${formatUsd(budget.monthlyLimitUsd)}`
+                    : " (no monthly budget)"}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+
+          <h2 className="text-lg font-semibold">By service</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="py-1 font-medium">Service</th>
+                <th className="py-1 font-medium">Cost</th>
+                <th className="py-1 font-medium">Calls</th>
+                <th className="py-1 font-medium">Errors</th>
+                <th className="py-1 font-medium">Avg latency</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.services.map((service) => (
+                <tr key={service.service} className="border-t">
+                  <td className="py-1 font-medium">{formatEnumString(service.service)}</td>
+                  <td className="py-1">{formatUsd(service.costUsd)}</td>
+                  <td className="py-1">{service.calls}</td>
+                  <td className="py-1">{service.errors}</td>
+                  <td className="py-1">{service.avgLatencyMs !== null ? `${service.avgLatencyMs} ms` : "–"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h2 className="text-lg font-semibold">By route</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="py-1 font-medium">Route</th>
+                <th className="py-1 font-medium">Cost</th>
+                <th className="py-1 font-medium">Calls</th>
+                <th className="py-1 font-medium">Cache hits</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.routes.map((route) => (
+                <tr key={route.route} className="border-t">
+                  <td className="py-1 font-medium">{route.route}</td>
+                  <td className="py-1">{formatUsd(route.costUsd)}</td>
+                  <td className="py-1">{route.calls}</td>
+                  <td className="py-1">{formatHitRatio(route)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h2 className="text-lg font-semibold">By day</h2>
+          {report.days.length === 0 ? (
+            <p className="text-muted-foreground">No usage recorded.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground text-left">
+                  <th className="py-1 font-medium">Day</th>
+                  <th className="py-1 font-medium">Cost</th>
+                  <th className="py-1 font-medium">Calls</th>
+                  <th className="py-1 font-medium">Cache hits</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...report.days].reverse().map((day) => (
+                  <tr key={day.day} className="border-t">
+                    <td className="py-1 font-medium">{day.day}</td>
+                    <td className="py-1">{formatUsd(day.costUsd)}</td>
+                    <td className="py-1">{day.calls}</td>
+                    <td className="py-1">{formatHitRatio(day)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminUser } from "@/lib/admin";
+import { fetchImageLinkRotReport } from "@/lib/image-health";
+
+/**
+ * Image link rot per domain from the health sweeper's checks (admins only)
+ * GET /api/admin/image-health?minChecks=1
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const minChecks = Math.max(parseInt(searchParams.get("minChecks") || "1") || 1, 1);
+
+  const report = await fetchImageLinkRotReport({ minChecks });
+  if (!report) {
+    return NextResponse.json({ error: "Failed to build image health report" }, { status: 500 });
+  }
+
+  return NextResponse.json({ report });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminUser } from "@/lib/admin";
+import { buildImagesCacheKey } from "@/lib/cache-keys";
+import { getImageRankingConfig } from "@/lib/image-ranking";
+import { fetchImagesFromCache } from "@/lib/images";
+import { parseOsmIdentifier } from "@/lib/utils";
+
+/**
+ * A playground's cached images with their ranking breakdown (admins only)
+ * GET /api/admin/image-ranking?osmId=N123456
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const osmId = parseOsmIdentifier(request.nextUrl.searchParams.get("osmId")?.trim().toUpperCase() || "");
+  if (!/^[NWR]\d+$/.test(osmId)) {
+    return NextResponse.json({ error: "Expected an OSM ID like N123456" }, { status: 400 });
+  }
+
+  const cacheKey = buildImagesCacheKey({ osmId });
+  const images = await fetchImagesFromCache({ cacheKey });
+
+  return NextResponse.json({
+    ranking: { cacheKey, images: images ?? [], config: getImageRankingConfig() },
+  });
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminUser } from "@/lib/admin";
+import {
+  approveInsightsReview,
+  editInsightsReview,
+  parseInsightsReviewEdits,
+  rejectInsightsReview,
+} from "@/lib/insights-review";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Decide on a pending review (admins only)
+ * POST /api/admin/reviews/{id}
+ * - { action: "approve", edits? } - promote to the insights cache
+ * - { action: "edit", edits } - keep pending, serve the edited result
+ * - { action: "reject", reason } - stop serving it; the reason feeds the eval dataset
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const { id: idParam } = await context.params;
+    const id = Number(idParam);
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({ error: "Invalid review id" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const reviewedBy = admin.email || admin.id;
+
+    if (body.action === "reject") {
+      if (typeof body.reason !== "string" || !body.reason.trim()) {
+        return NextResponse.json({ error: "A rejection reason is required" }, { status: 400 });
+      }
+
+      const review = await rejectInsightsReview({ id, reason: body.reason, reviewedBy });
+      return review
+        ? NextResponse.json({ review })
+        : NextResponse.json({ error: "Review not found or already decided" }, { status: 404 });
+    }
+
+    if (body.action !== "approve" && body.action !== "edit") {
+      return NextResponse.json(
+        { error: "Invalid action, expected approve, edit or reject" },
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseInsightsReviewEdits(body.edits);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: `Invalid edits: ${parsed.error}` }, { status: 400 });
+    }
+
+    const review = body.action === "approve"
+      ? await approveInsightsReview({ id, edits: parsed.edits, reviewedBy })
+      : await editInsightsReview({ id, edits: parsed.edits });
+
+    return review
+      ? NextResponse.json({ review })
+      : NextResponse.json({ error: "Review not found or already decided" }, { status: 404 });
+  } catch (error) {
+    console.error("[API /admin/reviews] ❌ Error updating review:", error);
+    return NextResponse.json({ error: "Failed to update review" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminUser } from "@/lib/admin";
+import { listInsightsReviews, type InsightsReviewStatus } from "@/lib/insights-review";
+
+const REVIEW_STATUSES: InsightsReviewStatus[] = ["pending", "approved", "rejected"];
+
+const MAX_REVIEWS_LIMIT = 200;
+
+/**
+ * Review queue for borderline AI results (admins only)
+ * GET /api/admin/reviews?status=pending&limit=50
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const status = (searchParams.get("status") || "pending") as InsightsReviewStatus;
+  if (!REVIEW_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `Invalid status, expected one of: ${REVIEW_STATUSES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1), MAX_REVIEWS_LIMIT);
+
+  const reviews = await listInsightsReviews({ status, limit });
+  return NextResponse.json({ reviews });
+}
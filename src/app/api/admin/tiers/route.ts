@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminUser } from "@/lib/admin";
+import { fetchTierReport } from "@/lib/tier-report";
+
+const MAX_REPORT_LIMIT = 5000;
+
+/**
+ * Gemini vs calculated tier disagreements across cached insights (admins only)
+ * GET /api/admin/tiers?limit=1000
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "1000") || 1000, 1), MAX_REPORT_LIMIT);
+
+  const report = await fetchTierReport({ limit });
+  if (!report) {
+    return NextResponse.json({ error: "Failed to build tier report" }, { status: 500 });
+  }
+
+  return NextResponse.json({ report });
+}
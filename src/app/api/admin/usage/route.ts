@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminUser } from "@/lib/admin";
+import { fetchApiUsageReport } from "@/lib/api-usage";
+
+const MAX_REPORT_DAYS = 90;
+
+/**
+ * Gemini and Custom Search spend by day, route and service, with budgets (admins only)
+ * GET /api/admin/usage?days=30
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const days = Math.min(Math.max(parseInt(searchParams.get("days") || "30") || 30, 1), MAX_REPORT_DAYS);
+
+  const report = await fetchApiUsageReport({ days });
+  if (!report) {
+    return NextResponse.json({ error: "Failed to build usage report" }, { status: 500 });
+  }
+
+  return NextResponse.json({ report });
+}
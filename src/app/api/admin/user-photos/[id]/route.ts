@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminUser } from "@/lib/admin";
+import { approveUserPhoto, isUserPhotoId, rejectUserPhoto } from "@/lib/user-photos";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Decide on a user-uploaded photo (admins only)
+ * POST /api/admin/user-photos/{id}
+ * - { action: "approve" } - show a pending photo ahead of search-engine images
+ * - { action: "reject", reason? } - reject a pending photo or take down an approved one
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const { id } = await context.params;
+    if (!isUserPhotoId(id)) {
+      return NextResponse.json({ error: "Invalid photo id" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const reviewedBy = admin.email || admin.id;
+
+    if (body.action !== "approve" && body.action !== "reject") {
+      return NextResponse.json({ error: "Invalid action, expected approve or reject" }, { status: 400 });
+    }
+    if (body.reason !== undefined && typeof body.reason !== "string") {
+      return NextResponse.json({ error: "Invalid reason" }, { status: 400 });
+    }
+
+    const photo = body.action === "approve"
+      ? await approveUserPhoto({ id, reviewedBy })
+      : await rejectUserPhoto({ id, reason: body.reason, reviewedBy });
+
+    return photo
+      ? NextResponse.json({ photo })
+      : NextResponse.json({ error: "Photo not found or already decided" }, { status: 404 });
+  } catch (error) {
+    console.error("[API /admin/user-photos] ❌ Error updating photo:", error);
+    return NextResponse.json({ error: "Failed to update photo" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminUser } from "@/lib/admin";
+import { listUserPhotos, type UserPhotoStatus } from "@/lib/user-photos";
+
+const PHOTO_STATUSES: UserPhotoStatus[] = ["pending", "approved", "rejected"];
+
+const MAX_PHOTOS_LIMIT = 200;
+
+/**
+ * Moderation queue for user-uploaded photos (admins only)
+ * GET /api/admin/user-photos?status=pending&limit=50
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const status = (searchParams.get("status") || "pending") as UserPhotoStatus;
+  if (!PHOTO_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `Invalid status, expected one of: ${PHOTO_STATUSES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1), MAX_PHOTOS_LIMIT);
+
+  const photos = await listUserPhotos({ status, limit });
+  return NextResponse.json({ photos });
+}
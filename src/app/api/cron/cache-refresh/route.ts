@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueInsightsRefreshJobs } from "@/lib/enrichment-queue";
+
+/**
+ * Cache refresh sweeper (scheduled via vercel.json crons)
+ * Enqueues low priority refresh jobs for the most-viewed AI insights that are
+ * stale or about to be; the enrichment worker cron processes them.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const enqueued = await enqueueInsightsRefreshJobs({
+      limit: parseInt(process.env.AI_INSIGHTS_REFRESH_BATCH_LIMIT || "50"),
+    });
+
+    if (enqueued > 0) {
+      console.log(`[API /cron/cache-refresh] ✅ Enqueued ${enqueued} refresh jobs`);
+    }
+
+    return NextResponse.json({ enqueued });
+  } catch (error) {
+    console.error("[API /cron/cache-refresh] ❌ Sweep failed:", error);
+    return NextResponse.json(
+      { error: "Cache refresh sweep failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInsightsProvider } from "@/lib/insights-providers";
+import { processEnrichmentJobs } from "@/lib/enrichment-queue";
+
+// Leave headroom below the platform limit for the final lease updates
+export const maxDuration = 60;
+
+/**
+ * Enrichment queue worker (scheduled via vercel.json crons)
+ * Drains due jobs: retries after backoff, expired leases and anything the
+ * per-request after() hooks didn't get to.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await processEnrichmentJobs({
+      limit: parseInt(process.env.ENRICHMENT_WORKER_BATCH_LIMIT || "25"),
+      maxDurationMs: 50000,
+      provider: getInsightsProvider(),
+      route: "/api/cron/enrichment-worker",
+    });
+
+    if (summary.leased > 0) {
+      console.log(
+        `[API /cron/enrichment-worker] ✅ Processed ${summary.leased} jobs (${summary.completed} completed, ${summary.retried} retrying, ${summary.failed} failed)`,
+      );
+    }
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("[API /cron/enrichment-worker] ❌ Worker run failed:", error);
+    return NextResponse.json(
+      { error: "Enrichment worker failed" },
+      { status: 500 },
+    );
+  }
+}
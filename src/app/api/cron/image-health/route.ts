@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sweepImageHealth } from "@/lib/image-health";
+
+// Leave headroom below the platform limit for the last entry's checks
+export const maxDuration = 60;
+
+/**
+ * Image health sweeper (scheduled via vercel.json crons)
+ * Checks the cached image URLs of the entries due for a check, drops broken
+ * images and searches again for playgrounds left with too few.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await sweepImageHealth({
+      limit: parseInt(process.env.IMAGE_HEALTH_BATCH_LIMIT || "25"),
+      maxDurationMs: 40000,
+      route: "/api/cron/image-health",
+    });
+
+    if (summary.entries > 0) {
+      console.log(
+        `[API /cron/image-health] ✅ Checked ${summary.checked} images in ${summary.entries} entries (${summary.broken} broken, ${summary.unreachable} unreachable, ${summary.dropped} dropped, ${summary.repaired}/${summary.repairs} repaired)`,
+      );
+    }
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("[API /cron/image-health] ❌ Sweep failed:", error);
+    return NextResponse.json(
+      { error: "Image health sweep failed" },
+      { status: 500 },
+    );
+  }
+}
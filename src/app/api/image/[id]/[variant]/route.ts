@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProxiedImageVariant, isImageVariant, isProxiedImageId } from "@/lib/image-proxy";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    variant: string; // "thumbnail" | "card" | "full"
+  }>;
+}
+
+export const runtime = "nodejs";
+
+// Variants never change for an ID (it's a hash of the original URL)
+const IMAGE_CACHE_CONTROL = "public, max-age=31536000, immutable";
+// Missing images may be retried later (or re-registered by an image refresh)
+const MISSING_IMAGE_CACHE_CONTROL = "public, max-age=3600";
+
+/**
+ * Proxied playground image, stored as WebP (see src/lib/image-proxy.ts)
+ * GET /api/image/{id}/{thumbnail|card|full}
+ * The original is fetched and resized on the first request if it isn't stored yet
+ */
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const { id, variant } = await context.params;
+
+    if (!isProxiedImageId(id) || !isImageVariant(variant)) {
+      return NextResponse.json({ error: "Invalid image" }, { status: 400 });
+    }
+
+    const image = await getProxiedImageVariant({ id, variant });
+
+    if (!image) {
+      return NextResponse.json(
+        { error: "Image not found" },
+        { status: 404, headers: { "Cache-Control": MISSING_IMAGE_CACHE_CONTROL } },
+      );
+    }
+
+    return new Response(new Uint8Array(image), {
+      headers: {
+        "Content-Type": "image/webp",
+        "Content-Length": String(image.byteLength),
+        "Cache-Control": IMAGE_CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error("[API /image] ❌ Error serving image:", error);
+    return NextResponse.json({ error: "Failed to serve image" }, { status: 500 });
+  }
+}
@@ -12,11 +12,13 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { playgroundName, city, region, country, osmId, imageSearchQueries } = body as {
+    const { playgroundName, city, region, country, lat, lon, osmId, imageSearchQueries } = body as {
       playgroundName: string;
       city?: string;
       region?: string;
       country?: string;
+      lat?: number;
+      lon?: number;
       osmId?: string;
       imageSearchQueries?: string[] | null;
     };
@@ -34,9 +36,12 @@ export async function POST(request: NextRequest) {
       city,
       region,
       country,
+      lat: typeof lat === "number" && Number.isFinite(lat) ? lat : undefined,
+      lon: typeof lon === "number" && Number.isFinite(lon) ? lon : undefined,
       osmId,
       signal,
       imageSearchQueries,
+      usage: { route: "/api/images" },
     });
 
     return NextResponse.json({ images });
@@ -1,7 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
-import { AILocation } from "@/types/ai-insights";
-import { fetchGeminiInsightsBatch } from "@/lib/gemini";
-import { batchReverseGeocode } from "@/lib/osm";
+import { NextRequest, NextResponse, after } from "next/server";
+import { getInsightsProvider } from "@/lib/insights-providers";
+import {
+  processEnrichmentJobs,
+  resolveEnrichmentRequests,
+} from "@/lib/enrichment-queue";
+import { normalizeInsightsLocale } from "@/lib/insights-locale";
 
 export async function POST(
   request: NextRequest,
@@ -21,8 +24,11 @@ export async function POST(
         lon: number;
         name?: string;
         osmId?: string;
+        isDetailView?: boolean;
+        distanceFromCenter?: number;
       }>;
     };
+    const locale = normalizeInsightsLocale(body.locale);
 
     if (!Array.isArray(playgrounds) || playgrounds.length === 0) {
       return NextResponse.json(
@@ -32,6 +38,7 @@ export async function POST(
     }
 
     // Limit to 5 playgrounds per batch request
+    // (use /api/insights-stream for larger sets)
     if (playgrounds.length > 5) {
       return NextResponse.json(
         { error: "Maximum 5 playgrounds per batch request" },
@@ -39,89 +46,46 @@ export async function POST(
       );
     }
 
-    // PERFORMANCE OPTIMIZATION: Try cache-only checks first with osmIds
-    // This saves ~3 seconds of geocoding for cached playgrounds
-    const cacheOnlyRequests = playgrounds.map((pg) => ({
-      playgroundId: pg.id,
-      location: undefined, // No location for cache-only check
-      name: pg.name,
-      osmId: pg.osmId,
-    }));
-
-    const cacheResults = await fetchGeminiInsightsBatch({
-      requests: cacheOnlyRequests,
-      signal,
-      cacheOnly: true, // Only check cache, don't try to fetch from API
+    // Cache hits and finished jobs come back directly; misses are queued
+    // No Nominatim or Gemini calls happen inside the request
+    const resolutions = await resolveEnrichmentRequests({
+      requests: playgrounds.map((pg) => ({
+        playgroundId: pg.id,
+        lat: pg.lat,
+        lon: pg.lon,
+        name: pg.name,
+        osmId: pg.osmId,
+        isDetailView: pg.isDetailView,
+        distanceFromCenter: pg.distanceFromCenter,
+      })),
+      locale,
+      route: "/api/insights-batch",
     });
 
-    // Identify cache misses (playgrounds that need geocoding + full enrichment)
-    const cacheMisses = cacheResults
-      .map((result, index) => ({ result, index }))
-      .filter(({ result }) => result.insights === null)
-      .map(({ index }) => playgrounds[index]);
-
-    // If all cached, return immediately (fast path!)
-    if (cacheMisses.length === 0) {
-      return NextResponse.json({ results: cacheResults });
+    // Start working on the queue right after responding; the cron worker picks
+    // up anything left over (retries, expired leases)
+    const pendingCount = resolutions.filter((r) => r.status === "pending").length;
+    if (pendingCount > 0) {
+      after(async () => {
+        await processEnrichmentJobs({
+          limit: pendingCount,
+          provider: getInsightsProvider(),
+          route: "/api/insights-batch",
+        });
+      });
     }
 
-    // Geocode only the cache misses
-    const coordinates = cacheMisses.map((pg) => ({ lat: pg.lat, lon: pg.lon }));
-    const geocodeResults = await batchReverseGeocode({ coordinates, signal });
-
-    // Build full requests for cache misses
-    const missRequests = cacheMisses
-      .map((pg, index) => {
-        const result = geocodeResults[index];
-        if (!result || !result.data) {
-          return null;
-        }
-
-        // Type cast the nominatim response
-        const address = (result.data as { address?: Record<string, string> }).address;
-
-        const location: AILocation = {
-          latitude: pg.lat,
-          longitude: pg.lon,
-          city: address?.city || address?.town || address?.village,
-          region: address?.state,
-          country: address?.country_code?.toUpperCase() || "US",
-        };
-
-        return {
-          playgroundId: pg.id,
-          location,
-          name: pg.name,
-          osmId: pg.osmId,
-        };
-      })
-      .filter((loc): loc is NonNullable<typeof loc> => loc !== null);
-
-    // Fetch insights for cache misses with full location data
-    // NOTE: Images are NOT fetched here - use src/lib/images.ts instead
-
-    const missResults = await fetchGeminiInsightsBatch({
-      requests: missRequests,
-      signal,
-    });
-
-
-    // Add location data to results
-    const missResultsWithLocation = missResults.map((result, index) => ({
-      ...result,
-      location: missRequests[index]?.location,
-    }));
-
-    // Merge cache hits and API results
-    const missMap = new Map(missResultsWithLocation.map((r) => [r.playgroundId, r]));
-    const results = cacheResults.map((cacheResult) =>
-      missMap.get(cacheResult.playgroundId) || cacheResult
-    );
-
     if (signal?.aborted) {
       return NextResponse.json({ error: "Request aborted" }, { status: 499 });
     }
 
+    const results = resolutions.map(({ playgroundId, insights, status, location }) => ({
+      playgroundId,
+      insights,
+      status,
+      location,
+    }));
+
     return NextResponse.json({ results });
   } catch (error) {
     if (error instanceof DOMException && error.name === "AbortError") {
@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { EnrichmentStreamEvent } from "@/types/enrichment-stream";
+import { getInsightsProvider } from "@/lib/insights-providers";
+import {
+  fetchEnrichmentJobStates,
+  processEnrichmentJobs,
+  resolveEnrichmentRequests,
+  type EnrichmentResolution,
+} from "@/lib/enrichment-queue";
+import { fetchPlaygroundImages } from "@/lib/images";
+import { normalizeInsightsLocale, type InsightsLocale } from "@/lib/insights-locale";
+import { MAX_STREAM_PLAYGROUNDS } from "@/lib/constants";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Stop waiting for queued jobs before the platform timeout (clients re-request the rest)
+const STREAM_MAX_DURATION_MS = 50000;
+// How often queued jobs are checked for completion
+const JOB_POLL_INTERVAL_MS = 1000;
+
+type StreamPlayground = {
+  id: number;
+  lat: number;
+  lon: number;
+  name?: string;
+  osmId?: string;
+  isDetailView?: boolean;
+  distanceFromCenter?: number;
+};
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Stream enrichment results as Server-Sent Events
+ * Cache hits are sent immediately, queued jobs as each one completes and
+ * images (when requested) right after the insights they depend on.
+ * Uses POST + fetch streaming because EventSource can't send the x-app-origin header.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const signal = request.signal;
+
+  if (signal?.aborted) {
+    return NextResponse.json({ error: "Request aborted" }, { status: 499 });
+  }
+
+  let playgrounds: StreamPlayground[];
+  let includeImages = false;
+  let locale: InsightsLocale;
+  try {
+    const body = await request.json();
+    playgrounds = body.playgrounds;
+    includeImages = body.includeImages === true;
+    locale = normalizeInsightsLocale(body.locale);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!Array.isArray(playgrounds) || playgrounds.length === 0) {
+    return NextResponse.json(
+      { error: "Valid playgrounds array is required" },
+      { status: 400 },
+    );
+  }
+
+  if (playgrounds.length > MAX_STREAM_PLAYGROUNDS) {
+    return NextResponse.json(
+      { error: `Maximum ${MAX_STREAM_PLAYGROUNDS} playgrounds per stream request` },
+      { status: 400 },
+    );
+  }
+
+  // Queue work may outlive the stream - keep it running after the response ends
+  let workerRun: Promise<unknown> = Promise.resolve();
+  after(async () => {
+    await workerRun;
+  });
+
+  const encoder = new TextEncoder();
+  const playgroundsById = new Map(playgrounds.map((pg) => [pg.id, pg]));
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = ({ event, data }: EnrichmentStreamEvent) => {
+        if (closed || signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const imageTasks: Promise<void>[] = [];
+
+      // Emit insights and (optionally) start loading images for that playground
+      const emitResolution = (resolution: EnrichmentResolution) => {
+        const { playgroundId, insights, status, location } = resolution;
+        send({ event: "insights", data: { playgroundId, insights, status, location } });
+
+        const playground = playgroundsById.get(playgroundId);
+        const playgroundName = insights?.name || playground?.name;
+        if (!includeImages || status !== "completed" || !insights || !playgroundName) {
+          return;
+        }
+
+        imageTasks.push(
+          fetchPlaygroundImages({
+            playgroundName,
+            city: location?.city,
+            region: location?.region,
+            country: location?.country,
+            lat: playground?.lat,
+            lon: playground?.lon,
+            osmId: playground?.osmId,
+            signal,
+            imageSearchQueries: insights.image_search_queries,
+            usage: { route: "/api/insights-stream" },
+          })
+            .then((images) => {
+              if (images && images.length > 0) {
+                send({ event: "images", data: { playgroundId, images } });
+              }
+            })
+            .catch((error) => {
+              console.error(`[APIInsightsStream] ❌ Error loading images for ${playgroundId}:`, error);
+            }),
+        );
+      };
+
+      try {
+        const resolutions = await resolveEnrichmentRequests({
+          requests: playgrounds.map((pg) => ({
+            playgroundId: pg.id,
+            lat: pg.lat,
+            lon: pg.lon,
+            name: pg.name,
+            osmId: pg.osmId,
+            isDetailView: pg.isDetailView,
+            distanceFromCenter: pg.distanceFromCenter,
+          })),
+          locale,
+          route: "/api/insights-stream",
+        });
+
+        // Cache hits and finished jobs go out immediately
+        const pending = new Map<string, EnrichmentResolution>();
+        for (const resolution of resolutions) {
+          if (resolution.status === "pending") {
+            pending.set(resolution.cacheKey, resolution);
+          } else {
+            emitResolution(resolution);
+          }
+        }
+
+        if (pending.size > 0) {
+          const deadline = Date.now() + STREAM_MAX_DURATION_MS;
+
+          // Work on the queue while we wait; jobs are leased in priority order,
+          // so other workers may finish some of ours first - that's fine
+          workerRun = processEnrichmentJobs({
+            limit: pending.size,
+            maxDurationMs: STREAM_MAX_DURATION_MS,
+            provider: getInsightsProvider(),
+            route: "/api/insights-stream",
+          }).catch((error) => {
+            console.error("[APIInsightsStream] ❌ Worker error:", error);
+          });
+
+          while (pending.size > 0 && Date.now() < deadline && !signal.aborted) {
+            await sleep(JOB_POLL_INTERVAL_MS, signal);
+
+            const states = await fetchEnrichmentJobStates({
+              cacheKeys: Array.from(pending.keys()),
+            });
+
+            for (const [cacheKey, resolution] of pending) {
+              const state = states.get(cacheKey);
+              if (state?.status === "completed" || state?.status === "failed") {
+                pending.delete(cacheKey);
+                emitResolution({
+                  ...resolution,
+                  status: state.status,
+                  insights: state.insights,
+                  location: state.location ?? undefined,
+                });
+              }
+            }
+          }
+        }
+
+        await Promise.all(imageTasks);
+
+        send({
+          event: "done",
+          data: { pending: Array.from(pending.values()).map((r) => r.playgroundId) },
+        });
+      } catch (error) {
+        console.error("[APIInsightsStream] ❌ Error streaming insights:", error);
+        send({ event: "error", data: { message: "Failed to stream insights" } });
+      } finally {
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Client already disconnected
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
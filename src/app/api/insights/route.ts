@@ -1,13 +1,26 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 
-import { AIInsights, AILocation } from "@/types/ai-insights";
-import { fetchGeminiInsightsWithCache } from "@/lib/gemini";
+import { AIInsights, AILocation, EnrichmentStatus } from "@/types/ai-insights";
+import { fetchAIInsightsCacheEntry, recordAIInsightsView } from "@/lib/cache";
+import { buildAIInsightsCacheKey } from "@/lib/cache-keys";
+import { getInsightsProvider } from "@/lib/insights-providers";
+import { normalizeInsightsLocale } from "@/lib/insights-locale";
+import { recordCacheLookups } from "@/lib/api-usage";
+import {
+  enqueueEnrichmentJobs,
+  fetchEnrichmentJobStates,
+  processEnrichmentJobs,
+} from "@/lib/enrichment-queue";
+
+function insightsResponse(insights: AIInsights | null, status: EnrichmentStatus) {
+  return NextResponse.json({ insights, status });
+}
 
 export async function POST(
   request: NextRequest,
 ): Promise<
   | NextResponse<{ error: string }>
-  | NextResponse<{ insights: AIInsights | null }>
+  | NextResponse<{ insights: AIInsights | null; status: EnrichmentStatus }>
 > {
   const signal = request.signal;
 
@@ -22,8 +35,9 @@ export async function POST(
       name?: string;
       osmId?: string;
     };
+    const locale = normalizeInsightsLocale(body.locale);
 
-    // Require either osmId (for cache-only check) or full location (for API call)
+    // Require either osmId (for cache-only check) or full location (for enrichment)
     if (!osmId && (!location || typeof location.latitude !== "number" || typeof location.longitude !== "number" || !location.country)) {
       return NextResponse.json(
         { error: "Either osmId or valid location with latitude, longitude, and country is required" },
@@ -31,18 +45,77 @@ export async function POST(
       );
     }
 
-    const insight = await fetchGeminiInsightsWithCache({
-      location,
-      name,
-      osmId,
-      signal,
+    const cacheKey = buildAIInsightsCacheKey(
+      osmId ? { osmId, locale } : { lat: location!.latitude, lon: location!.longitude, locale },
+    );
+
+    const cachedEntry = await fetchAIInsightsCacheEntry({ cacheKey });
+    recordCacheLookups({ service: "gemini", route: "/api/insights", hits: cachedEntry ? 1 : 0, misses: cachedEntry ? 0 : 1 });
+    if (cachedEntry) {
+      after(() => recordAIInsightsView({ cacheKey }));
+
+      // Stale entries are served while a refresh job (picked up by the cron worker) re-enriches them
+      if (cachedEntry.isStale && location) {
+        const jobState = (await fetchEnrichmentJobStates({ cacheKeys: [cacheKey] })).get(cacheKey);
+        if (!jobState) {
+          await enqueueEnrichmentJobs({
+            jobs: [{
+              cacheKey,
+              lat: location.latitude,
+              lon: location.longitude,
+              name,
+              osmId,
+              location,
+              locale,
+              priority: "low",
+              refresh: true,
+            }],
+          });
+        }
+      }
+
+      return insightsResponse(cachedEntry.insights, "completed");
+    }
+
+    // Cache miss without a location - nothing to enrich from
+    if (!location) {
+      return insightsResponse(null, "completed");
+    }
+
+    const jobState = (await fetchEnrichmentJobStates({ cacheKeys: [cacheKey] })).get(cacheKey);
+    if (jobState?.status === "completed" || jobState?.status === "failed") {
+      return insightsResponse(jobState.insights, jobState.status);
+    }
+
+    if (!jobState) {
+      // Single playground requests come from detail views - highest priority
+      const enqueued = await enqueueEnrichmentJobs({
+        jobs: [{
+          cacheKey,
+          lat: location.latitude,
+          lon: location.longitude,
+          name,
+          osmId,
+          location,
+          locale,
+          priority: "high",
+        }],
+      });
+
+      if (!enqueued) {
+        return insightsResponse(null, "failed");
+      }
+    }
+
+    after(async () => {
+      await processEnrichmentJobs({ limit: 1, provider: getInsightsProvider(), route: "/api/insights" });
     });
 
     if (signal?.aborted) {
       return NextResponse.json({ error: "Request aborted" }, { status: 499 });
     }
 
-    return NextResponse.json({ insights: insight });
+    return insightsResponse(null, "pending");
   } catch (error) {
     if (error instanceof DOMException && error.name === "AbortError") {
       return NextResponse.json({ error: "Request aborted" }, { status: 499 });
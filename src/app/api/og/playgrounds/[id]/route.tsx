@@ -3,6 +3,8 @@ import { ImageResponse } from "next/og";
 import { SITE_NAME, SITE_ICON, UNNAMED_PLAYGROUND } from "@/lib/constants";
 import { formatEnumString } from "@/lib/utils";
 import { fetchPlaygroundByIdWithCache } from "@/lib/api/server";
+import { getProxiedImageJpeg, parseProxiedImageUrl } from "@/lib/image-proxy";
+import { getUserPhotoJpeg, parseUserPhotoUrl } from "@/lib/user-photos";
 
 interface RouteContext {
   params: Promise<{
@@ -10,7 +12,8 @@ interface RouteContext {
   }>;
 }
 
-export const runtime = "edge";
+// Node.js: proxied images are read from image storage and converted with sharp
+export const runtime = "nodejs";
 
 export async function GET(_: NextRequest, context: RouteContext) {
   try {
@@ -49,7 +52,18 @@ export async function GET(_: NextRequest, context: RouteContext) {
       ? rawAddress.split(',').slice(0, 3).join(',')
       : rawAddress;
 
-    const imageUrl = playground.images?.[0]?.image_url || null;
+    // Proxied and user photos are WebP, which OG rendering doesn't support - embed the card variant as JPEG
+    const firstImageUrl = playground.images?.[0]?.image_url || null;
+    const proxiedImage = firstImageUrl ? parseProxiedImageUrl(firstImageUrl) : null;
+    const userPhoto = firstImageUrl ? parseUserPhotoUrl(firstImageUrl) : null;
+    const proxiedJpeg = proxiedImage
+      ? await getProxiedImageJpeg({ id: proxiedImage.id, variant: "card" })
+      : userPhoto
+        ? await getUserPhotoJpeg({ id: userPhoto.id, variant: "card" })
+        : null;
+    const imageUrl = proxiedJpeg
+      ? `data:image/jpeg;base64,${proxiedJpeg.toString("base64")}`
+      : proxiedImage || userPhoto ? null : firstImageUrl;
 
     return new ImageResponse(
       (
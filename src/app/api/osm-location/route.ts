@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { AILocation } from "@/types/ai-insights";
+import { reverseGeocode } from "@/lib/osm";
 
 /**
  * API endpoint to get structured location data from coordinates using Nominatim reverse geocoding
@@ -30,25 +31,10 @@ export async function POST(
       );
     }
 
-    // Call Nominatim reverse geocoding API
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lon}&format=json&addressdetails=1`,
-      {
-        signal,
-        headers: {
-          "User-Agent": "GoodPlaygroundMap/1.0 (ivan.seredkin@gmail.com)",
-          Referer: "https://www.goodplaygroundmap.com/",
-        },
-      },
-    );
-
-    if (!response.ok) {
-      throw new Error(
-        `Nominatim API error: ${response.status} ${response.statusText}`,
-      );
-    }
-
-    const data = await response.json();
+    // Call Nominatim reverse geocoding API (NOMINATIM_BASE_URL)
+    const data = (await reverseGeocode({ lat, lon, signal })) as {
+      address?: Record<string, string>;
+    };
 
     if (signal?.aborted) {
       return NextResponse.json({ error: "Request aborted" }, { status: 499 });
@@ -2,14 +2,24 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { MapBounds } from "@/types/map";
 import { runOSMQuery } from "@/lib/osm";
-import { Playground } from "@/types/playground";
+import { searchPlaygroundIndex } from "@/lib/playground-index";
 import {
-  generateOSMCacheKey,
-  fetchOSMFromCache,
-  saveOSMToCache
-} from "@/lib/osm-cache";
-import { fetchAIInsightsFromCache } from "@/lib/cache";
-import { buildAIInsightsCacheKey } from "@/lib/cache-keys";
+  Playground,
+  PlaygroundSearchResponse,
+  PlaygroundTierCounts,
+} from "@/types/playground";
+import { OSMQueryResults } from "@/types/osm";
+import { fetchOSMTilesForBounds } from "@/lib/osm-cache";
+import { batchFetchLocalizedAIInsightsFromCache, type LocalizedAIInsights } from "@/lib/cache";
+import { normalizeInsightsLocale } from "@/lib/insights-locale";
+import { batchFetchImageCacheKeysWithImages } from "@/lib/images";
+import { buildImagesCacheKey } from "@/lib/cache-keys";
+import {
+  hasActiveFilters,
+  matchesPlaygroundFilters,
+  normalizePlaygroundFilters,
+  toFilterablePlayground,
+} from "@/lib/filters";
 import { isValidImageUrl } from "@/lib/utils";
 
 // Zoom-based limits for result count (industry best practice)
@@ -19,9 +29,121 @@ const LIMIT_ZOOMED_OUT = 20; // Fewer items for performance when zoomed out
 const LIMIT_MEDIUM = 50; // Balanced view for medium zoom
 const LIMIT_ZOOMED_IN = 100; // Show more detail when zoomed in
 
+// Most playgrounds considered per search; filters and tier counts are applied
+// to these before the zoom-based limit
+const SEARCH_CANDIDATE_LIMIT = 1000;
+
+type SearchCandidate = {
+  element: OSMQueryResults;
+  lat: number;
+  lon: number;
+};
+
+type SearchRequestBody = {
+  bounds: MapBounds;
+  filters?: unknown; // PlaygroundFilters shape (minTier, features, accessibility, hasPhotos)
+  enrichedOnly?: boolean;
+  locale?: string; // language for descriptions (defaults to English)
+};
+
+/**
+ * Keep playgrounds inside the viewport, closest to its center first
+ * (tiles extend past the viewport edges)
+ */
+function selectPlaygroundsInBounds(
+  results: OSMQueryResults[],
+  bounds: MapBounds,
+): SearchCandidate[] {
+  const centerLat = (bounds.north + bounds.south) / 2;
+  const centerLon = (bounds.east + bounds.west) / 2;
+  const lonScale = Math.cos((centerLat * Math.PI) / 180);
+
+  return results
+    .map((element) => ({
+      element,
+      lat: element.type === "node" ? element.lat : element.center?.lat,
+      lon: element.type === "node" ? element.lon : element.center?.lon,
+    }))
+    .filter((item): item is SearchCandidate =>
+      item.lat != null && item.lon != null &&
+      item.lat >= bounds.south && item.lat <= bounds.north &&
+      item.lon >= bounds.west && item.lon <= bounds.east
+    )
+    .map((candidate) => ({
+      candidate,
+      distance: (candidate.lat - centerLat) ** 2 + ((candidate.lon - centerLon) * lonScale) ** 2,
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ candidate }) => candidate);
+}
+
+function formatOSMId(element: OSMQueryResults): string {
+  return `${element.type[0].toUpperCase()}${element.id}`;
+}
+
+function toPlayground({ element, lat, lon }: SearchCandidate, cached: LocalizedAIInsights | null): Playground {
+  const playground: Playground = {
+    id: element.id,
+    name: element.tags?.name || null,
+    description: element.tags?.description || null,
+    lat,
+    lon,
+    features: null,
+    parking: null,
+    sources: null,
+    address: null,
+    images: null,
+    osmId: element.id,
+    osmType: element.type,
+    osmTags: element.tags,
+    enriched: false,
+    accessibility: null,
+    tier: null,
+    tierReasoning: null,
+  };
+
+  if (!cached) {
+    return playground;
+  }
+
+  const { insights, localized } = cached;
+
+  // Filter out invalid image URLs from old cache (x-raw-image:// format from Gemini pre-v5.0.0)
+  const validImages = insights.images?.filter(img =>
+    isValidImageUrl(img.image_url)
+  ) || null;
+
+  // Populate playground with cached AI insights
+  return {
+    ...playground,
+    name: insights.name || playground.name,
+    description: insights.description,
+    features: insights.features,
+    parking: insights.parking,
+    sources: insights.sources,
+    images: validImages && validImages.length > 0 ? validImages : null, // Only include if we have valid images
+    accessibility: insights.accessibility,
+    tier: insights.tier,
+    tierReasoning: insights.tier_reasoning,
+    tierScore: insights.tier_score,
+    imageSearchQueries: insights.image_search_queries,
+    provenance: insights.provenance,
+    // Insights in another language are shown until the client enriches this locale
+    enriched: localized,
+  };
+}
+
+/**
+ * Playgrounds in a viewport
+ * POST /api/search { bounds, filters?, enrichedOnly?, locale? }
+ *
+ * Filters are checked against cached insights before the zoom-based limit, so
+ * a search for stars returns the stars in the viewport. Unenriched playgrounds
+ * pass the filters (ranked after enriched matches) unless enrichedOnly is set.
+ */
 export async function POST(
   request: NextRequest,
-): Promise<NextResponse<{ error: string }> | NextResponse<Playground[]>> {
+): Promise<NextResponse<{ error: string }> | NextResponse<PlaygroundSearchResponse>> {
   const signal = request.signal;
 
   try {
@@ -30,7 +152,8 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { bounds } = body as { bounds: MapBounds };
+    const { bounds, enrichedOnly = false } = body as SearchRequestBody;
+    const locale = normalizeInsightsLocale((body as SearchRequestBody).locale);
 
     if (
       bounds?.north == null ||
@@ -45,6 +168,16 @@ export async function POST(
       );
     }
 
+    if (typeof enrichedOnly !== "boolean") {
+      return NextResponse.json(
+        { error: "enrichedOnly must be a boolean" },
+        { status: 400 },
+      );
+    }
+
+    const filters = normalizePlaygroundFilters((body as SearchRequestBody).filters);
+    const isFiltered = enrichedOnly || hasActiveFilters(filters);
+
     // Calculate limit based on zoom level (industry best practice)
     // Zoomed out: Show fewer items for performance
     // Medium zoom: Balanced view
@@ -55,37 +188,37 @@ export async function POST(
         ? LIMIT_ZOOMED_IN
         : LIMIT_MEDIUM;
 
-    // Try to fetch from cache first (Phase 1 optimization)
-    const cacheKey = generateOSMCacheKey(bounds, bounds.zoom);
-    let osmResults = await fetchOSMFromCache(cacheKey);
-
-    // Cache miss or empty cache result - fetch from OSM API
-    // If cache returns 0 playgrounds, verify with real search (might be bad cache)
-    if (!osmResults || osmResults.length === 0) {
-      osmResults = await runOSMQuery({
-        bounds,
-        leisure: "playground",
-        timeout: parseInt(process.env.OSM_QUERY_TIMEOUT || "25"),
-        limit: zoomBasedLimit,
-        signal,
-      });
+    // Answer from the self-hosted playground index when an imported region covers the viewport
+    let osmResults = await searchPlaygroundIndex({ bounds, limit: SEARCH_CANDIDATE_LIMIT });
+    let candidateLimit = SEARCH_CANDIDATE_LIMIT;
 
-      // Save to cache for future requests (async, non-blocking)
-      // Update cache even if empty to prevent repeated queries for areas with no playgrounds
-      saveOSMToCache(cacheKey, bounds, bounds.zoom, osmResults).catch(err =>
-        console.error("[APISearch] ❌ Failed to save OSM cache:", err)
-      );
+    // Outside imported regions: assemble the viewport from cached OSM tiles,
+    // fetching only missing or expired tiles from Overpass
+    if (!osmResults) {
+      const timeout = parseInt(process.env.OSM_QUERY_TIMEOUT || "25");
+      const tileResults = await fetchOSMTilesForBounds({ bounds, timeout, signal });
+
+      if (tileResults) {
+        osmResults = tileResults;
+        candidateLimit = Infinity; // tiles hold every playground in the viewport
+      } else {
+        // Zoomed too far out for the tile cache - query the viewport directly
+        // (only fetch extra candidates when they will be filtered)
+        candidateLimit = isFiltered ? SEARCH_CANDIDATE_LIMIT : zoomBasedLimit;
+        osmResults = await runOSMQuery({
+          bounds,
+          leisure: "playground",
+          timeout,
+          limit: candidateLimit,
+          signal,
+        });
+      }
     }
 
     if (signal?.aborted) {
       return NextResponse.json({ error: "Request aborted" }, { status: 499 });
     }
 
-    if (osmResults.length === 0) {
-      return NextResponse.json([]);
-    }
-
-    // Filter invalid items BEFORE expensive mapping for better performance
     // Track filtered count for data quality monitoring
     const invalidCount = osmResults.filter((item) => {
       const lat = item.type === "node" ? item.lat : item.center?.lat;
@@ -97,84 +230,77 @@ export async function POST(
       console.warn(`[APISearch] ⚠️ Filtered ${invalidCount} playgrounds without coordinates`);
     }
 
-    // Create base playgrounds from OSM data
-    const basePlaygrounds: Playground[] = osmResults
-      .filter((item) => {
-        // Extract coordinates based on type
-        const lat = item.type === "node" ? item.lat : item.center?.lat;
-        const lon = item.type === "node" ? item.lon : item.center?.lon;
-        // Only process items with valid coordinates
-        return lat != null && lon != null;
-      })
-      .map((item) => ({
-        id: item.id,
-        name: item.tags?.name || null,
-        description: item.tags?.description || null,
-        lat: item.type === "node" ? item.lat! : item.center!.lat,
-        lon: item.type === "node" ? item.lon! : item.center!.lon,
-        features: null,
-        parking: null,
-        sources: null,
-        address: null,
-        images: null,
-        osmId: item.id,
-        osmType: item.type,
-        osmTags: item.tags,
-        enriched: false,
-        accessibility: null,
-        tier: null,
-        tierReasoning: null,
-      }));
-
-    // OPTIMIZATION: Check AI cache for each playground and populate enrichment data if available
+    const truncated = osmResults.length >= candidateLimit;
+    const candidates = selectPlaygroundsInBounds(osmResults, bounds).slice(0, SEARCH_CANDIDATE_LIMIT);
+
+    // OPTIMIZATION: Check AI cache for all candidates at once and populate enrichment data
     // This prevents redundant enrichment requests on page refresh
-    const enrichedPlaygrounds = await Promise.all(
-      basePlaygrounds.map(async (playground) => {
-        try {
-          // Build cache key using OSM ID
-          const osmIdFormatted = playground.osmType && playground.osmId
-            ? `${playground.osmType[0].toUpperCase()}${playground.osmId}`
-            : undefined;
-
-          if (!osmIdFormatted) {
-            return playground;
-          }
-
-          const cacheKey = buildAIInsightsCacheKey({ osmId: osmIdFormatted });
-          const cachedInsights = await fetchAIInsightsFromCache({ cacheKey });
-
-          if (cachedInsights) {
-            // Filter out invalid image URLs from old cache (x-raw-image:// format from Gemini pre-v5.0.0)
-            const validImages = cachedInsights.images?.filter(img =>
-              isValidImageUrl(img.image_url)
-            ) || null;
-
-            // Populate playground with cached AI insights
-            return {
-              ...playground,
-              name: cachedInsights.name || playground.name,
-              description: cachedInsights.description,
-              features: cachedInsights.features,
-              parking: cachedInsights.parking,
-              sources: cachedInsights.sources,
-              images: validImages && validImages.length > 0 ? validImages : null, // Only include if we have valid images
-              accessibility: cachedInsights.accessibility,
-              tier: cachedInsights.tier,
-              tierReasoning: cachedInsights.tier_reasoning,
-              imageSearchQueries: cachedInsights.image_search_queries,
-              enriched: true, // Mark as enriched since we have cache data
-            };
-          }
-
-          return playground;
-        } catch (error) {
-          console.error(`[APISearch] ⚠️ Error checking cache for ${playground.osmId}:`, error);
-          return playground;
-        }
+    // Filters use insights from any locale (tier and features don't depend on language)
+    const insightsByOsmId = await batchFetchLocalizedAIInsightsFromCache({
+      osmIds: candidates.map(({ element }) => formatOSMId(element)),
+      locale,
+    });
+    const getCached = ({ element }: SearchCandidate) => insightsByOsmId.get(formatOSMId(element)) || null;
+    const getInsights = (candidate: SearchCandidate) => getCached(candidate)?.insights || null;
+
+    // Photos are only looked up for enriched playgrounds (see toFilterablePlayground)
+    const photoKeys = filters.hasPhotos
+      ? await batchFetchImageCacheKeysWithImages({
+        cacheKeys: candidates
+          .filter((candidate) => getInsights(candidate))
+          .map(({ element }) => buildImagesCacheKey({ osmId: formatOSMId(element) })),
       })
-    );
+      : new Set<string>();
+
+    // Tier counts ignore the tier filter so the UI can show what each tier would add
+    const otherFilters = { ...filters, minTier: null };
+    const tierCounts: PlaygroundTierCounts = { star: 0, gem: 0, neighborhood: 0, unenriched: 0 };
+    const matches: Playground[] = [];
+    const confirmed = new Set<Playground>();
+
+    for (const candidate of candidates) {
+      const insights = getInsights(candidate);
+      if (enrichedOnly && !insights) {
+        continue;
+      }
+
+      const filterable = toFilterablePlayground({
+        insights,
+        hasKnownPhotos: Boolean(insights?.images?.length) ||
+          photoKeys.has(buildImagesCacheKey({ osmId: formatOSMId(candidate.element) })),
+      });
+
+      if (!matchesPlaygroundFilters(filterable, otherFilters)) {
+        continue;
+      }
+
+      if (insights) {
+        tierCounts[insights.tier || "neighborhood"]++;
+      } else {
+        tierCounts.unenriched++;
+      }
+
+      if (matchesPlaygroundFilters(filterable, filters)) {
+        const playground = toPlayground(candidate, getCached(candidate));
+        matches.push(playground);
+        if (insights) {
+          confirmed.add(playground);
+        }
+      }
+    }
+
+    // With filters, confirmed matches come before playgrounds that aren't enriched yet
+    // (sort is stable, so each group stays closest-to-center first)
+    if (isFiltered) {
+      matches.sort((a, b) => Number(confirmed.has(b)) - Number(confirmed.has(a)));
+    }
 
-    return NextResponse.json(enrichedPlaygrounds);
+    return NextResponse.json({
+      playgrounds: matches.slice(0, zoomBasedLimit),
+      total: matches.length,
+      tierCounts,
+      truncated,
+    });
   } catch (error) {
     if (error instanceof DOMException && error.name === "AbortError") {
       return NextResponse.json({ error: "Request aborted" }, { status: 499 });
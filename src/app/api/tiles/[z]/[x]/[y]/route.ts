@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildPlaygroundTile } from "@/lib/playground-tiles";
+import { isValidTile } from "@/lib/tiles";
+import { parsePlaygroundFilters } from "@/lib/filters";
+import { normalizeInsightsLocale } from "@/lib/insights-locale";
+
+interface RouteContext {
+  params: Promise<{
+    z: string;
+    x: string;
+    y: string; // "{y}.mvt"
+  }>;
+}
+
+export const runtime = "nodejs";
+
+// Tiles only change when playgrounds are enriched; the map adds a version
+// query param to pick those changes up sooner
+const TILE_CACHE_CONTROL = "public, max-age=300, stale-while-revalidate=3600";
+
+/**
+ * Mapbox Vector Tile of playground points for the map layer
+ * GET /api/tiles/{z}/{x}/{y}.mvt?tier=gem&features=swings&access=shade&photos=1&lang=fr
+ * (filter params are optional and match the page URL; lang is the insights locale)
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const signal = request.signal;
+
+  try {
+    const { z, x, y } = await context.params;
+
+    if (!y.endsWith(".mvt")) {
+      return NextResponse.json(
+        { error: "Only .mvt tiles are supported" },
+        { status: 404 },
+      );
+    }
+
+    const tile = {
+      z: Number(z),
+      x: Number(x),
+      y: Number(y.slice(0, -".mvt".length)),
+    };
+
+    if (!isValidTile(tile)) {
+      return NextResponse.json({ error: "Invalid tile coordinates" }, { status: 400 });
+    }
+
+    const filters = parsePlaygroundFilters(request.nextUrl.searchParams);
+    const locale = normalizeInsightsLocale(request.nextUrl.searchParams.get("lang"));
+
+    const body = await buildPlaygroundTile({ tile, filters, locale, signal });
+
+    if (signal?.aborted) {
+      return NextResponse.json({ error: "Request aborted" }, { status: 499 });
+    }
+
+    return new Response(Buffer.from(body), {
+      headers: {
+        "Content-Type": "application/vnd.mapbox-vector-tile",
+        "Cache-Control": TILE_CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return NextResponse.json({ error: "Request aborted" }, { status: 499 });
+    }
+
+    console.error("[API /tiles] ❌ Error building playground tile:", error);
+    return NextResponse.json(
+      { error: "Failed to build playground tile" },
+      { status: 500 },
+    );
+  }
+}
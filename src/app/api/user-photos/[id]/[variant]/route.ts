@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isImageVariant } from "@/lib/image-proxy";
+import { getUserPhotoVariant, isUserPhotoId } from "@/lib/user-photos";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    variant: string; // "thumbnail" | "card" | "full"
+  }>;
+}
+
+export const runtime = "nodejs";
+
+// Approved photos can still be taken down, so they aren't immutable
+const APPROVED_PHOTO_CACHE_CONTROL = "public, max-age=86400";
+// Pending and rejected photos are only visible to their uploader and admins
+const PRIVATE_PHOTO_CACHE_CONTROL = "private, no-store";
+
+/**
+ * User-uploaded playground photo, stored as WebP (see src/lib/user-photos.ts)
+ * GET /api/user-photos/{id}/{thumbnail|card|full}
+ */
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const { id, variant } = await context.params;
+
+    if (!isUserPhotoId(id) || !isImageVariant(variant)) {
+      return NextResponse.json({ error: "Invalid photo" }, { status: 400 });
+    }
+
+    const photo = await getUserPhotoVariant({ id, variant });
+
+    if (!photo) {
+      return NextResponse.json(
+        { error: "Photo not found" },
+        { status: 404, headers: { "Cache-Control": PRIVATE_PHOTO_CACHE_CONTROL } },
+      );
+    }
+
+    return new Response(new Uint8Array(photo.data), {
+      headers: {
+        "Content-Type": "image/webp",
+        "Content-Length": String(photo.data.byteLength),
+        "Cache-Control":
+          photo.status === "approved" ? APPROVED_PHOTO_CACHE_CONTROL : PRIVATE_PHOTO_CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error("[API /user-photos] ❌ Error serving photo:", error);
+    return NextResponse.json({ error: "Failed to serve photo" }, { status: 500 });
+  }
+}
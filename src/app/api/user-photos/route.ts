@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSignedInUser } from "@/lib/admin";
+import { uploadUserPhoto, type UserPhotoUploadError } from "@/lib/user-photos";
+
+export const runtime = "nodejs";
+
+// Multipart overhead on top of USER_PHOTO_MAX_BYTES, checked before reading the body
+const MAX_REQUEST_BYTES = parseInt(process.env.USER_PHOTO_MAX_BYTES || "10485760") + 64 * 1024;
+
+const UPLOAD_ERROR_STATUSES: Record<UserPhotoUploadError, number> = {
+  too_large: 413,
+  unsupported_type: 415,
+  too_small: 422,
+  too_far: 422,
+  unknown_playground: 404,
+  rate_limited: 429,
+  failed: 500,
+};
+
+function parseCoordinate(value: FormDataEntryValue | null, max: number): number | null {
+  if (typeof value !== "string" || !value) return null;
+  const coordinate = parseFloat(value);
+  return Number.isFinite(coordinate) && Math.abs(coordinate) <= max ? coordinate : null;
+}
+
+/**
+ * Upload a photo of a playground (signed-in users only)
+ * POST /api/user-photos (multipart: photo, osmId, latitude?, longitude?)
+ * latitude/longitude are the device's position, used if the photo has no GPS data
+ * (client-reported, so such photos are flagged as unverified for the moderator)
+ * The photo is stored without metadata and stays pending until an admin approves it
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSignedInUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in to upload photos" }, { status: 401 });
+  }
+
+  const contentLength = parseInt(request.headers.get("content-length") || "0");
+  if (contentLength > MAX_REQUEST_BYTES) {
+    return NextResponse.json({ error: "Photo is too large" }, { status: 413 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const photo = formData.get("photo");
+    const osmId = formData.get("osmId");
+
+    if (!(photo instanceof File)) {
+      return NextResponse.json({ error: "Missing photo" }, { status: 400 });
+    }
+    if (typeof osmId !== "string" || !/^[NWR]\d+$/.test(osmId)) {
+      return NextResponse.json({ error: "Invalid osmId" }, { status: 400 });
+    }
+
+    const lat = parseCoordinate(formData.get("latitude"), 90);
+    const lon = parseCoordinate(formData.get("longitude"), 180);
+
+    const result = await uploadUserPhoto({
+      osmId,
+      data: Buffer.from(await photo.arrayBuffer()),
+      contentType: photo.type,
+      deviceLocation: lat !== null && lon !== null ? { lat, lon } : null,
+      user,
+    });
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: UPLOAD_ERROR_STATUSES[result.reason] });
+    }
+
+    return NextResponse.json({ photo: result.photo }, { status: 201 });
+  } catch (error) {
+    console.error("[API /user-photos] ❌ Error uploading photo:", error);
+    return NextResponse.json({ error: "Failed to upload photo" }, { status: 500 });
+  }
+}
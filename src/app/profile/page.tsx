@@ -2,12 +2,13 @@
 
 import { useEffect } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/auth-context";
-import { LogOut } from "lucide-react";
+import { BarChart3, Camera, ClipboardCheck, ImageOff, LogOut, Wallet } from "lucide-react";
 
 export default function PrivatePage() {
-  const { user, signOut, isLoading } = useAuth();
+  const { user, isAdmin, signOut, isLoading } = useAuth();
   const router = useRouter();
 
   useEffect(() => {
@@ -33,6 +34,40 @@ export default function PrivatePage() {
       <div className="flex flex-col items-center gap-4">
         <h1 className="text-2xl font-bold">Profile</h1>
         <p className="text-muted-foreground">Hello {user.email}</p>
+        {isAdmin && (
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button asChild variant="outline">
+              <Link href="/admin/reviews">
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+                Review queue
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/admin/tiers">
+                <BarChart3 className="mr-2 h-4 w-4" />
+                Tier report
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/admin/usage">
+                <Wallet className="mr-2 h-4 w-4" />
+                API usage
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/admin/images">
+                <ImageOff className="mr-2 h-4 w-4" />
+                Image health
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/admin/photos">
+                <Camera className="mr-2 h-4 w-4" />
+                Photo moderation
+              </Link>
+            </Button>
+          </div>
+        )}
         <Button onClick={signOut} variant="outline" className="mt-4">
           <LogOut className="mr-2 h-4 w-4" />
           Log out
@@ -2,6 +2,7 @@
 
 import { PlaygroundList } from "@/components/playground-list";
 import { PlaygroundListSheet } from "@/components/playground-list-sheet";
+import { PlaygroundFiltersButton } from "@/components/playground-filters";
 import { PlaygroundPreviewSheet } from "@/components/playground-preview-sheet";
 import { PlaygroundDetailSidebar } from "@/components/playground-detail-sidebar";
 import { MapView } from "@/components/map-view";
@@ -24,14 +25,16 @@ export default function HomeClient() {
       <div className="relative flex flex-1">
         {/* Desktop sidebar */}
         <div className="absolute top-0 left-0 z-1 hidden max-h-[calc(100vh-80px)] max-w-sm min-w-sm overflow-y-auto md:block">
-          <div className="py-2 pr-2 pl-4">
+          <div className="flex flex-col gap-2 py-2 pr-2 pl-4">
+            <PlaygroundFiltersButton className="self-start" />
             <PlaygroundList displayEmptyState />
           </div>
         </div>
 
         {/* Mobile bottom sheet */}
-        <div className="absolute bottom-10 left-1/2 z-1 -translate-x-1/2 md:hidden">
+        <div className="absolute bottom-10 left-1/2 z-1 flex -translate-x-1/2 gap-2 md:hidden">
           <PlaygroundListSheet />
+          <PlaygroundFiltersButton />
         </div>
 
         {/* Playground preview sheet (mobile only) */}
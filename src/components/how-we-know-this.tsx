@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ExternalLink } from "lucide-react";
+import { extractDomain, cn } from "@/lib/utils";
+import type {
+  FieldConfidence,
+  InsightsProvenance,
+  ProvenanceField,
+  SourceKind,
+} from "@/types/ai-insights";
+
+const SOURCE_KIND_LABELS: Record<SourceKind, string> = {
+  official: "Parks dept / government",
+  community: "Wiki / map",
+  reviews: "Review site",
+  social: "Social media",
+  blog: "Blog",
+  other: "Website",
+};
+
+const CONFIDENCE_STYLES: Record<FieldConfidence, { label: string; className: string }> = {
+  high: {
+    label: "High confidence",
+    className: "bg-emerald-100 text-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-200",
+  },
+  medium: {
+    label: "Medium confidence",
+    className: "bg-amber-100 text-amber-800 dark:bg-amber-950/40 dark:text-amber-200",
+  },
+  low: {
+    label: "Low confidence",
+    className: "bg-zinc-200 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300",
+  },
+};
+
+interface HowWeKnowThisProps {
+  provenance: InsightsProvenance | null | undefined;
+  field: ProvenanceField;
+  className?: string;
+}
+
+/**
+ * Collapsible "How we know this" panel for one AI-enriched field
+ * Shows the field's confidence and the sources that support it
+ */
+export function HowWeKnowThis({ provenance, field, className }: HowWeKnowThisProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const fieldProvenance = provenance?.fields[field];
+  if (!provenance || !fieldProvenance) {
+    return null;
+  }
+
+  const confidence = CONFIDENCE_STYLES[fieldProvenance.confidence];
+  const sources = fieldProvenance.sources.map(
+    (url) => provenance.sources.find((source) => source.url === url) ?? { url, title: null, kind: "other" as const },
+  );
+
+  return (
+    <div className={cn("text-sm", className)}>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(!isOpen);
+        }}
+        className="text-muted-foreground hover:text-foreground flex cursor-pointer items-center gap-1.5"
+        aria-expanded={isOpen}
+      >
+        <span className="underline hover:no-underline">How we know this</span>
+        <span className={cn("rounded-full px-1.5 py-0.5 text-xs font-medium", confidence.className)}>
+          {confidence.label}
+        </span>
+        <ChevronDown className={cn("h-3.5 w-3.5 transition-transform", isOpen && "rotate-180")} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-1.5">
+          <p className="text-muted-foreground text-xs">
+            {fieldProvenance.reviewed
+              ? "Checked and edited by a moderator."
+              : sources.length === 0
+                ? "No sources were found for this answer."
+                : fieldProvenance.cited
+                  ? "Supported by:"
+                  : "Not tied to a specific source. Sources for this answer:"}
+          </p>
+          {sources.length > 0 && (
+            <ul className="space-y-1">
+              {sources.map((source) => (
+                <li key={source.url} className="flex items-center gap-2">
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="hover:text-foreground text-muted-foreground flex min-w-0 items-center gap-1 underline hover:no-underline"
+                  >
+                    <span className="truncate">{source.title || extractDomain(source.url)}</span>
+                    <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                  </a>
+                  <span className="text-muted-foreground flex-shrink-0 text-xs">
+                    {SOURCE_KIND_LABELS[source.kind]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
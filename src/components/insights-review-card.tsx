@@ -0,0 +1,309 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Pencil, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { updateInsightsReview } from "@/lib/api/client";
+import { extractDomain, formatEnumString } from "@/lib/utils";
+import type { InsightsReview, InsightsReviewEdits } from "@/lib/insights-review";
+import { toast } from "sonner";
+
+type ReviewForm = {
+  name: string;
+  description: string;
+  parking: string;
+  tier: string;
+  tierReasoning: string;
+  features: string;
+  accessibility: string;
+};
+
+function toForm(review: InsightsReview): ReviewForm {
+  const { insights } = review;
+  return {
+    name: insights.name || "",
+    description: insights.description || "",
+    parking: insights.parking || "",
+    tier: insights.tier || "",
+    tierReasoning: insights.tier_reasoning || "",
+    features: (insights.features || []).join(", "),
+    accessibility: (insights.accessibility || []).join(", "),
+  };
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+function toEdits(form: ReviewForm): InsightsReviewEdits {
+  return {
+    name: form.name,
+    description: form.description,
+    parking: form.parking,
+    tier: (form.tier || null) as InsightsReviewEdits["tier"],
+    tier_reasoning: form.tierReasoning,
+    features: splitList(form.features),
+    accessibility: splitList(form.accessibility),
+  };
+}
+
+function ListBadges({ values }: { values: string[] | null }) {
+  if (!values || values.length === 0) {
+    return <span className="text-muted-foreground italic">None</span>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {values.map((value) => (
+        <Badge key={value} variant="outline">
+          {formatEnumString(value)}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * One borderline AI result in the review queue
+ * Pending reviews can be approved (with edits), edited or rejected with a reason
+ */
+export function InsightsReviewCard({
+  review,
+  onUpdated,
+}: {
+  review: InsightsReview;
+  onUpdated: (review: InsightsReview) => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [form, setForm] = useState<ReviewForm>(() => toForm(review));
+  const [reason, setReason] = useState("");
+
+  const { insights, score, location } = review;
+  const isPending = review.status === "pending";
+  const place = [location.city, location.region, location.country].filter(Boolean).join(", ");
+
+  const submit = async (action: "approve" | "edit" | "reject") => {
+    setIsSubmitting(true);
+    const result = await updateInsightsReview({
+      id: review.id,
+      action,
+      edits: action !== "reject" && isEditing ? toEdits(form) : undefined,
+      reason: action === "reject" ? reason : undefined,
+    });
+    setIsSubmitting(false);
+
+    if ("error" in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success(
+      action === "approve" ? "Approved and cached" : action === "edit" ? "Edits saved" : "Rejected",
+    );
+    setIsEditing(false);
+    setIsRejecting(false);
+    setForm(toForm(result.review));
+    onUpdated(result.review);
+  };
+
+  const updateForm = (field: keyof ReviewForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+      setForm({ ...form, [field]: e.target.value });
+
+  return (
+    <Card>
+      <CardHeader className="gap-1">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <h2 className="text-lg font-semibold">{insights.name || review.osmName || "Unnamed"}</h2>
+            <p className="text-muted-foreground text-sm">
+              {place} · {review.cacheKey}
+              {review.osmName && review.osmName !== insights.name && ` · OSM name "${review.osmName}"`}
+            </p>
+          </div>
+          <Badge variant="outline" className="shrink-0">
+            Score {score.overall} ({score.confidence})
+          </Badge>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          Sources {score.breakdown.sources} · Description {score.breakdown.description} · Completeness{" "}
+          {score.breakdown.data_completeness} · Location {score.breakdown.location_confidence}
+        </p>
+      </CardHeader>
+
+      <CardContent className="flex flex-col gap-3 text-sm">
+        {score.flags.length > 0 && (
+          <ul className="list-disc pl-5 text-amber-700 dark:text-amber-300">
+            {score.flags.map((flag) => (
+              <li key={flag}>{flag}</li>
+            ))}
+          </ul>
+        )}
+
+        {review.locationVerification && (
+          <div>
+            <p className="font-medium">Location verification</p>
+            <p className="text-muted-foreground">{review.locationVerification}</p>
+          </div>
+        )}
+
+        {isEditing ? (
+          <div className="grid gap-3">
+            <div className="grid gap-1">
+              <Label htmlFor={`name-${review.id}`}>Name</Label>
+              <Input id={`name-${review.id}`} value={form.name} onChange={updateForm("name")} />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor={`description-${review.id}`}>Description</Label>
+              <Textarea id={`description-${review.id}`} value={form.description} onChange={updateForm("description")} />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor={`features-${review.id}`}>Features (comma separated)</Label>
+              <Input id={`features-${review.id}`} value={form.features} onChange={updateForm("features")} />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor={`accessibility-${review.id}`}>Accessibility (comma separated)</Label>
+              <Input id={`accessibility-${review.id}`} value={form.accessibility} onChange={updateForm("accessibility")} />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor={`parking-${review.id}`}>Parking</Label>
+              <Textarea id={`parking-${review.id}`} value={form.parking} onChange={updateForm("parking")} />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor={`tier-${review.id}`}>Tier</Label>
+              <select
+                id={`tier-${review.id}`}
+                value={form.tier}
+                onChange={updateForm("tier")}
+                className="border-input bg-background h-9 rounded-md border px-3"
+              >
+                <option value="">None</option>
+                <option value="neighborhood">Neighborhood</option>
+                <option value="gem">Gem</option>
+                <option value="star">Star</option>
+              </select>
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor={`tier-reasoning-${review.id}`}>Tier reasoning</Label>
+              <Textarea id={`tier-reasoning-${review.id}`} value={form.tierReasoning} onChange={updateForm("tierReasoning")} />
+            </div>
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            <p>{insights.description || <span className="text-muted-foreground italic">No description</span>}</p>
+            <div>
+              <p className="font-medium">Features</p>
+              <ListBadges values={insights.features} />
+            </div>
+            <div>
+              <p className="font-medium">Accessibility</p>
+              <ListBadges values={insights.accessibility} />
+            </div>
+            <div>
+              <p className="font-medium">Parking</p>
+              <p className="text-muted-foreground">{insights.parking || "None"}</p>
+            </div>
+            <div>
+              <p className="font-medium">Tier: {insights.tier ? formatEnumString(insights.tier) : "None"}</p>
+              {insights.tier_reasoning && <p className="text-muted-foreground">{insights.tier_reasoning}</p>}
+            </div>
+          </div>
+        )}
+
+        {insights.sources && insights.sources.length > 0 && (
+          <div>
+            <p className="font-medium">Sources</p>
+            <ul className="text-muted-foreground">
+              {insights.sources.map((url) => (
+                <li key={url}>
+                  <a href={url} target="_blank" rel="noopener noreferrer" className="underline hover:no-underline">
+                    {extractDomain(url)}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!isPending && (
+          <p className="text-muted-foreground border-t pt-3">
+            {review.status === "approved" ? "Approved" : "Rejected"} by {review.reviewedBy}
+            {review.reviewedAt && ` on ${new Date(review.reviewedAt).toLocaleString()}`}
+            {review.rejectionReason && `: ${review.rejectionReason}`}
+          </p>
+        )}
+
+        {isPending && isRejecting && (
+          <div className="grid gap-1 border-t pt-3">
+            <Label htmlFor={`reason-${review.id}`}>Rejection reason</Label>
+            <Textarea
+              id={`reason-${review.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Describes a different park in the same city"
+            />
+          </div>
+        )}
+
+        {isPending && (
+          <div className="flex flex-wrap gap-2 border-t pt-3">
+            {isRejecting ? (
+              <>
+                <Button
+                  variant="destructive"
+                  onClick={() => submit("reject")}
+                  disabled={isSubmitting || !reason.trim()}
+                >
+                  <X className="mr-2 h-4 w-4" />
+                  Confirm rejection
+                </Button>
+                <Button variant="ghost" onClick={() => setIsRejecting(false)} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button onClick={() => submit("approve")} disabled={isSubmitting}>
+                  <Check className="mr-2 h-4 w-4" />
+                  {isEditing ? "Approve with edits" : "Approve"}
+                </Button>
+                {isEditing ? (
+                  <>
+                    <Button variant="outline" onClick={() => submit("edit")} disabled={isSubmitting}>
+                      Save edits
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => {
+                        setForm(toForm(review));
+                        setIsEditing(false);
+                      }}
+                      disabled={isSubmitting}
+                    >
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button variant="outline" onClick={() => setIsEditing(true)} disabled={isSubmitting}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => setIsRejecting(true)} disabled={isSubmitting}>
+                  <X className="mr-2 h-4 w-4" />
+                  Reject
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,22 +2,28 @@
 
 import React from "react";
 import { useTheme } from "next-themes";
+import { usePlaygrounds } from "@/contexts/playgrounds-context";
 
 export const MapLegend = React.memo(function MapLegend() {
   const { theme } = useTheme();
+  const { tierCounts } = usePlaygrounds();
 
+  // Counts cover the whole viewport (from /api/search), not just the listed playgrounds
   const tiers = [
     {
       name: "Star",
       color: "#f59e0b",
+      count: tierCounts?.star,
     },
     {
       name: "Gem",
       color: "#a855f7",
+      count: tierCounts?.gem,
     },
     {
       name: "Local",
       color: theme === "light" ? "#4b5563" : "#6b7280",
+      count: tierCounts?.neighborhood,
     },
   ];
 
@@ -35,6 +41,11 @@ export const MapLegend = React.memo(function MapLegend() {
             <span className="text-xs font-medium">
               {tier.name}
             </span>
+            {tier.count !== undefined && (
+              <span className="text-muted-foreground text-xs">
+                {tier.count}
+              </span>
+            )}
           </div>
         ))}
       </div>
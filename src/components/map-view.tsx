@@ -11,7 +11,6 @@ import { useTheme } from "next-themes";
 import { MapPin } from "lucide-react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
-import type { FeatureCollection, Point } from "geojson";
 
 import type { Playground } from "@/types/playground";
 import { MapBounds } from "@/types/map";
@@ -20,7 +19,9 @@ import { usePlaygrounds } from "@/contexts/playgrounds-context";
 import { Button } from "@/components/ui/button";
 import { Spinner } from "@/components/ui/spinner";
 import { MapLegend } from "@/components/map-legend";
-import { UNNAMED_PLAYGROUND } from "@/lib/constants";
+import { PLAYGROUND_TILE_LAYER, PLAYGROUND_TILE_MAX_ZOOM } from "@/lib/constants";
+import { getPlaygroundFiltersQuery } from "@/lib/filters";
+import { DEFAULT_INSIGHTS_LOCALE, getBrowserInsightsLocale } from "@/lib/insights-locale";
 
 // Safely set Mapbox access token with proper error handling
 const mapboxToken = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN;
@@ -37,6 +38,8 @@ const CLUSTER_COUNT_LAYER_ID = "cluster-count";
 const UNCLUSTERED_POINT_LAYER_ID = "unclustered-point";
 const UNCLUSTERED_POINT_HIT_LAYER_ID = "unclustered-point-hit";
 const UNCLUSTERED_LABEL_LAYER_ID = "unclustered-label";
+// Wait for enrichment results to settle before refetching tiles
+const TILES_REFRESH_DELAY_MS = 2000;
 const DEFAULT_BOUNDS = {
   south: 38.806,
   north: 38.9971,
@@ -99,36 +102,50 @@ const getMapBounds = (map: mapboxgl.Map | null): MapBounds => {
   };
 };
 
-const createGeoJson = (
-  playgrounds: Playground[],
-): FeatureCollection<
-  Point,
-  { id: number; name: string; tier: string | null }
-> => {
+// Vector tiles from /api/tiles; the version param busts the HTTP cache after enrichment
+// and the filter params (same as the page URL) are applied server-side
+const getPlaygroundTilesUrl = (version: number, filtersQuery: string) => {
+  const locale = getBrowserInsightsLocale();
+  const lang = locale === DEFAULT_INSIGHTS_LOCALE ? "" : `&lang=${locale}`;
+  return `${window.location.origin}/api/tiles/{z}/{x}/{y}.mvt?v=${version}${lang}${filtersQuery ? `&${filtersQuery}` : ""}`;
+};
+
+// Playgrounds outside the current search results are only known from their tile feature
+const createPlaygroundFromFeature = (
+  feature: mapboxgl.MapboxGeoJSONFeature,
+): Playground | null => {
+  const properties = feature.properties;
+  if (!properties?.id || feature.geometry.type !== "Point") {
+    return null;
+  }
+
+  const [lon, lat] = feature.geometry.coordinates;
   return {
-    type: "FeatureCollection",
-    features: playgrounds.map((playground) => ({
-      type: "Feature",
-      geometry: {
-        type: "Point",
-        coordinates: [playground.lon, playground.lat],
-      },
-      properties: {
-        id: playground.osmId,
-        type: (playground.osmType || "").toString(),
-        name: playground.enriched ? playground.name || UNNAMED_PLAYGROUND : "",
-        tier: playground.enriched
-          ? playground.tier || "neighborhood"
-          : "neighborhood",
-      },
-    })),
+    id: properties.id,
+    name: properties.osmName || null,
+    description: null,
+    lat,
+    lon,
+    address: null,
+    features: null,
+    parking: null,
+    sources: null,
+    images: null,
+    osmId: properties.id,
+    osmType: properties.type,
+    osmTags: null,
+    enriched: false,
+    accessibility: null,
+    tier: null,
+    tierReasoning: null,
   };
 };
 
 // Wrap with React.memo to prevent unnecessary re-renders
 export const MapView = React.memo(function MapView() {
   const { theme } = useTheme();
-  const { mapBounds, setMapBounds } = useFilters();
+  const { mapBounds, setMapBounds, filters } = useFilters();
+  const filtersQuery = useMemo(() => getPlaygroundFiltersQuery(filters), [filters]);
   const {
     playgrounds,
     flyToCoords,
@@ -358,13 +375,17 @@ export const MapView = React.memo(function MapView() {
     );
   }, [updateUserLocationMarker]);
 
-  // Memoize GeoJSON data to prevent recreation on every render
-  const playgroundsGeoJson = useMemo((): FeatureCollection<
-    Point,
-    { id: number; name: string; tier: string | null }
-  > => {
-    return createGeoJson(playgrounds || []);
-  }, [playgrounds]);
+  // Tiles carry names and tiers from the AI cache, so refetch them once newly
+  // enriched playgrounds have settled
+  const [tilesVersion, setTilesVersion] = useState(0);
+  const enrichedCount = playgrounds.filter((p) => p.enriched).length;
+  useEffect(() => {
+    if (enrichedCount === 0) {
+      return undefined;
+    }
+    const timer = setTimeout(() => setTilesVersion(enrichedCount), TILES_REFRESH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [enrichedCount]);
 
   const updateMapStyle = useCallback(
     (currentMap: mapboxgl.Map, currentTheme: string | undefined) => {
@@ -377,31 +398,22 @@ export const MapView = React.memo(function MapView() {
     (currentMap: mapboxgl.Map, currentTheme: string | undefined) => {
       const mapColors = getMapColors(currentTheme);
 
-      // Source for GeoJSON data
+      // Vector tile source (clusters with hasStar/hasGem are built server-side
+      // below the max tile zoom; higher zooms overzoom the max zoom tiles)
       if (!currentMap.getSource(SOURCE_ID)) {
         currentMap.addSource(SOURCE_ID, {
-          type: "geojson",
-          data: playgroundsGeoJson,
-          cluster: true,
-          clusterMaxZoom: 14,
-          clusterRadius: 15,
-          clusterProperties: {
-            // Track if cluster has any star tier playgrounds
-            hasStar: [
-              "any",
-              ["case", ["==", ["get", "tier"], "star"], true, false],
-            ],
-            // Track if cluster has any gem tier playgrounds
-            hasGem: [
-              "any",
-              ["case", ["==", ["get", "tier"], "gem"], true, false],
-            ],
-          },
+          type: "vector",
+          tiles: [getPlaygroundTilesUrl(tilesVersion, filtersQuery)],
+          minzoom: 0,
+          maxzoom: PLAYGROUND_TILE_MAX_ZOOM,
         });
       } else {
-        (currentMap.getSource(SOURCE_ID) as mapboxgl.GeoJSONSource).setData(
-          playgroundsGeoJson,
-        );
+        // Only reload when the version or filters changed (this also runs on every styledata event)
+        const source = currentMap.getSource(SOURCE_ID) as mapboxgl.VectorTileSource;
+        const tilesUrl = getPlaygroundTilesUrl(tilesVersion, filtersQuery);
+        if (source.tiles?.[0] !== tilesUrl) {
+          source.setTiles([tilesUrl]);
+        }
       }
 
       // Layer for Clusters (Circles)
@@ -410,6 +422,7 @@ export const MapView = React.memo(function MapView() {
           id: CLUSTER_LAYER_ID,
           type: "circle",
           source: SOURCE_ID,
+          "source-layer": PLAYGROUND_TILE_LAYER,
           filter: ["has", "point_count"],
           paint: {
             "circle-color": [
@@ -455,6 +468,7 @@ export const MapView = React.memo(function MapView() {
           id: CLUSTER_COUNT_LAYER_ID,
           type: "symbol",
           source: SOURCE_ID,
+          "source-layer": PLAYGROUND_TILE_LAYER,
           filter: ["has", "point_count"],
           layout: {
             "text-field": "{point_count_abbreviated}",
@@ -480,6 +494,7 @@ export const MapView = React.memo(function MapView() {
           id: UNCLUSTERED_POINT_HIT_LAYER_ID,
           type: "circle",
           source: SOURCE_ID,
+          "source-layer": PLAYGROUND_TILE_LAYER,
           filter: ["!", ["has", "point_count"]],
           paint: {
             "circle-color": "transparent",
@@ -495,6 +510,7 @@ export const MapView = React.memo(function MapView() {
           id: UNCLUSTERED_POINT_LAYER_ID,
           type: "circle",
           source: SOURCE_ID,
+          "source-layer": PLAYGROUND_TILE_LAYER,
           filter: ["!", ["has", "point_count"]],
           paint: {
             "circle-color": [
@@ -543,6 +559,7 @@ export const MapView = React.memo(function MapView() {
           id: UNCLUSTERED_LABEL_LAYER_ID,
           type: "symbol",
           source: SOURCE_ID,
+          "source-layer": PLAYGROUND_TILE_LAYER,
           filter: ["!", ["has", "point_count"]],
           layout: {
             "text-field": ["get", "name"],
@@ -562,7 +579,7 @@ export const MapView = React.memo(function MapView() {
         });
       }
     },
-    [playgroundsGeoJson],
+    [tilesVersion, filtersQuery],
   );
 
   useEffect(() => {
@@ -577,6 +594,11 @@ export const MapView = React.memo(function MapView() {
         style: getMapStyle(theme),
         center: [0, 20], // Center on world
         zoom: 1.5, // Zoomed out world view
+        // Tile requests go through the API middleware like other app requests
+        transformRequest: (url, resourceType) =>
+          resourceType === "Tile" && url.startsWith(`${window.location.origin}/api/tiles/`)
+            ? { url, headers: { "x-app-origin": "internal" } }
+            : { url },
       });
 
       if (mapBounds) {
@@ -648,9 +670,10 @@ export const MapView = React.memo(function MapView() {
       e.originalEvent.preventDefault();
       const feature = e.features?.[0];
       if (feature?.properties && feature.properties.id) {
-        const playground = playgrounds.find(
-          (p) => p.osmId === feature.properties!.id,
-        );
+        // Tiles cover more playgrounds than the current search results
+        const playground =
+          playgrounds.find((p) => p.osmId === feature.properties!.id) ||
+          createPlaygroundFromFeature(feature);
         if (playground) {
           // Toggle behavior: if clicking the same playground, close it
           if (
@@ -679,9 +702,10 @@ export const MapView = React.memo(function MapView() {
       e.originalEvent.preventDefault();
       const feature = e.features?.[0];
       if (feature?.properties && feature.properties.id) {
-        const playground = playgrounds.find(
-          (p) => p.osmId === feature.properties!.id,
-        );
+        // Tiles cover more playgrounds than the current search results
+        const playground =
+          playgrounds.find((p) => p.osmId === feature.properties!.id) ||
+          createPlaygroundFromFeature(feature);
         if (playground) {
           // Toggle behavior: if clicking the same playground, close it
           if (
@@ -709,34 +733,17 @@ export const MapView = React.memo(function MapView() {
       e.originalEvent.stopPropagation();
       const feature = e.features?.[0];
       if (
-        !feature?.properties?.cluster_id ||
-        feature.geometry.type !== "Point"
+        !feature?.properties?.point_count ||
+        feature.geometry.type !== "Point" ||
+        !map.current
       ) {
         return;
       }
 
-      const clusterId = feature.properties.cluster_id;
-      if (!map.current) return;
-
-      const source = map.current.getSource(SOURCE_ID) as
-        | mapboxgl.GeoJSONSource
-        | undefined;
-
-      if (!source || typeof source.getClusterExpansionZoom !== "function") {
-        return;
-      }
-
-      // Get the zoom level needed to expand this cluster
-      source.getClusterExpansionZoom(clusterId, (err, zoom) => {
-        if (!err && feature.geometry.type === "Point") {
-          const coordinates = feature.geometry.coordinates as [number, number];
-          if (map.current) {
-            map.current.easeTo({
-              center: coordinates,
-              zoom: (zoom || 0) + 4,
-            });
-          }
-        }
+      // Clusters are per tile grid cell, so zooming in two levels splits them up
+      map.current.easeTo({
+        center: feature.geometry.coordinates as [number, number],
+        zoom: Math.min(map.current.getZoom() + 2, PLAYGROUND_TILE_MAX_ZOOM),
       });
     };
 
@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { TierBadge } from "@/components/tier-badge";
+import { HowWeKnowThis } from "@/components/how-we-know-this";
 import ImageCarousel from "@/components/image-carousel";
 import { UNNAMED_PLAYGROUND } from "@/lib/constants";
 import { formatEnumString } from "@/lib/utils";
@@ -65,6 +66,14 @@ export function PlaygroundCard({
 
   const name = playground.name || UNNAMED_PLAYGROUND;
   const displayImage = playground.images?.[0];
+  // Credits for freely licensed images (Wikimedia Commons, Mapillary), one per author and licence
+  const imageCredits = Array.from(
+    new Map(
+      (playground.images ?? []).flatMap((image) =>
+        image.license ? [[`${image.license.attribution}|${image.license.name}`, image.license] as const] : [],
+      ),
+    ).values(),
+  );
 
   // Filter out "Unknown" values from features and accessibility
   const filteredFeatures = filterUnknown(playground.features);
@@ -154,7 +163,7 @@ export function PlaygroundCard({
             ) : displayImage ? (
               <Image
                 className="h-full w-full object-cover"
-                src={displayImage.image_url}
+                src={displayImage.thumbnail_url ?? displayImage.image_url}
                 alt={`Photo of ${name}`}
                 width={displayImage.width}
                 height={displayImage.height}
@@ -273,7 +282,7 @@ export function PlaygroundCard({
         ) : playground.images && playground.images.length > 1 ? (
           <ImageCarousel
             images={playground.images.map((image) => ({
-              filename: image.image_url,
+              filename: image.card_url ?? image.image_url,
               alt: `Photo of ${name}`,
             }))}
             className="h-full w-full"
@@ -282,7 +291,7 @@ export function PlaygroundCard({
         ) : displayImage ? (
           <Image
             className="h-full w-full object-cover"
-            src={displayImage.image_url}
+            src={displayImage.card_url ?? displayImage.image_url}
             alt={`Photo of ${name}`}
             width={displayImage.width}
             height={displayImage.height}
@@ -297,7 +306,7 @@ export function PlaygroundCard({
         {/* Tier Badge - Top Right */}
         {playground.enriched && !hideTierBadge && playground.tier && (
           <div className="absolute top-2 right-2 z-10">
-            <TierBadge tier={playground.tier} variant="compact" />
+            <TierBadge tier={playground.tier} tierScore={playground.tierScore} variant="compact" />
           </div>
         )}
 
@@ -320,6 +329,26 @@ export function PlaygroundCard({
           )}
       </div>
 
+      {/* Image Credits (detailed only) */}
+      {isDetailed && playground.enriched && imageCredits.length > 0 && (
+        <p className="text-muted-foreground -mt-2 text-xs">
+          Photos:{" "}
+          {imageCredits.map((license, index) => (
+            <span key={`${license.attribution}|${license.name}`}>
+              {index > 0 && "; "}
+              {license.attribution && `${license.attribution}, `}
+              {license.url ? (
+                <a href={license.url} target="_blank" rel="noopener noreferrer" className="underline hover:no-underline">
+                  {license.name}
+                </a>
+              ) : (
+                license.name
+              )}
+            </span>
+          ))}
+        </p>
+      )}
+
       {/* Content Section */}
       <div className={`flex ${isDetailed ? "" : "flex-1"} flex-col gap-3 ${isDetailed ? "" : "overflow-y-auto"}`}>
         {/* Title + Quick Actions */}
@@ -328,11 +357,14 @@ export function PlaygroundCard({
             {!playground.enriched ? (
               <Skeleton className="h-6 w-3/4" />
             ) : (
-              <h3
-                className={`font-semibold ${isDetailed ? "text-2xl" : "text-lg"}`}
-              >
-                {name}
-              </h3>
+              <div>
+                <h3
+                  className={`font-semibold ${isDetailed ? "text-2xl" : "text-lg"}`}
+                >
+                  {name}
+                </h3>
+                <HowWeKnowThis provenance={playground.provenance} field="name" className="mt-1" />
+              </div>
             )}
             {playground.enriched && (
               <div className="flex gap-1">
@@ -407,6 +439,16 @@ export function PlaygroundCard({
                 <p className="text-muted-foreground mt-2 text-base text-purple-800 dark:text-purple-300">
                   {playground.tierReasoning}
                 </p>
+                {playground.tierScore && (
+                  <TierBadge
+                    tier={playground.tier}
+                    tierScore={playground.tierScore}
+                    size="sm"
+                    showReasons
+                    className="mt-2"
+                  />
+                )}
+                <HowWeKnowThis provenance={playground.provenance} field="tier" className="mt-2" />
               </div>
             </div>
           )}
@@ -436,6 +478,7 @@ export function PlaygroundCard({
                   No features information available
                 </p>
               )}
+              <HowWeKnowThis provenance={playground.provenance} field="features" className="mt-2" />
             </div>
           </div>
         )}
@@ -463,6 +506,7 @@ export function PlaygroundCard({
                   No accessibility information available
                 </p>
               )}
+              <HowWeKnowThis provenance={playground.provenance} field="accessibility" className="mt-2" />
             </div>
           </div>
         )}
@@ -501,6 +545,7 @@ export function PlaygroundCard({
                   </p>
                 )}
               </div>
+              <HowWeKnowThis provenance={playground.provenance} field="parking" className="mt-2" />
             </div>
           </div>
         )}
@@ -1,10 +1,12 @@
 "use client";
 
 import { PlaygroundCard } from "@/components/playground-card";
+import { UserPhotoUpload } from "@/components/user-photo-upload";
 import { Playground } from "@/types/playground";
 import { X, Share2, Navigation, ParkingCircle, Accessibility, MapPin } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { UNNAMED_PLAYGROUND } from "@/lib/constants";
+import { formatOsmIdentifier } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface PlaygroundDetailSidebarProps {
@@ -190,6 +192,9 @@ export function PlaygroundDetailSidebar({
             hideTierBadge
             hideInfoIndicators
           />
+          <div className="mt-4">
+            <UserPhotoUpload osmId={formatOsmIdentifier(playground.osmId, playground.osmType)} />
+          </div>
         </div>
       </div>
     </>
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useFilters } from "@/contexts/filters-context";
+import {
+  ACCESSIBILITY_FILTERS,
+  FEATURE_FILTERS,
+  countActiveFilters,
+  type AccessibilityFilter,
+  type FeatureFilter,
+} from "@/lib/filters";
+import { cn, formatEnumString } from "@/lib/utils";
+import { PlaygroundTier } from "@/types/playground";
+
+const TIER_OPTIONS: { value: PlaygroundTier | null; label: string }[] = [
+  { value: null, label: "Any" },
+  { value: "gem", label: "💎 Gem or better" },
+  { value: "star", label: "⭐ Star" },
+];
+
+// Vocabulary ids don't read well for these
+const ACCESSIBILITY_LABELS: Partial<Record<AccessibilityFilter, string>> = {
+  wheelchair: "Wheelchair accessible",
+};
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+function FilterChip({
+  selected,
+  onClick,
+  children,
+}: {
+  selected: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <Button
+      variant={selected ? "default" : "outline"}
+      size="sm"
+      aria-pressed={selected}
+      onClick={onClick}
+    >
+      {children}
+    </Button>
+  );
+}
+
+function FilterSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <div className="flex flex-wrap gap-2">{children}</div>
+    </div>
+  );
+}
+
+export function PlaygroundFiltersButton({ className }: { className?: string }) {
+  const { filters, setFilters, clearFilters } = useFilters();
+  const [open, setOpen] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={cn("bg-background", className)}>
+          <SlidersHorizontal className="h-4 w-4" />
+          Filters
+          {activeCount > 0 && (
+            <span className="bg-primary text-primary-foreground rounded-full px-1.5 text-xs">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Filter playgrounds</DialogTitle>
+          <DialogDescription>
+            Applies to the map and the list. Playgrounds still loading details stay visible.
+          </DialogDescription>
+        </DialogHeader>
+
+        <FilterSection title="Tier">
+          {TIER_OPTIONS.map((option) => (
+            <FilterChip
+              key={option.label}
+              selected={filters.minTier === option.value}
+              onClick={() => setFilters({ ...filters, minTier: option.value })}
+            >
+              {option.label}
+            </FilterChip>
+          ))}
+        </FilterSection>
+
+        <FilterSection title="Features">
+          {(Object.keys(FEATURE_FILTERS) as FeatureFilter[]).map((feature) => (
+            <FilterChip
+              key={feature}
+              selected={filters.features.includes(feature)}
+              onClick={() => setFilters({ ...filters, features: toggle(filters.features, feature) })}
+            >
+              {formatEnumString(feature)}
+            </FilterChip>
+          ))}
+        </FilterSection>
+
+        <FilterSection title="Accessibility & amenities">
+          {(Object.keys(ACCESSIBILITY_FILTERS) as AccessibilityFilter[]).map((need) => (
+            <FilterChip
+              key={need}
+              selected={filters.accessibility.includes(need)}
+              onClick={() =>
+                setFilters({ ...filters, accessibility: toggle(filters.accessibility, need) })
+              }
+            >
+              {ACCESSIBILITY_LABELS[need] || formatEnumString(need)}
+            </FilterChip>
+          ))}
+        </FilterSection>
+
+        <FilterSection title="Photos">
+          <FilterChip
+            selected={filters.hasPhotos}
+            onClick={() => setFilters({ ...filters, hasPhotos: !filters.hasPhotos })}
+          >
+            Has photos
+          </FilterChip>
+        </FilterSection>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={clearFilters} disabled={activeCount === 0}>
+            Clear all
+          </Button>
+          <Button onClick={() => setOpen(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
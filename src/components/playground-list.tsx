@@ -4,6 +4,8 @@ import { Card, CardContent } from "@/components/ui/card";
 import { usePlaygrounds } from "@/contexts/playgrounds-context";
 import { useFilters } from "@/contexts/filters-context";
 import { PlaygroundCard } from "@/components/playground-card";
+import { Button } from "@/components/ui/button";
+import { filterPlaygrounds, hasActiveFilters } from "@/lib/filters";
 import { useInView } from "react-intersection-observer";
 import React, { useEffect, useRef, useMemo, useCallback, createContext, useContext } from "react";
 import { Playground } from "@/types/playground";
@@ -27,11 +29,8 @@ function EnrichmentBatchProvider({ children }: { children: React.ReactNode }) {
     const idsToEnrich = Array.from(batchQueue.current);
     batchQueue.current.clear();
 
-    // Process in batches of 5
-    for (let i = 0; i < idsToEnrich.length; i += 5) {
-      const batch = idsToEnrich.slice(i, i + 5);
-      enrichPlaygroundsBatch(batch);
-    }
+    // Streamed in requests of up to MAX_STREAM_PLAYGROUNDS - results arrive per playground
+    enrichPlaygroundsBatch(idsToEnrich);
   }, [enrichPlaygroundsBatch]);
 
   const requestEnrichment = useCallback((playgroundId: number) => {
@@ -42,13 +41,8 @@ function EnrichmentBatchProvider({ children }: { children: React.ReactNode }) {
       clearTimeout(batchTimer.current);
     }
 
-    // If we have 5 items, process immediately
-    if (batchQueue.current.size >= 5) {
-      processBatch();
-    } else {
-      // Otherwise, wait 150ms to collect more items
-      batchTimer.current = setTimeout(processBatch, 150);
-    }
+    // Wait 150ms to collect items scrolled into view together
+    batchTimer.current = setTimeout(processBatch, 150);
   }, [processBatch]);
 
   // Cleanup timer on unmount
@@ -146,14 +140,20 @@ function PlaygroundListContent({
   displayEmptyState?: boolean;
 }) {
   const { playgrounds, loading } = usePlaygrounds();
-  const { mapBounds } = useFilters();
+  const { mapBounds, filters, clearFilters } = useFilters();
   const containerRef = useRef<HTMLDivElement>(null);
   const prevPlaygroundIdsRef = useRef<string>("");
 
+  // Same filters as the map tiles
+  const filteredPlaygrounds = useMemo(
+    () => filterPlaygrounds(playgrounds, filters),
+    [playgrounds, filters],
+  );
+
   // Sort playgrounds by distance from map center (same as AI insights prioritization)
   const sortedPlaygrounds = useMemo(() => {
-    if (!mapBounds || playgrounds.length === 0) {
-      return playgrounds;
+    if (!mapBounds || filteredPlaygrounds.length === 0) {
+      return filteredPlaygrounds;
     }
 
     // Calculate map center
@@ -163,7 +163,7 @@ function PlaygroundListContent({
     };
 
     // Sort by distance from center (center-to-edge prioritization)
-    return [...playgrounds].sort((a, b) => {
+    return [...filteredPlaygrounds].sort((a, b) => {
       const distA = Math.sqrt(
         Math.pow(a.lat - mapCenter.lat, 2) +
         Math.pow(a.lon - mapCenter.lon, 2)
@@ -174,7 +174,7 @@ function PlaygroundListContent({
       );
       return distA - distB;
     });
-  }, [playgrounds, mapBounds]);
+  }, [filteredPlaygrounds, mapBounds]);
 
   // Memoize the sorted ID string to avoid recalculating on every render
   const currentIds = useMemo(
@@ -202,6 +202,23 @@ function PlaygroundListContent({
       return null;
     }
 
+    if (displayEmptyState && playgrounds.length > 0 && hasActiveFilters(filters)) {
+      return (
+        <Card className="bg-background/95 flex w-[100%] flex-col items-center justify-center gap-0 overflow-hidden p-8 shadow-lg backdrop-blur-sm transition-shadow">
+          <CardContent className="flex flex-col items-center p-0">
+            <div className="text-muted-foreground mb-2 text-5xl">🔍</div>
+            <h3 className="mb-1 font-semibold">No playgrounds match your filters</h3>
+            <p className="text-muted-foreground mb-4 text-center text-sm">
+              Try removing a filter or moving the map.
+            </p>
+            <Button variant="outline" size="sm" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
     return displayEmptyState ? (
       <Card className="bg-background/95 flex w-[100%] flex-col items-center justify-center gap-0 overflow-hidden p-8 shadow-lg backdrop-blur-sm transition-shadow">
         <CardContent className="flex flex-col items-center p-0">
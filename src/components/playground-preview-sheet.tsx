@@ -3,9 +3,11 @@
 import { useEffect } from "react";
 import { Sheet, SheetContent, SheetTitle, SheetDescription } from "@/components/ui/sheet";
 import { PlaygroundCard } from "@/components/playground-card";
+import { UserPhotoUpload } from "@/components/user-photo-upload";
 import { usePlaygrounds } from "@/contexts/playgrounds-context";
 import { useMediaQuery } from "@/lib/hooks";
 import { UNNAMED_PLAYGROUND } from "@/lib/constants";
+import { formatOsmIdentifier } from "@/lib/utils";
 import { X, Share2, Navigation, ParkingCircle, Accessibility, MapPin } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
@@ -199,16 +201,23 @@ export function PlaygroundPreviewSheet() {
         {/* Scrollable content */}
         <div className="flex-1 overflow-y-auto px-4 pb-8">
           {currentPlayground && (
-            <PlaygroundCard
-              playground={currentPlayground}
-              variant="detailed"
-              onFlyTo={(coords) => {
-                requestFlyTo(coords);
-              }}
-              hideTitle
-              hideTierBadge
-              hideInfoIndicators
-            />
+            <>
+              <PlaygroundCard
+                playground={currentPlayground}
+                variant="detailed"
+                onFlyTo={(coords) => {
+                  requestFlyTo(coords);
+                }}
+                hideTitle
+                hideTierBadge
+                hideInfoIndicators
+              />
+              <div className="mt-4">
+                <UserPhotoUpload
+                  osmId={formatOsmIdentifier(currentPlayground.osmId, currentPlayground.osmType)}
+                />
+              </div>
+            </>
           )}
         </div>
       </SheetContent>
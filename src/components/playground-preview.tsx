@@ -55,7 +55,7 @@ export function PlaygroundPreview({
         ) : playground.images && playground.images.length > 1 ? (
           <ImageCarousel
             images={playground.images.map((image) => ({
-              filename: image.image_url,
+              filename: image.card_url ?? image.image_url,
               alt: `Photo of ${name}`,
             }))}
             className="h-full w-full"
@@ -64,7 +64,7 @@ export function PlaygroundPreview({
         ) : displayImage ? (
           <Image
             className="h-full w-full object-cover"
-            src={displayImage.image_url}
+            src={displayImage.card_url ?? displayImage.image_url}
             alt={`Photo of ${name}`}
             width={displayImage.width}
             height={displayImage.height}
@@ -79,7 +79,7 @@ export function PlaygroundPreview({
         {/* Tier Badge - Top Right */}
         {playground.enriched && !hideTierBadge && playground.tier && (
           <div className="absolute right-2 top-2 z-10">
-            <TierBadge tier={playground.tier} variant="compact" />
+            <TierBadge tier={playground.tier} tierScore={playground.tierScore} variant="compact" />
           </div>
         )}
 
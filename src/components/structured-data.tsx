@@ -1,6 +1,11 @@
 import { Playground } from "@/types/playground";
 import { SITE_NAME, SITE_URL, UNNAMED_PLAYGROUND } from "@/lib/constants";
 
+// Proxied images are served from this site (/api/image/...)
+function toAbsoluteUrl(url: string | undefined): string | undefined {
+  return url?.startsWith("/") ? `${SITE_URL}${url}` : url;
+}
+
 interface StructuredDataProps {
   playground: Playground;
 }
@@ -26,7 +31,7 @@ export default function StructuredData({ playground }: StructuredDataProps) {
       longitude: playground.lon,
     },
     url: `${SITE_URL}?playground=${playground.osmId}`,
-    image: playground.images?.[0]?.image_url,
+    image: toAbsoluteUrl(playground.images?.[0]?.image_url),
     amenityFeature:
       playground.features && playground.features.length > 0
         ? playground.features.map((feature) => ({
@@ -1,14 +1,34 @@
 import { PlaygroundTier } from "@/lib/tier-calculator";
 import { cn } from "@/lib/utils";
+import type { InsightsTierScore } from "@/types/ai-insights";
 
 interface TierBadgeProps {
   tier: PlaygroundTier | null;
   size?: "sm" | "md" | "lg";
   variant?: "default" | "compact";
   className?: string;
+  // Score behind the tier (see reconcilePlaygroundTier); shown as a number and tooltip
+  tierScore?: InsightsTierScore | null;
+  // List the reasons under the badge (default variant only)
+  showReasons?: boolean;
 }
 
-export function TierBadge({ tier, size = "md", variant = "default", className }: TierBadgeProps) {
+// e.g. "Score 62/100 (Gemini: gem, calculated: 35 points)" plus one line per reason
+function formatTierScoreTitle(tierScore: InsightsTierScore): string {
+  const sources = tierScore.model_tier
+    ? `Gemini: ${tierScore.model_tier}, calculated: ${tierScore.calculated_score} points`
+    : `calculated: ${tierScore.calculated_score} points`;
+  return [`Score ${tierScore.score}/100 (${sources})`, ...tierScore.reasons.map((reason) => `• ${reason}`)].join("\n");
+}
+
+export function TierBadge({
+  tier,
+  size = "md",
+  variant = "default",
+  className,
+  tierScore,
+  showReasons = false,
+}: TierBadgeProps) {
   if (!tier || tier === "neighborhood") {
     return null; // Don't show badge for neighborhood tier
   }
@@ -51,6 +71,8 @@ export function TierBadge({ tier, size = "md", variant = "default", className }:
   const config = tierConfig[tier];
   if (!config) return null;
 
+  const title = tierScore ? formatTierScoreTitle(tierScore) : undefined;
+
   // Compact variant - icon only, circular like parking/accessibility badges
   if (variant === "compact") {
     return (
@@ -61,14 +83,15 @@ export function TierBadge({ tier, size = "md", variant = "default", className }:
           config.textColor,
           className,
         )}
+        title={title}
       >
         <span className={sizeClasses[size]}>{config.icon}</span>
       </div>
     );
   }
 
-  // Default variant - icon + label
-  return (
+  // Default variant - icon + label (+ score)
+  const badge = (
     <div
       className={cn(
         "inline-flex items-center gap-1 rounded-full border font-medium",
@@ -76,11 +99,28 @@ export function TierBadge({ tier, size = "md", variant = "default", className }:
         config.textColor,
         config.borderColor,
         sizeClasses[size],
-        className,
+        !showReasons && className,
       )}
+      title={title}
     >
       <span>{config.icon}</span>
       <span>{config.label}</span>
+      {tierScore && <span className="opacity-70">· {tierScore.score}</span>}
+    </div>
+  );
+
+  if (!showReasons || !tierScore || tierScore.reasons.length === 0) {
+    return badge;
+  }
+
+  return (
+    <div className={cn("flex flex-col items-start gap-1.5", className)}>
+      {badge}
+      <ul className="text-muted-foreground list-disc pl-5 text-sm">
+        {tierScore.reasons.map((reason) => (
+          <li key={reason}>{reason}</li>
+        ))}
+      </ul>
     </div>
   );
 }
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { Check, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { updateUserPhoto } from "@/lib/api/client";
+import type { UserPhoto } from "@/lib/user-photos";
+import { toast } from "sonner";
+
+function formatLocation(photo: UserPhoto): string {
+  if (photo.distanceM === null) {
+    return "Location unknown";
+  }
+  return `${photo.distanceM} m from the playground (${photo.locationSource === "exif" ? "photo GPS" : "device location reported by the uploader"})`;
+}
+
+/**
+ * One uploaded photo in the moderation queue
+ * Pending photos can be approved or rejected, approved ones taken down
+ */
+export function UserPhotoReviewCard({
+  photo,
+  onUpdated,
+}: {
+  photo: UserPhoto;
+  onUpdated: (photo: UserPhoto) => void;
+}) {
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const canApprove = photo.status === "pending";
+  const canReject = photo.status !== "rejected";
+
+  const submit = async (action: "approve" | "reject") => {
+    setIsSubmitting(true);
+    const result = await updateUserPhoto({
+      id: photo.id,
+      action,
+      reason: action === "reject" ? reason : undefined,
+    });
+    setIsSubmitting(false);
+
+    if ("error" in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success(action === "approve" ? "Approved" : photo.status === "approved" ? "Taken down" : "Rejected");
+    setIsRejecting(false);
+    onUpdated(result.photo);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="gap-1">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <Link
+              href={`/?playground=${photo.osmId.replace(/^[NWR]/, "")}`}
+              className="text-lg font-semibold underline hover:no-underline"
+            >
+              {photo.osmId}
+            </Link>
+            <p className="text-muted-foreground text-sm">
+              Uploaded {new Date(photo.createdAt).toLocaleString()} · {formatLocation(photo)}
+            </p>
+          </div>
+          <div className="flex shrink-0 flex-col items-end gap-1">
+            <Badge variant="outline">
+              {photo.image.width}×{photo.image.height}
+            </Badge>
+            {/* No EXIF GPS: the photo may not have been taken at the playground */}
+            {!photo.locationVerified && <Badge variant="destructive">Unverified location</Badge>}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="flex flex-col gap-3 text-sm">
+        <a href={photo.image.image_url} target="_blank" rel="noopener noreferrer">
+          <Image
+            src={photo.image.card_url || photo.image.image_url}
+            alt={`Photo uploaded for ${photo.osmId}`}
+            width={photo.image.width}
+            height={photo.image.height}
+            className="h-auto max-h-96 w-full rounded-md object-contain"
+            unoptimized={true}
+          />
+        </a>
+
+        {photo.status !== "pending" && (
+          <p className="text-muted-foreground border-t pt-3">
+            {photo.status === "approved" ? "Approved" : "Rejected"} by {photo.reviewedBy}
+            {photo.reviewedAt && ` on ${new Date(photo.reviewedAt).toLocaleString()}`}
+            {photo.rejectionReason && `: ${photo.rejectionReason}`}
+          </p>
+        )}
+
+        {canReject && isRejecting && (
+          <div className="grid gap-1 border-t pt-3">
+            <Label htmlFor={`reason-${photo.id}`}>Reason (optional)</Label>
+            <Textarea
+              id={`reason-${photo.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Shows people's faces, or a different playground"
+            />
+          </div>
+        )}
+
+        {canReject && (
+          <div className="flex flex-wrap gap-2 border-t pt-3">
+            {isRejecting ? (
+              <>
+                <Button variant="destructive" onClick={() => submit("reject")} disabled={isSubmitting}>
+                  <X className="mr-2 h-4 w-4" />
+                  {canApprove ? "Confirm rejection" : "Confirm takedown"}
+                </Button>
+                <Button variant="ghost" onClick={() => setIsRejecting(false)} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <>
+                {canApprove && (
+                  <Button onClick={() => submit("approve")} disabled={isSubmitting}>
+                    <Check className="mr-2 h-4 w-4" />
+                    Approve
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => setIsRejecting(true)} disabled={isSubmitting}>
+                  <X className="mr-2 h-4 w-4" />
+                  {canApprove ? "Reject" : "Take down"}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ImagePlus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { useAuth } from "@/contexts/auth-context";
+import { uploadUserPhoto } from "@/lib/api/client";
+import { USER_PHOTO_TYPES } from "@/lib/constants";
+
+// How long to wait for the device position before uploading without it
+const GEOLOCATION_TIMEOUT_MS = 5000;
+
+interface UserPhotoUploadProps {
+  // Formatted OSM identifier (e.g., "W123456")
+  osmId: string;
+}
+
+/**
+ * Device position, used by the server when a photo has no GPS data
+ * Null if unavailable or denied - the upload goes ahead without it
+ */
+function getDevicePosition(): Promise<GeolocationCoordinates | null> {
+  if (typeof navigator === "undefined" || !navigator.geolocation) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(position.coords),
+      () => resolve(null),
+      { timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: 60_000 },
+    );
+  });
+}
+
+/**
+ * "Add a photo" button for a playground
+ * Signed-out users are asked to sign in; uploads wait for admin approval
+ */
+export function UserPhotoUpload({ osmId }: UserPhotoUploadProps) {
+  const { user, signIn } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleClick = () => {
+    if (!user) {
+      signIn();
+      return;
+    }
+    inputRef.current?.click();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const photo = e.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    e.target.value = "";
+    if (!photo) return;
+
+    setIsUploading(true);
+    const coords = await getDevicePosition();
+    const result = await uploadUserPhoto({
+      osmId,
+      photo,
+      latitude: coords?.latitude,
+      longitude: coords?.longitude,
+    });
+    setIsUploading(false);
+
+    if ("error" in result) {
+      toast.error(result.error);
+      return;
+    }
+    toast.success("Thanks! Your photo will appear once it's approved.");
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={USER_PHOTO_TYPES.join(",")}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={handleClick}
+        disabled={isUploading}
+      >
+        {isUploading ? <Spinner /> : <ImagePlus className="size-4" />}
+        {isUploading ? "Uploading..." : user ? "Add a photo" : "Sign in to add a photo"}
+      </Button>
+    </>
+  );
+}
@@ -4,11 +4,14 @@ import { createContext, useContext, useEffect, useState } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import { User, Session } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase/client";
+import { APP_ADMIN_ROLE } from "@/lib/constants";
 
 type AuthContextType = {
   user: User | null;
   session: Session | null;
   isLoading: boolean;
+  // Signed in with the app admin role (server routes check this again)
+  isAdmin: boolean;
   signIn: () => Promise<void>;
   signOut: () => Promise<void>;
 };
@@ -78,6 +81,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     user,
     session,
     isLoading,
+    isAdmin: user?.role === APP_ADMIN_ROLE,
     signIn,
     signOut,
   };
@@ -16,13 +16,24 @@ import {
   getMapBoundsStateFromUrl,
   updateUrlWithMapBounds,
   getMapBoundsFromSession,
+  getFiltersStateFromUrl,
+  getFiltersFromSession,
 } from "@/lib/utils";
+import {
+  EMPTY_PLAYGROUND_FILTERS,
+  arePlaygroundFiltersEqual,
+  hasActiveFilters,
+  type PlaygroundFilters,
+} from "@/lib/filters";
 import { MapBounds } from "@/types/map";
 import { useDebounce } from "@/lib/hooks";
 
 interface FiltersContextType {
   mapBounds: MapBounds | null;
   setMapBounds: (bounds: MapBounds) => void;
+  filters: PlaygroundFilters;
+  setFilters: (filters: PlaygroundFilters) => void;
+  clearFilters: () => void;
 }
 
 const FiltersContext = createContext<FiltersContextType | undefined>(undefined);
@@ -31,6 +42,7 @@ export function FiltersProvider({ children }: { children: ReactNode }) {
   const pathname = usePathname();
   const [isInitialized, setIsInitialized] = useState(false);
   const [mapBounds, setMapBounds] = useState<MapBounds | null>(null);
+  const [filters, setFiltersState] = useState<PlaygroundFilters>(EMPTY_PLAYGROUND_FILTERS);
 
   // Update map bounds only if they have changed
   const updateMapBounds = useCallback((bounds: MapBounds) => {
@@ -49,46 +61,68 @@ export function FiltersProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  // Keep the same object while filters are unchanged (the map source and list depend on it)
+  const updateFilters = useCallback((nextFilters: PlaygroundFilters) => {
+    setFiltersState((prevState) =>
+      arePlaygroundFiltersEqual(prevState, nextFilters) ? prevState : nextFilters,
+    );
+  }, []);
+
+  const clearFilters = useCallback(() => {
+    updateFilters(EMPTY_PLAYGROUND_FILTERS);
+  }, [updateFilters]);
+
   // Load filters from URL or session storage when the component mounts
   useEffect(() => {
     // Priority: URL params > session storage > null
     let initialBounds = getMapBoundsStateFromUrl();
+    let initialFilters = getFiltersStateFromUrl();
 
     if (!initialBounds) {
       // No URL params, check session storage
       initialBounds = getMapBoundsFromSession();
+      if (!hasActiveFilters(initialFilters)) {
+        initialFilters = getFiltersFromSession() || initialFilters;
+      }
 
       if (initialBounds) {
         // Update URL to match session storage
-        updateUrlWithMapBounds(initialBounds);
+        updateUrlWithMapBounds(initialBounds, initialFilters);
       }
     }
 
     setMapBounds(initialBounds ? roundMapBounds(initialBounds) : null);
+    setFiltersState(initialFilters);
     setIsInitialized(true);
   }, []);
 
   // Debounced URL update to prevent janky navigation during map movements
-  const debouncedUpdateUrl = useDebounce((bounds: MapBounds | null) => {
-    updateUrlWithMapBounds(bounds);
-  }, 500);
+  const debouncedUpdateUrl = useDebounce(
+    (bounds: MapBounds | null, currentFilters: PlaygroundFilters) => {
+      updateUrlWithMapBounds(bounds, currentFilters);
+    },
+    500,
+  );
 
-  // Update URL when map bounds change (but only after initialization)
+  // Update URL when map bounds or filters change (but only after initialization)
   useEffect(() => {
     if (isInitialized && pathname === "/") {
-      debouncedUpdateUrl(roundMapBounds(mapBounds));
+      debouncedUpdateUrl(roundMapBounds(mapBounds), filters);
     }
     // debouncedUpdateUrl is stable, no need to include in deps
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isInitialized, pathname, mapBounds]);
+  }, [isInitialized, pathname, mapBounds, filters]);
 
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo(
     () => ({
       mapBounds,
       setMapBounds: updateMapBounds,
+      filters,
+      setFilters: updateFilters,
+      clearFilters,
     }),
-    [mapBounds, updateMapBounds],
+    [mapBounds, updateMapBounds, filters, updateFilters, clearFilters],
   );
 
   return (
@@ -11,19 +11,46 @@ import {
   useState,
 } from "react";
 
-import { Playground } from "@/types/playground";
+import { Playground, PlaygroundTierCounts } from "@/types/playground";
+import { MapBounds } from "@/types/map";
 import { useFilters } from "@/contexts/filters-context";
 import {
   searchPlaygrounds,
-  generatePlaygroundAiInsightsBatch,
+  streamPlaygroundEnrichment,
   fetchPlaygroundImages,
 } from "@/lib/api/client";
 // Tier calculation now done by Gemini AI - no longer needed locally
 import { useDebounce } from "@/lib/hooks";
 import { isValidImageUrl } from "@/lib/utils";
+import { MAX_STREAM_PLAYGROUNDS } from "@/lib/constants";
 
 type FlyToCoordinates = [number, number]; // [longitude, latitude]
 
+type EnrichmentRequestOptions = {
+  isDetailView?: boolean; // Detail views are enriched first (see getEnrichmentStrategy)
+  pollAttempt?: number; // Internal: how many times we've polled for queued results
+};
+
+// Streams wait ~50s for queued jobs; anything still queued is re-requested a few times
+const ENRICHMENT_POLL_INTERVAL_MS = 4000;
+const ENRICHMENT_MAX_POLLS = 3;
+
+// Normalized distance from viewport center (0 = center, 1 = corner)
+function getDistanceFromCenter(
+  playground: Playground,
+  bounds: MapBounds | null,
+): number | undefined {
+  if (!bounds) return undefined;
+
+  const halfHeight = (bounds.north - bounds.south) / 2;
+  const halfWidth = (bounds.east - bounds.west) / 2;
+  if (halfHeight <= 0 || halfWidth <= 0) return undefined;
+
+  const dy = (playground.lat - (bounds.north + bounds.south) / 2) / halfHeight;
+  const dx = (playground.lon - (bounds.east + bounds.west) / 2) / halfWidth;
+  return Math.min(1, Math.sqrt(dx * dx + dy * dy) / Math.SQRT2);
+}
+
 // Validate accessibility data structure to reject old/malformed cache data
 function validateAccessibility(accessibility: unknown): Playground["accessibility"] {
   // New format: array of strings (v6+)
@@ -35,7 +62,7 @@ function validateAccessibility(accessibility: unknown): Playground["accessibilit
     return null;
   }
 
-  // Old format: object (v5 and earlier) - reject
+  // Old format: object (v5 and earlier) - upgraded by the server's cache migrations; reject leftovers
   if (accessibility && typeof accessibility === "object") {
     return null;
   }
@@ -45,13 +72,18 @@ function validateAccessibility(accessibility: unknown): Playground["accessibilit
 
 interface PlaygroundsContextType {
   playgrounds: Playground[];
+  // Viewport totals from /api/search (before its result limit)
+  tierCounts: PlaygroundTierCounts | null;
   loading: boolean;
   error: string | null;
   flyToCoords: FlyToCoordinates | null;
   requestFlyTo: (coords: FlyToCoordinates) => void;
   clearFlyToRequest: () => void;
   enrichPlayground: (playgroundId: number) => Promise<void>;
-  enrichPlaygroundsBatch: (playgroundIds: number[]) => Promise<void>;
+  enrichPlaygroundsBatch: (
+    playgroundIds: number[],
+    options?: EnrichmentRequestOptions,
+  ) => Promise<void>;
   loadImagesForPlayground: (playgroundId: number) => Promise<void>;
   selectedPlayground: Playground | null;
   selectPlayground: (playground: Playground) => void;
@@ -63,19 +95,32 @@ const PlaygroundsContext = createContext<PlaygroundsContextType | undefined>(
 );
 
 export function PlaygroundsProvider({ children }: { children: ReactNode }) {
-  const { mapBounds } = useFilters();
+  const { mapBounds, filters } = useFilters();
 
   const [playgrounds, setPlaygrounds] = useState<Playground[]>([]);
+  const [tierCounts, setTierCounts] = useState<PlaygroundTierCounts | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [flyToCoords, setFlyToCoords] = useState<FlyToCoordinates | null>(null);
   const [selectedPlaygroundId, setSelectedPlaygroundId] = useState<number | null>(null);
+  const selectedPlaygroundIdRef = useRef<number | null>(null);
+  useEffect(() => {
+    selectedPlaygroundIdRef.current = selectedPlaygroundId;
+  }, [selectedPlaygroundId]);
 
   // Abort controller for canceling enrichment requests
   const abortControllerRef = useRef<AbortController | null>(null);
 
   // Ref to store enrichPlaygroundsBatch function for eager enrichment
-  const enrichPlaygroundsBatchRef = useRef<(ids: number[]) => Promise<void>>(() => Promise.resolve());
+  const enrichPlaygroundsBatchRef = useRef<
+    (ids: number[], options?: EnrichmentRequestOptions) => Promise<void>
+  >(() => Promise.resolve());
+
+  // Latest map bounds for viewport-based enrichment priority
+  const mapBoundsRef = useRef<MapBounds | null>(mapBounds);
+  useEffect(() => {
+    mapBoundsRef.current = mapBounds;
+  }, [mapBounds]);
 
   // Track recently enriched playgrounds to prevent duplicate requests
   const recentlyEnrichedRef = useRef<Map<number, number>>(new Map()); // playgroundId -> timestamp
@@ -83,6 +128,9 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
   // Track which playgrounds we've already queued for enrichment to avoid re-processing
   const enrichmentQueuedRef = useRef<Set<number>>(new Set()); // playgroundId set
 
+  // Playgrounds whose images are currently coming through the enrichment stream
+  const streamingImagesRef = useRef<Set<number>>(new Set()); // playgroundId set
+
   const localFetchPlaygrounds = useCallback(
     async (signal?: AbortSignal) => {
       if (!mapBounds) return;
@@ -91,8 +139,11 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
       setError(null);
 
       try {
-        const playgroundsForBounds = await searchPlaygrounds(mapBounds, signal);
+        const searchResponse = await searchPlaygrounds(mapBounds, filters, signal);
+        const playgroundsForBounds = searchResponse.playgrounds;
         if (!signal?.aborted) {
+          setTierCounts(searchResponse.tierCounts);
+
           // Merge new OSM data with existing enriched AI data
           setPlaygrounds((prevPlaygrounds) => {
             const enrichedMap = new Map(
@@ -118,7 +169,9 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
                   accessibility: validateAccessibility(existingEnriched.accessibility),
                   tier: existingEnriched.tier,
                   tierReasoning: existingEnriched.tierReasoning,
+                  tierScore: existingEnriched.tierScore,
                   imageSearchQueries: existingEnriched.imageSearchQueries,
+                  provenance: existingEnriched.provenance,
                   enriched: true,
                 };
               }
@@ -136,6 +189,15 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
               };
             });
 
+            // Keep the selected playground even if it's not in the new results
+            // (it may have been picked from a map tile outside the search limit)
+            const selected = prevPlaygrounds.find(
+              (p) => p.osmId === selectedPlaygroundIdRef.current,
+            );
+            if (selected && !updatedPlaygrounds.some((p) => p.osmId === selected.osmId)) {
+              updatedPlaygrounds.push(selected);
+            }
+
             return updatedPlaygrounds;
           });
         }
@@ -152,7 +214,7 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
         }
       }
     },
-    [mapBounds],
+    [mapBounds, filters],
   );
 
   const debouncedFetchPlaygrounds = useDebounce(localFetchPlaygrounds, 1000);
@@ -163,13 +225,13 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
     const controller = new AbortController();
     debouncedFetchPlaygrounds(controller.signal);
 
-    // Abort previous request when bounds change to prevent race conditions
+    // Abort previous request when bounds or filters change to prevent race conditions
     return () => {
       controller.abort();
     };
     // debouncedFetchPlaygrounds is stable, no need to include in deps
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [mapBounds]);
+  }, [mapBounds, filters]);
 
   // ✅ OPTIMIZATION COMPLETE: /api/search now checks cache and returns enrichment data if available
   // This eliminates unnecessary cache-hit requests on page refresh (see src/app/api/search/route.ts:128-174)
@@ -223,23 +285,41 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
   //   })();
   // }, [playgrounds, mapBounds]);
 
-  // Enrich a single playground
+  // Enrich a single playground (user opened it, so it's queued with top priority)
   // Uses batch API internally for consistency (AI insights only, no images)
   const enrichPlayground = useCallback(
     async (playgroundId: number) => {
-      await enrichPlaygroundsBatchRef.current([playgroundId]);
+      await enrichPlaygroundsBatchRef.current([playgroundId], { isDetailView: true });
     },
     [], // Uses ref to avoid circular dependency
   );
 
-  // Enrich multiple playgrounds in a batch (max 5)
-  // NOTE: This only fetches AI insights - use loadImagesForPlayground for images
+  // Enrich multiple playgrounds over streaming requests of up to MAX_STREAM_PLAYGROUNDS
+  // Insights and images are merged one playground at a time as they arrive;
+  // playgrounds still queued when the stream ends are requested again
   const enrichPlaygroundsBatch = useCallback(
-    async (playgroundIds: number[]) => {
+    async (
+      playgroundIds: number[],
+      { isDetailView = false, pollAttempt = 0 }: EnrichmentRequestOptions = {},
+    ) => {
+      // Larger batches would be rejected by the stream endpoint - one stream per chunk
+      if (playgroundIds.length > MAX_STREAM_PLAYGROUNDS) {
+        const chunks: number[][] = [];
+        for (let i = 0; i < playgroundIds.length; i += MAX_STREAM_PLAYGROUNDS) {
+          chunks.push(playgroundIds.slice(i, i + MAX_STREAM_PLAYGROUNDS));
+        }
+        await Promise.all(
+          chunks.map((chunk) => enrichPlaygroundsBatchRef.current(chunk, { isDetailView, pollAttempt })),
+        );
+        return;
+      }
+
       // Filter out recently enriched playgrounds (within last 5 seconds)
+      // Polls for queued jobs are expected repeats and skip this check
       const now = Date.now();
       const DEDUPE_WINDOW = 5000; // 5 seconds
       const filteredIds = playgroundIds.filter(id => {
+        if (pollAttempt > 0) return true;
         const lastEnriched = recentlyEnrichedRef.current.get(id);
         return !lastEnriched || (now - lastEnriched) > DEDUPE_WINDOW;
       });
@@ -263,9 +343,7 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
       let playgroundsToEnrich: Playground[] = [];
       await new Promise<void>(resolve => {
         setPlaygrounds((prev) => {
-          playgroundsToEnrich = prev
-            .filter((p) => filteredIds.includes(p.osmId))
-            .slice(0, 5); // Limit to 5 per batch
+          playgroundsToEnrich = prev.filter((p) => filteredIds.includes(p.osmId));
           resolve();
           return prev; // Don't modify state here
         });
@@ -275,8 +353,11 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
         return;
       }
 
+      // Images are streamed alongside insights - keep lazy loading from duplicating them
+      playgroundsToEnrich.forEach((p) => streamingImagesRef.current.add(p.osmId));
+
       try {
-        const results = await generatePlaygroundAiInsightsBatch({
+        const { pending: pendingIds } = await streamPlaygroundEnrichment({
           playgrounds: playgroundsToEnrich.map((p) => ({
             id: p.osmId,
             lat: p.lat,
@@ -285,50 +366,87 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
             osmId: p.osmType && p.osmId
               ? `${p.osmType[0].toUpperCase()}${p.osmId}`
               : undefined,
+            isDetailView,
+            distanceFromCenter: getDistanceFromCenter(p, mapBoundsRef.current),
           })),
+          includeImages: true,
           signal: abortControllerRef.current?.signal,
-        });
-
-        // Update playgrounds with insights and location data
-        setPlaygrounds((prev) =>
-          prev.map((p) => {
-            const result = results.find((r) => r.playgroundId === p.osmId);
-            if (!result) return p; // No result for this playground
+          // Merge each result as soon as it arrives
+          onEvent: ({ event, data }) => {
+            if (event === "images") {
+              streamingImagesRef.current.delete(data.playgroundId);
+              const validImages = data.images.filter((img) => isValidImageUrl(img.image_url));
+              if (validImages.length === 0) return;
+
+              setPlaygrounds((prev) =>
+                prev.map((p) =>
+                  p.osmId === data.playgroundId ? { ...p, images: validImages } : p,
+                ),
+              );
+              return;
+            }
+
+            // Still queued server-side - nothing final yet
+            if (event !== "insights" || data.status === "pending") return;
+
+            const { insights, location } = data;
 
             // Remove from queued set since enrichment completed
-            enrichmentQueuedRef.current.delete(p.osmId);
-
-            // Filter out invalid image URLs from old cache (x-raw-image:// format from Gemini pre-v5.0.0)
-            const validImages = result.insights?.images?.filter(img =>
-              isValidImageUrl(img.image_url)
-            ) || null;
-
-            // Tier now comes directly from Gemini AI (no local calculation)
-            // Mark as enriched even if insights is null (enrichment completed but found nothing)
-            return {
-              ...p,
-              name: result.insights?.name || p.name,
-              description: result.insights?.description || p.description,
-              features: result.insights?.features || p.features,
-              parking: result.insights?.parking || p.parking,
-              sources: result.insights?.sources || p.sources,
-              images: validImages && validImages.length > 0 ? validImages : p.images,
-              accessibility: validateAccessibility(result.insights?.accessibility) || p.accessibility,
-              tier: result.insights?.tier || null,
-              tierReasoning: result.insights?.tier_reasoning || null,
-              // Store location data for later image fetching
-              city: result.location?.city || p.city,
-              region: result.location?.region || p.region,
-              country: result.location?.country || p.country,
-              // Store Gemini-generated image search queries
-              imageSearchQueries: result.insights?.image_search_queries || null,
-              enriched: true, // Always mark as enriched, even if insights is null
-            };
-          }),
-        );
+            enrichmentQueuedRef.current.delete(data.playgroundId);
+
+            setPlaygrounds((prev) =>
+              prev.map((p) => {
+                if (p.osmId !== data.playgroundId) return p;
+
+                // Filter out invalid image URLs from old cache (x-raw-image:// format from Gemini pre-v5.0.0)
+                const validImages = insights?.images?.filter(img =>
+                  isValidImageUrl(img.image_url)
+                ) || null;
+
+                // Tier now comes directly from Gemini AI (no local calculation)
+                // Mark as enriched even if insights is null (enrichment completed but found nothing)
+                return {
+                  ...p,
+                  name: insights?.name || p.name,
+                  description: insights?.description || p.description,
+                  features: insights?.features || p.features,
+                  parking: insights?.parking || p.parking,
+                  sources: insights?.sources || p.sources,
+                  images: validImages && validImages.length > 0 ? validImages : p.images,
+                  accessibility: validateAccessibility(insights?.accessibility) || p.accessibility,
+                  tier: insights?.tier || null,
+                  tierReasoning: insights?.tier_reasoning || null,
+                  tierScore: insights?.tier_score || null,
+                  // Store location data for later image fetching
+                  city: location?.city || p.city,
+                  region: location?.region || p.region,
+                  country: location?.country || p.country,
+                  // Store Gemini-generated image search queries
+                  imageSearchQueries: insights?.image_search_queries || null,
+                  provenance: insights?.provenance || null,
+                  enriched: true, // Always mark as enriched, even if insights is null
+                };
+              }),
+            );
+          },
+        });
+
+        // Stream ended with jobs still queued - ask again shortly
+        if (pendingIds.length > 0 && pollAttempt < ENRICHMENT_MAX_POLLS) {
+          setTimeout(() => {
+            if (abortControllerRef.current?.signal.aborted) return;
+            enrichPlaygroundsBatchRef.current(pendingIds, {
+              isDetailView,
+              pollAttempt: pollAttempt + 1,
+            });
+          }, ENRICHMENT_POLL_INTERVAL_MS);
+        }
       } catch {
         // Remove from queued set on error so they can be retried
         filteredIds.forEach(id => enrichmentQueuedRef.current.delete(id));
+      } finally {
+        // Stream is over - lazy loading may take over for anything without images
+        playgroundsToEnrich.forEach((p) => streamingImagesRef.current.delete(p.osmId));
       }
     },
     [], // No dependencies - we get playgrounds from setState callback
@@ -353,6 +471,11 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
         return;
       }
 
+      // Skip if images are already on their way through the enrichment stream
+      if (streamingImagesRef.current.has(playgroundId)) {
+        return;
+      }
+
       // Skip if no name (can't search for images without a name)
       if (!playground.name) {
         return;
@@ -363,13 +486,15 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
           ? `${playground.osmType[0].toUpperCase()}${playground.osmId}`
           : undefined;
 
-        // Fetch images from Google Custom Search (separate service)
+        // Fetch images from the image sources (separate service)
         // Use location data from AI enrichment for better search accuracy
         const images = await fetchPlaygroundImages({
           playgroundName: playground.name,
           city: playground.city, // From AI enrichment geocoding
           region: playground.region, // From AI enrichment geocoding
           country: playground.country, // From AI enrichment geocoding
+          lat: playground.lat,
+          lon: playground.lon,
           osmId: osmIdFormatted,
           signal: abortControllerRef.current?.signal,
           imageSearchQueries: playground.imageSearchQueries || null, // Use Gemini-generated queries
@@ -417,6 +542,10 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const selectPlayground = useCallback((playground: Playground) => {
+    // Map tiles show playgrounds beyond the search results - add those to state
+    setPlaygrounds((prev) =>
+      prev.some((p) => p.osmId === playground.osmId) ? prev : [...prev, playground],
+    );
     setSelectedPlaygroundId(playground.osmId);
     // Update URL with query param
     const url = new URL(window.location.href);
@@ -452,6 +581,7 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
   const contextValue = useMemo(
     () => ({
       playgrounds,
+      tierCounts,
       loading,
       error,
       flyToCoords,
@@ -466,6 +596,7 @@ export function PlaygroundsProvider({ children }: { children: ReactNode }) {
     }),
     [
       playgrounds,
+      tierCounts,
       loading,
       error,
       flyToCoords,
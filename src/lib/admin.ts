@@ -0,0 +1,29 @@
+import type { User } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { APP_ADMIN_ROLE } from "@/lib/constants";
+
+/**
+ * Signed-in user, or null
+ */
+export async function getSignedInUser(): Promise<User | null> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    return user;
+  } catch (error) {
+    console.error("[Admin] ❌ Error checking signed-in user:", error);
+    return null;
+  }
+}
+
+/**
+ * Signed-in user with the app admin role, or null
+ * Admin API routes answer 403 without one (RLS enforces the same role)
+ */
+export async function getAdminUser(): Promise<User | null> {
+  const user = await getSignedInUser();
+  return user?.role === APP_ADMIN_ROLE ? user : null;
+}
@@ -0,0 +1,341 @@
+/**
+ * API Cost Accounting and Budgets
+ * Records every paid API request (Gemini, Google Custom Search) with the route
+ * and playground it was made for, its latency, outcome and estimated cost,
+ * plus aggregated cache hits/misses per lookup.
+ *
+ * Budgets (per service, daily and monthly, in USD) switch the app to
+ * cache-only mode once exhausted: cache hits are still served, cache misses
+ * wait in the enrichment queue (or get no images) until the budget resets.
+ *
+ * Costs are estimates from the env-configured prices, not billing data.
+ * Usage is written and read with the service role only: forged rows would
+ * use up the budgets. Table and RPC functions are defined in supabase-schema.sql (section 8).
+ */
+
+import { createServiceClient } from "@/lib/supabase/service";
+
+const API_USAGE_TABLE_NAME =
+  process.env.API_USAGE_TABLE_NAME || "api_usage";
+
+// Estimated prices (USD)
+const GEMINI_COST_PER_REQUEST_USD = parseFloat(
+  process.env.GEMINI_COST_PER_REQUEST_USD || "0.035",
+); // Google Search grounding, per grounded prompt
+const GEMINI_COST_PER_MILLION_INPUT_TOKENS_USD = parseFloat(
+  process.env.GEMINI_COST_PER_MILLION_INPUT_TOKENS_USD || "0.1",
+);
+const GEMINI_COST_PER_MILLION_OUTPUT_TOKENS_USD = parseFloat(
+  process.env.GEMINI_COST_PER_MILLION_OUTPUT_TOKENS_USD || "0.4",
+);
+const CUSTOM_SEARCH_COST_PER_QUERY_USD = parseFloat(
+  process.env.CUSTOM_SEARCH_COST_PER_QUERY_USD || "0.005",
+); // $5 per 1000 queries (the 100 free daily queries aren't deducted)
+
+// How long a budget check is reused before spend is read again (1 minute)
+const API_BUDGET_CHECK_INTERVAL_MS = parseInt(
+  process.env.API_BUDGET_CHECK_INTERVAL_MS || "60000",
+);
+
+export type ApiService = "gemini" | "custom_search";
+
+export type ApiUsageOutcome =
+  | "success"
+  | "empty"
+  | "error"
+  | "rate_limited"
+  | "cache_hit"
+  | "cache_miss";
+
+// Where a request was made from (threaded through the enrichment and image functions)
+export type ApiUsageContext = {
+  route: string;
+  // OSM ID, or the cache key for playgrounds without one
+  playgroundId?: string | null;
+};
+
+export type ApiBudget = {
+  service: ApiService;
+  dailySpentUsd: number;
+  dailyLimitUsd: number | null;
+  monthlySpentUsd: number;
+  monthlyLimitUsd: number | null;
+  exhausted: boolean;
+};
+
+export type ApiUsageReport = {
+  since: string;
+  totalCostUsd: number;
+  calls: number;
+  cacheHits: number;
+  cacheMisses: number;
+  // Cost, calls and cache lookups per UTC day (oldest first)
+  days: Array<{ day: string; costUsd: number; calls: number; cacheHits: number; cacheMisses: number }>;
+  // Most expensive first
+  routes: Array<{ route: string; costUsd: number; calls: number; cacheHits: number; cacheMisses: number }>;
+  services: Array<{ service: string; costUsd: number; calls: number; errors: number; avgLatencyMs: number | null }>;
+  budgets: ApiBudget[];
+};
+
+type ApiUsageSummaryRow = {
+  day: string;
+  service: string;
+  route: string;
+  outcome: ApiUsageOutcome;
+  requests: number;
+  cost_usd: number;
+  avg_latency_ms: number | null;
+};
+
+const API_SERVICES: ApiService[] = ["gemini", "custom_search"];
+
+const BUDGET_ENV_PREFIX: Record<ApiService, string> = {
+  gemini: "GEMINI",
+  custom_search: "CUSTOM_SEARCH",
+};
+
+// Unset or non-positive limits mean no budget
+function readBudgetLimit(name: string): number | null {
+  const value = parseFloat(process.env[name] || "");
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function getBudgetLimits(service: ApiService): { daily: number | null; monthly: number | null } {
+  const prefix = BUDGET_ENV_PREFIX[service];
+  return {
+    daily: readBudgetLimit(`${prefix}_DAILY_BUDGET_USD`),
+    monthly: readBudgetLimit(`${prefix}_MONTHLY_BUDGET_USD`),
+  };
+}
+
+const budgetChecks = new Map<ApiService, { checkedAt: number; budget: ApiBudget }>();
+
+/**
+ * Estimated cost of one Gemini request (grounding fee plus tokens)
+ */
+export function estimateGeminiCost(usage?: { inputTokens: number; outputTokens: number }): number {
+  return (
+    GEMINI_COST_PER_REQUEST_USD +
+    ((usage?.inputTokens ?? 0) * GEMINI_COST_PER_MILLION_INPUT_TOKENS_USD +
+      (usage?.outputTokens ?? 0) * GEMINI_COST_PER_MILLION_OUTPUT_TOKENS_USD) /
+      1_000_000
+  );
+}
+
+/**
+ * Estimated cost of one Custom Search query
+ */
+export function estimateCustomSearchCost(): number {
+  return CUSTOM_SEARCH_COST_PER_QUERY_USD;
+}
+
+/**
+ * Record a paid API request or aggregated cache lookups
+ * Fire-and-forget: errors are only logged
+ */
+export async function recordApiUsage({
+  service,
+  usage,
+  outcome,
+  latencyMs = null,
+  costUsd = 0,
+  requests = 1,
+}: {
+  service: ApiService;
+  usage?: ApiUsageContext;
+  outcome: ApiUsageOutcome;
+  latencyMs?: number | null;
+  costUsd?: number;
+  // Cache lookups are recorded as one row per batch
+  requests?: number;
+}): Promise<void> {
+  if (requests <= 0) {
+    return;
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const { error } = await supabase.from(API_USAGE_TABLE_NAME).insert({
+      service,
+      route: usage?.route ?? "unknown",
+      playground_id: usage?.playgroundId ?? null,
+      outcome,
+      requests,
+      latency_ms: latencyMs === null ? null : Math.round(latencyMs),
+      cost_usd: costUsd,
+    });
+
+    if (error) {
+      console.error("[ApiUsage] ❌ Error recording usage:", error);
+    }
+  } catch (error) {
+    console.error("[ApiUsage] ❌ Error recording usage:", error);
+  }
+}
+
+/**
+ * Record the hits and misses of a cache lookup (one row each)
+ */
+export function recordCacheLookups({
+  service,
+  route,
+  hits,
+  misses,
+}: {
+  service: ApiService;
+  route: string;
+  hits: number;
+  misses: number;
+}): void {
+  void recordApiUsage({ service, usage: { route }, outcome: "cache_hit", requests: hits });
+  void recordApiUsage({ service, usage: { route }, outcome: "cache_miss", requests: misses });
+}
+
+/**
+ * Today's and this month's spend for a service against its budgets (UTC)
+ * Spend that can't be read counts as zero (budgets fail open)
+ */
+export async function fetchApiBudget(service: ApiService): Promise<ApiBudget> {
+  const limits = getBudgetLimits(service);
+  let dailySpentUsd = 0;
+  let monthlySpentUsd = 0;
+
+  try {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc("get_api_spend", { p_service: service });
+
+    if (error) {
+      console.error("[ApiUsage] ❌ Error reading spend:", error);
+    } else {
+      const [spend] = (data ?? []) as { day_cost_usd: number | null; month_cost_usd: number | null }[];
+      dailySpentUsd = Number(spend?.day_cost_usd ?? 0);
+      monthlySpentUsd = Number(spend?.month_cost_usd ?? 0);
+    }
+  } catch (error) {
+    console.error("[ApiUsage] ❌ Error reading spend:", error);
+  }
+
+  return {
+    service,
+    dailySpentUsd,
+    dailyLimitUsd: limits.daily,
+    monthlySpentUsd,
+    monthlyLimitUsd: limits.monthly,
+    exhausted:
+      (limits.daily !== null && dailySpentUsd >= limits.daily) ||
+      (limits.monthly !== null && monthlySpentUsd >= limits.monthly),
+  };
+}
+
+/**
+ * Whether a service has used up its daily or monthly budget (cache-only mode)
+ * Checks are reused for API_BUDGET_CHECK_INTERVAL_MS per instance
+ */
+export async function isApiBudgetExhausted(service: ApiService): Promise<boolean> {
+  const limits = getBudgetLimits(service);
+  if (limits.daily === null && limits.monthly === null) {
+    return false;
+  }
+
+  const cached = budgetChecks.get(service);
+  if (cached && Date.now() - cached.checkedAt < API_BUDGET_CHECK_INTERVAL_MS) {
+    return cached.budget.exhausted;
+  }
+
+  const budget = await fetchApiBudget(service);
+  budgetChecks.set(service, { checkedAt: Date.now(), budget });
+  if (budget.exhausted) {
+    console.warn(`[ApiUsage] ⚠️ ${service} budget exhausted - cache-only mode`);
+  }
+  return budget.exhausted;
+}
+
+/**
+ * Spend by day, route and service, cache hit ratios and budgets for the last `days` days
+ * Reads with the service role - callers check admin access
+ * Returns null if usage can't be read
+ */
+export async function fetchApiUsageReport({
+  days = 30,
+}: {
+  days?: number;
+} = {}): Promise<ApiUsageReport | null> {
+  try {
+    const supabase = createServiceClient();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const { data, error } = await supabase.rpc("api_usage_summary", { p_since: since.toISOString() });
+    if (error || !data) {
+      console.error("[ApiUsage] ❌ Error fetching usage summary:", error);
+      return null;
+    }
+
+    const report: ApiUsageReport = {
+      since: since.toISOString(),
+      totalCostUsd: 0,
+      calls: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      days: [],
+      routes: [],
+      services: [],
+      budgets: await Promise.all(API_SERVICES.map((service) => fetchApiBudget(service))),
+    };
+
+    const byDay = new Map<string, ApiUsageReport["days"][number]>();
+    const byRoute = new Map<string, ApiUsageReport["routes"][number]>();
+    const byService = new Map<string, ApiUsageReport["services"][number] & { latencyTotal: number; timedCalls: number }>();
+
+    for (const row of data as ApiUsageSummaryRow[]) {
+      const requests = Number(row.requests);
+      const costUsd = Number(row.cost_usd);
+      const isCall = row.outcome !== "cache_hit" && row.outcome !== "cache_miss";
+
+      const day = byDay.get(row.day) ?? { day: row.day, costUsd: 0, calls: 0, cacheHits: 0, cacheMisses: 0 };
+      const route = byRoute.get(row.route) ?? { route: row.route, costUsd: 0, calls: 0, cacheHits: 0, cacheMisses: 0 };
+      report.totalCostUsd += costUsd;
+      day.costUsd += costUsd;
+      route.costUsd += costUsd;
+      for (const totals of [report, day, route]) {
+        if (isCall) totals.calls += requests;
+        if (row.outcome === "cache_hit") totals.cacheHits += requests;
+        if (row.outcome === "cache_miss") totals.cacheMisses += requests;
+      }
+      byDay.set(row.day, day);
+      byRoute.set(row.route, route);
+
+      if (isCall) {
+        const service = byService.get(row.service) ?? {
+          service: row.service,
+          costUsd: 0,
+          calls: 0,
+          errors: 0,
+          avgLatencyMs: null,
+          latencyTotal: 0,
+          timedCalls: 0,
+        };
+        service.costUsd += costUsd;
+        service.calls += requests;
+        if (row.outcome === "error" || row.outcome === "rate_limited") service.errors += requests;
+        if (row.avg_latency_ms !== null) {
+          service.latencyTotal += Number(row.avg_latency_ms) * requests;
+          service.timedCalls += requests;
+        }
+        byService.set(row.service, service);
+      }
+    }
+
+    report.days = Array.from(byDay.values()).sort((a, b) => a.day.localeCompare(b.day));
+    report.routes = Array.from(byRoute.values()).sort((a, b) => b.costUsd - a.costUsd);
+    report.services = Array.from(byService.values()).map(({ latencyTotal, timedCalls, ...service }) => ({
+      ...service,
+      avgLatencyMs: timedCalls > 0 ? Math.round(latencyTotal / timedCalls) : null,
+    }));
+
+    return report;
+  } catch (error) {
+    console.error("[ApiUsage] ❌ Error building usage report:", error);
+    return null;
+  }
+}
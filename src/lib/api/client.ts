@@ -1,15 +1,37 @@
-import { Playground } from "@/types/playground";
+import { PlaygroundSearchResponse } from "@/types/playground";
 import { MapBounds } from "@/types/map";
-import { AIInsights, AILocation } from "@/types/ai-insights";
+import { AIInsights, AILocation, EnrichmentStatus } from "@/types/ai-insights";
 import { PlaygroundImage } from "@/lib/images";
+import { EnrichmentStreamEvent } from "@/types/enrichment-stream";
+import { PlaygroundFilters } from "@/lib/filters";
+import { getBrowserInsightsLocale } from "@/lib/insights-locale";
+import type {
+  InsightsReview,
+  InsightsReviewEdits,
+  InsightsReviewStatus,
+} from "@/lib/insights-review";
+import type { TierReport } from "@/lib/tier-report";
+import type { ApiUsageReport } from "@/lib/api-usage";
+import type { ImageLinkRotReport } from "@/lib/image-health";
+import type { PlaygroundImageRanking } from "@/lib/image-ranking";
+import type { UserPhoto, UserPhotoStatus } from "@/lib/user-photos";
+
+const EMPTY_SEARCH_RESPONSE: PlaygroundSearchResponse = {
+  playgrounds: [],
+  total: 0,
+  tierCounts: { star: 0, gem: 0, neighborhood: 0, unenriched: 0 },
+  truncated: false,
+};
 
 /**
  * Client-side function to search for playgrounds in the API
+ * Filters are applied server-side before the result limit
  */
 export async function searchPlaygrounds(
   bounds: MapBounds,
+  filters: PlaygroundFilters,
   signal?: AbortSignal,
-): Promise<Playground[]> {
+): Promise<PlaygroundSearchResponse> {
   try {
     const response = await fetch("/api/search", {
       method: "POST",
@@ -17,7 +39,7 @@ export async function searchPlaygrounds(
         "Content-Type": "application/json",
         "x-app-origin": "internal",
       },
-      body: JSON.stringify({ bounds }),
+      body: JSON.stringify({ bounds, filters, locale: getBrowserInsightsLocale() }),
       signal,
     });
 
@@ -28,10 +50,10 @@ export async function searchPlaygrounds(
     return await response.json();
   } catch (error) {
     if (error instanceof DOMException && error.name === "AbortError") {
-      return [];
+      return EMPTY_SEARCH_RESPONSE;
     }
     console.error("[API Client] ❌ Error fetching playgrounds:", error);
-    return [];
+    return EMPTY_SEARCH_RESPONSE;
   }
 }
 
@@ -90,7 +112,7 @@ export async function generatePlaygroundAiInsights({
         "Content-Type": "application/json",
         "x-app-origin": "internal",
       },
-      body: JSON.stringify({ location, name, osmId }),
+      body: JSON.stringify({ location, name, osmId, locale: getBrowserInsightsLocale() }),
       signal,
     });
 
@@ -111,6 +133,8 @@ export async function generatePlaygroundAiInsights({
 
 /**
  * Client-side function to enrich multiple playgrounds in a single batch request
+ * Cache misses are queued server-side and come back with status "pending" -
+ * call again later to pick up the result
  * NOTE: This does NOT fetch images - use src/lib/images.ts instead
  */
 export async function generatePlaygroundAiInsightsBatch({
@@ -123,12 +147,15 @@ export async function generatePlaygroundAiInsightsBatch({
     lon: number;
     name?: string;
     osmId?: string;
+    isDetailView?: boolean;
+    distanceFromCenter?: number;
   }>;
   signal?: AbortSignal;
 }): Promise<
   Array<{
     playgroundId: number;
     insights: AIInsights | null;
+    status: EnrichmentStatus;
     location?: {
       city?: string;
       region?: string;
@@ -143,7 +170,7 @@ export async function generatePlaygroundAiInsightsBatch({
         "Content-Type": "application/json",
         "x-app-origin": "internal",
       },
-      body: JSON.stringify({ playgrounds }),
+      body: JSON.stringify({ playgrounds, locale: getBrowserInsightsLocale() }),
       signal,
     });
 
@@ -162,6 +189,103 @@ export async function generatePlaygroundAiInsightsBatch({
   }
 }
 
+/**
+ * Client-side function to stream enrichment results (Server-Sent Events)
+ * onEvent is called for every insights/images result as soon as the server sends it.
+ * Resolves with the ids that were still queued when the stream ended
+ * (or never answered, if the stream failed).
+ * NOTE: Uses fetch streaming because EventSource can't send the x-app-origin header
+ */
+export async function streamPlaygroundEnrichment({
+  playgrounds,
+  includeImages = false,
+  signal,
+  onEvent,
+}: {
+  playgrounds: Array<{
+    id: number;
+    lat: number;
+    lon: number;
+    name?: string;
+    osmId?: string;
+    isDetailView?: boolean;
+    distanceFromCenter?: number;
+  }>;
+  includeImages?: boolean;
+  signal?: AbortSignal;
+  onEvent: (event: EnrichmentStreamEvent) => void;
+}): Promise<{ pending: number[] }> {
+  const answered = new Set<number>();
+
+  try {
+    const response = await fetch("/api/insights-stream", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        "x-app-origin": "internal",
+      },
+      body: JSON.stringify({ playgrounds, includeImages, locale: getBrowserInsightsLocale() }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let pending: number[] | null = null;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+
+      // SSE messages are separated by a blank line
+      let separatorIndex = buffer.indexOf("\n\n");
+      while (separatorIndex !== -1) {
+        const message = buffer.slice(0, separatorIndex);
+        buffer = buffer.slice(separatorIndex + 2);
+        separatorIndex = buffer.indexOf("\n\n");
+
+        let eventName = "message";
+        let data = "";
+        for (const line of message.split("\n")) {
+          if (line.startsWith("event:")) {
+            eventName = line.slice(6).trim();
+          } else if (line.startsWith("data:")) {
+            data += line.slice(5).trim();
+          }
+        }
+        if (!data) continue;
+
+        const event = { event: eventName, data: JSON.parse(data) } as EnrichmentStreamEvent;
+        if (event.event === "done") {
+          pending = event.data.pending;
+        } else if (event.event === "insights" && event.data.status !== "pending") {
+          answered.add(event.data.playgroundId);
+        }
+        onEvent(event);
+      }
+    }
+
+    // No "done" event means the server gave up early - retry whatever wasn't answered
+    return {
+      pending: pending ?? playgrounds.map((p) => p.id).filter((id) => !answered.has(id)),
+    };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return { pending: [] };
+    }
+    console.error("[API Client] ❌ Error streaming playground enrichment:", error);
+    return {
+      pending: playgrounds.map((p) => p.id).filter((id) => !answered.has(id)),
+    };
+  }
+}
+
 /**
  * Client-side function to fetch playground images
  */
@@ -170,6 +294,8 @@ export async function fetchPlaygroundImages({
   city,
   region,
   country,
+  lat,
+  lon,
   osmId,
   signal,
   imageSearchQueries,
@@ -178,6 +304,8 @@ export async function fetchPlaygroundImages({
   city?: string;
   region?: string;
   country?: string;
+  lat?: number;
+  lon?: number;
   osmId?: string;
   signal?: AbortSignal;
   imageSearchQueries?: string[] | null;
@@ -189,7 +317,7 @@ export async function fetchPlaygroundImages({
         "Content-Type": "application/json",
         "x-app-origin": "internal",
       },
-      body: JSON.stringify({ playgroundName, city, region, country, osmId, imageSearchQueries }),
+      body: JSON.stringify({ playgroundName, city, region, country, lat, lon, osmId, imageSearchQueries }),
       signal,
     });
 
@@ -207,3 +335,316 @@ export async function fetchPlaygroundImages({
     return null;
   }
 }
+
+/**
+ * Client-side function to list AI results in the review queue (admins only)
+ */
+export async function fetchInsightsReviews({
+  status = "pending",
+  signal,
+}: {
+  status?: InsightsReviewStatus;
+  signal?: AbortSignal;
+}): Promise<InsightsReview[]> {
+  try {
+    const response = await fetch(`/api/admin/reviews?status=${status}`, {
+      headers: {
+        "x-app-origin": "internal",
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.reviews || [];
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return [];
+    }
+    console.error("[API Client] ❌ Error fetching reviews:", error);
+    return [];
+  }
+}
+
+/**
+ * Client-side function to approve, edit or reject a pending review (admins only)
+ * Returns the updated review, or the error message from the API
+ */
+export async function updateInsightsReview({
+  id,
+  action,
+  edits,
+  reason,
+}: {
+  id: number;
+  action: "approve" | "edit" | "reject";
+  edits?: InsightsReviewEdits;
+  reason?: string;
+}): Promise<{ review: InsightsReview } | { error: string }> {
+  try {
+    const response = await fetch(`/api/admin/reviews/${id}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-app-origin": "internal",
+      },
+      body: JSON.stringify({ action, edits, reason }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return { error: data.error || `API error: ${response.status} ${response.statusText}` };
+    }
+
+    return { review: data.review };
+  } catch (error) {
+    console.error("[API Client] ❌ Error updating review:", error);
+    return { error: "Failed to update review" };
+  }
+}
+
+/**
+ * Client-side function to fetch the Gemini vs calculated tier report (admins only)
+ */
+export async function fetchTierReport({
+  signal,
+}: {
+  signal?: AbortSignal;
+} = {}): Promise<TierReport | null> {
+  try {
+    const response = await fetch("/api/admin/tiers", {
+      headers: {
+        "x-app-origin": "internal",
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.report || null;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return null;
+    }
+    console.error("[API Client] ❌ Error fetching tier report:", error);
+    return null;
+  }
+}
+
+/**
+ * Client-side function to fetch API spend, cache hit ratios and budgets (admins only)
+ */
+export async function fetchApiUsageReport({
+  days = 30,
+  signal,
+}: {
+  days?: number;
+  signal?: AbortSignal;
+} = {}): Promise<ApiUsageReport | null> {
+  try {
+    const response = await fetch(`/api/admin/usage?days=${days}`, {
+      headers: {
+        "x-app-origin": "internal",
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.report || null;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return null;
+    }
+    console.error("[API Client] ❌ Error fetching usage report:", error);
+    return null;
+  }
+}
+
+/**
+ * Client-side function to fetch image link rot per domain (admins only)
+ */
+export async function fetchImageLinkRotReport({
+  minChecks = 1,
+  signal,
+}: {
+  minChecks?: number;
+  signal?: AbortSignal;
+} = {}): Promise<ImageLinkRotReport | null> {
+  try {
+    const response = await fetch(`/api/admin/image-health?minChecks=${minChecks}`, {
+      headers: {
+        "x-app-origin": "internal",
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.report || null;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return null;
+    }
+    console.error("[API Client] ❌ Error fetching image health report:", error);
+    return null;
+  }
+}
+
+/**
+ * Client-side function to fetch a playground's cached images with their ranking (admins only)
+ */
+export async function fetchPlaygroundImageRanking({
+  osmId,
+  signal,
+}: {
+  osmId: string;
+  signal?: AbortSignal;
+}): Promise<PlaygroundImageRanking | null> {
+  try {
+    const response = await fetch(`/api/admin/image-ranking?osmId=${encodeURIComponent(osmId)}`, {
+      headers: {
+        "x-app-origin": "internal",
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.ranking || null;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return null;
+    }
+    console.error("[API Client] ❌ Error fetching image ranking:", error);
+    return null;
+  }
+}
+
+/**
+ * Client-side function to upload a photo of a playground (signed-in users)
+ * latitude/longitude are the device's position, used if the photo has no GPS data
+ * Returns the pending photo, or the error message from the API
+ */
+export async function uploadUserPhoto({
+  osmId,
+  photo,
+  latitude,
+  longitude,
+}: {
+  osmId: string;
+  photo: File;
+  latitude?: number;
+  longitude?: number;
+}): Promise<{ photo: UserPhoto } | { error: string }> {
+  try {
+    const formData = new FormData();
+    formData.append("photo", photo);
+    formData.append("osmId", osmId);
+    if (latitude !== undefined && longitude !== undefined) {
+      formData.append("latitude", String(latitude));
+      formData.append("longitude", String(longitude));
+    }
+
+    const response = await fetch("/api/user-photos", {
+      method: "POST",
+      headers: {
+        "x-app-origin": "internal",
+      },
+      body: formData,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { error: data.error || `API error: ${response.status} ${response.statusText}` };
+    }
+
+    return { photo: data.photo };
+  } catch (error) {
+    console.error("[API Client] ❌ Error uploading photo:", error);
+    return { error: "Failed to upload photo" };
+  }
+}
+
+/**
+ * Client-side function to fetch user photos for moderation (admins only)
+ */
+export async function fetchUserPhotos({
+  status = "pending",
+  signal,
+}: {
+  status?: UserPhotoStatus;
+  signal?: AbortSignal;
+}): Promise<UserPhoto[]> {
+  try {
+    const response = await fetch(`/api/admin/user-photos?status=${status}`, {
+      headers: {
+        "x-app-origin": "internal",
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.photos || [];
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return [];
+    }
+    console.error("[API Client] ❌ Error fetching user photos:", error);
+    return [];
+  }
+}
+
+/**
+ * Client-side function to approve or reject a user photo (admins only)
+ * Returns the updated photo, or the error message from the API
+ */
+export async function updateUserPhoto({
+  id,
+  action,
+  reason,
+}: {
+  id: string;
+  action: "approve" | "reject";
+  reason?: string;
+}): Promise<{ photo: UserPhoto } | { error: string }> {
+  try {
+    const response = await fetch(`/api/admin/user-photos/${id}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-app-origin": "internal",
+      },
+      body: JSON.stringify({ action, reason }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return { error: data.error || `API error: ${response.status} ${response.statusText}` };
+    }
+
+    return { photo: data.photo };
+  } catch (error) {
+    console.error("[API Client] ❌ Error updating photo:", error);
+    return { error: "Failed to update photo" };
+  }
+}
@@ -1,6 +1,8 @@
+import { after } from "next/server";
 import { Playground } from "@/types/playground";
 import { fetchMultipleOSMPlaceDetails } from "@/lib/osm";
-import { fetchGeminiInsightsWithCache } from "@/lib/gemini";
+import { processEnrichmentJobs, resolveEnrichmentRequests } from "@/lib/enrichment-queue";
+import { getInsightsProvider } from "@/lib/insights-providers";
 import { fetchPlaygroundImages } from "@/lib/images";
 import { AILocation } from "@/types/ai-insights";
 import { parseOsmIdentifier } from "@/lib/utils";
@@ -47,7 +49,7 @@ export async function fetchPlaygroundByIdWithCache(id: string): Promise<Playgrou
       images: null,
       osmId: osmPlaceDetails.osm_id,
       osmType: osmPlaceDetails.osm_type,
-      osmTags: null,
+      osmTags: osmPlaceDetails.extratags ?? null,
       enriched: false,
       accessibility: null,
       tier: null,
@@ -67,16 +69,33 @@ export async function fetchPlaygroundByIdWithCache(id: string): Promise<Playgrou
     const typePrefix = osmPlaceDetails.osm_type.charAt(0).toUpperCase();
     const correctOsmId = `${typePrefix}${osmPlaceDetails.osm_id}`;
 
-    // Start AI and Images in parallel when possible
-    // Images depend on having at least some name (OSM name or later AI-updated name)
-    const insightPromise = fetchGeminiInsightsWithCache({
-      location,
-      name: playground.name || undefined,
-      osmId: correctOsmId,
+    // Cached insights only - a miss is queued (highest priority, detail view) and
+    // the page renders with the OSM data; no model call happens while rendering
+    // Stale entries are served with a refresh job queued, like /api/insights
+    const [resolution] = await resolveEnrichmentRequests({
+      requests: [{
+        playgroundId: playground.id,
+        lat: playground.lat,
+        lon: playground.lon,
+        name: playground.name || undefined,
+        osmId: correctOsmId,
+        location,
+        isDetailView: true,
+      }],
+      route: "page:playground-details",
     });
+    const insight = resolution.insights;
 
-    // Wait for AI insights first to get image_search_queries
-    const insight = await insightPromise;
+    // Start on the queued job right after responding; the cron worker picks up the rest
+    if (resolution.status === "pending") {
+      after(async () => {
+        await processEnrichmentJobs({
+          limit: 1,
+          provider: getInsightsProvider(),
+          route: "page:playground-details",
+        });
+      });
+    }
 
     if (insight) {
       playground.name = insight.name || playground.name;
@@ -87,7 +106,9 @@ export async function fetchPlaygroundByIdWithCache(id: string): Promise<Playgrou
       playground.accessibility = insight.accessibility || playground.accessibility;
       playground.tier = insight.tier || playground.tier;
       playground.tierReasoning = insight.tier_reasoning || playground.tierReasoning;
+      playground.tierScore = insight.tier_score || null;
       playground.imageSearchQueries = insight.image_search_queries || null;
+      playground.provenance = insight.provenance || null;
       playground.enriched = true;
     }
 
@@ -102,8 +123,11 @@ export async function fetchPlaygroundByIdWithCache(id: string): Promise<Playgrou
           city: osmPlaceDetails.address.city,
           region: osmPlaceDetails.address.state,
           country: osmPlaceDetails.address.country_code,
+          lat: playground.lat,
+          lon: playground.lon,
           osmId: correctOsmId,
           imageSearchQueries: insight?.image_search_queries || null,
+          usage: { route: "page:playground-details" },
         });
       } catch {
         images = null;
@@ -6,15 +6,26 @@
  *
  * Key Formats:
  * - AI Insights: "v17-tier-fields-fixed:{osmId}" or "v17-tier-fields-fixed:{lat},{lon}"
+ *   (other locales than the default: "v17-tier-fields-fixed:{locale}:{osmId}")
  * - Images: "v8:{osmId}" or "v8:{name}-{city}-{region}"
- * - OSM Query: "v1:osm:{north}:{south}:{east}:{west}:{zoom}"
+ * - OSM Tile: "v1:osm-tile:{z}/{x}/{y}" (see osm-cache.ts)
  */
 
+import {
+  DEFAULT_INSIGHTS_LOCALE,
+  SUPPORTED_INSIGHTS_LOCALES,
+  type InsightsLocale,
+} from "@/lib/insights-locale";
+
 /**
  * Cache versions - increment to invalidate all cached data
  * These versions are embedded in cache keys (e.g., "v18-image-queries:N123456")
  * When you increment the version, old cache entries will never be found (automatic invalidation)
  *
+ * AI insights format changes should be a cache migration instead (src/lib/cache-migrations.ts):
+ * rows are upgraded in place, so nothing has to be re-enriched. Bump the version only when
+ * old results can't be upgraded; scripts/migrate-cache.ts --adopt can still move old rows over.
+ *
  * To invalidate all caches, update these environment variables in .env.local:
  * - AI_INSIGHTS_CACHE_VERSION="v18-image-queries" (e.g., after prompt changes)
  * - IMAGES_CACHE_VERSION="v2" (e.g., after changing image sources)
@@ -30,18 +41,24 @@ export const OSM_CACHE_VERSION =
 /**
  * Build AI insights cache key
  * Prefers OSM ID over coordinates for stability
+ * Insights are cached per locale; default locale keys have no locale segment
  */
 export function buildAIInsightsCacheKey(params: {
   osmId?: string;
   lat?: number;
   lon?: number;
+  locale?: InsightsLocale;
 }): string {
+  const prefix = params.locale && params.locale !== DEFAULT_INSIGHTS_LOCALE
+    ? `${AI_INSIGHTS_CACHE_VERSION}:${params.locale}`
+    : AI_INSIGHTS_CACHE_VERSION;
+
   if (params.osmId) {
-    return `${AI_INSIGHTS_CACHE_VERSION}:${params.osmId}`;
+    return `${prefix}:${params.osmId}`;
   }
 
   if (params.lat != null && params.lon != null) {
-    return `${AI_INSIGHTS_CACHE_VERSION}:${params.lat.toFixed(6)},${params.lon.toFixed(6)}`;
+    return `${prefix}:${params.lat.toFixed(6)},${params.lon.toFixed(6)}`;
   }
 
   throw new Error("Either osmId or lat/lon coordinates must be provided");
@@ -78,10 +95,10 @@ export function buildImagesCacheKey(params: {
  * Used for cache invalidation
  */
 export function extractOsmIdFromCacheKey(cacheKey: string): string | null {
-  // Try AI insights format: "v18-image-queries:N123456"
-  const aiMatch = cacheKey.match(/^v\d+(-[^:]+)?:([NWR]\d+)$/);
+  // Try AI insights format: "v18-image-queries:N123456" or "v18-image-queries:fr:N123456"
+  const aiMatch = cacheKey.match(/^v\d+(-[^:]+)?:([a-z]{2}:)?([NWR]\d+)$/);
   if (aiMatch) {
-    return aiMatch[2];
+    return aiMatch[3];
   }
 
   // Try images format: "v1:N123456"
@@ -112,11 +129,13 @@ export function getAllPossibleCacheKeys(params: {
   const aiInsightsKeys: string[] = [];
   const imageKeys: string[] = [];
 
-  // AI insights keys
-  if (params.osmId) {
-    aiInsightsKeys.push(buildAIInsightsCacheKey({ osmId: params.osmId }));
+  // AI insights keys (one per locale)
+  for (const locale of SUPPORTED_INSIGHTS_LOCALES) {
+    if (params.osmId) {
+      aiInsightsKeys.push(buildAIInsightsCacheKey({ osmId: params.osmId, locale }));
+    }
+    aiInsightsKeys.push(buildAIInsightsCacheKey({ lat: params.lat, lon: params.lon, locale }));
   }
-  aiInsightsKeys.push(buildAIInsightsCacheKey({ lat: params.lat, lon: params.lon }));
 
   // Image keys
   if (params.osmId) {
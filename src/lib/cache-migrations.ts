@@ -0,0 +1,327 @@
+/**
+ * AI Insights Cache Migrations
+ * Upgrades cached rows in place instead of orphaning them with a new cache key
+ * version (which means a full, paid re-enrichment).
+ *
+ * Every row stores the schema_version it was written with. Each migration
+ * transforms a row from version N-1 to N without calling any external API:
+ * it fills in new fields, converts old shapes or re-runs only the pipeline
+ * stage that changed (e.g. vocabulary normalisation or tier reconciliation).
+ *
+ * Rows are upgraded:
+ * - On read (src/lib/cache.ts): migrated in memory, written back in the background
+ * - In bulk: scripts/migrate-cache.ts (reports how many rows each migration touched)
+ *
+ * Adding a migration: append it to AI_INSIGHTS_CACHE_MIGRATIONS with the next
+ * version. Only bump AI_INSIGHTS_CACHE_VERSION (cache-keys.ts) when old results
+ * can't be upgraded and must be re-enriched.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { AIInsights, InsightsTierScore } from "@/types/ai-insights";
+import { AI_INSIGHTS_CACHE_VERSION } from "@/lib/cache-keys";
+import { reconcilePlaygroundTier } from "@/lib/tier-calculator";
+import { normalizeAccessibility, normalizeFeature } from "@/lib/validators/insights-schema";
+
+const AI_INSIGHTS_CACHE_TABLE_NAME =
+  process.env.AI_INSIGHTS_CACHE_TABLE_NAME ||
+  "ai_insights_cache";
+
+// Cached insights as stored by any schema version (old rows may hold other shapes)
+export type AIInsightsCacheRecord = { [K in keyof AIInsights]?: unknown };
+
+export type AIInsightsCacheMigration = {
+  // Version the migration upgrades rows to (from version - 1)
+  version: number;
+  name: string;
+  description: string;
+  migrate: (record: AIInsightsCacheRecord) => AIInsightsCacheRecord;
+};
+
+export type CacheMigrationReport = {
+  dryRun: boolean;
+  targetVersion: number;
+  // Rows below the target version
+  scanned: number;
+  upgraded: number;
+  failed: number;
+  // Rows each migration actually changed (a row may be touched by several)
+  migrations: Array<{ version: number; name: string; touched: number }>;
+};
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function normalizeList<T extends string>(values: string[], normalize: (value: string) => T | null): T[] {
+  return Array.from(new Set(values.map(normalize).filter((value): value is T => value !== null)));
+}
+
+export const AI_INSIGHTS_CACHE_MIGRATIONS: AIInsightsCacheMigration[] = [
+  {
+    version: 2,
+    name: "accessibility-array",
+    description: "Convert object-shaped accessibility (v5 and earlier) to the accessibility vocabulary array",
+    migrate: (record) => {
+      const { accessibility } = record;
+      if (!accessibility || Array.isArray(accessibility) || typeof accessibility !== "object") {
+        return record;
+      }
+
+      // { wheelchair_accessible: true, surface: "rubber" } -> ["wheelchair_accessible", "accessible_surface"]
+      const labels = Object.entries(accessibility as Record<string, unknown>).flatMap(([key, value]) => {
+        if (value === true || value === "yes") return [key];
+        if (typeof value === "string") return [value, `${value}_${key}`];
+        return [];
+      });
+      const values = normalizeList(labels, normalizeAccessibility);
+      return { ...record, accessibility: values.length > 0 ? values : null };
+    },
+  },
+  {
+    version: 3,
+    name: "tier-fields",
+    description: "Add null tier and tier_reasoning fields to rows cached before tiers existed",
+    migrate: (record) => ({
+      ...record,
+      tier: record.tier ?? null,
+      tier_reasoning: record.tier_reasoning ?? null,
+    }),
+  },
+  {
+    version: 4,
+    name: "vocabulary",
+    description: "Re-run feature and accessibility vocabulary normalisation on free-form labels",
+    migrate: (record) => ({
+      ...record,
+      features: Array.isArray(record.features)
+        ? normalizeList(toStringList(record.features), normalizeFeature)
+        : record.features ?? null,
+      accessibility: Array.isArray(record.accessibility)
+        ? normalizeList(toStringList(record.accessibility), normalizeAccessibility)
+        : record.accessibility ?? null,
+    }),
+  },
+  {
+    version: 5,
+    name: "tier-score",
+    description: "Re-run tier reconciliation for rows cached before tier_score was recorded",
+    migrate: (record) => {
+      if (record.tier_score) {
+        return record;
+      }
+      const { tier, tierScore } = reconcilePlaygroundTier(record as AIInsights);
+      return { ...record, tier, tier_score: tierScore };
+    },
+  },
+  {
+    version: 6,
+    name: "tier-score-vocabulary",
+    description: "Re-score tiers on vocabulary ids only (no English keywords in localized text, no image points)",
+    migrate: (record) => {
+      const tierScore = record.tier_score as InsightsTierScore | null | undefined;
+      if (!tierScore) {
+        return record;
+      }
+      // tier holds the reconciled tier by now - reconcile from Gemini's original label
+      const { tier, tierScore: rescored } = reconcilePlaygroundTier({
+        ...record,
+        tier: tierScore.model_tier,
+      } as AIInsights);
+      return { ...record, tier, tier_score: rescored };
+    },
+  },
+];
+
+// Version written with new cache entries
+export const AI_INSIGHTS_SCHEMA_VERSION =
+  AI_INSIGHTS_CACHE_MIGRATIONS[AI_INSIGHTS_CACHE_MIGRATIONS.length - 1].version;
+
+const MIGRATED_FIELDS = ["accessibility", "tier", "tier_reasoning", "features", "tier_score"] as const;
+
+/**
+ * Run every migration above fromVersion on a cached row (pure, no I/O)
+ * Returns the upgraded row and the versions of the migrations that changed it
+ */
+export function migrateAIInsightsRecord(
+  record: AIInsightsCacheRecord,
+  fromVersion: number,
+): { record: AIInsightsCacheRecord; touched: number[] } {
+  const touched: number[] = [];
+  let current = record;
+
+  for (const migration of AI_INSIGHTS_CACHE_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+
+    const next = migration.migrate(current);
+    if (JSON.stringify(next) !== JSON.stringify(current)) {
+      touched.push(migration.version);
+    }
+    current = next;
+  }
+
+  return { record: current, touched };
+}
+
+/**
+ * Columns to write back for an upgraded row
+ */
+export function getMigratedColumns(record: AIInsightsCacheRecord): Record<string, unknown> {
+  return {
+    ...Object.fromEntries(MIGRATED_FIELDS.map((field) => [field, record[field] ?? null])),
+    schema_version: AI_INSIGHTS_SCHEMA_VERSION,
+  };
+}
+
+/**
+ * Upgrade every row below AI_INSIGHTS_SCHEMA_VERSION
+ * Rows are paged by cache key; each update only applies if the row wasn't
+ * rewritten (or upgraded by a reader) in the meantime
+ */
+export async function runAIInsightsCacheMigrations({
+  supabase,
+  dryRun = false,
+  batchSize = 500,
+}: {
+  supabase: SupabaseClient;
+  dryRun?: boolean;
+  batchSize?: number;
+}): Promise<CacheMigrationReport> {
+  const report: CacheMigrationReport = {
+    dryRun,
+    targetVersion: AI_INSIGHTS_SCHEMA_VERSION,
+    scanned: 0,
+    upgraded: 0,
+    failed: 0,
+    migrations: AI_INSIGHTS_CACHE_MIGRATIONS.map(({ version, name }) => ({ version, name, touched: 0 })),
+  };
+  const touchedByVersion = new Map(report.migrations.map((entry) => [entry.version, entry]));
+
+  let lastCacheKey = "";
+  for (;;) {
+    const { data, error } = await supabase
+      .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+      .select(`cache_key, schema_version, ${MIGRATED_FIELDS.join(", ")}`)
+      .lt("schema_version", AI_INSIGHTS_SCHEMA_VERSION)
+      .gt("cache_key", lastCacheKey)
+      .order("cache_key")
+      .limit(batchSize);
+
+    if (error) {
+      throw new Error(`Failed to read ${AI_INSIGHTS_CACHE_TABLE_NAME}: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      break;
+    }
+
+    for (const row of data as unknown as Array<AIInsightsCacheRecord & { cache_key: string; schema_version: number }>) {
+      lastCacheKey = row.cache_key;
+      report.scanned++;
+
+      const { record, touched } = migrateAIInsightsRecord(row, row.schema_version);
+      for (const version of touched) {
+        touchedByVersion.get(version)!.touched++;
+      }
+
+      if (dryRun) {
+        report.upgraded++;
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+        .update(getMigratedColumns(record))
+        .eq("cache_key", row.cache_key)
+        .eq("schema_version", row.schema_version);
+
+      if (updateError) {
+        console.error(`[CacheMigrations] ❌ Error upgrading ${row.cache_key}:`, updateError);
+        report.failed++;
+      } else {
+        report.upgraded++;
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Move rows cached under an older key version (e.g. "v17-tier-fields-fixed:N123456")
+ * to the current AI_INSIGHTS_CACHE_VERSION key, so migrations can upgrade them
+ * Rows whose current key already exists are left alone
+ * Returns the number of rows adopted
+ */
+export async function adoptLegacyAIInsightsKeys({
+  supabase,
+  legacyVersion,
+  dryRun = false,
+  batchSize = 500,
+}: {
+  supabase: SupabaseClient;
+  legacyVersion: string;
+  dryRun?: boolean;
+  batchSize?: number;
+}): Promise<number> {
+  if (legacyVersion === AI_INSIGHTS_CACHE_VERSION) {
+    return 0;
+  }
+
+  const legacyPrefix = `${legacyVersion}:`;
+  let adopted = 0;
+  let lastCacheKey = legacyPrefix;
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+      .select("*")
+      .like("cache_key", `${legacyPrefix}%`)
+      .gt("cache_key", lastCacheKey)
+      .order("cache_key")
+      .limit(batchSize);
+
+    if (error) {
+      throw new Error(`Failed to read ${AI_INSIGHTS_CACHE_TABLE_NAME}: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      break;
+    }
+
+    lastCacheKey = data[data.length - 1].cache_key;
+    const rows = data.map((row) => ({
+      ...row,
+      cache_key: `${AI_INSIGHTS_CACHE_VERSION}:${row.cache_key.slice(legacyPrefix.length)}`,
+    }));
+
+    const { data: existing } = await supabase
+      .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+      .select("cache_key")
+      .in("cache_key", rows.map((row) => row.cache_key));
+    const existingKeys = new Set((existing ?? []).map((row) => row.cache_key));
+    const toAdopt = rows.filter((row) => !existingKeys.has(row.cache_key));
+
+    if (dryRun || toAdopt.length === 0) {
+      adopted += toAdopt.length;
+      continue;
+    }
+
+    const { error: insertError } = await supabase
+      .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+      .upsert(toAdopt, { onConflict: "cache_key", ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error("[CacheMigrations] ❌ Error adopting legacy rows:", insertError);
+      continue;
+    }
+
+    // Legacy rows are only removed once they exist under the current key
+    await supabase
+      .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+      .delete()
+      .in("cache_key", toAdopt.map((row) => `${legacyPrefix}${row.cache_key.slice(AI_INSIGHTS_CACHE_VERSION.length + 1)}`));
+
+    adopted += toAdopt.length;
+  }
+
+  return adopted;
+}
@@ -1,29 +1,167 @@
 import { createClient } from "@/lib/supabase/server";
-import { AIInsights } from "@/types/ai-insights";
-
+import { AIInsights, AILocation } from "@/types/ai-insights";
+import { buildAIInsightsCacheKey } from "@/lib/cache-keys";
+import { DEFAULT_INSIGHTS_LOCALE, type InsightsLocale } from "@/lib/insights-locale";
+import {
+  AI_INSIGHTS_SCHEMA_VERSION,
+  getMigratedColumns,
+  migrateAIInsightsRecord,
+} from "@/lib/cache-migrations";
+
+// Stale-while-revalidate:
+// - Soft TTL: older entries are still served, but a background refresh is scheduled
+// - Hard TTL: older entries are deleted and must be enriched again
+// Age counts from refreshed_at (bumped when a refresh finds nothing changed)
 const AI_INSIGHTS_CACHE_TTL_MS = parseInt(
   process.env.AI_INSIGHTS_CACHE_TTL_MS || "7776000000",
-); // Cache TTL (90 days in milliseconds, was 1 year)
+); // Soft TTL (90 days in milliseconds, was 1 year)
+const AI_INSIGHTS_CACHE_HARD_TTL_MS = parseInt(
+  process.env.AI_INSIGHTS_CACHE_HARD_TTL_MS || "15552000000",
+); // Hard TTL (180 days)
 const AI_INSIGHTS_CACHE_TABLE_NAME =
   process.env.AI_INSIGHTS_CACHE_TABLE_NAME ||
   "ai_insights_cache";
 
-// Function to get AI insights from cache
-// Cache invalidation: Version is in cache_key (e.g., "v17-tier-fields-fixed:N123456")
-// cacheKey can be either an OSM ID or coordinates
-export async function fetchAIInsightsFromCache({
+// Batch lookups are split into chunks so the `in` filter keeps request URLs short
+const BATCH_FETCH_CHUNK_SIZE = 200;
+
+const AI_INSIGHTS_CACHE_COLUMNS =
+  "name, description, features, parking, sources, images, accessibility, tier, tier_reasoning, tier_score, image_search_queries, provenance, schema_version, created_at, refreshed_at";
+
+// Fields compared when a refresh result replaces a cached entry (text is
+// compared ignoring case, punctuation and spacing)
+// Not compared, on purpose - a refresh that only changes these counts as
+// unchanged and just bumps refreshed_at:
+// - description and tier_reasoning: prose the model rewords on almost every
+//   call; what they describe (features, accessibility, tier) is compared
+// - sources and provenance: differ on every call (grounding URLs are redirects)
+const REFRESH_DIFF_FIELDS = [
+  "name",
+  "features",
+  "parking",
+  "accessibility",
+  "tier",
+  "image_search_queries",
+] as const;
+
+// Inputs needed to re-enrich a cached entry (stored with it for the refresh sweeper)
+export type AIInsightsRefreshInput = {
+  location: AILocation;
+  name?: string;
+  osmId?: string;
+  locale: InsightsLocale;
+};
+
+export type AIInsightsCacheEntry = {
+  insights: AIInsights;
+  // Past the soft TTL - serve it, but refresh it in the background
+  isStale: boolean;
+};
+
+type AIInsightsCacheRow = Omit<AIInsights, "tier_score" | "image_search_queries" | "provenance"> & {
+  tier_score?: AIInsights["tier_score"];
+  image_search_queries?: AIInsights["image_search_queries"];
+  provenance?: AIInsights["provenance"];
+  // Rows cached before schema versions were recorded default to 1
+  schema_version: number;
+  created_at: string;
+  refreshed_at?: string | null;
+};
+
+type AIInsightsCacheState = "fresh" | "stale" | "expired";
+
+function getCacheState(row: AIInsightsCacheRow, now: number): AIInsightsCacheState {
+  // Entries without a name or description are invalid (old schema) - treat as expired
+  if (row.name === null || row.description === null) {
+    return "expired";
+  }
+
+  const age = now - new Date(row.refreshed_at ?? row.created_at).getTime();
+  if (age > AI_INSIGHTS_CACHE_HARD_TTL_MS) return "expired";
+  if (age > AI_INSIGHTS_CACHE_TTL_MS) return "stale";
+  return "fresh";
+}
+
+function toAIInsights(row: AIInsightsCacheRow): AIInsights {
+  return {
+    name: row.name,
+    description: row.description,
+    features: row.features,
+    parking: row.parking,
+    sources: row.sources,
+    images: row.images,
+    accessibility: row.accessibility,
+    // Tier fields (added in v17) - now properly selected from database
+    tier: row.tier ?? null,
+    tier_reasoning: row.tier_reasoning ?? null,
+    // Reconciled tier score (entries cached before it was recorded have none)
+    tier_score: row.tier_score ?? null,
+    // Image search queries (added in v18)
+    image_search_queries: row.image_search_queries ?? null,
+    // Field provenance and score (entries cached before it was recorded have none)
+    provenance: row.provenance ?? null,
+  };
+}
+
+/**
+ * Run pending cache migrations on a row (see cache-migrations.ts)
+ * The upgraded row is written back in the background
+ */
+function upgradeAIInsightsRow(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  cacheKey: string,
+  row: AIInsightsCacheRow,
+): AIInsightsCacheRow {
+  if (row.schema_version >= AI_INSIGHTS_SCHEMA_VERSION) {
+    return row;
+  }
+
+  const { record } = migrateAIInsightsRecord(row, row.schema_version);
+  supabase
+    .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+    .update(getMigratedColumns(record))
+    .eq("cache_key", cacheKey)
+    .eq("schema_version", row.schema_version)
+    .then(({ error }) => {
+      if (error) {
+        console.error("[CacheAI] ❌ Error writing back migrated cache entry:", error);
+      }
+    });
+
+  return { ...row, ...record, schema_version: AI_INSIGHTS_SCHEMA_VERSION } as AIInsightsCacheRow;
+}
+
+function deleteAIInsightsCacheKeys(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  cacheKeys: string[],
+) {
+  // Clean up expired/invalid entries in background
+  supabase
+    .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+    .delete()
+    .in("cache_key", cacheKeys)
+    .then(({ error }) => {
+      if (error) {
+        console.error("[CacheAI] ❌ Error deleting invalid cache entries:", error);
+      }
+    });
+}
+
+/**
+ * Get a cache entry with its staleness (see the soft/hard TTL above)
+ * Expired entries are deleted in the background and reported as a miss
+ */
+export async function fetchAIInsightsCacheEntry({
   cacheKey,
 }: {
   cacheKey: string;
-}): Promise<AIInsights | null> {
+}): Promise<AIInsightsCacheEntry | null> {
   try {
     const supabase = await createClient();
 
-    const { data, error} = await supabase
+    const { data, error } = await supabase
       .from(AI_INSIGHTS_CACHE_TABLE_NAME)
-      .select(
-        "name, description, features, parking, sources, images, accessibility, tier, tier_reasoning, image_search_queries, created_at",
-      )
+      .select(AI_INSIGHTS_CACHE_COLUMNS)
       .eq("cache_key", cacheKey)
       .single();
 
@@ -31,60 +169,51 @@ export async function fetchAIInsightsFromCache({
       return null;
     }
 
-    // Check TTL and data validity
-    const createdAt = new Date(data.created_at).getTime();
-    const now = Date.now();
-
-    if (
-      now - createdAt > AI_INSIGHTS_CACHE_TTL_MS ||
-      data.name === null ||
-      data.description === null
-    ) {
-      await supabase
-        .from(AI_INSIGHTS_CACHE_TABLE_NAME)
-        .delete()
-        .eq("cache_key", cacheKey);
-
+    const row = data as AIInsightsCacheRow;
+    const state = getCacheState(row, Date.now());
+    if (state === "expired") {
+      deleteAIInsightsCacheKeys(supabase, [cacheKey]);
       return null;
     }
 
-    const result = {
-      name: data.name,
-      description: data.description,
-      features: data.features,
-      parking: data.parking,
-      sources: data.sources,
-      images: data.images,
-      accessibility: data.accessibility,
-      // Tier fields (added in v17) - now properly selected from database
-      tier: data.tier ?? null,
-      tier_reasoning: data.tier_reasoning ?? null,
-      // Image search queries (added in v18)
-      image_search_queries: data.image_search_queries ?? null,
-    };
-
-    if (!result.image_search_queries) {
+    const insights = toAIInsights(upgradeAIInsightsRow(supabase, cacheKey, row));
+    if (!insights.image_search_queries) {
       console.warn(`[CacheAI] ⚠️ Cache entry missing image_search_queries - old cache version?`);
     }
 
-    return result;
+    return { insights, isStale: state === "stale" };
   } catch (error) {
     console.error("[CacheAI] ❌ Error getting AI insights from cache:", error);
     return null;
   }
 }
 
+// Function to get AI insights from cache (stale entries included)
+// Cache invalidation: Version is in cache_key (e.g., "v17-tier-fields-fixed:N123456")
+// cacheKey can be either an OSM ID or coordinates
+export async function fetchAIInsightsFromCache({
+  cacheKey,
+}: {
+  cacheKey: string;
+}): Promise<AIInsights | null> {
+  const entry = await fetchAIInsightsCacheEntry({ cacheKey });
+  return entry?.insights ?? null;
+}
+
 // Function to save AI insights to cache
 // Cache invalidation: Version is in cache_key (e.g., "v17-tier-fields-fixed:N123456")
 export async function saveAIInsightsToCache({
   cacheKey,
   insights,
+  refreshInput,
 }: {
   cacheKey: string;
   insights: AIInsights;
+  refreshInput?: AIInsightsRefreshInput;
 }): Promise<void> {
   try {
     const supabase = await createClient();
+    const now = new Date().toISOString();
 
     const { error } = await supabase
       .from(AI_INSIGHTS_CACHE_TABLE_NAME)
@@ -100,8 +229,14 @@ export async function saveAIInsightsToCache({
           accessibility: insights.accessibility,
           tier: insights.tier,
           tier_reasoning: insights.tier_reasoning,
+          tier_score: insights.tier_score,
           image_search_queries: insights.image_search_queries,
-          created_at: new Date().toISOString(),
+          provenance: insights.provenance,
+          schema_version: AI_INSIGHTS_SCHEMA_VERSION,
+          created_at: now,
+          refreshed_at: now,
+          // Kept when not given (e.g. approved reviews)
+          ...(refreshInput ? { refresh_input: refreshInput } : {}),
         },
         { onConflict: "cache_key" },
       );
@@ -200,29 +335,37 @@ export async function clearAIInsightsCacheByPattern({
 }
 
 /**
- * Batch fetch multiple cache entries at once (optimized for performance)
- * Returns a Map of cacheKey -> insights for all found entries
- * Cache invalidation: Version is in cache_key (e.g., "v17-tier-fields-fixed:N123456")
+ * Batch fetch multiple cache entries with their staleness
+ * Returns a Map of cacheKey -> entry for all found (non-expired) entries
  */
-export async function batchFetchAIInsightsFromCache({
+export async function batchFetchAIInsightsCacheEntries({
   cacheKeys,
 }: {
   cacheKeys: string[];
-}): Promise<Map<string, AIInsights>> {
-  const results = new Map<string, AIInsights>();
+}): Promise<Map<string, AIInsightsCacheEntry>> {
+  const results = new Map<string, AIInsightsCacheEntry>();
 
   if (cacheKeys.length === 0) {
     return results;
   }
 
+  if (cacheKeys.length > BATCH_FETCH_CHUNK_SIZE) {
+    const chunks: string[][] = [];
+    for (let i = 0; i < cacheKeys.length; i += BATCH_FETCH_CHUNK_SIZE) {
+      chunks.push(cacheKeys.slice(i, i + BATCH_FETCH_CHUNK_SIZE));
+    }
+    const chunkResults = await Promise.all(
+      chunks.map((chunk) => batchFetchAIInsightsCacheEntries({ cacheKeys: chunk })),
+    );
+    return new Map(chunkResults.flatMap((chunkResult) => Array.from(chunkResult)));
+  }
+
   try {
     const supabase = await createClient();
 
     const { data, error } = await supabase
       .from(AI_INSIGHTS_CACHE_TABLE_NAME)
-      .select(
-        "cache_key, name, description, features, parking, sources, images, accessibility, tier, tier_reasoning, image_search_queries, created_at",
-      )
+      .select(`cache_key, ${AI_INSIGHTS_CACHE_COLUMNS}`)
       .in("cache_key", cacheKeys);
 
     if (error || !data) {
@@ -233,47 +376,21 @@ export async function batchFetchAIInsightsFromCache({
     const now = Date.now();
     const keysToDelete: string[] = [];
 
-    // Process each cached entry
-    for (const row of data) {
-      // Check TTL and data validity
-      const createdAt = new Date(row.created_at).getTime();
-      if (
-        now - createdAt > AI_INSIGHTS_CACHE_TTL_MS ||
-        row.name === null ||
-        row.description === null
-      ) {
+    for (const row of data as (AIInsightsCacheRow & { cache_key: string })[]) {
+      const state = getCacheState(row, now);
+      if (state === "expired") {
         keysToDelete.push(row.cache_key);
         continue;
       }
 
-      // Valid cache entry - add to results
       results.set(row.cache_key, {
-        name: row.name,
-        description: row.description,
-        features: row.features,
-        parking: row.parking,
-        sources: row.sources,
-        images: row.images,
-        accessibility: row.accessibility,
-        // Tier fields (added in v17) - now properly selected from database
-        tier: row.tier ?? null,
-        tier_reasoning: row.tier_reasoning ?? null,
-        // Image search queries (added in v18)
-        image_search_queries: row.image_search_queries ?? null,
+        insights: toAIInsights(upgradeAIInsightsRow(supabase, row.cache_key, row)),
+        isStale: state === "stale",
       });
     }
 
-    // Clean up expired/invalid entries in background
     if (keysToDelete.length > 0) {
-      supabase
-        .from(AI_INSIGHTS_CACHE_TABLE_NAME)
-        .delete()
-        .in("cache_key", keysToDelete)
-        .then(({ error }) => {
-          if (error) {
-            console.error("[CacheAI] ❌ Error deleting invalid cache entries:", error);
-          }
-        });
+      deleteAIInsightsCacheKeys(supabase, keysToDelete);
     }
 
     return results;
@@ -283,3 +400,190 @@ export async function batchFetchAIInsightsFromCache({
   }
 }
 
+/**
+ * Batch fetch multiple cache entries at once (optimized for performance)
+ * Returns a Map of cacheKey -> insights for all found entries (stale ones included)
+ * Cache invalidation: Version is in cache_key (e.g., "v17-tier-fields-fixed:N123456")
+ */
+export async function batchFetchAIInsightsFromCache({
+  cacheKeys,
+}: {
+  cacheKeys: string[];
+}): Promise<Map<string, AIInsights>> {
+  const entries = await batchFetchAIInsightsCacheEntries({ cacheKeys });
+  return new Map(Array.from(entries, ([cacheKey, entry]) => [cacheKey, entry.insights]));
+}
+
+/**
+ * Mark a cache entry as refreshed without changing it
+ * Used when a refresh produced the same result
+ */
+export async function touchAIInsightsCache({
+  cacheKey,
+}: {
+  cacheKey: string;
+}): Promise<void> {
+  try {
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+      .update({ refreshed_at: new Date().toISOString() })
+      .eq("cache_key", cacheKey);
+
+    if (error) {
+      console.error("[CacheAI] ❌ Error touching AI insights cache:", error);
+    }
+  } catch (error) {
+    console.error("[CacheAI] ❌ Error touching AI insights cache:", error);
+  }
+}
+
+/**
+ * Fields that differ between a cached entry and a refresh result
+ * Lists are compared as sets, text ignoring case, punctuation and spacing
+ */
+export function getChangedInsightsFields(previous: AIInsights, next: AIInsights): string[] {
+  const normalizeText = (value: unknown) =>
+    typeof value === "string"
+      ? value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()
+      : value ?? null;
+  const normalize = (value: unknown) =>
+    JSON.stringify(Array.isArray(value) ? value.map(normalizeText).sort() : normalizeText(value));
+
+  return REFRESH_DIFF_FIELDS.filter((field) => normalize(previous[field]) !== normalize(next[field]));
+}
+
+/**
+ * Count a detail view of a cached playground (ranks the refresh sweeper)
+ * Fire-and-forget: errors are only logged
+ */
+export async function recordAIInsightsView({
+  cacheKey,
+}: {
+  cacheKey: string;
+}): Promise<void> {
+  try {
+    const supabase = await createClient();
+    const { error } = await supabase.rpc("record_ai_insights_view", { p_cache_key: cacheKey });
+
+    if (error) {
+      console.error("[CacheAI] ❌ Error recording view:", error);
+    }
+  } catch (error) {
+    console.error("[CacheAI] ❌ Error recording view:", error);
+  }
+}
+
+/**
+ * Most-viewed entries that are stale or about to be (within refreshLeadMs of the soft TTL)
+ * Only entries saved with a refresh input can be re-enriched
+ */
+export async function listAIInsightsRefreshCandidates({
+  limit,
+  refreshLeadMs,
+  minViews = 1,
+}: {
+  limit: number;
+  refreshLeadMs: number;
+  minViews?: number;
+}): Promise<Array<{ cacheKey: string; refreshInput: AIInsightsRefreshInput; viewCount: number }>> {
+  try {
+    const supabase = await createClient();
+    const now = Date.now();
+    const refreshBefore = new Date(now - Math.max(0, AI_INSIGHTS_CACHE_TTL_MS - refreshLeadMs)).toISOString();
+    const expiredBefore = new Date(now - AI_INSIGHTS_CACHE_HARD_TTL_MS).toISOString();
+
+    const { data, error } = await supabase
+      .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+      .select("cache_key, refresh_input, view_count")
+      .not("refresh_input", "is", null)
+      .gte("view_count", minViews)
+      .lt("refreshed_at", refreshBefore)
+      .gt("refreshed_at", expiredBefore)
+      .order("view_count", { ascending: false })
+      .limit(limit);
+
+    if (error || !data) {
+      console.error("[CacheAI] ❌ Error listing refresh candidates:", error);
+      return [];
+    }
+
+    return (data as { cache_key: string; refresh_input: AIInsightsRefreshInput; view_count: number }[]).map(
+      (row) => ({ cacheKey: row.cache_key, refreshInput: row.refresh_input, viewCount: row.view_count }),
+    );
+  } catch (error) {
+    console.error("[CacheAI] ❌ Error listing refresh candidates:", error);
+    return [];
+  }
+}
+
+/**
+ * The refresh input an entry was saved with (name, location, OSM ID)
+ * Null for entries cached before refresh inputs were stored
+ */
+export async function fetchAIInsightsRefreshInput({
+  cacheKey,
+}: {
+  cacheKey: string;
+}): Promise<AIInsightsRefreshInput | null> {
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+      .select("refresh_input")
+      .eq("cache_key", cacheKey)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[CacheAI] ❌ Error fetching refresh input:", error);
+      return null;
+    }
+
+    return (data?.refresh_input as AIInsightsRefreshInput | null) ?? null;
+  } catch (error) {
+    console.error("[CacheAI] ❌ Error fetching refresh input:", error);
+    return null;
+  }
+}
+
+export type LocalizedAIInsights = {
+  insights: AIInsights;
+  // false when only the default locale's insights were found
+  localized: boolean;
+};
+
+/**
+ * Batch fetch insights for OSM IDs in a locale, falling back to the default locale
+ * Returns a Map of osmId -> insights for all found entries; fallbacks still carry
+ * the language-neutral fields (tier, features, accessibility)
+ */
+export async function batchFetchLocalizedAIInsightsFromCache({
+  osmIds,
+  locale,
+}: {
+  osmIds: string[];
+  locale: InsightsLocale;
+}): Promise<Map<string, LocalizedAIInsights>> {
+  const isDefaultLocale = locale === DEFAULT_INSIGHTS_LOCALE;
+  const cachedResults = await batchFetchAIInsightsFromCache({
+    cacheKeys: osmIds.flatMap((osmId) =>
+      isDefaultLocale
+        ? [buildAIInsightsCacheKey({ osmId })]
+        : [buildAIInsightsCacheKey({ osmId, locale }), buildAIInsightsCacheKey({ osmId })],
+    ),
+  });
+
+  const results = new Map<string, LocalizedAIInsights>();
+  for (const osmId of osmIds) {
+    const localized = cachedResults.get(buildAIInsightsCacheKey({ osmId, locale }));
+    const fallback = isDefaultLocale ? undefined : cachedResults.get(buildAIInsightsCacheKey({ osmId }));
+
+    if (localized) {
+      results.set(osmId, { insights: localized, localized: true });
+    } else if (fallback) {
+      results.set(osmId, { insights: fallback, localized: false });
+    }
+  }
+
+  return results;
+}
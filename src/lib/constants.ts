@@ -12,3 +12,15 @@ export const SITE_DESCRIPTION =
 export const APP_ADMIN_ROLE = "app_admin";
 
 export const UNNAMED_PLAYGROUND = "Local Playground";
+
+// Vector tile layer served by /api/tiles/{z}/{x}/{y}.mvt
+export const PLAYGROUND_TILE_LAYER = "playgrounds";
+
+// Highest zoom with its own tiles; the map overzooms these beyond it
+export const PLAYGROUND_TILE_MAX_ZOOM = 14;
+
+// Most playgrounds per /api/insights-stream request (clients split larger batches)
+export const MAX_STREAM_PLAYGROUNDS = 100;
+
+// Photo formats visitors can upload (src/lib/user-photos.ts checks the decoded image too)
+export const USER_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
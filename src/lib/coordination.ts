@@ -0,0 +1,387 @@
+/**
+ * Cross-Instance Coordination
+ * On serverless deployments every instance has its own memory, so in-process
+ * request deduplication and rate limiting only cover one instance. This layer
+ * shares them through Postgres:
+ * - Single-flight: one instance at a time runs the work for a key (e.g.
+ *   "gemini:<cacheKey>"); the others wait for its lease to be released and
+ *   then re-run the work, which finds the winner's result in the cache
+ * - Token buckets: one global bucket per upstream API (see rate-limiter.ts)
+ *
+ * Locks are leases: a crashed instance's lock expires after the lease instead
+ * of blocking the key forever. The holder renews its lease while the work runs
+ * (work queued behind aiLimiter can outlast one lease). If Postgres can't be
+ * reached, the in-memory store takes over (coordination falls back to
+ * per-instance).
+ *
+ * Tables and RPC functions are defined in supabase-schema.sql (section 9).
+ * scripts/simulate-instances.ts runs several coordinators in one process.
+ */
+
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient } from "@/lib/supabase/service";
+
+// "postgres" (shared across instances, default) or "memory" (per instance)
+const COORDINATION_BACKEND = process.env.COORDINATION_BACKEND || "postgres";
+
+// How long a single-flight lock is held before other instances may take over (1 minute)
+const DISTRIBUTED_LOCK_LEASE_MS = parseInt(
+  process.env.DISTRIBUTED_LOCK_LEASE_MS || "60000",
+);
+
+// First wait between lock attempts, doubled up to DISTRIBUTED_LOCK_MAX_POLL_MS
+const DISTRIBUTED_LOCK_POLL_MS = parseInt(
+  process.env.DISTRIBUTED_LOCK_POLL_MS || "250",
+);
+const DISTRIBUTED_LOCK_MAX_POLL_MS = 2000;
+
+// How long the in-memory store is used after Postgres fails (30 seconds)
+const COORDINATION_RETRY_MS = parseInt(
+  process.env.COORDINATION_RETRY_MS || "30000",
+);
+
+// How often a held lock's lease is extended (a third of the lease, so one
+// failed renewal doesn't lose it)
+const LOCK_RENEW_FRACTION = 1 / 3;
+
+export type LockHandle = {
+  // Extend the lease to leaseMs from now; false if it was lost to another owner
+  renew: (leaseMs: number) => Promise<boolean>;
+  release: () => Promise<void>;
+};
+
+export type TokenBucketLimit = {
+  // Tokens available in a burst
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type TokenResult = {
+  granted: boolean;
+  // When the next token is available (0 when granted)
+  retryAfterMs: number;
+};
+
+export interface CoordinationStore {
+  id: string;
+  // Null if another owner holds an unexpired lease on the key
+  acquireLock(key: string, leaseMs: number): Promise<LockHandle | null>;
+  takeToken(bucket: string, limit: TokenBucketLimit): Promise<TokenResult>;
+}
+
+export type SingleFlightOptions<T> = {
+  signal?: AbortSignal;
+  // Cheap check run before locking (e.g. a cache read); undefined means run fetchFn
+  peek?: () => Promise<T | undefined>;
+};
+
+export interface Coordinator {
+  instanceId: string;
+  // Run fetchFn once per key across instances (and share it within this one)
+  singleFlight<T>(key: string, fetchFn: () => Promise<T>, options?: SingleFlightOptions<T>): Promise<T>;
+  // Wait for a token from a global bucket; false if aborted or maxWaitMs passed
+  waitForToken(
+    bucket: string,
+    limit: TokenBucketLimit,
+    options?: { signal?: AbortSignal; maxWaitMs?: number },
+  ): Promise<boolean>;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Locks and buckets in this process only
+ * Used when Postgres is unavailable, with COORDINATION_BACKEND=memory and as
+ * the shared "database" of simulated instances
+ */
+export function createMemoryCoordinationStore(): CoordinationStore {
+  const locks = new Map<string, { owner: string; expiresAt: number }>();
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    id: "memory",
+
+    async acquireLock(key, leaseMs) {
+      const now = Date.now();
+      const existing = locks.get(key);
+      if (existing && existing.expiresAt > now) {
+        return null;
+      }
+
+      const owner = randomUUID();
+      locks.set(key, { owner, expiresAt: now + leaseMs });
+      return {
+        renew: async (renewMs) => {
+          const lock = locks.get(key);
+          if (lock?.owner !== owner) {
+            return false;
+          }
+          lock.expiresAt = Date.now() + renewMs;
+          return true;
+        },
+        release: async () => {
+          if (locks.get(key)?.owner === owner) {
+            locks.delete(key);
+          }
+        },
+      };
+    },
+
+    async takeToken(bucket, { capacity, refillPerSecond }) {
+      const now = Date.now();
+      const state = buckets.get(bucket) ?? { tokens: capacity, updatedAt: now };
+      const tokens = Math.min(capacity, state.tokens + ((now - state.updatedAt) / 1000) * refillPerSecond);
+
+      if (tokens >= 1) {
+        buckets.set(bucket, { tokens: tokens - 1, updatedAt: now });
+        return { granted: true, retryAfterMs: 0 };
+      }
+
+      buckets.set(bucket, { tokens, updatedAt: now });
+      return { granted: false, retryAfterMs: Math.ceil(((1 - tokens) / refillPerSecond) * 1000) };
+    },
+  };
+}
+
+/**
+ * Locks and buckets shared by every instance (coordination_locks and
+ * rate_limit_buckets tables, updated atomically by RPC functions)
+ * Uses the service role: clients could otherwise hold locks or drain buckets
+ * Errors are thrown so the fallback store can take over
+ */
+export function createPostgresCoordinationStore({
+  getClient = async () => createServiceClient(),
+}: {
+  getClient?: () => Promise<SupabaseClient>;
+} = {}): CoordinationStore {
+  return {
+    id: "postgres",
+
+    async acquireLock(key, leaseMs) {
+      const supabase = await getClient();
+      const owner = randomUUID();
+      const { data, error } = await supabase.rpc("try_acquire_lock", {
+        p_lock_key: key,
+        p_owner: owner,
+        p_lease_seconds: leaseMs / 1000,
+      });
+
+      if (error) {
+        throw new Error(`try_acquire_lock failed: ${error.message}`);
+      }
+      if (!data) {
+        return null;
+      }
+
+      return {
+        renew: async (renewMs) => {
+          const { data: renewed, error: renewError } = await supabase.rpc("renew_lock", {
+            p_lock_key: key,
+            p_owner: owner,
+            p_lease_seconds: renewMs / 1000,
+          });
+          if (renewError) {
+            throw new Error(`renew_lock failed: ${renewError.message}`);
+          }
+          return Boolean(renewed);
+        },
+        // An unreleased lock just expires with its lease
+        release: async () => {
+          const { error: releaseError } = await supabase.rpc("release_lock", {
+            p_lock_key: key,
+            p_owner: owner,
+          });
+          if (releaseError) {
+            console.error(`[Coordination] ❌ Error releasing lock ${key}:`, releaseError);
+          }
+        },
+      };
+    },
+
+    async takeToken(bucket, { capacity, refillPerSecond }) {
+      const supabase = await getClient();
+      const { data, error } = await supabase.rpc("take_rate_limit_token", {
+        p_bucket: bucket,
+        p_capacity: capacity,
+        p_refill_per_second: refillPerSecond,
+      });
+
+      if (error) {
+        throw new Error(`take_rate_limit_token failed: ${error.message}`);
+      }
+
+      const [result] = (data ?? []) as { granted: boolean; retry_after_ms: number }[];
+      return {
+        granted: Boolean(result?.granted),
+        retryAfterMs: result?.retry_after_ms ?? 0,
+      };
+    },
+  };
+}
+
+/**
+ * Use the primary store, switching to the fallback for retryMs after a failure
+ * Locks are released in the store that granted them
+ */
+export function createFallbackCoordinationStore({
+  primary,
+  fallback,
+  retryMs = COORDINATION_RETRY_MS,
+}: {
+  primary: CoordinationStore;
+  fallback: CoordinationStore;
+  retryMs?: number;
+}): CoordinationStore {
+  let degradedUntil = 0;
+
+  async function withFallback<T>(operation: string, run: (store: CoordinationStore) => Promise<T>): Promise<T> {
+    if (Date.now() >= degradedUntil) {
+      try {
+        return await run(primary);
+      } catch (error) {
+        degradedUntil = Date.now() + retryMs;
+        console.warn(
+          `[Coordination] ⚠️ ${primary.id} ${operation} failed - using ${fallback.id} for ${retryMs / 1000}s:`,
+          error,
+        );
+      }
+    }
+    return run(fallback);
+  }
+
+  return {
+    id: `${primary.id}+${fallback.id}`,
+    acquireLock: (key, leaseMs) => withFallback("lock", (store) => store.acquireLock(key, leaseMs)),
+    takeToken: (bucket, limit) => withFallback("rate limit", (store) => store.takeToken(bucket, limit)),
+  };
+}
+
+/**
+ * Single-flight and token buckets on top of a store
+ * Each coordinator is one "instance": in-flight work is shared through its own
+ * map, other instances are only seen through the store
+ */
+export function createCoordinator({
+  store,
+  instanceId = randomUUID().slice(0, 8),
+  lockLeaseMs = DISTRIBUTED_LOCK_LEASE_MS,
+  lockPollMs = DISTRIBUTED_LOCK_POLL_MS,
+}: {
+  store: CoordinationStore;
+  instanceId?: string;
+  lockLeaseMs?: number;
+  lockPollMs?: number;
+}): Coordinator {
+  const inflightRequests = new Map<string, Promise<unknown>>();
+
+  // Keep renewing a held lock until stopped
+  function keepLeaseAlive(key: string, lock: LockHandle): () => void {
+    const timer = setInterval(() => {
+      lock.renew(lockLeaseMs).then(
+        (renewed) => {
+          if (!renewed) {
+            console.warn(`[Coordination] ⚠️ Lost the lease on ${key} - another instance may run it too`);
+          }
+        },
+        (error) => console.error(`[Coordination] ❌ Error renewing lock ${key}:`, error),
+      );
+    }, lockLeaseMs * LOCK_RENEW_FRACTION);
+    return () => clearInterval(timer);
+  }
+
+  // Wait for the key's lock, run fetchFn (renewing the lease), release
+  // Aborted callers stop waiting and run fetchFn unlocked (it's expected to bail out)
+  async function runLocked<T>(key: string, fetchFn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    let delay = lockPollMs;
+
+    for (;;) {
+      const lock = await store.acquireLock(key, lockLeaseMs);
+      if (lock) {
+        const stopRenewing = keepLeaseAlive(key, lock);
+        try {
+          return await fetchFn();
+        } finally {
+          stopRenewing();
+          await lock.release();
+        }
+      }
+
+      if (signal?.aborted) {
+        return fetchFn();
+      }
+      await sleep(delay, signal);
+      delay = Math.min(delay * 2, DISTRIBUTED_LOCK_MAX_POLL_MS);
+    }
+  }
+
+  return {
+    instanceId,
+
+    singleFlight<T>(key: string, fetchFn: () => Promise<T>, { signal, peek }: SingleFlightOptions<T> = {}) {
+      // Check if request is already in-flight on this instance
+      const existing = inflightRequests.get(key);
+      if (existing) {
+        return existing as Promise<T>;
+      }
+
+      const promise = (async () => {
+        const peeked = peek ? await peek() : undefined;
+        return peeked !== undefined ? peeked : runLocked(key, fetchFn, signal);
+      })().finally(() => {
+        inflightRequests.delete(key);
+      });
+
+      inflightRequests.set(key, promise);
+      return promise;
+    },
+
+    async waitForToken(bucket, limit, { signal, maxWaitMs = Infinity } = {}) {
+      const deadline = Date.now() + maxWaitMs;
+
+      while (!signal?.aborted) {
+        const { granted, retryAfterMs } = await store.takeToken(bucket, limit);
+        if (granted) {
+          return true;
+        }
+
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+          return false;
+        }
+        await sleep(Math.min(Math.max(retryAfterMs, 10), remainingMs), signal);
+      }
+
+      return false;
+    },
+  };
+}
+
+let defaultCoordinator: Coordinator | null = null;
+
+/**
+ * This instance's coordinator (store selected by COORDINATION_BACKEND)
+ */
+export function getCoordinator(): Coordinator {
+  if (!defaultCoordinator) {
+    const memory = createMemoryCoordinationStore();
+    defaultCoordinator = createCoordinator({
+      store:
+        COORDINATION_BACKEND === "memory"
+          ? memory
+          : createFallbackCoordinationStore({ primary: createPostgresCoordinationStore(), fallback: memory }),
+      instanceId: `${process.env.VERCEL_REGION ?? "local"}-${randomUUID().slice(0, 8)}`,
+    });
+  }
+  return defaultCoordinator;
+}
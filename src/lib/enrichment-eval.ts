@@ -0,0 +1,437 @@
+/**
+ * Enrichment Evaluation
+ * Replays a golden dataset of recorded model responses through the same
+ * parsing, location checks and scoring as production (interpretInsightsResponse
+ * + scoreResult) and measures the decisions against known-correct answers.
+ *
+ * Used by scripts/eval-enrichment.ts; cases live in fixtures/eval. Reviewed
+ * results from the moderation queue become cases too (reviewToEvalCase).
+ *
+ * Metrics:
+ * - accept / cache: precision and recall of the accept and cache decisions
+ *   (positive = the case should be accepted)
+ * - name accuracy: accepted names that match the expected name or an alias
+ * - tier agreement: accepted tiers that match the expected tier
+ * - features: precision and recall of accepted features vs expected features
+ */
+
+import { AILocation } from "@/types/ai-insights";
+import { PlaygroundTier } from "@/types/playground";
+import { AI_INSIGHTS_CACHE_VERSION } from "@/lib/cache-keys";
+import { interpretInsightsResponse, type InsightsResponseRejection } from "@/lib/gemini";
+import { normalizePlaceText } from "@/lib/gazetteer";
+import { DEFAULT_INSIGHTS_LOCALE, normalizeInsightsLocale } from "@/lib/insights-locale";
+import { scoreResult } from "@/lib/validators/result-scorer";
+import type { InsightsReview } from "@/lib/insights-review";
+
+export type EvalCase = {
+  id: string;
+  osmId?: string;
+  // OSM name, passed to the prompt as a hint
+  name?: string;
+  // OSM tags, passed to the prompt and merged into the result
+  osmTags?: Record<string, string>;
+  location: AILocation;
+  locale?: string;
+  expected: {
+    // Whether a correct pipeline should accept this response
+    accept: boolean;
+    name?: string;
+    // Other names that count as correct (e.g. without the park name)
+    nameAliases?: string[];
+    tier?: PlaygroundTier;
+    features?: string[];
+  };
+  // Model output in the fixture provider format ("text" or "response", plus sources)
+  recorded: {
+    text?: string;
+    response?: unknown;
+    sources?: string[];
+    sourceTitles?: (string | null)[];
+  };
+  recordedAt?: string;
+  notes?: string;
+};
+
+export type EvalRejection = InsightsResponseRejection | "low_score";
+
+export type EvalCaseResult = {
+  id: string;
+  expectedAccept: boolean;
+  accepted: boolean;
+  cached: boolean;
+  rejection: EvalRejection | null;
+  score: number | null;
+  flags: string[];
+  name: string | null;
+  nameMatches: boolean | null; // null when not measured
+  tier: PlaygroundTier | null;
+  tierMatches: boolean | null;
+  features: string[] | null;
+};
+
+export type DecisionMetrics = {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+};
+
+export type RateMetric = {
+  matched: number;
+  total: number;
+  rate: number | null;
+};
+
+export type EvalMetrics = {
+  cases: number;
+  accept: DecisionMetrics;
+  cache: DecisionMetrics;
+  nameAccuracy: RateMetric;
+  tierAgreement: RateMetric;
+  featurePrecision: RateMetric;
+  featureRecall: RateMetric;
+};
+
+export type EvalReport = {
+  label: string;
+  cacheVersion: string;
+  createdAt: string;
+  metrics: EvalMetrics;
+  cases: EvalCaseResult[];
+};
+
+export type EvalCaseChange = {
+  id: string;
+  field: "accepted" | "cached" | "name" | "tier" | "score" | "missing";
+  baseline: string | number | boolean | null;
+  candidate: string | number | boolean | null;
+  // Whether the change moved towards the expected answer (null if neutral)
+  improved: boolean | null;
+};
+
+export type EvalMetricChange = {
+  metric: string;
+  baseline: number | null;
+  candidate: number | null;
+};
+
+export type EvalReportDiff = {
+  baseline: string;
+  candidate: string;
+  metrics: EvalMetricChange[];
+  changes: EvalCaseChange[];
+};
+
+// Score changes smaller than this aren't reported
+const MIN_SCORE_CHANGE = 5;
+
+function toRate(matched: number, total: number): RateMetric {
+  return { matched, total, rate: total > 0 ? matched / total : null };
+}
+
+function normalizeName(name: string): string {
+  return normalizePlaceText(name)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * A name matches when it contains the expected name or an alias
+ * ("Magical Bridge Playground, Palo Alto" matches "Magical Bridge Playground")
+ */
+function matchesExpectedName(name: string | null, expected: EvalCase["expected"]): boolean | null {
+  if (!expected.name) {
+    return null;
+  }
+  if (!name) {
+    return false;
+  }
+
+  const normalized = ` ${normalizeName(name)} `;
+  return [expected.name, ...(expected.nameAliases || [])].some((candidate) =>
+    normalized.includes(` ${normalizeName(candidate)} `),
+  );
+}
+
+function toRecordedText(recorded: EvalCase["recorded"]): string {
+  return recorded.text ?? JSON.stringify(recorded.response ?? {}, null, 2);
+}
+
+/**
+ * Eval case from a reviewed result (src/lib/insights-review.ts)
+ * Rejected results must be rejected; approved ones must produce the approved
+ * (possibly edited) name, tier and features. Returns null for pending reviews
+ * and reviews without a recorded response.
+ */
+export function reviewToEvalCase(review: InsightsReview): EvalCase | null {
+  if (review.status === "pending" || !review.response) {
+    return null;
+  }
+
+  const { insights } = review;
+  const accept = review.status === "approved";
+
+  return {
+    id: `review-${review.id}`,
+    osmId: review.osmId ?? undefined,
+    name: review.osmName ?? undefined,
+    location: review.location,
+    locale: review.locale,
+    expected: accept
+      ? {
+          accept,
+          name: insights.name ?? undefined,
+          tier: insights.tier ?? undefined,
+          features: insights.features ?? undefined,
+        }
+      : { accept },
+    recorded: {
+      text: review.response.text,
+      sources: review.response.sources,
+      sourceTitles: review.response.sourceTitles,
+    },
+    recordedAt: review.createdAt,
+    notes: accept
+      ? `Approved in review by ${review.reviewedBy} (score ${review.score.overall})`
+      : `Rejected in review by ${review.reviewedBy}: ${review.rejectionReason}`,
+  };
+}
+
+/**
+ * Replay one case through the pipeline
+ */
+export function runEvalCase(evalCase: EvalCase): EvalCaseResult {
+  const { id, location, expected } = evalCase;
+  const result: EvalCaseResult = {
+    id,
+    expectedAccept: expected.accept,
+    accepted: false,
+    cached: false,
+    rejection: null,
+    score: null,
+    flags: [],
+    name: null,
+    nameMatches: null,
+    tier: null,
+    tierMatches: null,
+    features: null,
+  };
+
+  const outcome = interpretInsightsResponse({
+    text: toRecordedText(evalCase.recorded),
+    sources: evalCase.recorded.sources || [],
+    sourceTitles: evalCase.recorded.sourceTitles,
+  }, { osmTags: evalCase.osmTags, osmId: evalCase.osmId });
+
+  if (!outcome.accepted) {
+    result.rejection = outcome.reason;
+    result.flags.push(outcome.detail);
+    return result;
+  }
+
+  const score = scoreResult(
+    outcome.insights,
+    outcome.locationConfidence,
+    outcome.locationVerification,
+    location.city,
+    location.region,
+    location.country,
+    normalizeInsightsLocale(evalCase.locale ?? DEFAULT_INSIGHTS_LOCALE),
+  );
+
+  result.accepted = score.shouldAccept;
+  result.cached = score.shouldAccept && score.shouldCache;
+  result.rejection = score.shouldAccept ? null : "low_score";
+  result.score = score.overallScore;
+  result.flags = [...score.flags, ...outcome.osmConflicts];
+
+  if (result.accepted) {
+    result.name = outcome.insights.name;
+    result.tier = outcome.insights.tier;
+    result.features = outcome.insights.features;
+
+    // Name and tier are only measured where both sides agree to accept
+    if (expected.accept) {
+      result.nameMatches = matchesExpectedName(result.name, expected);
+      result.tierMatches = expected.tier ? result.tier === expected.tier : null;
+    }
+  }
+
+  return result;
+}
+
+function computeDecisionMetrics(
+  results: EvalCaseResult[],
+  decide: (result: EvalCaseResult) => boolean,
+): DecisionMetrics {
+  const metrics = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+
+  for (const result of results) {
+    const decision = decide(result);
+    if (decision && result.expectedAccept) metrics.truePositives++;
+    else if (decision) metrics.falsePositives++;
+    else if (result.expectedAccept) metrics.falseNegatives++;
+    else metrics.trueNegatives++;
+  }
+
+  const predicted = metrics.truePositives + metrics.falsePositives;
+  const actual = metrics.truePositives + metrics.falseNegatives;
+  return {
+    ...metrics,
+    precision: predicted > 0 ? metrics.truePositives / predicted : null,
+    recall: actual > 0 ? metrics.truePositives / actual : null,
+  };
+}
+
+/**
+ * Aggregate case results into metrics
+ */
+export function computeEvalMetrics(cases: EvalCase[], results: EvalCaseResult[]): EvalMetrics {
+  const expectedById = new Map(cases.map((evalCase) => [evalCase.id, evalCase.expected]));
+
+  const named = results.filter((result) => result.nameMatches !== null);
+  const tiered = results.filter((result) => result.tierMatches !== null);
+
+  let featureHits = 0;
+  let predictedFeatures = 0;
+  let expectedFeatures = 0;
+  for (const result of results) {
+    const expected = expectedById.get(result.id)?.features;
+    if (!expected || !result.accepted || !result.expectedAccept) continue;
+
+    const features = result.features || [];
+    featureHits += features.filter((feature) => expected.includes(feature)).length;
+    predictedFeatures += features.length;
+    expectedFeatures += expected.length;
+  }
+
+  return {
+    cases: results.length,
+    accept: computeDecisionMetrics(results, (result) => result.accepted),
+    cache: computeDecisionMetrics(results, (result) => result.cached),
+    nameAccuracy: toRate(named.filter((result) => result.nameMatches).length, named.length),
+    tierAgreement: toRate(tiered.filter((result) => result.tierMatches).length, tiered.length),
+    featurePrecision: toRate(featureHits, predictedFeatures),
+    featureRecall: toRate(featureHits, expectedFeatures),
+  };
+}
+
+/**
+ * Replay every case and build a report
+ */
+export function runEnrichmentEval({
+  cases,
+  label = AI_INSIGHTS_CACHE_VERSION,
+}: {
+  cases: EvalCase[];
+  label?: string;
+}): EvalReport {
+  const results = cases.map(runEvalCase);
+
+  return {
+    label,
+    cacheVersion: AI_INSIGHTS_CACHE_VERSION,
+    createdAt: new Date().toISOString(),
+    metrics: computeEvalMetrics(cases, results),
+    cases: results,
+  };
+}
+
+function flattenMetrics(metrics: EvalMetrics): Record<string, number | null> {
+  return {
+    "accept.precision": metrics.accept.precision,
+    "accept.recall": metrics.accept.recall,
+    "cache.precision": metrics.cache.precision,
+    "cache.recall": metrics.cache.recall,
+    "name.accuracy": metrics.nameAccuracy.rate,
+    "tier.agreement": metrics.tierAgreement.rate,
+    "features.precision": metrics.featurePrecision.rate,
+    "features.recall": metrics.featureRecall.rate,
+  };
+}
+
+/**
+ * Compare two reports (e.g. main vs a prompt or threshold change)
+ * Cases are matched by id; cases only in one report are listed as "missing"
+ */
+export function diffEvalReports(baseline: EvalReport, candidate: EvalReport): EvalReportDiff {
+  const baselineMetrics = flattenMetrics(baseline.metrics);
+  const candidateMetrics = flattenMetrics(candidate.metrics);
+  const metrics = Object.keys(baselineMetrics).map((metric) => ({
+    metric,
+    baseline: baselineMetrics[metric],
+    candidate: candidateMetrics[metric],
+  }));
+
+  const changes: EvalCaseChange[] = [];
+  const candidateById = new Map(candidate.cases.map((result) => [result.id, result]));
+  const baselineIds = new Set(baseline.cases.map((result) => result.id));
+
+  for (const before of baseline.cases) {
+    const after = candidateById.get(before.id);
+    if (!after) {
+      changes.push({ id: before.id, field: "missing", baseline: "present", candidate: null, improved: null });
+      continue;
+    }
+
+    if (before.accepted !== after.accepted) {
+      changes.push({
+        id: before.id,
+        field: "accepted",
+        baseline: before.accepted,
+        candidate: after.accepted,
+        improved: after.accepted === after.expectedAccept,
+      });
+    }
+
+    if (before.cached !== after.cached) {
+      changes.push({
+        id: before.id,
+        field: "cached",
+        baseline: before.cached,
+        candidate: after.cached,
+        improved: after.cached === after.expectedAccept,
+      });
+    }
+
+    if (before.accepted && after.accepted && before.name !== after.name) {
+      changes.push({
+        id: before.id,
+        field: "name",
+        baseline: before.name,
+        candidate: after.name,
+        improved: before.nameMatches === after.nameMatches ? null : after.nameMatches === true,
+      });
+    }
+
+    if (before.accepted && after.accepted && before.tier !== after.tier) {
+      changes.push({
+        id: before.id,
+        field: "tier",
+        baseline: before.tier,
+        candidate: after.tier,
+        improved: before.tierMatches === after.tierMatches ? null : after.tierMatches === true,
+      });
+    }
+
+    if (
+      before.score !== null &&
+      after.score !== null &&
+      Math.abs(after.score - before.score) >= MIN_SCORE_CHANGE
+    ) {
+      changes.push({ id: before.id, field: "score", baseline: before.score, candidate: after.score, improved: null });
+    }
+  }
+
+  for (const after of candidate.cases) {
+    if (!baselineIds.has(after.id)) {
+      changes.push({ id: after.id, field: "missing", baseline: null, candidate: "present", improved: null });
+    }
+  }
+
+  return { baseline: baseline.label, candidate: candidate.label, metrics, changes };
+}
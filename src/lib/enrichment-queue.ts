@@ -0,0 +1,709 @@
+/**
+ * Enrichment Job Queue
+ * Supabase-backed queue for AI enrichment so slow or rate-limited Gemini calls
+ * never run inside a user-facing HTTP request.
+ *
+ * Flow:
+ * 1. API routes check the cache, then enqueue misses and return "pending"
+ * 2. A worker (after() hook in the route or the cron endpoint) leases jobs in
+ *    priority order (getEnrichmentStrategy), geocodes and calls the provider
+ * 3. Failed attempts are retried with exponential backoff until max_attempts,
+ *    then the job is marked "failed" with the last error recorded
+ * 4. Clients poll the same routes; completed jobs return their stored result
+ *
+ * Jobs carry the insights locale; its cache key (and so the job) is per locale.
+ * The worker looks up the element's OSM tags (playground index, then
+ * Nominatim), which the prompt and merge treat as ground truth
+ * (src/lib/osm-tags.ts). Tags are never taken from the client - the result is
+ * cached for everyone.
+ *
+ * Refresh jobs re-enrich cache entries past the soft TTL (stale hits and the
+ * refresh sweeper); unchanged results only bump the entry's refreshed_at.
+ *
+ * The queue is read and written with the service role only: job results are
+ * served to other visitors, so clients must not be able to touch them.
+ *
+ * Table and RPC functions are defined in supabase-schema.sql (section 5).
+ */
+
+import { randomUUID } from "crypto";
+import { createServiceClient } from "@/lib/supabase/service";
+import { AIInsights, AILocation, EnrichmentStatus } from "@/types/ai-insights";
+import { EnrichmentPriority, getEnrichmentStrategy } from "@/lib/enrichment-priority";
+import {
+  batchFetchAIInsightsCacheEntries,
+  listAIInsightsRefreshCandidates,
+  recordAIInsightsView,
+} from "@/lib/cache";
+import { buildAIInsightsCacheKey } from "@/lib/cache-keys";
+import { fetchGeminiInsightsWithCache } from "@/lib/gemini";
+import { batchReverseGeocode, fetchMultipleOSMPlaceDetails } from "@/lib/osm";
+import { parseOsmTags } from "@/lib/osm-tags";
+import { fetchPlaygroundIndexTags } from "@/lib/playground-index";
+import { aiLimiter } from "@/lib/rate-limiter";
+import {
+  DEFAULT_INSIGHTS_LOCALE,
+  normalizeInsightsLocale,
+  type InsightsLocale,
+} from "@/lib/insights-locale";
+import { getInsightsProvider, type InsightsProvider } from "@/lib/insights-providers";
+import { isApiBudgetExhausted, recordCacheLookups } from "@/lib/api-usage";
+import type { OsmTags } from "@/lib/osm-tags";
+
+const ENRICHMENT_JOBS_TABLE_NAME =
+  process.env.ENRICHMENT_JOBS_TABLE_NAME || "enrichment_jobs";
+
+// Attempts before a job is marked as failed
+const ENRICHMENT_JOB_MAX_ATTEMPTS = parseInt(
+  process.env.ENRICHMENT_JOB_MAX_ATTEMPTS || "5",
+);
+// Retry backoff: 30s, 60s, 120s, ... capped at 30 minutes
+const ENRICHMENT_JOB_RETRY_BASE_MS = parseInt(
+  process.env.ENRICHMENT_JOB_RETRY_BASE_MS || "30000",
+);
+const ENRICHMENT_JOB_RETRY_MAX_MS = parseInt(
+  process.env.ENRICHMENT_JOB_RETRY_MAX_MS || "1800000",
+);
+// How long a worker owns a leased job before another worker may take it over
+const ENRICHMENT_JOB_LEASE_SECONDS = parseInt(
+  process.env.ENRICHMENT_JOB_LEASE_SECONDS || "120",
+);
+// How long a finished job answers status lookups before it is re-enqueued (24 hours)
+const ENRICHMENT_JOB_RESULT_TTL_MS = parseInt(
+  process.env.ENRICHMENT_JOB_RESULT_TTL_MS || "86400000",
+);
+// Refresh sweeper: re-enrich viewed entries this long before they turn stale (7 days)
+const AI_INSIGHTS_REFRESH_LEAD_MS = parseInt(
+  process.env.AI_INSIGHTS_REFRESH_LEAD_MS || "604800000",
+);
+// Refresh sweeper: minimum detail views for an entry to be refreshed proactively
+const AI_INSIGHTS_REFRESH_MIN_VIEWS = parseInt(
+  process.env.AI_INSIGHTS_REFRESH_MIN_VIEWS || "3",
+);
+
+// Lower rank is leased first
+const PRIORITY_RANK: Record<EnrichmentPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+export type EnrichmentJobStatus = "pending" | "running" | "completed" | "failed";
+
+type EnrichmentLocation = Pick<AILocation, "city" | "region" | "country">;
+
+type EnrichmentJobRow = {
+  id: number;
+  cache_key: string;
+  osm_id: string | null;
+  name: string | null;
+  latitude: number;
+  longitude: number;
+  location: AILocation | null;
+  locale: string;
+  priority: EnrichmentPriority;
+  priority_rank: number;
+  refresh: boolean;
+  status: EnrichmentJobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  result: AIInsights | null;
+  completed_at: string | null;
+  updated_at: string;
+};
+
+export interface EnrichmentJobInput {
+  cacheKey: string;
+  lat: number;
+  lon: number;
+  name?: string;
+  osmId?: string;
+  location?: AILocation;
+  locale?: InsightsLocale;
+  priority: EnrichmentPriority;
+  // Re-enrich an existing (stale) cache entry
+  refresh?: boolean;
+}
+
+export interface EnrichmentJobState {
+  status: EnrichmentJobStatus;
+  insights: AIInsights | null;
+  location: EnrichmentLocation | null;
+  lastError: string | null;
+}
+
+export interface EnrichmentRequest {
+  playgroundId: number;
+  lat: number;
+  lon: number;
+  name?: string;
+  osmId?: string;
+  location?: AILocation;
+  // Priority inputs (see getEnrichmentStrategy)
+  isDetailView?: boolean;
+  distanceFromCenter?: number;
+  priority?: EnrichmentPriority;
+}
+
+export interface EnrichmentResolution {
+  playgroundId: number;
+  cacheKey: string;
+  status: EnrichmentStatus;
+  insights: AIInsights | null;
+  location?: EnrichmentLocation;
+}
+
+export interface EnrichmentWorkerSummary {
+  leased: number;
+  completed: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Build an AILocation from a Nominatim reverse geocoding response
+ */
+export function toAILocation(
+  lat: number,
+  lon: number,
+  data: Record<string, unknown>,
+): AILocation {
+  const address = (data as { address?: Record<string, string> }).address;
+
+  return {
+    latitude: lat,
+    longitude: lon,
+    city: address?.city || address?.town || address?.village,
+    region: address?.state,
+    country: address?.country_code?.toUpperCase() || "US",
+  };
+}
+
+/**
+ * Delay before the next attempt (exponential backoff with jitter)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const exponential = ENRICHMENT_JOB_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1);
+  const jitter = Math.random() * ENRICHMENT_JOB_RETRY_BASE_MS * 0.25;
+  return Math.min(exponential + jitter, ENRICHMENT_JOB_RETRY_MAX_MS);
+}
+
+/**
+ * Enqueue enrichment jobs (one active job per cache key)
+ * Re-enqueuing an active job only raises its priority
+ */
+export async function enqueueEnrichmentJobs({
+  jobs,
+}: {
+  jobs: EnrichmentJobInput[];
+}): Promise<boolean> {
+  if (jobs.length === 0) {
+    return true;
+  }
+
+  // Keep the highest priority per cache key (the RPC can't upsert the same key twice)
+  const byCacheKey = new Map<string, EnrichmentJobInput>();
+  for (const job of jobs) {
+    const existing = byCacheKey.get(job.cacheKey);
+    if (!existing || PRIORITY_RANK[job.priority] < PRIORITY_RANK[existing.priority]) {
+      byCacheKey.set(job.cacheKey, job);
+    }
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase.rpc("enqueue_enrichment_jobs", {
+      p_jobs: Array.from(byCacheKey.values()).map((job) => ({
+        cache_key: job.cacheKey,
+        osm_id: job.osmId ?? null,
+        name: job.name ?? null,
+        latitude: job.lat,
+        longitude: job.lon,
+        location: job.location ?? null,
+        locale: job.locale ?? DEFAULT_INSIGHTS_LOCALE,
+        priority: job.priority,
+        priority_rank: PRIORITY_RANK[job.priority],
+        refresh: job.refresh ?? false,
+        max_attempts: ENRICHMENT_JOB_MAX_ATTEMPTS,
+      })),
+    });
+
+    if (error) {
+      console.error("[EnrichmentQueue] ❌ Error enqueuing jobs:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("[EnrichmentQueue] ❌ Error enqueuing jobs:", error);
+    return false;
+  }
+}
+
+/**
+ * Look up the latest job for each cache key
+ * Finished jobs older than ENRICHMENT_JOB_RESULT_TTL_MS are ignored so they get re-enqueued
+ */
+export async function fetchEnrichmentJobStates({
+  cacheKeys,
+}: {
+  cacheKeys: string[];
+}): Promise<Map<string, EnrichmentJobState>> {
+  const states = new Map<string, EnrichmentJobState>();
+
+  if (cacheKeys.length === 0) {
+    return states;
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from(ENRICHMENT_JOBS_TABLE_NAME)
+      .select("cache_key, status, result, location, last_error, completed_at, updated_at")
+      .in("cache_key", cacheKeys)
+      .order("created_at", { ascending: false });
+
+    if (error || !data) {
+      if (error) {
+        console.error("[EnrichmentQueue] ❌ Error fetching job states:", error);
+      }
+      return states;
+    }
+
+    const now = Date.now();
+    const seen = new Set<string>();
+    for (const row of data as Pick<
+      EnrichmentJobRow,
+      "cache_key" | "status" | "result" | "location" | "last_error" | "completed_at" | "updated_at"
+    >[]) {
+      // Rows are newest first - only the latest job per key counts
+      if (seen.has(row.cache_key)) continue;
+      seen.add(row.cache_key);
+
+      const isFinished = row.status === "completed" || row.status === "failed";
+      const finishedAt = new Date(row.completed_at ?? row.updated_at).getTime();
+      if (isFinished && now - finishedAt > ENRICHMENT_JOB_RESULT_TTL_MS) {
+        continue;
+      }
+
+      states.set(row.cache_key, {
+        status: row.status,
+        insights: row.result,
+        location: row.location
+          ? { city: row.location.city, region: row.location.region, country: row.location.country }
+          : null,
+        lastError: row.last_error,
+      });
+    }
+  } catch (error) {
+    console.error("[EnrichmentQueue] ❌ Error fetching job states:", error);
+  }
+
+  return states;
+}
+
+/**
+ * Resolve enrichment requests without calling any external API:
+ * cache hits and finished jobs are returned as-is, everything else is
+ * enqueued (priority from getEnrichmentStrategy) and reported as pending.
+ * Stale cache hits are returned too, with a low priority refresh job enqueued.
+ * Cache hits and misses are recorded for the route (see api-usage.ts).
+ */
+export async function resolveEnrichmentRequests({
+  requests,
+  locale = DEFAULT_INSIGHTS_LOCALE,
+  route = "unknown",
+}: {
+  requests: EnrichmentRequest[];
+  locale?: InsightsLocale;
+  route?: string;
+}): Promise<EnrichmentResolution[]> {
+  const keyed = requests.map((req) => ({
+    req,
+    cacheKey: buildAIInsightsCacheKey(
+      req.osmId ? { osmId: req.osmId, locale } : { lat: req.lat, lon: req.lon, locale },
+    ),
+  }));
+
+  const cachedEntries = await batchFetchAIInsightsCacheEntries({
+    cacheKeys: keyed.map(({ cacheKey }) => cacheKey),
+  });
+  recordCacheLookups({
+    service: "gemini",
+    route,
+    hits: cachedEntries.size,
+    misses: keyed.length - cachedEntries.size,
+  });
+
+  // Stale entries are looked up too, so an active or recent refresh isn't enqueued again
+  const needsJobState = keyed.filter(({ cacheKey }) => cachedEntries.get(cacheKey)?.isStale ?? true);
+  const jobStates = await fetchEnrichmentJobStates({
+    cacheKeys: needsJobState.map(({ cacheKey }) => cacheKey),
+  });
+
+  const jobsToEnqueue: EnrichmentJobInput[] = [];
+  const resolutions = keyed.map(({ req, cacheKey }): EnrichmentResolution => {
+    const cachedEntry = cachedEntries.get(cacheKey);
+    if (cachedEntry) {
+      if (req.isDetailView) {
+        void recordAIInsightsView({ cacheKey });
+      }
+
+      if (cachedEntry.isStale && !jobStates.has(cacheKey)) {
+        jobsToEnqueue.push({
+          cacheKey,
+          lat: req.lat,
+          lon: req.lon,
+          name: req.name,
+          osmId: req.osmId,
+          location: req.location,
+          locale,
+          priority: "low",
+          refresh: true,
+        });
+      }
+
+      return { playgroundId: req.playgroundId, cacheKey, status: "completed", insights: cachedEntry.insights };
+    }
+
+    const state = jobStates.get(cacheKey);
+    if (state?.status === "completed" || state?.status === "failed") {
+      return {
+        playgroundId: req.playgroundId,
+        cacheKey,
+        status: state.status,
+        insights: state.insights,
+        location: state.location ?? undefined,
+      };
+    }
+
+    if (!state) {
+      const strategy = getEnrichmentStrategy({
+        isDetailView: req.isDetailView,
+        hasName: Boolean(req.name),
+        distanceFromCenter: req.distanceFromCenter,
+        priority: req.priority,
+      });
+
+      jobsToEnqueue.push({
+        cacheKey,
+        lat: req.lat,
+        lon: req.lon,
+        name: req.name,
+        osmId: req.osmId,
+        location: req.location,
+        locale,
+        priority: strategy.priority,
+      });
+    }
+
+    return { playgroundId: req.playgroundId, cacheKey, status: "pending", insights: null };
+  });
+
+  const enqueued = await enqueueEnrichmentJobs({ jobs: jobsToEnqueue });
+  if (!enqueued) {
+    // Without a queue entry nobody will pick the job up - report it as failed
+    // (stale entries keep their cached result)
+    const failedKeys = new Set(jobsToEnqueue.filter((job) => !job.refresh).map((job) => job.cacheKey));
+    for (const resolution of resolutions) {
+      if (failedKeys.has(resolution.cacheKey)) {
+        resolution.status = "failed";
+      }
+    }
+  }
+
+  return resolutions;
+}
+
+async function leaseEnrichmentJobs({
+  workerId,
+  limit,
+}: {
+  workerId: string;
+  limit: number;
+}): Promise<EnrichmentJobRow[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("lease_enrichment_jobs", {
+    p_worker_id: workerId,
+    p_limit: limit,
+    p_lease_seconds: ENRICHMENT_JOB_LEASE_SECONDS,
+  });
+
+  if (error) {
+    console.error("[EnrichmentQueue] ❌ Error leasing jobs:", error);
+    return [];
+  }
+
+  // RETURNING order is not guaranteed - process highest priority first
+  return ((data ?? []) as EnrichmentJobRow[]).sort(
+    (a, b) => a.priority_rank - b.priority_rank,
+  );
+}
+
+async function completeEnrichmentJob({
+  job,
+  workerId,
+  location,
+  insights,
+}: {
+  job: EnrichmentJobRow;
+  workerId: string;
+  location: AILocation;
+  insights: AIInsights | null;
+}): Promise<void> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+
+  // Only the current lease holder may finish the job
+  const { error } = await supabase
+    .from(ENRICHMENT_JOBS_TABLE_NAME)
+    .update({
+      status: "completed",
+      location,
+      result: insights,
+      last_error: null,
+      leased_by: null,
+      leased_until: null,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq("id", job.id)
+    .eq("leased_by", workerId);
+
+  if (error) {
+    console.error(`[EnrichmentQueue] ❌ Error completing job ${job.id}:`, error);
+  }
+}
+
+async function failEnrichmentJob({
+  job,
+  workerId,
+  error: jobError,
+  location,
+}: {
+  job: EnrichmentJobRow;
+  workerId: string;
+  error: unknown;
+  location?: AILocation | null;
+}): Promise<"retried" | "failed"> {
+  const supabase = createServiceClient();
+  const now = new Date();
+  const message = jobError instanceof Error ? jobError.message : String(jobError);
+  const isFinal = job.attempts >= job.max_attempts;
+
+  const { error } = await supabase
+    .from(ENRICHMENT_JOBS_TABLE_NAME)
+    .update({
+      status: isFinal ? "failed" : "pending",
+      location: location ?? job.location,
+      last_error: message.slice(0, 1000),
+      run_after: isFinal
+        ? now.toISOString()
+        : new Date(now.getTime() + getRetryDelayMs(job.attempts)).toISOString(),
+      leased_by: null,
+      leased_until: null,
+      completed_at: isFinal ? now.toISOString() : null,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("leased_by", workerId);
+
+  if (error) {
+    console.error(`[EnrichmentQueue] ❌ Error recording failure for job ${job.id}:`, error);
+  }
+
+  if (isFinal) {
+    console.error(`[EnrichmentQueue] ❌ Job ${job.id} (${job.cache_key}) failed after ${job.attempts} attempts: ${message}`);
+    return "failed";
+  }
+
+  console.warn(`[EnrichmentQueue] ⚠️ Job ${job.id} (${job.cache_key}) attempt ${job.attempts}/${job.max_attempts} failed, retrying: ${message}`);
+  return "retried";
+}
+
+/**
+ * Tags of an OSM element from the playground index, or Nominatim outside
+ * imported regions
+ *
+ * @returns The tags, or null if the lookup failed (the job runs without them)
+ */
+async function lookupOsmTags({
+  osmId,
+  signal,
+}: {
+  osmId: string;
+  signal?: AbortSignal;
+}): Promise<OsmTags | null> {
+  const indexTags = await fetchPlaygroundIndexTags({ osmId });
+  if (indexTags) {
+    return parseOsmTags(indexTags) ?? null;
+  }
+
+  try {
+    const [details] = await fetchMultipleOSMPlaceDetails({ osmIds: [osmId], signal });
+    return parseOsmTags(details?.extratags) ?? null;
+  } catch {
+    // Already logged by fetchMultipleOSMPlaceDetails
+    return null;
+  }
+}
+
+async function runEnrichmentJob({
+  job,
+  workerId,
+  provider,
+  signal,
+  route,
+}: {
+  job: EnrichmentJobRow;
+  workerId: string;
+  provider?: InsightsProvider;
+  signal?: AbortSignal;
+  route: string;
+}): Promise<"completed" | "retried" | "failed"> {
+  // A worker crashed mid-job too many times - don't try again
+  if (job.attempts > job.max_attempts) {
+    return failEnrichmentJob({
+      job,
+      workerId,
+      error: job.last_error ?? "Lease expired too many times",
+    });
+  }
+
+  let location = job.location;
+
+  try {
+    if (!location) {
+      const [geocoded] = await batchReverseGeocode({
+        coordinates: [{ lat: job.latitude, lon: job.longitude }],
+        signal,
+      });
+      if (!geocoded?.data) {
+        throw new Error("Reverse geocoding failed");
+      }
+      location = toAILocation(job.latitude, job.longitude, geocoded.data);
+    }
+
+    const insights = await fetchGeminiInsightsWithCache({
+      location,
+      name: job.name ?? undefined,
+      osmId: job.osm_id ?? undefined,
+      osmTags: job.osm_id ? await lookupOsmTags({ osmId: job.osm_id, signal }) : null,
+      locale: normalizeInsightsLocale(job.locale),
+      signal,
+      provider,
+      refresh: job.refresh,
+      usage: { route, playgroundId: job.osm_id ?? job.cache_key },
+    });
+
+    if (signal?.aborted) {
+      throw new Error("Worker deadline reached");
+    }
+
+    // A null result means the response was rejected by validation - that's a
+    // final answer, retrying would only spend more API calls
+    await completeEnrichmentJob({ job, workerId, location, insights });
+    return "completed";
+  } catch (error) {
+    return failEnrichmentJob({ job, workerId, error, location });
+  }
+}
+
+/**
+ * Lease and process queued enrichment jobs
+ * Jobs run through aiLimiter so a worker never exceeds the AI concurrency limit
+ * Nothing is leased while the Gemini budget is exhausted (jobs wait until it resets)
+ */
+export async function processEnrichmentJobs({
+  limit = 10,
+  maxDurationMs = 50000,
+  provider,
+  route = "unknown",
+}: {
+  limit?: number;
+  maxDurationMs?: number;
+  provider?: InsightsProvider;
+  // Route that triggered the run (API usage is attributed to it)
+  route?: string;
+} = {}): Promise<EnrichmentWorkerSummary> {
+  const workerId = `${process.env.VERCEL_REGION ?? "local"}-${randomUUID().slice(0, 8)}`;
+  const summary: EnrichmentWorkerSummary = { leased: 0, completed: 0, retried: 0, failed: 0 };
+  const deadline = Date.now() + maxDurationMs;
+
+  if ((provider ?? getInsightsProvider()).id === "gemini" && await isApiBudgetExhausted("gemini")) {
+    return summary;
+  }
+
+  try {
+    // Keep leasing until the queue is drained, the limit is hit or time runs out
+    while (summary.leased < limit && Date.now() < deadline) {
+      const jobs = await leaseEnrichmentJobs({
+        workerId,
+        limit: Math.min(5, limit - summary.leased),
+      });
+      if (jobs.length === 0) {
+        break;
+      }
+
+      summary.leased += jobs.length;
+      const signal = AbortSignal.timeout(Math.max(0, deadline - Date.now()));
+
+      const outcomes = await Promise.all(
+        jobs.map((job) =>
+          aiLimiter(() => runEnrichmentJob({ job, workerId, provider, signal, route })),
+        ),
+      );
+
+      for (const outcome of outcomes) {
+        summary[outcome] += 1;
+      }
+    }
+  } catch (error) {
+    console.error("[EnrichmentQueue] ❌ Worker error:", error);
+  }
+
+  return summary;
+}
+
+/**
+ * Refresh sweeper: enqueue low priority refresh jobs for the most-viewed cache
+ * entries that are stale or turn stale within AI_INSIGHTS_REFRESH_LEAD_MS
+ * Returns the number of jobs enqueued
+ */
+export async function enqueueInsightsRefreshJobs({
+  limit = 50,
+}: {
+  limit?: number;
+} = {}): Promise<number> {
+  const candidates = await listAIInsightsRefreshCandidates({
+    limit,
+    refreshLeadMs: AI_INSIGHTS_REFRESH_LEAD_MS,
+    minViews: AI_INSIGHTS_REFRESH_MIN_VIEWS,
+  });
+
+  // Skip entries with an active or recently finished job
+  const jobStates = await fetchEnrichmentJobStates({
+    cacheKeys: candidates.map(({ cacheKey }) => cacheKey),
+  });
+
+  const jobs: EnrichmentJobInput[] = candidates
+    .filter(({ cacheKey }) => !jobStates.has(cacheKey))
+    .map(({ cacheKey, refreshInput }) => ({
+      cacheKey,
+      lat: refreshInput.location.latitude,
+      lon: refreshInput.location.longitude,
+      name: refreshInput.name,
+      osmId: refreshInput.osmId,
+      location: refreshInput.location,
+      locale: refreshInput.locale,
+      priority: "low",
+      refresh: true,
+    }));
+
+  const enqueued = await enqueueEnrichmentJobs({ jobs });
+  return enqueued ? jobs.length : 0;
+}
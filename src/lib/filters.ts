@@ -0,0 +1,253 @@
+/**
+ * Playground Filters
+ * Shared by the client (list, URL state) and the vector tile endpoint so the
+ * map and the list always agree on which playgrounds match.
+ *
+ * Filters only judge what is known: playgrounds that aren't enriched yet stay
+ * visible until they are, so scrolling the list can still enrich them.
+ */
+
+import { Playground, PlaygroundTier } from "@/types/playground";
+import type {
+  AccessibilityFeature,
+  PlaygroundFeature,
+} from "@/lib/validators/insights-schema";
+
+// Each filter option matches any of several vocabulary values
+export const FEATURE_FILTERS = {
+  swings: ["swing", "bucket_swing", "tire_swing", "accessible_swing"],
+  slides: ["slide", "tube_slide"],
+  climbing: ["climbing_frame", "climbing_wall", "rope_climber", "rope_course"],
+  splash_pad: ["splash_pad", "water_play"],
+  sandbox: ["sandbox"],
+  zip_line: ["zip_line"],
+  toddler_area: ["toddler_area"],
+} as const satisfies Record<string, readonly PlaygroundFeature[]>;
+
+export const ACCESSIBILITY_FILTERS = {
+  wheelchair: ["wheelchair_accessible"],
+  shade: ["shade"],
+  restrooms: ["restrooms", "accessible_restrooms"],
+  fenced: ["fenced"],
+  changing_table: ["changing_table"],
+} as const satisfies Record<string, readonly AccessibilityFeature[]>;
+
+export type FeatureFilter = keyof typeof FEATURE_FILTERS;
+export type AccessibilityFilter = keyof typeof ACCESSIBILITY_FILTERS;
+
+export type PlaygroundFilters = {
+  minTier: PlaygroundTier | null;
+  features: FeatureFilter[];
+  accessibility: AccessibilityFilter[];
+  hasPhotos: boolean;
+};
+
+export const EMPTY_PLAYGROUND_FILTERS: PlaygroundFilters = {
+  minTier: null,
+  features: [],
+  accessibility: [],
+  hasPhotos: false,
+};
+
+const TIER_RANK: Record<PlaygroundTier, number> = {
+  neighborhood: 0,
+  gem: 1,
+  star: 2,
+};
+
+// Query params shared by the page URL and the tile URL
+const FILTER_PARAMS = {
+  minTier: "tier",
+  features: "features",
+  accessibility: "access",
+  hasPhotos: "photos",
+} as const;
+
+/**
+ * What a filter can know about a playground (see toFilterablePlayground)
+ * hasPhotos is null while the playground isn't enriched
+ */
+export type FilterablePlayground = {
+  enriched: boolean;
+  tier: PlaygroundTier | null;
+  features: string[] | null;
+  accessibility: string[] | null;
+  hasPhotos: boolean | null;
+};
+
+/**
+ * Filter input for a playground, shared by the list, /api/search and the tiles
+ * Without insights (not enriched yet, or enrichment found nothing) nothing is
+ * known and the playground is kept. Once enriched, a playground without known
+ * photos counts as having none: image searches that found nothing aren't
+ * cached, so "not searched yet" and "none found" look the same
+ */
+export function toFilterablePlayground({
+  insights,
+  hasKnownPhotos,
+}: {
+  insights: {
+    tier: PlaygroundTier | null;
+    features: string[] | null;
+    accessibility: string[] | null;
+  } | null;
+  hasKnownPhotos: boolean;
+}): FilterablePlayground {
+  return {
+    enriched: insights !== null,
+    tier: insights?.tier ?? null,
+    features: insights?.features ?? null,
+    accessibility: insights?.accessibility ?? null,
+    hasPhotos: insights ? hasKnownPhotos : null,
+  };
+}
+
+export function countActiveFilters(filters: PlaygroundFilters): number {
+  return (
+    (filters.minTier && filters.minTier !== "neighborhood" ? 1 : 0) +
+    filters.features.length +
+    filters.accessibility.length +
+    (filters.hasPhotos ? 1 : 0)
+  );
+}
+
+export function hasActiveFilters(filters: PlaygroundFilters): boolean {
+  return countActiveFilters(filters) > 0;
+}
+
+export function arePlaygroundFiltersEqual(a: PlaygroundFilters, b: PlaygroundFilters): boolean {
+  return getPlaygroundFiltersQuery(a) === getPlaygroundFiltersQuery(b);
+}
+
+/**
+ * Check a playground against the filters (unknown values don't exclude it)
+ */
+export function matchesPlaygroundFilters(
+  playground: FilterablePlayground,
+  filters: PlaygroundFilters,
+): boolean {
+  if (!playground.enriched) {
+    return true;
+  }
+
+  if (filters.minTier && TIER_RANK[playground.tier || "neighborhood"] < TIER_RANK[filters.minTier]) {
+    return false;
+  }
+
+  const features = playground.features || [];
+  for (const filter of filters.features) {
+    if (!FEATURE_FILTERS[filter].some((feature) => features.includes(feature))) {
+      return false;
+    }
+  }
+
+  const accessibility = playground.accessibility || [];
+  for (const filter of filters.accessibility) {
+    if (!ACCESSIBILITY_FILTERS[filter].some((feature) => accessibility.includes(feature))) {
+      return false;
+    }
+  }
+
+  if (filters.hasPhotos && playground.hasPhotos === false) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Playgrounds from search results that match the filters
+ */
+export function filterPlaygrounds(playgrounds: Playground[], filters: PlaygroundFilters): Playground[] {
+  if (!hasActiveFilters(filters)) {
+    return playgrounds;
+  }
+
+  return playgrounds.filter((playground) =>
+    matchesPlaygroundFilters(
+      toFilterablePlayground({
+        // Playgrounds whose enrichment found nothing are marked enriched, but
+        // have no tier (real insights always do)
+        insights: playground.enriched && playground.tier ? playground : null,
+        hasKnownPhotos: Boolean(playground.images?.length),
+      }),
+      filters,
+    ),
+  );
+}
+
+function parseList<T extends string>(value: string | null, allowed: Record<T, unknown>): T[] {
+  if (!value) {
+    return [];
+  }
+  const values = value.split(",").filter((item): item is T => Object.hasOwn(allowed, item));
+  return Array.from(new Set(values));
+}
+
+/**
+ * Read filters from query params; unknown values are ignored
+ */
+export function parsePlaygroundFilters(params: URLSearchParams): PlaygroundFilters {
+  const tier = params.get(FILTER_PARAMS.minTier);
+
+  return {
+    // "neighborhood" is every tier, same as no tier filter
+    minTier: tier && tier !== "neighborhood" && Object.hasOwn(TIER_RANK, tier) ? (tier as PlaygroundTier) : null,
+    features: parseList(params.get(FILTER_PARAMS.features), FEATURE_FILTERS),
+    accessibility: parseList(params.get(FILTER_PARAMS.accessibility), ACCESSIBILITY_FILTERS),
+    hasPhotos: params.get(FILTER_PARAMS.hasPhotos) === "1",
+  };
+}
+
+/**
+ * Validate filters from JSON (request bodies, session storage); invalid
+ * values are dropped
+ */
+export function normalizePlaygroundFilters(value: unknown): PlaygroundFilters {
+  if (!value || typeof value !== "object") {
+    return EMPTY_PLAYGROUND_FILTERS;
+  }
+
+  const input = value as Record<string, unknown>;
+  const toList = (list: unknown) =>
+    Array.isArray(list) ? list.filter((item) => typeof item === "string").join(",") : null;
+
+  const params = new URLSearchParams();
+  if (typeof input.minTier === "string") params.set(FILTER_PARAMS.minTier, input.minTier);
+  params.set(FILTER_PARAMS.features, toList(input.features) || "");
+  params.set(FILTER_PARAMS.accessibility, toList(input.accessibility) || "");
+  if (input.hasPhotos === true) params.set(FILTER_PARAMS.hasPhotos, "1");
+
+  return parsePlaygroundFilters(params);
+}
+
+/**
+ * Write filters to query params; inactive filters are removed
+ */
+export function setPlaygroundFilterParams(params: URLSearchParams, filters: PlaygroundFilters) {
+  const values: Record<keyof typeof FILTER_PARAMS, string | null> = {
+    minTier: filters.minTier && filters.minTier !== "neighborhood" ? filters.minTier : null,
+    // Sorted so equal filters always produce the same URL (and tile cache key)
+    features: filters.features.length > 0 ? [...filters.features].sort().join(",") : null,
+    accessibility: filters.accessibility.length > 0 ? [...filters.accessibility].sort().join(",") : null,
+    hasPhotos: filters.hasPhotos ? "1" : null,
+  };
+
+  for (const [key, param] of Object.entries(FILTER_PARAMS)) {
+    const value = values[key as keyof typeof FILTER_PARAMS];
+    if (value) {
+      params.set(param, value);
+    } else {
+      params.delete(param);
+    }
+  }
+}
+
+/**
+ * Filters as a query string (empty when no filter is active)
+ */
+export function getPlaygroundFiltersQuery(filters: PlaygroundFilters): string {
+  const params = new URLSearchParams();
+  setPlaygroundFilterParams(params, filters);
+  return params.toString();
+}
@@ -0,0 +1,276 @@
+/**
+ * Gazetteer
+ * Bundled place names used to ground prompts in the right country and to
+ * detect descriptions that talk about somewhere else.
+ *
+ * - Countries: every ISO 3166-1 country, names from Intl.DisplayNames (English
+ *   plus every insights locale, so "Deutschland" and "Allemagne" both count)
+ * - Regions (admin level 1) and major cities: data.json, keyed by country code
+ *
+ * The checked-in data.json is a hand-curated subset, not yet the output of
+ * scripts/build-gazetteer.ts: 49 countries, of which only 22 list regions, with
+ * postal-style region codes ("NSW", "QC") where GeoNames uses admin1 codes.
+ * Location conflict checks therefore only run for target countries with
+ * regions (isGazetteerCountry) - anywhere else a description naming another
+ * country or city can't be told apart from one naming a local place we don't
+ * know. Rebuilding from GeoNames covers every country (and changes the codes).
+ *
+ * data.json format:
+ *   { "CA": { "languages": ["en", "fr"],
+ *             "regions": { "QC": ["Quebec", "Québec"] },
+ *             "cities": [["QC", "Montreal", "Montréal"]] } }
+ * The first name is the primary one, the rest are alternate/local names.
+ * Cities start with their region code (null if unknown).
+ */
+
+import gazetteerData from "@/lib/gazetteer/data.json";
+import { SUPPORTED_INSIGHTS_LOCALES } from "@/lib/insights-locale";
+
+export type GazetteerCountry = {
+  languages: string[];
+  regions: Record<string, string[]>;
+  cities: (string | null)[][];
+};
+
+export type GazetteerPlace = {
+  name: string;
+  kind: "country" | "region" | "city";
+  countryCode: string;
+  regionCode: string | null;
+};
+
+export type PlaceMention = {
+  // The mention as it appears in the normalized text
+  text: string;
+  // Offset in the normalized text (see normalizePlaceText)
+  index: number;
+  // Every place with that name (e.g. London, England and London, Ontario)
+  places: GazetteerPlace[];
+};
+
+const GAZETTEER: Record<string, GazetteerCountry> = gazetteerData;
+
+// Region codes that aren't countries (or are placeholders)
+const NON_COUNTRY_CODES = new Set(["EU", "EZ", "UN", "QO", "XA", "XB", "ZZ"]);
+
+// Names that are far more often a person, a word or a direction than the place
+// ("Charlotte's favourite slide", "West Coast beaches")
+const AMBIGUOUS_PLACE_NAMES = new Set([
+  "Austin", "Bath", "Charlotte", "Chad", "Columbus", "Darwin", "Essen", "Florence",
+  "Hamilton", "Jackson", "Jordan", "Leon", "Lincoln", "Madison", "Marche", "Mobile",
+  "Nelson", "Nice", "Orange", "Phoenix", "Reading", "Regina", "Split", "Victoria",
+  "Washington", "West Coast",
+]);
+
+// Single-word names shorter than this aren't matched ("Zug", "Uri")
+const MIN_SINGLE_WORD_NAME_LENGTH = 4;
+
+const TOKEN_REGEX_SOURCE = "[\\p{L}\\p{N}]+";
+
+type PlaceIndex = {
+  places: Map<string, GazetteerPlace[]>;
+  maxTokens: number;
+};
+
+let placeIndex: PlaceIndex | null = null;
+
+/**
+ * Strip diacritics so "Québec" and "Quebec" compare equal
+ */
+export function normalizePlaceText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+function tokenize(text: string): { token: string; index: number }[] {
+  return Array.from(normalizePlaceText(text).matchAll(new RegExp(TOKEN_REGEX_SOURCE, "gu")))
+    .map((match) => ({ token: match[0], index: match.index ?? 0 }));
+}
+
+function toKey(name: string): string {
+  return tokenize(name).map(({ token }) => token).join(" ");
+}
+
+function getAllCountryCodes(): string[] {
+  const displayNames = new Intl.DisplayNames(["en"], { type: "region" });
+  const codes: string[] = [];
+
+  for (let first = 65; first <= 90; first++) {
+    for (let second = 65; second <= 90; second++) {
+      const code = String.fromCharCode(first, second);
+      if (!NON_COUNTRY_CODES.has(code) && displayNames.of(code) !== code) {
+        codes.push(code);
+      }
+    }
+  }
+
+  return codes;
+}
+
+function buildPlaceIndex(): PlaceIndex {
+  const places = new Map<string, GazetteerPlace[]>();
+  let maxTokens = 1;
+
+  const addPlace = (place: GazetteerPlace) => {
+    const key = toKey(place.name);
+    const tokenCount = key.split(" ").length;
+    if (!key || AMBIGUOUS_PLACE_NAMES.has(key)) return;
+    if (tokenCount === 1 && key.length < MIN_SINGLE_WORD_NAME_LENGTH) return;
+
+    const existing = places.get(key);
+    if (existing) {
+      // "Montréal" and "Montreal" are the same place once diacritics are stripped
+      const isDuplicate = existing.some((other) =>
+        other.kind === place.kind &&
+        other.countryCode === place.countryCode &&
+        other.regionCode === place.regionCode
+      );
+      if (!isDuplicate) {
+        existing.push(place);
+      }
+    } else {
+      places.set(key, [place]);
+    }
+    maxTokens = Math.max(maxTokens, tokenCount);
+  };
+
+  const languages = Array.from(new Set(["en", ...SUPPORTED_INSIGHTS_LOCALES]));
+  for (const countryCode of getAllCountryCodes()) {
+    const names = new Set(languages.map((language) => getCountryName(countryCode, language)));
+    for (const name of names) {
+      addPlace({ name, kind: "country", countryCode, regionCode: null });
+    }
+  }
+
+  for (const [countryCode, country] of Object.entries(GAZETTEER)) {
+    for (const [regionCode, names] of Object.entries(country.regions)) {
+      for (const name of names) {
+        addPlace({ name, kind: "region", countryCode, regionCode });
+      }
+    }
+
+    for (const [regionCode, ...names] of country.cities) {
+      for (const name of names) {
+        if (name) {
+          addPlace({ name, kind: "city", countryCode, regionCode });
+        }
+      }
+    }
+  }
+
+  return { places, maxTokens };
+}
+
+function getPlaceIndex(): PlaceIndex {
+  if (!placeIndex) {
+    placeIndex = buildPlaceIndex();
+  }
+  return placeIndex;
+}
+
+/**
+ * Country name for an ISO 3166-1 alpha-2 code ("CA" -> "Canada")
+ * Unknown codes are returned as-is
+ */
+export function getCountryName(countryCode: string, language: string = "en"): string {
+  try {
+    return new Intl.DisplayNames([language], { type: "region" }).of(countryCode.toUpperCase()) || countryCode;
+  } catch {
+    return countryCode;
+  }
+}
+
+/**
+ * Whether data.json covers a country's regions and cities well enough to
+ * check descriptions for places outside it (see the module comment)
+ */
+export function isGazetteerCountry(countryCode: string): boolean {
+  const country = GAZETTEER[countryCode.toUpperCase()];
+  return Boolean(country && Object.keys(country.regions).length > 0);
+}
+
+/**
+ * Languages spoken in a country (ISO 639-1, most common first; empty if unknown)
+ */
+export function getCountryLanguages(countryCode: string): string[] {
+  return GAZETTEER[countryCode.toUpperCase()]?.languages || [];
+}
+
+/**
+ * Find the gazetteer region for a geocoded location
+ * Matches the region name (any language, e.g. "Stockholms län" -> "AB"), and
+ * falls back to the region of a known city
+ */
+export function resolveRegionCode({
+  countryCode,
+  region,
+  city,
+}: {
+  countryCode: string;
+  region?: string;
+  city?: string;
+}): string | null {
+  const country = GAZETTEER[countryCode.toUpperCase()];
+  if (!country) {
+    return null;
+  }
+
+  if (region) {
+    const target = ` ${toKey(region).toLowerCase()} `;
+    let best: { code: string; length: number } | null = null;
+
+    for (const [code, names] of Object.entries(country.regions)) {
+      for (const name of names) {
+        const key = toKey(name).toLowerCase();
+        if (key && target.includes(` ${key} `) && (!best || key.length > best.length)) {
+          best = { code, length: key.length };
+        }
+      }
+    }
+
+    if (best) {
+      return best.code;
+    }
+  }
+
+  if (city) {
+    const target = toKey(city).toLowerCase();
+    const match = country.cities.find(([, ...names]) =>
+      names.some((name) => name && toKey(name).toLowerCase() === target),
+    );
+    if (match?.[0]) {
+      return match[0];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find places mentioned in a text
+ * Matching is case-sensitive (place names are proper nouns) and prefers the
+ * longest name, so "West Virginia" isn't also reported as "Virginia"
+ */
+export function findPlaceMentions(text: string): PlaceMention[] {
+  const { places, maxTokens } = getPlaceIndex();
+  const tokens = tokenize(text);
+  const mentions: PlaceMention[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    let matched = 0;
+
+    for (let count = Math.min(maxTokens, tokens.length - i); count > 0; count--) {
+      const key = tokens.slice(i, i + count).map(({ token }) => token).join(" ");
+      const matches = places.get(key);
+      if (matches) {
+        mentions.push({ text: key, index: tokens[i].index, places: matches });
+        matched = count;
+        break;
+      }
+    }
+
+    i += Math.max(matched, 1);
+  }
+
+  return mentions;
+}
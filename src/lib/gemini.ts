@@ -12,6 +12,20 @@
  * - Location validation: Verifies playground proximity (50-200m for high/medium confidence)
  * - Image enrichment: Google Custom Search with SafeSearch, imgType=photo, imgSize=large
  * - Cache-first strategy: Checks cache with osmId only (no geocoding) for instant results
+ * - Schema validation: Responses are type-checked and normalised
+ *   (src/lib/validators/insights-schema.ts) before they are scored or cached
+ * - Pluggable providers: The model call goes through an InsightsProvider
+ *   (src/lib/insights-providers) so vendors can be swapped or replaced by fixtures
+ * - International: Prompts name the real country, hint at local-language search
+ *   terms (src/lib/gazetteer) and ask for text in the user's locale
+ *   (src/lib/insights-locale); insights are cached per locale
+ * - Review queue: Borderline results (accepted but not cacheable) are held for
+ *   moderation and served while pending (src/lib/insights-review.ts)
+ * - Hybrid tier: Gemini's tier is reconciled with the points-based
+ *   calculatePlaygroundTier (src/lib/tier-calculator.ts) and both are stored
+ * - OSM ground truth: Tags on the OSM element are passed as hints, override
+ *   the model when it disagrees (flagged as conflicts) and back an OSM-only
+ *   result when the model's is rejected (src/lib/osm-tags.ts)
  *
  * Rate Limits:
  * - Gemini: Free tier 15 RPM, Paid tier 2,000 RPM (gemini-2.0-flash)
@@ -21,17 +35,61 @@
  * @see https://developers.google.com/custom-search - Google Custom Search docs
  */
 
-import { GoogleGenAI, type GenerateContentResponse, type Tool } from "@google/genai";
 import {
   fetchAIInsightsFromCache,
   saveAIInsightsToCache,
   batchFetchAIInsightsFromCache,
+  getChangedInsightsFields,
+  touchAIInsightsCache,
 } from "@/lib/cache";
 import { buildAIInsightsCacheKey } from "@/lib/cache-keys";
 import { AIInsights, AILocation } from "@/types/ai-insights";
-import { aiLimiter } from "@/lib/rate-limiter";
+import { aiLimiter, waitForApiToken } from "@/lib/rate-limiter";
 import { deduplicatedFetch } from "@/lib/request-dedup";
 import { scoreResult, getScoreSummary } from "@/lib/validators/result-scorer";
+import {
+  getInsightsProvider,
+  type InsightsProvider,
+  type InsightsProviderResponse,
+} from "@/lib/insights-providers";
+import {
+  parseInsightsResponse,
+  formatParseFailure,
+  type LocationConfidence,
+} from "@/lib/validators/insights-schema";
+import { getCountryLanguages, getCountryName } from "@/lib/gazetteer";
+import {
+  buildInsightsProvenance,
+  toInsightsScore,
+  withProvenanceScore,
+  withProvenanceSource,
+} from "@/lib/insights-provenance";
+import {
+  buildOsmTagInsights,
+  formatOsmTagFacts,
+  getOsmTagSource,
+  hasOsmTagFacts,
+  interpretOsmTags,
+  mergeOsmTagFacts,
+  type OsmTags,
+} from "@/lib/osm-tags";
+import { fetchOpenInsightsReview, saveInsightsForReview } from "@/lib/insights-review";
+import { reconcilePlaygroundTier } from "@/lib/tier-calculator";
+import {
+  estimateGeminiCost,
+  isApiBudgetExhausted,
+  recordApiUsage,
+  type ApiUsageContext,
+} from "@/lib/api-usage";
+import {
+  DEFAULT_INSIGHTS_LOCALE,
+  getLanguageName,
+  getPlaygroundSearchTerms,
+  type InsightsLocale,
+} from "@/lib/insights-locale";
+
+// Local languages hinted per country (the first ones listed in the gazetteer)
+const MAX_LOCAL_SEARCH_LANGUAGES = 2;
 
 // Helper function to remove citation markers from text
 function removeCitationMarkers(text: string | null): string | null {
@@ -40,38 +98,66 @@ function removeCitationMarkers(text: string | null): string | null {
   return text.replace(/\[\d+\](\[\d+\])*/g, "").trim();
 }
 
-// Function to fetch AI insights from Google Gemini with web search
-// NOTE: This function does NOT fetch images - use src/lib/images.ts instead
-export async function fetchGeminiInsights({
+// Local-language search hint, e.g. ' Also search in German sources (e.g. "Spielplatz").'
+function buildLocalSearchHint(countryCode: string): string {
+  const languages = getCountryLanguages(countryCode)
+    .slice(0, MAX_LOCAL_SEARCH_LANGUAGES)
+    .filter((language) => language !== "en");
+
+  if (languages.length === 0) {
+    return "";
+  }
+
+  const hints = languages.map((language) => {
+    const terms = getPlaygroundSearchTerms(language);
+    return terms.length > 0
+      ? `${getLanguageName(language)} (e.g. ${terms.map((term) => `"${term}"`).join(", ")})`
+      : getLanguageName(language);
+  });
+
+  return ` Also search in ${hints.join(" and ")} - local sources are often more detailed.`;
+}
+
+/**
+ * Location label used in prompts and logs (e.g., "Palo Alto, California, United States")
+ */
+function formatPromptLocation(location: AILocation): string {
+  const countryName = getCountryName(location.country);
+  return location.city && location.region
+    ? `${location.city}, ${location.region}, ${countryName}`
+    : location.city || location.region
+      ? `${location.city || location.region}, ${countryName}`
+      : countryName;
+}
+
+/**
+ * Build the enrichment prompt for a playground
+ */
+export function buildInsightsPrompt({
   location,
   name,
-  signal,
+  locale = DEFAULT_INSIGHTS_LOCALE,
+  osmTags,
 }: {
   location: AILocation;
   name?: string;
-  signal?: AbortSignal;
-}): Promise<AIInsights | null> {
-  if (signal?.aborted) {
-    return null;
-  }
-
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error("Gemini API key is missing");
-  }
-
+  locale?: InsightsLocale;
+  osmTags?: OsmTags | null;
+}): string {
   // Build explicit location context for prompt
-  const cityState = location.city && location.region
-    ? `${location.city}, ${location.region}`
-    : location.city
-      ? `${location.city}, ${location.country}`
-      : location.region
-        ? `${location.region}, ${location.country}`
-        : location.country;
+  const cityState = formatPromptLocation(location);
 
   // Balanced prompt using OSM hints and reasonable proximity
   const osmNameHint = name ? ` OpenStreetMap data indicates this is "${name}".` : '';
-  const prompt = `Search for information about the playground at GPS coordinates ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)} in ${cityState}, USA.${osmNameHint}
+  const localSearchHint = buildLocalSearchHint(location.country);
+  const languageInstruction = locale !== DEFAULT_INSIGHTS_LOCALE
+    ? `\n\nLANGUAGE: Write "description", "parking" and "tier_reasoning" in ${getLanguageName(locale)}. Keep the JSON keys and the "location_confidence", "features", "accessibility" and "tier" values in English exactly as specified.`
+    : '';
+  const osmFacts = interpretOsmTags(osmTags);
+  const osmTagsSection = hasOsmTagFacts(osmFacts)
+    ? `\n\nOpenStreetMap data for this playground (mapped on site - treat as ground truth and use the same feature names):\n${formatOsmTagFacts(osmFacts).join('\n')}`
+    : '';
+  return `Search for information about the playground at GPS coordinates ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)} in ${cityState}.${osmNameHint}${localSearchHint}${osmTagsSection}
 
 Find details about THIS SPECIFIC playground:
 1. Official playground name
@@ -108,7 +194,7 @@ Generate 3-5 Google Image Search query strings optimized to find photos of THIS
 - Related facilities (recreation center, community center, school name nearby)
 - Use quotes for exact phrase matching when appropriate
 - Include city name for location context
-- Try variations with/without "playground" keyword
+- Try variations with/without "playground" keyword${localSearchHint ? ' (and the local-language word for playground)' : ''}
 Examples: ['"Beresford Park" "San Mateo"', 'Beresford Recreation Center playground', '"Beresford Park Playground" San Mateo California']
 
 Confidence guidelines:
@@ -116,184 +202,233 @@ Confidence guidelines:
 - "medium": Found playground within 100-200 meters${name ? ' OR name partially matches' : ''}
 - "low": Can't find playground near these coordinates${name ? ' OR name completely different' : ''} (set all fields to null, tier=neighborhood, provide generic city playground queries)
 
-CRITICAL: Always return valid JSON, even if confidence is low. Never return plain text.`;
+CRITICAL: Always return valid JSON, even if confidence is low. Never return plain text.${languageInstruction}`;
+}
 
-  // Initialize Google Gemini client
-  // Note: Don't specify apiVersion - SDK will use the correct default for google_search
-  const genai = new GoogleGenAI({ apiKey });
+export type InsightsResponseRejection = "malformed_response" | "low_confidence" | "distance_too_far";
 
-  // Configure grounding with Google Search
-  const groundingTool: Tool = {
-    googleSearch: {}
+/**
+ * Result of interpreting a raw model response
+ * Accepted results still have to pass scoreResult before they are used
+ */
+export type InsightsResponseOutcome =
+  | {
+    accepted: true;
+    insights: AIInsights;
+    locationConfidence: LocationConfidence;
+    locationVerification: string | null;
+    warnings: string[];
+    // Model values removed because OSM tags say otherwise
+    osmConflicts: string[];
+  }
+  | {
+    accepted: false;
+    reason: InsightsResponseRejection;
+    detail: string;
   };
 
-  try {
-    // Generate content with web search grounding
-    const model = process.env.GEMINI_MODEL ?? "gemini-2.0-flash-exp";
-    const temperature = Number(process.env.GEMINI_TEMPERATURE ?? 0.2);
-
-    const response: GenerateContentResponse = await genai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        temperature,
-        tools: [groundingTool],
-        // Try without responseMimeType first to see if that's causing issues
-        // responseMimeType: 'application/json',
-      },
-    });
+/**
+ * Parse a raw model response, apply the location checks and merge OSM tag facts
+ * Pure (no logging or I/O) so the evaluation harness replays exactly what
+ * production does (see scripts/eval-enrichment.ts)
+ */
+export function interpretInsightsResponse(
+  response: InsightsProviderResponse,
+  { osmTags, osmId }: { osmTags?: OsmTags | null; osmId?: string } = {},
+): InsightsResponseOutcome {
+  // Validate the raw output against the insights schema
+  // Malformed responses are rejected here so they can never reach the cache
+  const parseResult = parseInsightsResponse(response.text);
+  if (!parseResult.success) {
+    return { accepted: false, reason: "malformed_response", detail: formatParseFailure(parseResult.failure) };
+  }
 
-    if (signal?.aborted) {
-      return null;
-    }
+  const base = parseResult.data;
 
-    // Check for blocked content or other issues
-    const candidate = response.candidates?.[0];
-    if (!candidate) {
-      console.error('[Gemini] ❌ No candidates in response');
-      return null;
-    }
+  // Phase 1 Enhancement: Reject low-confidence results to prevent wrong-location data
+  if (base.location_confidence === "low") {
+    return { accepted: false, reason: "low_confidence", detail: base.location_verification || "low location confidence" };
+  }
 
-    // Check finish reason
-    if (candidate.finishReason && candidate.finishReason !== 'STOP') {
-      if (candidate.finishReason === 'SAFETY') {
-        console.warn('[Gemini] ⚠️ Content blocked by safety filters');
-      } else {
-        console.warn('[Gemini] ⚠️ Unexpected finish reason:', candidate.finishReason);
+  // Phase 2 Enhancement: Validate distance claims in location_verification
+  // Parse distance from verification text (e.g., "approximately 400 meters away")
+  if (base.location_verification && base.location_confidence === "medium") {
+    const distanceMatch = base.location_verification.match(/(\d+)\s*(meters?|m|km|miles?)/i);
+    if (distanceMatch) {
+      let distanceMeters = parseFloat(distanceMatch[1]);
+      const unit = distanceMatch[2].toLowerCase();
+
+      // Convert to meters
+      if (unit.startsWith('km')) {
+        distanceMeters *= 1000;
+      } else if (unit.startsWith('mile')) {
+        distanceMeters *= 1609.34;
       }
-    }
 
-    // Extract the text response
-    const contentText = candidate.content?.parts?.[0]?.text;
-    if (!contentText) {
-      console.warn('[Gemini] ⚠️ No content in response');
-      return null;
-    }
-
-    // Parse the JSON response
-    // Gemini might wrap JSON in markdown code blocks despite responseMimeType setting
-    let parsed: unknown = {};
-    try {
-      // Try direct parse first
-      parsed = JSON.parse(contentText);
-    } catch {
-      // Fallback: extract JSON from markdown code blocks
-      const jsonMatch = contentText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch?.[1]) {
-        try {
-          // Clean up common JSON formatting issues from LLM responses
-          // IMPORTANT: Only fix structural issues (trailing commas), not content inside strings
-          const cleanedJson = jsonMatch[1]
-            .replace(/,(\s*[}\]])/g, '$1') // Remove trailing commas before closing braces/brackets
-            .trim();
-
-          parsed = JSON.parse(cleanedJson);
-        } catch (error) {
-          console.error('[Gemini] ❌ Failed to parse JSON from markdown:', error);
-          console.error('[Gemini] Raw JSON:', jsonMatch[1]);
-          return null;
-        }
-      } else {
-        console.error('[Gemini] ❌ Could not extract JSON from response');
-        return null;
+      // Reject if claimed distance is > 250m for medium confidence
+      // This prevents AI from assigning names of far-away playgrounds
+      if (distanceMeters > 250) {
+        return {
+          accepted: false,
+          reason: "distance_too_far",
+          detail: `Medium confidence but distance too far (${Math.round(distanceMeters)}m > 250m) for "${base.name}"`,
+        };
       }
     }
+  }
 
-    const base =
-      parsed && typeof parsed === "object"
-        ? (parsed as Partial<AIInsights> & {
-            location_confidence?: string;
-            location_verification?: string;
-          })
-        : {};
-
-    // Debug: Log if image_search_queries is missing
-    if (!base.image_search_queries) {
-      console.warn('[Gemini] ⚠️ Response missing image_search_queries field');
-      console.warn('[Gemini] Response keys:', Object.keys(base).join(', '));
-      console.warn('[Gemini] Full base object:', JSON.stringify(base, null, 2));
-    } else {
-    }
+  // NOTE: Images are NOT fetched here
+  // Use src/lib/images.ts -> fetchPlaygroundImages() for image loading
+  const modelInsights: AIInsights = {
+    name: removeCitationMarkers(base.name),
+    description: removeCitationMarkers(base.description),
+    features: base.features,
+    parking: removeCitationMarkers(base.parking),
+    sources: response.sources.length > 0 ? response.sources : null,
+    images: null, // Images loaded separately via src/lib/images.ts
+    accessibility: base.accessibility,
+    // Tier rating from Gemini AI
+    tier: base.tier,
+    tier_reasoning: removeCitationMarkers(base.tier_reasoning),
+    tier_score: null,
+    // Image search queries generated by Gemini AI
+    image_search_queries: base.image_search_queries,
+    provenance: null,
+  };
 
-    // Phase 1 Enhancement: Reject low-confidence results to prevent wrong-location data
-    if (base.location_confidence === "low") {
-      console.warn(`[Gemini] ⚠️ Low confidence result for ${cityState} - rejecting`);
-      return null;
-    }
+  // OSM tags win over the model for equipment and accessibility
+  const merge = mergeOsmTagFacts(modelInsights, interpretOsmTags(osmTags));
 
-    // Phase 2 Enhancement: Validate distance claims in location_verification
-    // Parse distance from verification text (e.g., "approximately 400 meters away")
-    if (base.location_verification && base.location_confidence === "medium") {
-      const distanceMatch = base.location_verification.match(/(\d+)\s*(meters?|m|km|miles?)/i);
-      if (distanceMatch) {
-        let distanceMeters = parseFloat(distanceMatch[1]);
-        const unit = distanceMatch[2].toLowerCase();
-
-        // Convert to meters
-        if (unit.startsWith('km')) {
-          distanceMeters *= 1000;
-        } else if (unit.startsWith('mile')) {
-          distanceMeters *= 1609.34;
-        }
+  // Final tier from Gemini's label and the points-based score (after the merge, so OSM equipment counts)
+  const { tier, tierScore } = reconcilePlaygroundTier(merge.insights);
+  const insights: AIInsights = { ...merge.insights, tier, tier_score: tierScore };
 
-        // Reject if claimed distance is > 250m for medium confidence
-        // This prevents AI from assigning names of far-away playgrounds
-        if (distanceMeters > 250) {
-          console.warn(`[Gemini] ⚠️ Medium confidence but distance too far (${Math.round(distanceMeters)}m > 250m) - rejecting "${base.name}"`);
-          return null;
-        }
-      }
-    }
+  // Which sources back each field (score is added after scoring)
+  let provenance = buildInsightsProvenance({
+    response,
+    insights,
+    locationConfidence: base.location_confidence,
+    locationVerification: base.location_verification,
+  });
+  const osmSource = getOsmTagSource(osmId);
+  const osmFields = [
+    ...(merge.supported.features ? ["features" as const] : []),
+    ...(merge.supported.accessibility ? ["accessibility" as const] : []),
+  ];
+  if (osmSource && osmFields.length > 0) {
+    provenance = withProvenanceSource(provenance, osmSource, osmFields);
+  }
 
-    // Log medium confidence results for monitoring
-    if (base.location_confidence === "medium") {
-      console.info(`[Gemini] ℹ️ Medium confidence result for ${cityState} - "${base.name}"`);
-    }
+  return {
+    accepted: true,
+    insights: { ...insights, provenance },
+    locationConfidence: base.location_confidence,
+    locationVerification: base.location_verification,
+    warnings: parseResult.warnings,
+    osmConflicts: merge.conflicts,
+  };
+}
 
-    // Extract sources from grounding metadata
-    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-    const sources: string[] = [];
+// Function to fetch AI insights from the configured provider (Gemini by default)
+// NOTE: This function does NOT fetch images - use src/lib/images.ts instead
+export async function fetchGeminiInsights({
+  location,
+  name,
+  osmId,
+  osmTags,
+  locale = DEFAULT_INSIGHTS_LOCALE,
+  signal,
+  provider = getInsightsProvider(),
+  usage,
+}: {
+  location: AILocation;
+  name?: string;
+  osmId?: string;
+  osmTags?: OsmTags | null;
+  locale?: InsightsLocale;
+  signal?: AbortSignal;
+  provider?: InsightsProvider;
+  // Route and playground to record the request for (Gemini provider only; scripts pass none)
+  usage?: ApiUsageContext;
+}): Promise<AIInsights | null> {
+  if (signal?.aborted) {
+    return null;
+  }
 
-    if (groundingMetadata?.groundingChunks) {
-      for (const chunk of groundingMetadata.groundingChunks) {
-        if (chunk.web?.uri) {
-          sources.push(chunk.web.uri);
-        }
-      }
+  const cityState = formatPromptLocation(location);
+
+  // Shared Gemini rate limit across instances (thrown as a 429 so queued jobs retry later)
+  if (provider.id === "gemini" && !await waitForApiToken("gemini", { signal })) {
+    if (signal?.aborted) {
+      return null;
     }
+    throw Object.assign(new Error("Gemini rate limit wait exceeded"), { status: 429 });
+  }
 
-    // NOTE: Images are NOT fetched here
-    // Use src/lib/images.ts -> fetchPlaygroundImages() for image loading
-
-    // Construct the result object with internal metadata for validation
-    const result = {
-      name: removeCitationMarkers(base.name ?? null),
-      description: removeCitationMarkers(base.description ?? null),
-      features: base.features ?? null,
-      parking: removeCitationMarkers(base.parking ?? null),
-      sources: sources.length > 0 ? sources : null,
-      images: null, // Images loaded separately via src/lib/images.ts
-      accessibility: base.accessibility ?? null,
-      // Tier rating from Gemini AI
-      tier: base.tier ?? null,
-      tier_reasoning: base.tier_reasoning ?? null,
-      // Image search queries generated by Gemini AI
-      image_search_queries: base.image_search_queries ?? null,
-      // Internal metadata (not part of AIInsights type)
-      _locationConfidence: base.location_confidence || 'low',
-      _locationVerification: base.location_verification || null,
-    };
-
-    return result;
+  const startedAt = Date.now();
+  const recordUsage = (outcome: "success" | "empty" | "error" | "rate_limited", tokens?: InsightsProviderResponse["usage"]) => {
+    if (provider.id !== "gemini" || !usage) return;
+    void recordApiUsage({
+      service: "gemini",
+      usage: { ...usage, playgroundId: usage.playgroundId ?? osmId },
+      outcome,
+      latencyMs: Date.now() - startedAt,
+      costUsd: estimateGeminiCost(tokens),
+    });
+  };
+
+  let response: InsightsProviderResponse | null;
+  try {
+    response = await provider.generateInsights({
+      prompt: buildInsightsPrompt({ location, name, locale, osmTags }),
+      location,
+      name,
+      osmId,
+      signal,
+    });
   } catch (error) {
-    // Check if it's a rate limit error
-    if (error && typeof error === 'object' && 'status' in error && error.status === 429) {
-      console.warn('[Gemini] ⚠️ Rate limit exceeded - consider upgrading to paid tier');
+    const isRateLimited = Boolean(error && typeof error === 'object' && 'status' in error && error.status === 429);
+    recordUsage(isRateLimited ? "rate_limited" : "error");
+    throw error;
+  }
+  recordUsage(response ? "success" : "empty", response?.usage);
+
+  if (signal?.aborted || !response) {
+    return null;
+  }
+
+  const outcome = interpretInsightsResponse(response, { osmTags, osmId });
+  if (!outcome.accepted) {
+    if (outcome.reason === "malformed_response") {
+      console.error(`[Gemini] ❌ Rejected malformed response for ${cityState}: ${outcome.detail}`);
+    } else if (outcome.reason === "low_confidence") {
+      console.warn(`[Gemini] ⚠️ Low confidence result for ${cityState} - rejecting`);
     } else {
-      console.error('[Gemini] ❌ API error:', error);
+      console.warn(`[Gemini] ⚠️ ${outcome.detail} - rejecting`);
     }
-    throw error;
+    return null;
   }
+
+  if (outcome.warnings.length > 0) {
+    console.warn(`[Gemini] ⚠️ Coerced response for ${cityState}: ${outcome.warnings.join('; ')}`);
+  }
+
+  // Log medium confidence results for monitoring
+  if (outcome.locationConfidence === "medium") {
+    console.info(`[Gemini] ℹ️ Medium confidence result for ${cityState} - "${outcome.insights.name}"`);
+  }
+
+  // Construct the result object with internal metadata for validation
+  const result = {
+    ...outcome.insights,
+    // Internal metadata (not part of AIInsights type)
+    _locationConfidence: outcome.locationConfidence,
+    _locationVerification: outcome.locationVerification,
+    _response: response,
+    _osmConflicts: outcome.osmConflicts,
+  };
+
+  return result;
 }
 
 // Function to fetch AI insights from Gemini with caching and request deduplication
@@ -302,12 +437,23 @@ export async function fetchGeminiInsightsWithCache({
   location,
   name,
   osmId,
+  osmTags,
+  locale = DEFAULT_INSIGHTS_LOCALE,
   signal,
+  provider,
+  refresh = false,
+  usage,
 }: {
   location?: AILocation;
   name?: string;
   osmId?: string;
+  osmTags?: OsmTags | null;
+  locale?: InsightsLocale;
   signal?: AbortSignal;
+  provider?: InsightsProvider;
+  // Re-enrich a cached (stale) entry; unchanged results only bump its refreshed_at
+  refresh?: boolean;
+  usage?: ApiUsageContext;
 }): Promise<AIInsights | null> {
   if (signal?.aborted) {
     return null;
@@ -317,11 +463,12 @@ export async function fetchGeminiInsightsWithCache({
   let cacheKey: string | null = null;
   try {
     if (osmId) {
-      cacheKey = buildAIInsightsCacheKey({ osmId });
+      cacheKey = buildAIInsightsCacheKey({ osmId, locale });
     } else if (location) {
       cacheKey = buildAIInsightsCacheKey({
         lat: location.latitude,
         lon: location.longitude,
+        locale,
       });
     }
   } catch {
@@ -335,37 +482,80 @@ export async function fetchGeminiInsightsWithCache({
   }
 
   // Wrap entire cache check + API call in request deduplication
-  // This prevents multiple concurrent users from triggering the same API call
+  // This prevents multiple concurrent users (on any instance) from triggering the same API call
   return deduplicatedFetch(
     `gemini:${cacheKey}`,
     async () => {
-      // Check cache first
+      // Check cache first (stale entries included)
       const cachedInsights = await fetchAIInsightsFromCache({
         cacheKey,
       });
-      if (cachedInsights) {
+      if (cachedInsights && !refresh) {
         return cachedInsights;
       }
 
+      // Borderline results awaiting review are served as-is; rejected ones aren't
+      // retried and get whatever the OSM tags say instead
+      if (!cachedInsights) {
+        const review = await fetchOpenInsightsReview({ cacheKey });
+        if (review?.status === "pending") {
+          return review.insights;
+        }
+        if (review?.status === "rejected") {
+          return buildOsmTagInsights({ facts: interpretOsmTags(osmTags), name, osmId });
+        }
+      }
+
       // Cache miss - need location to fetch from API
       if (!location) {
         return null;
       }
 
+      // Cache-only mode once the Gemini budget is used up
+      const insightsProvider = provider ?? getInsightsProvider();
+      if (insightsProvider.id === 'gemini' && await isApiBudgetExhausted('gemini')) {
+        return cachedInsights;
+      }
+
       // Cache miss - fetch from API
       const freshInsights = await fetchGeminiInsights({
         location,
         name,
+        osmId,
+        osmTags,
+        locale,
         signal,
+        provider: insightsProvider,
+        usage: usage && { ...usage, playgroundId: usage.playgroundId ?? osmId ?? cacheKey },
       }) as AIInsights & {
         _locationConfidence?: string;
         _locationVerification?: string | null;
+        _response?: InsightsProviderResponse;
+        _osmConflicts?: string[];
       } | null;
 
-      if (signal?.aborted || !freshInsights) {
+      if (signal?.aborted) {
         return null;
       }
 
+      // A refresh result that isn't stored keeps the cached entry; refreshed_at
+      // is bumped so the sweeper doesn't pay for the same entry on every run
+      const keepCachedInsights = async (cached: AIInsights) => {
+        await touchAIInsightsCache({ cacheKey });
+        return cached;
+      };
+
+      // Rejected model results still get whatever the OSM tags say (not cached)
+      // A refresh keeps the cached entry instead
+      const osmFallback = async () =>
+        cachedInsights
+          ? keepCachedInsights(cachedInsights)
+          : buildOsmTagInsights({ facts: interpretOsmTags(osmTags), name, osmId });
+
+      if (!freshInsights) {
+        return osmFallback();
+      }
+
       // Phase 2 Enhancement: Comprehensive result validation and scoring
       const cityState = location.city && location.region
         ? `${location.city}, ${location.region}`
@@ -376,13 +566,22 @@ export async function fetchGeminiInsightsWithCache({
         freshInsights._locationConfidence || 'low',
         freshInsights._locationVerification || null,
         location.city,
-        location.region
+        location.region,
+        location.country,
+        locale
       );
 
+      // Model claims contradicted by OSM tags (OSM already won in the result)
+      const osmConflicts = freshInsights._osmConflicts || [];
+      if (osmConflicts.length > 0) {
+        console.warn(`[Gemini] ⚠️ OSM tags contradict the model for ${cityState}: ${osmConflicts.join('; ')}`);
+        resultScore.flags.push(...osmConflicts);
+      }
+
       // Reject results that don't meet quality standards
       if (!resultScore.shouldAccept) {
         console.warn(`[Gemini] ⚠️ Rejecting low-quality result for ${cityState}: ${getScoreSummary(resultScore)}`);
-        return null;
+        return osmFallback();
       }
 
       // Remove internal metadata before returning/caching
@@ -396,17 +595,57 @@ export async function fetchGeminiInsightsWithCache({
         accessibility: freshInsights.accessibility,
         tier: freshInsights.tier,
         tier_reasoning: freshInsights.tier_reasoning,
+        tier_score: freshInsights.tier_score,
         image_search_queries: freshInsights.image_search_queries,
+        // Persist the score breakdown and flags with the field provenance
+        provenance: withProvenanceScore(freshInsights.provenance, resultScore),
       };
 
-      // Save to cache only if quality is high enough
+      // Refresh: only replace the cached entry if something changed
+      if (cachedInsights) {
+        if (!resultScore.shouldCache) {
+          console.warn(`[Gemini] ⚠️ Keeping cached result for ${cityState} - refresh scored too low to cache`);
+          return keepCachedInsights(cachedInsights);
+        }
+
+        const changedFields = getChangedInsightsFields(cachedInsights, cleanResult);
+        if (changedFields.length === 0) {
+          console.info(`[Gemini] ℹ️ Refresh unchanged for ${cityState}`);
+          return keepCachedInsights(cachedInsights);
+        }
+        console.info(`[Gemini] ℹ️ Refresh changed ${changedFields.join(', ')} for ${cityState}`);
+      }
+
+      // Save to cache only if quality is high enough, otherwise hold it for review
       if (resultScore.shouldCache) {
-        await saveAIInsightsToCache({ cacheKey, insights: cleanResult });
+        await saveAIInsightsToCache({
+          cacheKey,
+          insights: cleanResult,
+          refreshInput: { location, name, osmId, locale },
+        });
       } else {
-        console.warn(`[Gemini] ⚠️ NOT caching result for ${cityState} due to quality concerns`);
+        console.warn(`[Gemini] ⚠️ NOT caching result for ${cityState} due to quality concerns - queued for review`);
+        await saveInsightsForReview({
+          cacheKey,
+          osmId,
+          osmName: name,
+          location,
+          locale,
+          insights: cleanResult,
+          score: toInsightsScore(resultScore),
+          locationVerification: freshInsights._locationVerification || null,
+          response: freshInsights._response || null,
+        });
       }
 
       return cleanResult;
+    },
+    {
+      signal,
+      // Cache hits don't need the cross-instance lock
+      peek: refresh
+        ? undefined
+        : async () => (await fetchAIInsightsFromCache({ cacheKey })) ?? undefined,
     }
   );
 }
@@ -415,17 +654,24 @@ export async function fetchGeminiInsightsWithCache({
 // NOTE: This function does NOT fetch images - use src/lib/images.ts instead
 export async function fetchGeminiInsightsBatch({
   requests,
+  locale = DEFAULT_INSIGHTS_LOCALE,
   signal,
   cacheOnly = false,
+  provider,
+  usage,
 }: {
   requests: Array<{
     playgroundId: number;
     location?: AILocation;
     name?: string;
     osmId?: string;
+    osmTags?: OsmTags | null;
   }>;
+  locale?: InsightsLocale;
   signal?: AbortSignal;
   cacheOnly?: boolean;
+  provider?: InsightsProvider;
+  usage?: ApiUsageContext;
 }): Promise<
   Array<{
     playgroundId: number;
@@ -448,11 +694,12 @@ export async function fetchGeminiInsightsBatch({
     let cacheKey: string | null = null;
     try {
       if (req.osmId) {
-        cacheKey = buildAIInsightsCacheKey({ osmId: req.osmId });
+        cacheKey = buildAIInsightsCacheKey({ osmId: req.osmId, locale });
       } else if (req.location) {
         cacheKey = buildAIInsightsCacheKey({
           lat: req.location.latitude,
           lon: req.location.longitude,
+          locale,
         });
       }
     } catch {
@@ -490,6 +737,11 @@ export async function fetchGeminiInsightsBatch({
     }
   }
 
+  // Cache-only mode once the Gemini budget is used up
+  if (misses.length > 0 && !cacheOnly && (provider ?? getInsightsProvider()).id === "gemini") {
+    cacheOnly = await isApiBudgetExhausted("gemini");
+  }
+
   // PHASE 3: Fetch cache misses from Gemini API
   if (misses.length > 0 && !cacheOnly) {
 
@@ -501,7 +753,11 @@ export async function fetchGeminiInsightsBatch({
               location: req.location,
               name: req.name,
               osmId: req.osmId,
+              osmTags: req.osmTags,
+              locale,
               signal,
+              provider,
+              usage,
             });
             return {
               playgroundId: req.playgroundId,
@@ -19,6 +19,8 @@
  * Rate Limits:
  * - Free tier: 100 queries/day
  * - Paid: $5 per 1000 queries after free tier
+ * - Every query is recorded with its estimated cost; searches stop once the
+ *   Custom Search budget is exhausted (src/lib/api-usage.ts)
  *
  * Setup:
  * 1. Create Programmable Search Engine: https://programmablesearchengine.google.com/
@@ -30,6 +32,13 @@
  */
 
 import { isValidImageUrl, extractDomain } from "@/lib/utils";
+import {
+  estimateCustomSearchCost,
+  isApiBudgetExhausted,
+  recordApiUsage,
+  type ApiUsageContext,
+} from "@/lib/api-usage";
+import { waitForApiToken } from "@/lib/rate-limiter";
 
 export interface GoogleImageResult {
   image_url: string;
@@ -70,8 +79,9 @@ interface CustomSearchResponse {
  *
  * Note: We exclude these at the Google API level using siteSearch + siteSearchFilter
  * This is more efficient than filtering locally as Google won't return them at all
+ * The admin image health report (/admin/images) shows link rot per domain
  */
-const EXCLUDED_DOMAINS = [
+export const EXCLUDED_DOMAINS = [
   // Social media platforms with inaccessible/restricted image URLs
   'instagram.com', // Instagram images not directly accessible (lookaside URLs)
   'lookaside.instagram.com', // Instagram proxy URLs not accessible
@@ -110,6 +120,8 @@ export async function searchImages(
     signal?: AbortSignal;
     minWidth?: number;
     minHeight?: number;
+    // Route and playground to record each query for
+    usage?: ApiUsageContext;
   } = {}
 ): Promise<GoogleImageResult[]> {
   const {
@@ -117,6 +129,7 @@ export async function searchImages(
     signal,
     minWidth = 300,
     minHeight = 200,
+    usage,
   } = options;
 
   const apiKey = process.env.GOOGLE_SEARCH_API_KEY || process.env.GEMINI_API_KEY;
@@ -132,6 +145,11 @@ export async function searchImages(
     return [];
   }
 
+  // Cache-only mode once the Custom Search budget is used up
+  if (await isApiBudgetExhausted('custom_search')) {
+    return [];
+  }
+
   try {
     // Fetch one page at a time (10 images per request)
     const pagesToFetch = Math.ceil(maxResults / 10);
@@ -174,19 +192,49 @@ export async function searchImages(
       // Removed imgSize, imgType, dateRestrict, and sort to match browser behavior
       // Let Google's natural relevance algorithm work without restrictions
 
-      const response = await fetch(url.toString(), {
-        signal,
-        headers: { 'Accept': 'application/json' },
-      });
+      const startedAt = Date.now();
+      const recordQuery = (outcome: 'success' | 'empty' | 'error' | 'rate_limited') => {
+        if (!usage) return;
+        void recordApiUsage({
+          service: 'custom_search',
+          usage,
+          outcome,
+          latencyMs: Date.now() - startedAt,
+          costUsd: estimateCustomSearchCost(),
+        });
+      };
+
+      // Shared Custom Search rate limit across instances
+      if (!await waitForApiToken('custom_search', { signal })) {
+        if (!signal?.aborted) {
+          console.warn('[Google Images] ⚠️ Rate limit wait exceeded');
+        }
+        break;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url.toString(), {
+          signal,
+          headers: { 'Accept': 'application/json' },
+        });
+      } catch (error) {
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+          recordQuery('error');
+        }
+        throw error;
+      }
 
       if (!response.ok) {
         if (response.status === 429) {
           console.warn('[Google Images] ⚠️ Rate limit exceeded');
         }
+        recordQuery(response.status === 429 ? 'rate_limited' : 'error');
         break;
       }
 
       const data = await response.json() as CustomSearchResponse;
+      recordQuery(data.items && data.items.length > 0 ? 'success' : 'empty');
       if (data.items && data.items.length > 0) {
         allItems.push(...data.items);
       } else {
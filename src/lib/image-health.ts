@@ -0,0 +1,515 @@
+/**
+ * Image Health
+ * Cached image entries come from third-party sites, and those links rot. The
+ * sweeper (cron /api/cron/image-health) checks the original URL of every image
+ * in the entries due for a check and records the result in image_health_checks:
+ * - HEAD first (cheap 404s), then a partial GET for the content type and the
+ *   dimensions in the image header
+ * - "broken": 4xx or not an image; "unreachable": timeouts, 5xx and network
+ *   errors, only treated as broken after IMAGE_HEALTH_MAX_FAILURES checks in a row
+ *
+ * Entries are then repaired:
+ * - Images whose proxy variants are stored (src/lib/image-proxy.ts) survive
+ *   link rot and are kept; pending ones with a healthy original are processed
+ * - Other images with a broken original, or that the proxy failed on, are dropped
+ * - Entries that drop below IMAGE_HEALTH_MIN_IMAGES are searched again with
+ *   the playground's stored image_search_queries
+ *
+ * fetchImageLinkRotReport() summarises link rot per domain (admin report at
+ * /admin/images), as evidence for EXCLUDED_DOMAINS in google-image-search.ts.
+ *
+ * Table and RPC function are defined in supabase-schema.sql (section 11).
+ */
+
+import sharp from "sharp";
+import pLimit from "p-limit";
+import { createClient } from "@/lib/supabase/server";
+import { buildAIInsightsCacheKey, extractOsmIdFromCacheKey } from "@/lib/cache-keys";
+import { fetchAIInsightsFromCache, fetchAIInsightsRefreshInput } from "@/lib/cache";
+import { EXCLUDED_DOMAINS } from "@/lib/google-image-search";
+import {
+  clearImagesCache,
+  fetchPlaygroundImages,
+  listImagesHealthCandidates,
+  markImagesHealthChecked,
+  updateCachedImages,
+  type PlaygroundImage,
+} from "@/lib/images";
+import {
+  fetchStoredProxiedImageIds,
+  getProxiedImageId,
+  isFailedProxiedImage,
+  processProxiedImages,
+  registerProxiedImages,
+} from "@/lib/image-proxy";
+import { extractDomain, isValidImageUrl } from "@/lib/utils";
+import { fetchPublicUrl } from "@/lib/public-fetch";
+
+const IMAGE_HEALTH_TABLE_NAME =
+  process.env.IMAGE_HEALTH_TABLE_NAME || "image_health_checks";
+
+// How often an entry is checked again (7 days)
+const IMAGE_HEALTH_CHECK_INTERVAL_MS = parseInt(
+  process.env.IMAGE_HEALTH_CHECK_INTERVAL_MS || "604800000",
+);
+// Per request (HEAD and GET each)
+const IMAGE_HEALTH_TIMEOUT_MS = parseInt(
+  process.env.IMAGE_HEALTH_TIMEOUT_MS || "8000",
+);
+// Unreachable checks in a row before an image counts as broken
+const IMAGE_HEALTH_MAX_FAILURES = parseInt(
+  process.env.IMAGE_HEALTH_MAX_FAILURES || "3",
+);
+// Entries left with fewer images are searched again
+const IMAGE_HEALTH_MIN_IMAGES = parseInt(
+  process.env.IMAGE_HEALTH_MIN_IMAGES || "3",
+);
+
+// Enough for the dimensions of JPEG and PNG headers (EXIF included)
+const HEADER_PROBE_BYTES = 262144;
+
+// Report: domains that rot this often are suggested for EXCLUDED_DOMAINS
+const EXCLUSION_SUGGESTION_MIN_CHECKS = 5;
+const EXCLUSION_SUGGESTION_ROT_RATE = 0.5;
+
+// Concurrent URL checks
+const checkLimiter = pLimit(4);
+
+export type ImageHealthStatus = "ok" | "broken" | "unreachable";
+
+export type ImageHealthCheck = {
+  url: string;
+  domain: string;
+  status: ImageHealthStatus;
+  httpStatus: number | null;
+  contentType: string | null;
+  width: number | null;
+  height: number | null;
+  error: string | null;
+};
+
+export type ImageHealthSweepSummary = {
+  entries: number;
+  checked: number;
+  ok: number;
+  broken: number;
+  unreachable: number;
+  // Images removed from cache entries
+  dropped: number;
+  // Entries searched again (and how many found images)
+  repairs: number;
+  repaired: number;
+  // Entries removed because no images were left
+  cleared: number;
+};
+
+export type ImageLinkRotReport = {
+  checked: number;
+  ok: number;
+  broken: number;
+  unreachable: number;
+  // Most broken and unreachable URLs first
+  domains: Array<{
+    domain: string;
+    checked: number;
+    ok: number;
+    broken: number;
+    unreachable: number;
+    rotRate: number;
+    lastCheckedAt: string;
+    isExcluded: boolean;
+    // Rots often enough to be worth adding to EXCLUDED_DOMAINS
+    isSuggested: boolean;
+  }>;
+};
+
+type ImageLinkRotRow = {
+  domain: string;
+  checked: number;
+  ok: number;
+  broken: number;
+  unreachable: number;
+  last_checked_at: string;
+};
+
+/**
+ * Read up to maxBytes of a response body and drop the rest
+ */
+async function readHeaderBytes(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let receivedBytes = 0;
+  const reader = response.body.getReader();
+  while (receivedBytes < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    receivedBytes += value.byteLength;
+  }
+  await reader.cancel().catch(() => {});
+
+  return Buffer.concat(chunks);
+}
+
+function getFailedStatus(httpStatus: number): ImageHealthStatus {
+  // Rate limits and server errors may pass; anything else 4xx won't
+  return httpStatus >= 500 || httpStatus === 429 ? "unreachable" : "broken";
+}
+
+/**
+ * Check that an image URL still serves an image (never throws)
+ */
+export async function checkImageUrl(url: string): Promise<ImageHealthCheck> {
+  const result = {
+    url,
+    domain: extractDomain(url).toLowerCase(),
+    httpStatus: null,
+    contentType: null,
+    width: null,
+    height: null,
+    error: null,
+  };
+
+  try {
+    // Some hosts reject HEAD - only trust it for definite answers
+    const head = await fetchPublicUrl(url, {
+      method: "HEAD",
+      headers: { Accept: "image/*" },
+      signal: AbortSignal.timeout(IMAGE_HEALTH_TIMEOUT_MS),
+    });
+    if (head.status === 404 || head.status === 410) {
+      return { ...result, status: "broken", httpStatus: head.status, error: `HTTP ${head.status}` };
+    }
+
+    const response = await fetchPublicUrl(url, {
+      headers: { Accept: "image/*", Range: `bytes=0-${HEADER_PROBE_BYTES - 1}` },
+      signal: AbortSignal.timeout(IMAGE_HEALTH_TIMEOUT_MS),
+    });
+    const contentType = response.headers.get("content-type");
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return {
+        ...result,
+        status: getFailedStatus(response.status),
+        httpStatus: response.status,
+        contentType,
+        error: `HTTP ${response.status}`,
+      };
+    }
+
+    if (contentType && !contentType.startsWith("image/")) {
+      await response.body?.cancel();
+      return {
+        ...result,
+        status: "broken",
+        httpStatus: response.status,
+        contentType,
+        error: `Not an image (${contentType})`,
+      };
+    }
+
+    // Dimensions stay unknown if the header isn't in the first bytes (e.g. WebP)
+    const header = await readHeaderBytes(response, HEADER_PROBE_BYTES);
+    const { width, height } = await sharp(header).metadata().catch(() => ({ width: undefined, height: undefined }));
+
+    return {
+      ...result,
+      status: "ok",
+      httpStatus: response.status,
+      contentType,
+      width: width ?? null,
+      height: height ?? null,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ...result, status: "unreachable", error: message.slice(0, 500) };
+  }
+}
+
+/**
+ * Store check results
+ * Returns the unreachable checks in a row per URL (0 for reachable URLs)
+ */
+async function recordImageHealthChecks(checks: ImageHealthCheck[]): Promise<Map<string, number>> {
+  const failures = new Map<string, number>();
+  if (checks.length === 0) {
+    return failures;
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data: previous } = await supabase
+      .from(IMAGE_HEALTH_TABLE_NAME)
+      .select("image_url, consecutive_failures")
+      .in("image_url", checks.map((check) => check.url));
+    const previousFailures = new Map(
+      (previous ?? []).map((row) => [row.image_url as string, row.consecutive_failures as number]),
+    );
+
+    const now = new Date().toISOString();
+    const rows = checks.map((check) => {
+      const consecutiveFailures =
+        check.status === "unreachable" ? (previousFailures.get(check.url) ?? 0) + 1 : 0;
+      failures.set(check.url, consecutiveFailures);
+      return {
+        image_url: check.url,
+        domain: check.domain,
+        status: check.status,
+        http_status: check.httpStatus,
+        content_type: check.contentType?.slice(0, 200) ?? null,
+        width: check.width,
+        height: check.height,
+        error: check.error,
+        consecutive_failures: consecutiveFailures,
+        checked_at: now,
+      };
+    });
+
+    const { error } = await supabase
+      .from(IMAGE_HEALTH_TABLE_NAME)
+      .upsert(rows, { onConflict: "image_url" });
+    if (error) {
+      console.error("[ImageHealth] ❌ Error recording checks:", error);
+    }
+  } catch (error) {
+    console.error("[ImageHealth] ❌ Error recording checks:", error);
+  }
+
+  // Without history, a single unreachable check doesn't count as broken
+  for (const check of checks) {
+    if (!failures.has(check.url)) {
+      failures.set(check.url, check.status === "unreachable" ? 1 : 0);
+    }
+  }
+  return failures;
+}
+
+function isBrokenCheck(check: ImageHealthCheck, consecutiveFailures: number): boolean {
+  return (
+    check.status === "broken" ||
+    (check.status === "unreachable" && consecutiveFailures >= IMAGE_HEALTH_MAX_FAILURES)
+  );
+}
+
+/**
+ * Search a playground's images again with its stored name, location and
+ * image_search_queries (from its AI insights cache entry)
+ * Returns false if the playground can't be identified or nothing was found
+ */
+async function repairPlaygroundImages({
+  cacheKey,
+  route,
+}: {
+  cacheKey: string;
+  route: string;
+}): Promise<boolean> {
+  // Name-based keys don't identify the playground's insights
+  const osmId = extractOsmIdFromCacheKey(cacheKey);
+  if (!osmId) {
+    return false;
+  }
+
+  const insightsCacheKey = buildAIInsightsCacheKey({ osmId });
+  const [insights, refreshInput] = await Promise.all([
+    fetchAIInsightsFromCache({ cacheKey: insightsCacheKey }),
+    fetchAIInsightsRefreshInput({ cacheKey: insightsCacheKey }),
+  ]);
+
+  const playgroundName = insights?.name ?? refreshInput?.name;
+  if (!playgroundName) {
+    return false;
+  }
+
+  const images = await fetchPlaygroundImages({
+    playgroundName,
+    city: refreshInput?.location.city,
+    region: refreshInput?.location.region,
+    country: refreshInput?.location.country,
+    lat: refreshInput?.location.latitude,
+    lon: refreshInput?.location.longitude,
+    osmId,
+    imageSearchQueries: insights?.image_search_queries,
+    usage: { route },
+    refresh: true,
+  });
+
+  return Boolean(images && images.length > 0);
+}
+
+/**
+ * Check one cache entry, drop its broken images and repair it if needed
+ */
+async function sweepImagesEntry({
+  cacheKey,
+  images: cachedImages,
+  minImages,
+  route,
+  summary,
+}: {
+  cacheKey: string;
+  images: PlaygroundImage[];
+  minImages: number;
+  route: string;
+  summary: ImageHealthSweepSummary;
+}): Promise<void> {
+  // Entries cached before the image proxy are registered like on read
+  const validImages = cachedImages.filter((image) => isValidImageUrl(image.image_url));
+  const images = await registerProxiedImages(validImages);
+
+  const checks = await Promise.all(
+    images.map((image) => checkLimiter(() => checkImageUrl(image.source_url ?? image.image_url))),
+  );
+  const failures = await recordImageHealthChecks(checks);
+
+  summary.checked += checks.length;
+  for (const check of checks) {
+    summary[check.status] += 1;
+  }
+
+  const isBroken = images.map((_, index) => isBrokenCheck(checks[index], failures.get(checks[index].url) ?? 0));
+  const storedIds = await fetchStoredProxiedImageIds(images);
+  const failedIds = await processProxiedImages(images.filter((_, index) => !isBroken[index]));
+
+  const remaining = images.filter((image, index) => {
+    if (image.source_url && storedIds.has(getProxiedImageId(image.source_url))) {
+      return true;
+    }
+    return !isBroken[index] && !isFailedProxiedImage(image, failedIds);
+  });
+
+  const dropped = cachedImages.length - remaining.length;
+  if (dropped > 0) {
+    summary.dropped += dropped;
+    console.warn(`[ImageHealth] ⚠️ Dropping ${dropped} broken image(s) from ${cacheKey}`);
+    if (remaining.length > 0) {
+      await updateCachedImages({ cacheKey, images: remaining });
+    } else {
+      await clearImagesCache({ cacheKey });
+    }
+  } else if (images !== validImages) {
+    await updateCachedImages({ cacheKey, images });
+  }
+
+  // Only entries that lost images are searched again (small entries stay as found)
+  let isRepaired = false;
+  if (dropped > 0 && remaining.length < minImages) {
+    summary.repairs += 1;
+    isRepaired = await repairPlaygroundImages({ cacheKey, route });
+    if (isRepaired) {
+      summary.repaired += 1;
+    }
+  }
+  if (remaining.length === 0 && !isRepaired) {
+    summary.cleared += 1;
+  }
+
+  await markImagesHealthChecked({ cacheKey });
+}
+
+/**
+ * Check the entries due for a health check (oldest check first)
+ * Stops starting new entries after maxDurationMs
+ */
+export async function sweepImageHealth({
+  limit,
+  maxDurationMs,
+  minImages = IMAGE_HEALTH_MIN_IMAGES,
+  route,
+}: {
+  limit: number;
+  maxDurationMs: number;
+  minImages?: number;
+  // Route to record repair searches for (see api-usage.ts)
+  route: string;
+}): Promise<ImageHealthSweepSummary> {
+  const startedAt = Date.now();
+  const summary: ImageHealthSweepSummary = {
+    entries: 0,
+    checked: 0,
+    ok: 0,
+    broken: 0,
+    unreachable: 0,
+    dropped: 0,
+    repairs: 0,
+    repaired: 0,
+    cleared: 0,
+  };
+
+  const entries = await listImagesHealthCandidates({
+    limit,
+    checkedBefore: new Date(startedAt - IMAGE_HEALTH_CHECK_INTERVAL_MS),
+  });
+
+  for (const entry of entries) {
+    if (Date.now() - startedAt > maxDurationMs) {
+      break;
+    }
+
+    try {
+      await sweepImagesEntry({ ...entry, minImages, route, summary });
+      summary.entries += 1;
+    } catch (error) {
+      console.error(`[ImageHealth] ❌ Error checking ${entry.cacheKey}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Link rot per image domain from the recorded checks
+ */
+export async function fetchImageLinkRotReport({
+  minChecks = 1,
+}: {
+  minChecks?: number;
+} = {}): Promise<ImageLinkRotReport | null> {
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase.rpc("image_link_rot_by_domain", {
+      p_min_checks: minChecks,
+    });
+
+    if (error || !data) {
+      console.error("[ImageHealth] ❌ Error fetching link rot report:", error);
+      return null;
+    }
+
+    const domains = (data as ImageLinkRotRow[])
+      .map((row) => {
+        const checked = Number(row.checked);
+        const rotRate = checked > 0 ? (Number(row.broken) + Number(row.unreachable)) / checked : 0;
+        const isExcluded = EXCLUDED_DOMAINS.some((domain) => row.domain.includes(domain));
+        return {
+          domain: row.domain,
+          checked,
+          ok: Number(row.ok),
+          broken: Number(row.broken),
+          unreachable: Number(row.unreachable),
+          rotRate,
+          lastCheckedAt: row.last_checked_at,
+          isExcluded,
+          isSuggested:
+            !isExcluded &&
+            checked >= EXCLUSION_SUGGESTION_MIN_CHECKS &&
+            rotRate >= EXCLUSION_SUGGESTION_ROT_RATE,
+        };
+      })
+      .sort((a, b) => b.broken + b.unreachable - (a.broken + a.unreachable) || b.rotRate - a.rotRate);
+
+    return {
+      checked: domains.reduce((sum, domain) => sum + domain.checked, 0),
+      ok: domains.reduce((sum, domain) => sum + domain.ok, 0),
+      broken: domains.reduce((sum, domain) => sum + domain.broken, 0),
+      unreachable: domains.reduce((sum, domain) => sum + domain.unreachable, 0),
+      domains,
+    };
+  } catch (error) {
+    console.error("[ImageHealth] ❌ Error fetching link rot report:", error);
+    return null;
+  }
+}
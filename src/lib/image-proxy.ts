@@ -0,0 +1,398 @@
+/**
+ * Image Proxy
+ * Playground images found by the image search are hotlinked from third-party
+ * sites: links rot, hosts are slow and originals can be many megabytes. The
+ * proxy fetches each original once, stores normalised WebP variants in image
+ * storage (src/lib/image-storage.ts) and serves them from /api/image/{id}/{variant}.
+ *
+ * - Registering: cached image entries are rewritten to point at the proxied
+ *   variants (image_url = full, card_url, thumbnail_url); the original is kept
+ *   as source_url. Images are registered in the proxied_images table, which is
+ *   the only list of URLs the proxy will fetch (it's not an open proxy). Only
+ *   the server writes it (service role, RLS blocks everyone else), and
+ *   originals are only fetched from public hosts (src/lib/public-fetch.ts).
+ * - Processing: the original is downloaded (size and time limited), decoded,
+ *   auto-rotated and resized with sharp. Happens in the background after an
+ *   entry is cached, or on the first request for a variant - whichever is
+ *   first (single-flighted across instances).
+ * - Link rot: once stored, variants no longer depend on the original. Images
+ *   whose original can't be processed are marked failed, dropped from the
+ *   cache entry and answered with 404.
+ *
+ * Table is defined in supabase-schema.sql (section 10).
+ */
+
+import { createHash } from "crypto";
+import sharp from "sharp";
+import pLimit from "p-limit";
+import { createServiceClient } from "@/lib/supabase/service";
+import { fetchPublicUrl } from "@/lib/public-fetch";
+import { deduplicatedFetch } from "@/lib/request-dedup";
+import { buildImageStoragePath, getImageStorage } from "@/lib/image-storage";
+import type { PlaygroundImage } from "@/lib/images";
+
+const PROXIED_IMAGES_TABLE_NAME =
+  process.env.PROXIED_IMAGES_TABLE_NAME || "proxied_images";
+
+// Originals larger than this are rejected (15 MB)
+const IMAGE_PROXY_MAX_BYTES = parseInt(
+  process.env.IMAGE_PROXY_MAX_BYTES || "15728640",
+);
+// Slow hosts are given up on after this long (8 seconds)
+const IMAGE_PROXY_FETCH_TIMEOUT_MS = parseInt(
+  process.env.IMAGE_PROXY_FETCH_TIMEOUT_MS || "8000",
+);
+// Failed originals are retried on request after this long (1 day)
+const IMAGE_PROXY_RETRY_MS = parseInt(
+  process.env.IMAGE_PROXY_RETRY_MS || "86400000",
+);
+const IMAGE_PROXY_WEBP_QUALITY = parseInt(
+  process.env.IMAGE_PROXY_WEBP_QUALITY || "80",
+);
+
+// Decompression bomb guard (pixels in the decoded original)
+const MAX_INPUT_PIXELS = 50_000_000;
+
+export const IMAGE_VARIANTS = {
+  thumbnail: { width: 320 },
+  card: { width: 800 },
+  full: { width: 1600 },
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+export type ProxiedImageStatus = "pending" | "ready" | "failed";
+
+type ProxiedImageRow = {
+  id: string;
+  source_url: string;
+  status: ProxiedImageStatus;
+  error: string | null;
+  last_attempt_at: string | null;
+};
+
+// Background processing runs a few originals at a time per instance
+const processingLimiter = pLimit(3);
+
+export function isImageVariant(value: string): value is ImageVariant {
+  return Object.prototype.hasOwnProperty.call(IMAGE_VARIANTS, value);
+}
+
+/**
+ * Stable ID of an original image URL (also its storage folder)
+ */
+export function getProxiedImageId(sourceUrl: string): string {
+  return createHash("sha256").update(sourceUrl).digest("hex").slice(0, 32);
+}
+
+export function isProxiedImageId(value: string): boolean {
+  return /^[0-9a-f]{32}$/.test(value);
+}
+
+export function buildProxiedImageUrl(id: string, variant: ImageVariant): string {
+  return `/api/image/${id}/${variant}`;
+}
+
+/**
+ * ID and variant of a proxied image URL ("/api/image/{id}/{variant}"), null for other URLs
+ */
+export function parseProxiedImageUrl(url: string): { id: string; variant: ImageVariant } | null {
+  const match = url.match(/^\/api\/image\/([0-9a-f]{32})\/(\w+)$/);
+  return match && isImageVariant(match[2]) ? { id: match[1], variant: match[2] } : null;
+}
+
+function getVariantPath(id: string, variant: ImageVariant): string {
+  return buildImageStoragePath("proxy", id, `${variant}.webp`);
+}
+
+/**
+ * Point an image at its proxied variants (already proxied images are unchanged)
+ */
+export function toProxiedImage(image: PlaygroundImage): PlaygroundImage {
+  if (image.source_url) {
+    return image;
+  }
+
+  const id = getProxiedImageId(image.image_url);
+  return {
+    ...image,
+    source_url: image.image_url,
+    image_url: buildProxiedImageUrl(id, "full"),
+    card_url: buildProxiedImageUrl(id, "card"),
+    thumbnail_url: buildProxiedImageUrl(id, "thumbnail"),
+  };
+}
+
+/**
+ * Register images with the proxy and return them pointing at their variants
+ * If they can't be registered, the originals are returned unchanged (hotlinked)
+ */
+export async function registerProxiedImages(images: PlaygroundImage[]): Promise<PlaygroundImage[]> {
+  const unregistered = images.filter((image) => !image.source_url);
+  if (unregistered.length === 0) {
+    return images;
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const { error } = await supabase.from(PROXIED_IMAGES_TABLE_NAME).upsert(
+      unregistered.map((image) => ({
+        id: getProxiedImageId(image.image_url),
+        source_url: image.image_url,
+        status: "pending",
+      })),
+      { onConflict: "id", ignoreDuplicates: true },
+    );
+
+    if (error) {
+      console.error("[ImageProxy] ❌ Error registering images:", error);
+      return images;
+    }
+
+    return images.map(toProxiedImage);
+  } catch (error) {
+    console.error("[ImageProxy] ❌ Error registering images:", error);
+    return images;
+  }
+}
+
+/**
+ * Download an original with a time and size limit
+ */
+async function downloadOriginal(sourceUrl: string): Promise<Buffer> {
+  const response = await fetchPublicUrl(sourceUrl, {
+    signal: AbortSignal.timeout(IMAGE_PROXY_FETCH_TIMEOUT_MS),
+    headers: { Accept: "image/*" },
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  if (contentType && !contentType.startsWith("image/")) {
+    throw new Error(`Not an image (${contentType})`);
+  }
+
+  const declaredBytes = parseInt(response.headers.get("content-length") || "0");
+  if (declaredBytes > IMAGE_PROXY_MAX_BYTES) {
+    throw new Error(`Too large (${declaredBytes} bytes)`);
+  }
+
+  // Hosts don't always send a content length - stop reading once over the limit
+  const chunks: Uint8Array[] = [];
+  let receivedBytes = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    receivedBytes += value.byteLength;
+    if (receivedBytes > IMAGE_PROXY_MAX_BYTES) {
+      await reader.cancel();
+      throw new Error(`Too large (over ${IMAGE_PROXY_MAX_BYTES} bytes)`);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Resize an original into every variant (never enlarged, EXIF-rotated, metadata stripped)
+ * Also used for user photo uploads (src/lib/user-photos.ts)
+ */
+export async function renderVariants(original: Buffer): Promise<{
+  variants: Record<ImageVariant, Buffer>;
+  width: number;
+  height: number;
+}> {
+  const variants = {} as Record<ImageVariant, Buffer>;
+  let size = { width: 0, height: 0 };
+
+  for (const variant of Object.keys(IMAGE_VARIANTS) as ImageVariant[]) {
+    const { data, info } = await sharp(original, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize({ width: IMAGE_VARIANTS[variant].width, withoutEnlargement: true })
+      .webp({ quality: IMAGE_PROXY_WEBP_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+
+    variants[variant] = data;
+    if (variant === "full") {
+      size = { width: info.width, height: info.height };
+    }
+  }
+
+  return { variants, ...size };
+}
+
+async function updateProxiedImage(id: string, values: Record<string, unknown>): Promise<void> {
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from(PROXIED_IMAGES_TABLE_NAME)
+    .update({ ...values, last_attempt_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    console.error(`[ImageProxy] ❌ Error updating image ${id}:`, error);
+  }
+}
+
+/**
+ * Fetch, resize and store an original (once across instances)
+ * Returns the status the image ended up with
+ */
+async function processProxiedImage(row: ProxiedImageRow): Promise<ProxiedImageStatus> {
+  return deduplicatedFetch(`image:${row.id}`, async () => {
+    const storage = getImageStorage();
+
+    // Another instance may have stored it while we waited for the lock
+    if (await storage.get(getVariantPath(row.id, "thumbnail"))) {
+      return "ready";
+    }
+
+    try {
+      const original = await downloadOriginal(row.source_url);
+      const { variants, width, height } = await renderVariants(original);
+
+      // Thumbnail last: its presence means every variant is stored
+      for (const variant of ["full", "card", "thumbnail"] as ImageVariant[]) {
+        await storage.put(getVariantPath(row.id, variant), variants[variant], "image/webp");
+      }
+
+      await updateProxiedImage(row.id, {
+        status: "ready",
+        width,
+        height,
+        original_bytes: original.byteLength,
+        error: null,
+        stored_at: new Date().toISOString(),
+      });
+      return "ready";
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[ImageProxy] ⚠️ Could not process ${row.source_url}: ${message}`);
+      await updateProxiedImage(row.id, { status: "failed", error: message.slice(0, 500) });
+      return "failed";
+    }
+  });
+}
+
+async function fetchProxiedImageRows(ids: string[]): Promise<ProxiedImageRow[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from(PROXIED_IMAGES_TABLE_NAME)
+    .select("id, source_url, status, error, last_attempt_at")
+    .in("id", ids);
+
+  if (error || !data) {
+    console.error("[ImageProxy] ❌ Error fetching proxied images:", error);
+    return [];
+  }
+  return data as ProxiedImageRow[];
+}
+
+/**
+ * Stored WebP bytes of a variant, processing the original on first request
+ * Returns null for unknown images and originals that couldn't be processed
+ */
+export async function getProxiedImageVariant({
+  id,
+  variant,
+}: {
+  id: string;
+  variant: ImageVariant;
+}): Promise<Buffer | null> {
+  const storage = getImageStorage();
+
+  try {
+    const stored = await storage.get(getVariantPath(id, variant));
+    if (stored) {
+      return stored;
+    }
+
+    const [row] = await fetchProxiedImageRows([id]);
+    if (!row) {
+      return null;
+    }
+
+    // Recently failed originals aren't fetched again on every request
+    const lastAttempt = row.last_attempt_at ? new Date(row.last_attempt_at).getTime() : 0;
+    if (row.status === "failed" && Date.now() - lastAttempt < IMAGE_PROXY_RETRY_MS) {
+      return null;
+    }
+
+    const status = await processProxiedImage(row);
+    return status === "ready" ? storage.get(getVariantPath(id, variant)) : null;
+  } catch (error) {
+    console.error(`[ImageProxy] ❌ Error serving image ${id}/${variant}:`, error);
+    return null;
+  }
+}
+
+/**
+ * A variant as JPEG, for renderers without WebP support (OG images)
+ */
+export async function getProxiedImageJpeg({
+  id,
+  variant,
+}: {
+  id: string;
+  variant: ImageVariant;
+}): Promise<Buffer | null> {
+  const webp = await getProxiedImageVariant({ id, variant });
+  if (!webp) {
+    return null;
+  }
+
+  try {
+    return await sharp(webp).jpeg({ quality: 85 }).toBuffer();
+  } catch (error) {
+    console.error(`[ImageProxy] ❌ Error converting image ${id}/${variant}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Process an entry's pending images now
+ * Returns the IDs of the images whose originals couldn't be processed
+ */
+export async function processProxiedImages(images: PlaygroundImage[]): Promise<Set<string>> {
+  const ids = images
+    .filter((image) => image.source_url)
+    .map((image) => getProxiedImageId(image.source_url!));
+  const rows = await fetchProxiedImageRows(ids);
+
+  const failed = new Set(rows.filter((row) => row.status === "failed").map((row) => row.id));
+  const statuses = await Promise.all(
+    rows
+      .filter((row) => row.status === "pending")
+      .map((row) => processingLimiter(async () => ({ id: row.id, status: await processProxiedImage(row) }))),
+  );
+  for (const { id, status } of statuses) {
+    if (status === "failed") failed.add(id);
+  }
+
+  return failed;
+}
+
+/**
+ * IDs of the images whose variants are stored (they no longer need the original)
+ */
+export async function fetchStoredProxiedImageIds(images: PlaygroundImage[]): Promise<Set<string>> {
+  const ids = images
+    .filter((image) => image.source_url)
+    .map((image) => getProxiedImageId(image.source_url!));
+  const rows = await fetchProxiedImageRows(ids);
+  return new Set(rows.filter((row) => row.status === "ready").map((row) => row.id));
+}
+
+/**
+ * Whether an image's original couldn't be processed (one of the failed IDs)
+ */
+export function isFailedProxiedImage(image: PlaygroundImage, failedIds: Set<string>): boolean {
+  return Boolean(image.source_url && failedIds.has(getProxiedImageId(image.source_url)));
+}
@@ -0,0 +1,336 @@
+/**
+ * Image Ranking
+ * The image search runs several queries per playground (Gemini's
+ * image_search_queries) across the enabled image sources (src/lib/image-sources)
+ * and their results overlap: the same photo resized on three sites would fill
+ * the carousel three times. Before results are cached:
+ *
+ * 1. Hashing: each candidate's thumbnail (the source's, or the original) is
+ *    downloaded and reduced to a 64-bit difference hash (dHash); resized and
+ *    recompressed copies of a photo have nearly the same hash
+ * 2. Scoring (0-100, weighted like the tier score and explained by reasons):
+ *    - relevance: rank in the best query that returned it, scaled by the
+ *      source's weight (street-level imagery counts less than a web search hit)
+ *    - resolution: larger originals, up to IMAGE_RANKING_FULL_MEGAPIXELS
+ *    - orientation: landscape fits the cards, portrait and panoramas less
+ *    - watermark: stock photo hosts and titles are penalised
+ * 3. Selection: greedily by score. Near-duplicates of a selected image (hash
+ *    distance ≤ IMAGE_DUPLICATE_MAX_DISTANCE) are collapsed into it, and each
+ *    image from an already selected domain loses IMAGE_RANKING_DIVERSITY_PENALTY
+ *
+ * Each selected image keeps its breakdown (`ranking`), shown in the admin
+ * image tools (/admin/images). Weights and thresholds are tuned through env.
+ */
+
+import sharp from "sharp";
+import pLimit from "p-limit";
+import { extractDomain } from "@/lib/utils";
+import { fetchPublicUrl } from "@/lib/public-fetch";
+import type { PlaygroundImage } from "@/lib/images";
+
+// How much each signal counts in the score (normalised to sum to 1)
+const IMAGE_RANKING_WEIGHTS = {
+  relevance: parseFloat(process.env.IMAGE_RANKING_RELEVANCE_WEIGHT || "0.4"),
+  resolution: parseFloat(process.env.IMAGE_RANKING_RESOLUTION_WEIGHT || "0.25"),
+  orientation: parseFloat(process.env.IMAGE_RANKING_ORIENTATION_WEIGHT || "0.15"),
+  watermark: parseFloat(process.env.IMAGE_RANKING_WATERMARK_WEIGHT || "0.2"),
+};
+// Points lost per image already selected from the same domain
+const IMAGE_RANKING_DIVERSITY_PENALTY = parseFloat(
+  process.env.IMAGE_RANKING_DIVERSITY_PENALTY || "15",
+);
+// Originals this large (or larger) get the full resolution score
+const IMAGE_RANKING_FULL_MEGAPIXELS = parseFloat(
+  process.env.IMAGE_RANKING_FULL_MEGAPIXELS || "2",
+);
+// Hashes at most this many bits apart are the same photo (out of 64)
+const IMAGE_DUPLICATE_MAX_DISTANCE = parseInt(
+  process.env.IMAGE_DUPLICATE_MAX_DISTANCE || "10",
+);
+
+// Hosts that watermark their previews (extend with IMAGE_RANKING_WATERMARK_DOMAINS, comma-separated)
+const WATERMARK_DOMAINS = [
+  "shutterstock.com",
+  "alamy.com",
+  "alamyimages.fr",
+  "istockphoto.com",
+  "gettyimages.com",
+  "dreamstime.com",
+  "depositphotos.com",
+  "123rf.com",
+  "stock.adobe.com",
+  "ftcdn.net", // Adobe Stock previews
+  "bigstockphoto.com",
+  "pond5.com",
+  "agefotostock.com",
+  "superstock.com",
+  ...(process.env.IMAGE_RANKING_WATERMARK_DOMAINS || "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean),
+];
+const WATERMARK_TITLE_PATTERN = /\b(stock (photo|image)|watermark|royalty[- ]free)\b/i;
+
+// Sources return at most this many results per query (Google's page size)
+const RESULTS_PER_QUERY = 10;
+
+const HASH_FETCH_TIMEOUT_MS = 3000;
+// Thumbnails are small; originals used as a fallback are capped
+const HASH_MAX_BYTES = 5242880;
+const hashLimiter = pLimit(6);
+
+export type ImageRanking = {
+  score: number;
+  // Signal scores (0-1) before weighting
+  relevance: number;
+  resolution: number;
+  orientation: number;
+  watermark: number;
+  // Points lost for other selected images from the same domain
+  diversityPenalty: number;
+  reasons: string[];
+  // dHash (16 hex chars); null if the image couldn't be downloaded
+  hash: string | null;
+  // Original URLs of near-duplicates collapsed into this image
+  duplicates?: string[];
+};
+
+export type ImageRankingCandidate = {
+  image: PlaygroundImage;
+  // Position in the best query's results (0 = first)
+  rank: number;
+  // Source's confidence in its results (0-1, scales relevance; defaults to 1)
+  weight?: number;
+};
+
+type ScoredCandidate = {
+  image: PlaygroundImage;
+  domain: string;
+  baseScore: number;
+  ranking: Omit<ImageRanking, "score" | "diversityPenalty" | "duplicates">;
+};
+
+export type ImageRankingConfig = {
+  weights: typeof IMAGE_RANKING_WEIGHTS;
+  diversityPenalty: number;
+  fullMegapixels: number;
+  duplicateMaxDistance: number;
+};
+
+// A playground's cached images as explained in the admin tools
+export type PlaygroundImageRanking = {
+  cacheKey: string;
+  images: PlaygroundImage[];
+  config: ImageRankingConfig;
+};
+
+/**
+ * Current weights and thresholds (shown next to the breakdown in the admin tools)
+ */
+export function getImageRankingConfig(): ImageRankingConfig {
+  return {
+    weights: IMAGE_RANKING_WEIGHTS,
+    diversityPenalty: IMAGE_RANKING_DIVERSITY_PENALTY,
+    fullMegapixels: IMAGE_RANKING_FULL_MEGAPIXELS,
+    duplicateMaxDistance: IMAGE_DUPLICATE_MAX_DISTANCE,
+  };
+}
+
+async function downloadForHash(url: string): Promise<Buffer> {
+  const response = await fetchPublicUrl(url, {
+    headers: { Accept: "image/*" },
+    signal: AbortSignal.timeout(HASH_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const declaredBytes = parseInt(response.headers.get("content-length") || "0");
+  if (declaredBytes > HASH_MAX_BYTES) {
+    await response.body?.cancel();
+    throw new Error(`Too large (${declaredBytes} bytes)`);
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.byteLength > HASH_MAX_BYTES) {
+    throw new Error(`Too large (${data.byteLength} bytes)`);
+  }
+  return data;
+}
+
+/**
+ * 64-bit difference hash: 9x8 grayscale, one bit per horizontally adjacent pair
+ */
+export async function computeImageHash(data: Buffer): Promise<string> {
+  const pixels = await sharp(data, { limitInputPixels: 50_000_000 })
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = BigInt(0);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash = (hash << BigInt(1)) | BigInt(pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1 : 0);
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function getImageHashDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > BigInt(0)) {
+    distance += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return distance;
+}
+
+async function hashCandidate(image: PlaygroundImage): Promise<string | null> {
+  try {
+    return await computeImageHash(await downloadForHash(image.thumbnail_url || image.image_url));
+  } catch {
+    // Unhashable images are still ranked, just never collapsed
+    return null;
+  }
+}
+
+function scoreCandidate({ image, rank, weight = 1 }: ImageRankingCandidate, hash: string | null): ScoredCandidate {
+  const reasons: string[] = [];
+  const domain = extractDomain(image.image_url).toLowerCase();
+
+  const relevance = Math.max(0, 1 - rank / RESULTS_PER_QUERY) * weight;
+  reasons.push(`Rank ${rank + 1} from ${image.provider ?? "google"}${weight < 1 ? ` (weight ${weight})` : ""}`);
+
+  const megapixels = (image.width * image.height) / 1_000_000;
+  const resolution = Math.min(1, Math.sqrt(megapixels / IMAGE_RANKING_FULL_MEGAPIXELS));
+  reasons.push(`${image.width}×${image.height} (${megapixels.toFixed(1)} MP)`);
+
+  const aspectRatio = image.height > 0 ? image.width / image.height : 1;
+  let orientation: number;
+  if (aspectRatio > 2.5) {
+    orientation = 0.6;
+    reasons.push("Panorama");
+  } else if (aspectRatio >= 1.2) {
+    orientation = 1;
+    reasons.push("Landscape");
+  } else if (aspectRatio >= 1) {
+    orientation = 0.7;
+    reasons.push("Square");
+  } else {
+    orientation = 0.3;
+    reasons.push("Portrait");
+  }
+
+  const watermarkDomain = WATERMARK_DOMAINS.find((candidate) => domain.includes(candidate));
+  let watermark = 1;
+  if (watermarkDomain) {
+    watermark = 0;
+    reasons.push(`Likely watermarked (${watermarkDomain})`);
+  } else if (WATERMARK_TITLE_PATTERN.test(image.title || "")) {
+    watermark = 0;
+    reasons.push("Likely watermarked (title)");
+  }
+
+  const totalWeight =
+    IMAGE_RANKING_WEIGHTS.relevance +
+    IMAGE_RANKING_WEIGHTS.resolution +
+    IMAGE_RANKING_WEIGHTS.orientation +
+    IMAGE_RANKING_WEIGHTS.watermark;
+  const baseScore =
+    totalWeight > 0
+      ? (100 *
+          (IMAGE_RANKING_WEIGHTS.relevance * relevance +
+            IMAGE_RANKING_WEIGHTS.resolution * resolution +
+            IMAGE_RANKING_WEIGHTS.orientation * orientation +
+            IMAGE_RANKING_WEIGHTS.watermark * watermark)) /
+        totalWeight
+      : 0;
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    image,
+    domain,
+    baseScore,
+    ranking: {
+      relevance: round(relevance),
+      resolution: round(resolution),
+      orientation,
+      watermark,
+      reasons,
+      hash,
+    },
+  };
+}
+
+/**
+ * Collapse near-duplicates, score and pick up to `limit` images
+ * Returns the images best first, each with its ranking breakdown
+ */
+export async function rankPlaygroundImages(
+  candidates: ImageRankingCandidate[],
+  { limit }: { limit: number },
+): Promise<PlaygroundImage[]> {
+  const hashes = await Promise.all(
+    candidates.map((candidate) => hashLimiter(() => hashCandidate(candidate.image))),
+  );
+  let remaining = candidates.map((candidate, index) => scoreCandidate(candidate, hashes[index]));
+
+  const selected: PlaygroundImage[] = [];
+  const selectedPerDomain = new Map<string, number>();
+
+  while (selected.length < limit && remaining.length > 0) {
+    // Best score after the diversity penalty for what's already selected
+    let best = remaining[0];
+    let bestScore = -Infinity;
+    for (const candidate of remaining) {
+      const score =
+        candidate.baseScore - (selectedPerDomain.get(candidate.domain) ?? 0) * IMAGE_RANKING_DIVERSITY_PENALTY;
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    const bestHash = best.ranking.hash;
+    const duplicates = remaining.filter(
+      (candidate) =>
+        candidate !== best &&
+        bestHash !== null &&
+        candidate.ranking.hash !== null &&
+        getImageHashDistance(bestHash, candidate.ranking.hash) <= IMAGE_DUPLICATE_MAX_DISTANCE,
+    );
+    remaining = remaining.filter((candidate) => candidate !== best && !duplicates.includes(candidate));
+
+    const sameDomainCount = selectedPerDomain.get(best.domain) ?? 0;
+    selectedPerDomain.set(best.domain, sameDomainCount + 1);
+
+    const reasons = [...best.ranking.reasons];
+    if (sameDomainCount > 0) {
+      reasons.push(`${sameDomainCount} other image(s) from ${best.domain}`);
+    }
+    if (duplicates.length > 0) {
+      reasons.push(`Collapsed ${duplicates.length} near-duplicate(s)`);
+    }
+
+    selected.push({
+      ...best.image,
+      ranking: {
+        ...best.ranking,
+        score: Math.round(bestScore),
+        diversityPenalty: sameDomainCount * IMAGE_RANKING_DIVERSITY_PENALTY,
+        reasons,
+        ...(duplicates.length > 0
+          ? { duplicates: duplicates.map((duplicate) => duplicate.image.image_url) }
+          : {}),
+      },
+    });
+  }
+
+  return selected;
+}
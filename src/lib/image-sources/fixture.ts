@@ -0,0 +1,96 @@
+/**
+ * Local fixture image source
+ *
+ * Reads canned image results from disk so the image pipeline (ranking,
+ * caching, proxy) can run without API keys in dev and tests.
+ *
+ * Lookup order inside IMAGE_FIXTURES_DIR (default: fixtures/images):
+ * 1. {osmId}.json (e.g., "W969448818.json")
+ * 2. default.json
+ *
+ * Fixture format:
+ * {
+ *   "images": [
+ *     {
+ *       "image_url": "https://...", "origin_url": "https://...",
+ *       "width": 1200, "height": 800, "title": "...",   // title optional
+ *       "license": { "name": "CC BY 4.0", "url": "https://...", "attribution": "..." }  // optional
+ *     }
+ *   ]
+ * }
+ *
+ * Images are ranked in file order. String values may contain {{name}} and
+ * {{osmId}} placeholders, which are filled from the request.
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import type { ImageRankingCandidate } from "@/lib/image-ranking";
+import type { ImageSourceProvider, ImageSourceRequest } from "@/lib/image-sources";
+import type { PlaygroundImage } from "@/lib/images";
+
+type ImagesFixture = {
+  images?: Omit<PlaygroundImage, "provider">[];
+};
+
+function getFixturesDir(): string {
+  return process.env.IMAGE_FIXTURES_DIR || join(process.cwd(), "fixtures", "images");
+}
+
+async function readFixture(fileName: string): Promise<string | null> {
+  try {
+    return await readFile(join(getFixturesDir(), fileName), "utf-8");
+  } catch (error) {
+    if (error && typeof error === "object" && "code" in error && error.code === "ENOENT") {
+      return null;
+    }
+    console.error(`[ImagesFixture] ❌ Failed to read fixture ${fileName}:`, error);
+    return null;
+  }
+}
+
+function fillPlaceholders(text: string, request: ImageSourceRequest): string {
+  const values: Record<string, string> = {
+    name: request.playgroundName,
+    osmId: request.osmId || "unknown",
+  };
+
+  // Escape values so placeholders inside JSON strings keep the fixture valid JSON
+  return text.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+    key in values ? JSON.stringify(values[key]).slice(1, -1) : match,
+  );
+}
+
+export function createFixtureImageSource(): ImageSourceProvider {
+  return {
+    id: "fixture",
+    async searchImages(request: ImageSourceRequest): Promise<ImageRankingCandidate[]> {
+      if (request.signal?.aborted) {
+        return [];
+      }
+
+      const candidates = [request.osmId ? `${request.osmId}.json` : null, "default.json"].filter(
+        (fileName): fileName is string => fileName !== null,
+      );
+
+      for (const fileName of candidates) {
+        const content = await readFixture(fileName);
+        if (content === null) continue;
+
+        try {
+          const fixture = JSON.parse(fillPlaceholders(content, request)) as ImagesFixture;
+          return (fixture.images ?? []).map((image, rank) => ({
+            image: { ...image, provider: "fixture", license: image.license ?? null },
+            rank,
+          }));
+        } catch (error) {
+          console.error(`[ImagesFixture] ❌ Invalid fixture ${fileName}:`, error);
+          return [];
+        }
+      }
+
+      console.warn(`[ImagesFixture] ⚠️ No fixture found for ${request.osmId || request.playgroundName}`);
+      return [];
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Google Custom Search image source
+ *
+ * Runs Gemini's image_search_queries (or a query built from the name and
+ * location) through Google Custom Search. Results come from arbitrary web
+ * pages, so their licence is unknown.
+ */
+
+import { searchImages, buildPlaygroundImageQuery } from "@/lib/google-image-search";
+import type { ImageRankingCandidate } from "@/lib/image-ranking";
+import type { ImageSourceProvider, ImageSourceRequest } from "@/lib/image-sources";
+
+export function createGoogleImageSource(): ImageSourceProvider {
+  return {
+    id: "google",
+    async searchImages({
+      playgroundName,
+      city,
+      region,
+      country,
+      imageSearchQueries,
+      signal,
+      usage,
+    }: ImageSourceRequest): Promise<ImageRankingCandidate[]> {
+      // Fallback to old method if no Gemini queries
+      const queries =
+        imageSearchQueries && imageSearchQueries.length > 0
+          ? imageSearchQueries
+          : [buildPlaygroundImageQuery({ name: playgroundName, city, region, country })];
+
+      if (imageSearchQueries && imageSearchQueries.length > 0) {
+        imageSearchQueries.forEach((q, i) => console.log(`[Images]    ${i + 1}. "${q}"`));
+      }
+
+      const candidates: ImageRankingCandidate[] = [];
+
+      for (const query of queries) {
+        if (signal?.aborted) break;
+
+        const results = await searchImages(query, {
+          maxResults: 10,
+          signal,
+          usage,
+        });
+
+        results.forEach((image, rank) => {
+          candidates.push({ image: { ...image, provider: "google", license: null }, rank });
+        });
+      }
+
+      return candidates;
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Image Source Providers
+ *
+ * The image pipeline (src/lib/images.ts) caches, ranks and proxies images.
+ * Providers only find candidates for a playground, so adding a source (or
+ * running offline) never touches the ranking, proxy or route handlers.
+ *
+ * Available providers (enable with IMAGE_SOURCE_PROVIDERS, comma-separated):
+ * - "google": Google Custom Search with Gemini's queries (default; 100 free queries/day)
+ * - "wikimedia": Wikimedia Commons photos taken near the playground (free licences)
+ * - "mapillary": Mapillary street-level imagery facing the playground (needs MAPILLARY_ACCESS_TOKEN)
+ * - "fixture": Canned results from disk for offline dev and tests
+ *
+ * Results of all enabled providers are merged and ranked together
+ * (src/lib/image-ranking.ts); each image records its provider and licence.
+ */
+
+import type { ApiUsageContext } from "@/lib/api-usage";
+import type { ImageRankingCandidate } from "@/lib/image-ranking";
+import { createGoogleImageSource } from "@/lib/image-sources/google";
+import { createWikimediaImageSource } from "@/lib/image-sources/wikimedia";
+import { createMapillaryImageSource } from "@/lib/image-sources/mapillary";
+import { createFixtureImageSource } from "@/lib/image-sources/fixture";
+
+export interface ImageSourceRequest {
+  playgroundName: string;
+  city?: string;
+  region?: string;
+  country?: string;
+  // Playground coordinates (location-based providers return nothing without them)
+  lat?: number;
+  lon?: number;
+  osmId?: string;
+  // Gemini-generated search queries
+  imageSearchQueries?: string[] | null;
+  signal?: AbortSignal;
+  // Route and playground to record API calls for (see api-usage.ts)
+  usage?: ApiUsageContext;
+}
+
+export interface ImageSourceProvider {
+  id: string;
+  // Candidates in the provider's own order, with provider and license set on each image
+  searchImages(request: ImageSourceRequest): Promise<ImageRankingCandidate[]>;
+}
+
+const IMAGE_SOURCE_FACTORIES: Record<string, () => ImageSourceProvider> = {
+  google: createGoogleImageSource,
+  wikimedia: createWikimediaImageSource,
+  mapillary: createMapillaryImageSource,
+  fixture: createFixtureImageSource,
+};
+
+const providerInstances = new Map<string, ImageSourceProvider>();
+
+/**
+ * Resolve the enabled image source providers (IMAGE_SOURCE_PROVIDERS, defaults to "google")
+ * Instances are reused across requests
+ */
+export function getImageSourceProviders(
+  ids: string = process.env.IMAGE_SOURCE_PROVIDERS || "google",
+): ImageSourceProvider[] {
+  const providerIds = Array.from(
+    new Set(ids.split(",").map((id) => id.trim()).filter(Boolean)),
+  );
+
+  return providerIds.map((id) => {
+    const existing = providerInstances.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const factory = IMAGE_SOURCE_FACTORIES[id];
+    if (!factory) {
+      throw new Error(
+        `Unknown image source "${id}". Available: ${Object.keys(IMAGE_SOURCE_FACTORIES).join(", ")}`,
+      );
+    }
+
+    const provider = factory();
+    providerInstances.set(id, provider);
+    return provider;
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Mapillary image source
+ *
+ * Street-level imagery taken within MAPILLARY_SEARCH_RADIUS_M of the
+ * playground. Only photos whose camera faces the playground are kept (unless
+ * taken right next to it), one per capture sequence, nearest first.
+ * Panoramas are skipped - they don't crop well into cards.
+ *
+ * Requires MAPILLARY_ACCESS_TOKEN (client token from mapillary.com/dashboard/developers).
+ * Thumbnail URLs are signed and expire, which is fine: the image proxy
+ * stores its variants right after the search (src/lib/image-proxy.ts).
+ * All Mapillary imagery is CC BY-SA 4.0.
+ *
+ * API: https://graph.mapillary.com/images
+ */
+
+import type { ImageRankingCandidate } from "@/lib/image-ranking";
+import type { ImageSourceProvider, ImageSourceRequest } from "@/lib/image-sources";
+import { getDistanceMeters } from "@/lib/utils";
+
+const MAPILLARY_API_URL = "https://graph.mapillary.com/images";
+const MAPILLARY_SEARCH_RADIUS_M = parseInt(process.env.MAPILLARY_SEARCH_RADIUS_M || "60");
+// Largest angle between the camera heading and the direction of the playground
+const MAPILLARY_MAX_HEADING_OFFSET = parseInt(process.env.MAPILLARY_MAX_HEADING_OFFSET || "45");
+// Photos this close are taken at the playground - any heading shows it
+const MAPILLARY_ANY_HEADING_WITHIN_M = 15;
+// Relevance of street-level photos relative to a web search hit (see image-ranking.ts)
+const MAPILLARY_IMAGE_WEIGHT = parseFloat(process.env.MAPILLARY_IMAGE_WEIGHT || "0.6");
+const MAPILLARY_TIMEOUT_MS = 8000;
+const MAPILLARY_SEARCH_LIMIT = 100;
+const MAPILLARY_MAX_RESULTS = 10;
+// Width of thumb_2048_url
+const MAPILLARY_IMAGE_WIDTH = 2048;
+
+const MAPILLARY_LICENSE = {
+  name: "CC BY-SA 4.0",
+  url: "https://creativecommons.org/licenses/by-sa/4.0/",
+};
+
+type MapillaryImage = {
+  id: string;
+  thumb_2048_url?: string;
+  thumb_256_url?: string;
+  width?: number;
+  height?: number;
+  captured_at?: number;
+  is_pano?: boolean;
+  sequence?: string;
+  creator?: { username?: string };
+  computed_geometry?: { coordinates: [number, number] };
+  computed_compass_angle?: number;
+};
+
+type MapillaryResponse = {
+  data?: MapillaryImage[];
+  error?: { message: string };
+};
+
+let missingTokenWarned = false;
+
+/**
+ * Initial bearing from one coordinate to another (degrees clockwise from north)
+ */
+function getBearing(from: { lat: number; lon: number }, to: { lat: number; lon: number }): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLon = toRadians(to.lon - from.lon);
+  const y = Math.sin(dLon) * Math.cos(toRadians(to.lat));
+  const x =
+    Math.cos(toRadians(from.lat)) * Math.sin(toRadians(to.lat)) -
+    Math.sin(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+function getHeadingOffset(a: number, b: number): number {
+  const offset = Math.abs(a - b) % 360;
+  return offset > 180 ? 360 - offset : offset;
+}
+
+export function createMapillaryImageSource(): ImageSourceProvider {
+  return {
+    id: "mapillary",
+    async searchImages({ lat, lon, signal }: ImageSourceRequest): Promise<ImageRankingCandidate[]> {
+      const accessToken = process.env.MAPILLARY_ACCESS_TOKEN;
+      if (!accessToken) {
+        if (!missingTokenWarned) {
+          console.warn("[Mapillary] ⚠️ MAPILLARY_ACCESS_TOKEN not set - skipping street-level imagery");
+          missingTokenWarned = true;
+        }
+        return [];
+      }
+      if (lat === undefined || lon === undefined || signal?.aborted) {
+        return [];
+      }
+
+      const playground = { lat, lon };
+      const dLat = MAPILLARY_SEARCH_RADIUS_M / 111320;
+      const dLon = MAPILLARY_SEARCH_RADIUS_M / (111320 * Math.cos((lat * Math.PI) / 180));
+      const params = new URLSearchParams({
+        fields:
+          "id,thumb_2048_url,thumb_256_url,width,height,captured_at,is_pano,sequence,creator,computed_geometry,computed_compass_angle",
+        bbox: [lon - dLon, lat - dLat, lon + dLon, lat + dLat].map((value) => value.toFixed(6)).join(","),
+        limit: String(MAPILLARY_SEARCH_LIMIT),
+      });
+
+      const timeout = AbortSignal.timeout(MAPILLARY_TIMEOUT_MS);
+      const response = await fetch(`${MAPILLARY_API_URL}?${params}`, {
+        headers: { Authorization: `OAuth ${accessToken}` },
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+
+      if (!response.ok) {
+        console.error(`[Mapillary] ❌ Image search failed: ${response.status} ${response.statusText}`);
+        return [];
+      }
+
+      const data: MapillaryResponse = await response.json();
+      if (data.error) {
+        console.error(`[Mapillary] ❌ Image search failed: ${data.error.message}`);
+        return [];
+      }
+
+      const photos = (data.data ?? [])
+        .flatMap((photo) => {
+          const coordinates = photo.computed_geometry?.coordinates;
+          if (photo.is_pano || !photo.thumb_2048_url || !photo.width || !photo.height || !coordinates) {
+            return [];
+          }
+
+          const position = { lat: coordinates[1], lon: coordinates[0] };
+          const distance = getDistanceMeters(position, playground);
+          if (distance > MAPILLARY_SEARCH_RADIUS_M) {
+            return [];
+          }
+
+          const isFacing =
+            distance <= MAPILLARY_ANY_HEADING_WITHIN_M ||
+            (photo.computed_compass_angle !== undefined &&
+              getHeadingOffset(photo.computed_compass_angle, getBearing(position, playground)) <=
+                MAPILLARY_MAX_HEADING_OFFSET);
+          return isFacing ? [{ photo, distance }] : [];
+        })
+        .sort((a, b) => a.distance - b.distance);
+
+      // Consecutive frames of one drive or walk look alike: keep the nearest per sequence
+      const seenSequences = new Set<string>();
+      const nearest = photos
+        .filter(({ photo }) => {
+          if (!photo.sequence) return true;
+          if (seenSequences.has(photo.sequence)) return false;
+          seenSequences.add(photo.sequence);
+          return true;
+        })
+        .slice(0, MAPILLARY_MAX_RESULTS);
+
+      return nearest.map(({ photo }, rank) => {
+        const scale = Math.min(1, MAPILLARY_IMAGE_WIDTH / photo.width!);
+        const username = photo.creator?.username;
+        const capturedOn = photo.captured_at
+          ? new Date(photo.captured_at).toISOString().slice(0, 10)
+          : null;
+
+        return {
+          image: {
+            image_url: photo.thumb_2048_url!,
+            origin_url: `https://www.mapillary.com/app/?pKey=${photo.id}`,
+            width: Math.round(photo.width! * scale),
+            height: Math.round(photo.height! * scale),
+            title: capturedOn ? `Street-level photo (${capturedOn})` : "Street-level photo",
+            thumbnail_url: photo.thumb_256_url,
+            provider: "mapillary",
+            license: {
+              ...MAPILLARY_LICENSE,
+              attribution: username ? `${username}, Mapillary` : "Mapillary",
+            },
+          },
+          rank,
+          weight: MAPILLARY_IMAGE_WEIGHT,
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Wikimedia Commons image source
+ *
+ * Geosearches Commons for files taken within WIKIMEDIA_GEOSEARCH_RADIUS_M of
+ * the playground and keeps the ones whose title, description or categories
+ * mention a playground (in any supported language) or the playground's name.
+ * Nearest first. Free, no API key, and every file carries its licence.
+ *
+ * API: https://commons.wikimedia.org/w/api.php (generator=geosearch, prop=imageinfo)
+ */
+
+import type { ImageRankingCandidate } from "@/lib/image-ranking";
+import type { ImageSourceProvider, ImageSourceRequest } from "@/lib/image-sources";
+import {
+  getPlaygroundKeywords,
+  getPlaygroundSearchTerms,
+  SUPPORTED_INSIGHTS_LOCALES,
+} from "@/lib/insights-locale";
+import { getDistanceMeters } from "@/lib/utils";
+
+const WIKIMEDIA_API_URL = "https://commons.wikimedia.org/w/api.php";
+// Search radius around the playground (Commons allows up to 10 km)
+const WIKIMEDIA_GEOSEARCH_RADIUS_M = parseInt(
+  process.env.WIKIMEDIA_GEOSEARCH_RADIUS_M || "200",
+);
+// Relevance of Commons results relative to a web search hit (see image-ranking.ts)
+const WIKIMEDIA_IMAGE_WEIGHT = parseFloat(process.env.WIKIMEDIA_IMAGE_WEIGHT || "0.9");
+const WIKIMEDIA_TIMEOUT_MS = 8000;
+// Files fetched per search (before the playground filter) and candidates kept
+const WIKIMEDIA_SEARCH_LIMIT = 50;
+const WIKIMEDIA_MAX_RESULTS = 10;
+// Scaled rendition used instead of the original (originals can be 20+ MB)
+const WIKIMEDIA_IMAGE_WIDTH = 1280;
+
+// Wikimedia asks API clients to identify themselves
+const WIKIMEDIA_HEADERS = {
+  "User-Agent": "GoodPlaygroundMap/1.0 (ivan.seredkin@gmail.com)",
+};
+
+const SUPPORTED_MIME_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
+
+// English words beyond "playground"/"play area" (the locale keyword lists only cover other languages)
+const ENGLISH_PLAYGROUND_KEYWORDS = ["play equipment", "jungle gym", "climbing frame", "sandpit", "sandbox"];
+
+// Whole words with an optional plural ending ("playgrounds", "Rutschen"), so "wip" doesn't match "wipe"
+const PLAYGROUND_KEYWORD_PATTERN = new RegExp(
+  `(?<!\\p{L})(${Array.from(
+    new Set(
+      [
+        ...ENGLISH_PLAYGROUND_KEYWORDS,
+        ...SUPPORTED_INSIGHTS_LOCALES.flatMap((locale) => [
+          ...getPlaygroundSearchTerms(locale),
+          ...getPlaygroundKeywords(locale),
+        ]),
+      ].map((keyword) => keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")),
+    ),
+  ).join("|")})(e?s|en|er|n|ar|or)?(?!\\p{L})`,
+  "u",
+);
+
+type ExtMetadata = Record<string, { value?: string } | undefined>;
+
+type CommonsPage = {
+  title: string;
+  coordinates?: { lat: number; lon: number }[];
+  imageinfo?: {
+    url: string;
+    descriptionurl: string;
+    width: number;
+    height: number;
+    mime: string;
+    thumburl?: string;
+    thumbwidth?: number;
+    thumbheight?: number;
+    extmetadata?: ExtMetadata;
+  }[];
+};
+
+type CommonsResponse = {
+  query?: { pages?: CommonsPage[] };
+  error?: { code: string; info: string };
+};
+
+/**
+ * Plain text of an extmetadata value (values are HTML, e.g. linked author names)
+ */
+function getMetadataText(metadata: ExtMetadata | undefined, field: string): string {
+  const value = metadata?.[field]?.value;
+  if (!value) {
+    return "";
+  }
+
+  return value
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Whether a file is about a playground (or the playground by name)
+ */
+function isPlaygroundFile(page: CommonsPage, playgroundName: string): boolean {
+  const metadata = page.imageinfo?.[0]?.extmetadata;
+  const text = [
+    page.title,
+    getMetadataText(metadata, "ObjectName"),
+    getMetadataText(metadata, "ImageDescription"),
+    getMetadataText(metadata, "Categories").replace(/\|/g, " "),
+  ]
+    .join(" ")
+    .replace(/_/g, " ")
+    .toLowerCase();
+
+  const name = playgroundName.trim().toLowerCase();
+  return PLAYGROUND_KEYWORD_PATTERN.test(text) || (name.length > 3 && text.includes(name));
+}
+
+export function createWikimediaImageSource(): ImageSourceProvider {
+  return {
+    id: "wikimedia",
+    async searchImages({
+      playgroundName,
+      lat,
+      lon,
+      signal,
+    }: ImageSourceRequest): Promise<ImageRankingCandidate[]> {
+      if (lat === undefined || lon === undefined || signal?.aborted) {
+        return [];
+      }
+
+      const params = new URLSearchParams({
+        action: "query",
+        format: "json",
+        formatversion: "2",
+        generator: "geosearch",
+        ggscoord: `${lat}|${lon}`,
+        ggsradius: String(Math.min(10000, Math.max(10, WIKIMEDIA_GEOSEARCH_RADIUS_M))),
+        ggsnamespace: "6",
+        ggslimit: String(WIKIMEDIA_SEARCH_LIMIT),
+        prop: "imageinfo|coordinates",
+        iiprop: "url|size|mime|extmetadata",
+        iiurlwidth: String(WIKIMEDIA_IMAGE_WIDTH),
+        iiextmetadatafilter:
+          "ObjectName|ImageDescription|Categories|Artist|Attribution|LicenseShortName|LicenseUrl",
+        colimit: "max",
+      });
+
+      const timeout = AbortSignal.timeout(WIKIMEDIA_TIMEOUT_MS);
+      const response = await fetch(`${WIKIMEDIA_API_URL}?${params}`, {
+        headers: WIKIMEDIA_HEADERS,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+
+      if (!response.ok) {
+        console.error(`[Wikimedia] ❌ Geosearch failed: ${response.status} ${response.statusText}`);
+        return [];
+      }
+
+      const data: CommonsResponse = await response.json();
+      if (data.error) {
+        console.error(`[Wikimedia] ❌ Geosearch failed: ${data.error.code} ${data.error.info}`);
+        return [];
+      }
+
+      const files = (data.query?.pages ?? [])
+        .filter((page) => {
+          const info = page.imageinfo?.[0];
+          return info && SUPPORTED_MIME_TYPES.has(info.mime) && isPlaygroundFile(page, playgroundName);
+        })
+        .map((page) => {
+          const coordinates = page.coordinates?.[0];
+          return {
+            page,
+            distance: coordinates ? getDistanceMeters({ lat, lon }, coordinates) : Infinity,
+          };
+        })
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, WIKIMEDIA_MAX_RESULTS);
+
+      return files.map(({ page }, rank) => {
+        const info = page.imageinfo![0];
+        const metadata = info.extmetadata;
+        const license = getMetadataText(metadata, "LicenseShortName");
+        const attribution = getMetadataText(metadata, "Attribution") || getMetadataText(metadata, "Artist");
+
+        return {
+          image: {
+            image_url: info.thumburl ?? info.url,
+            origin_url: info.descriptionurl,
+            width: info.thumbwidth ?? info.width,
+            height: info.thumbheight ?? info.height,
+            title:
+              getMetadataText(metadata, "ObjectName") ||
+              page.title.replace(/^File:/, "").replace(/\.[a-z]+$/i, ""),
+            provider: "wikimedia",
+            license: license
+              ? {
+                  name: license,
+                  url: getMetadataText(metadata, "LicenseUrl") || undefined,
+                  attribution: attribution || undefined,
+                }
+              : null,
+          },
+          rank,
+          weight: WIKIMEDIA_IMAGE_WEIGHT,
+        };
+      });
+    },
+  };
+}
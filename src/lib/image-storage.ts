@@ -0,0 +1,141 @@
+/**
+ * Image Storage
+ * Where the image proxy (src/lib/image-proxy.ts) keeps its WebP variants.
+ *
+ * Available backends (select with IMAGE_STORAGE_BACKEND):
+ * - "supabase": Supabase Storage bucket (default, shared by all instances)
+ * - "local": Files under IMAGE_STORAGE_DIR (single-server and offline dev)
+ *
+ * Stored objects are immutable: a path always holds the same bytes, so they
+ * can be served with long cache headers.
+ */
+
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import { createServiceClient } from "@/lib/supabase/service";
+
+const IMAGE_STORAGE_BUCKET =
+  process.env.IMAGE_STORAGE_BUCKET || "playground-images";
+const IMAGE_STORAGE_DIR = resolve(
+  process.cwd(),
+  process.env.IMAGE_STORAGE_DIR || ".image-storage",
+);
+
+export interface ImageStorage {
+  id: string;
+  // Null if nothing is stored at the path
+  get(path: string): Promise<Buffer | null>;
+  put(path: string, data: Buffer, contentType: string): Promise<void>;
+  // Missing paths are ignored
+  delete(paths: string[]): Promise<void>;
+}
+
+/**
+ * Supabase Storage (private bucket in supabase-schema.sql section 10)
+ * Read and written with the service role only: visitors get variants through
+ * the API routes, never from the bucket
+ */
+export function createSupabaseImageStorage(): ImageStorage {
+  return {
+    id: "supabase",
+
+    async get(path) {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase.storage.from(IMAGE_STORAGE_BUCKET).download(path);
+      if (error || !data) {
+        return null;
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async put(path, data, contentType) {
+      const supabase = createServiceClient();
+      const { error } = await supabase.storage.from(IMAGE_STORAGE_BUCKET).upload(path, data, {
+        contentType,
+        cacheControl: "31536000",
+        upsert: true,
+      });
+      if (error) {
+        throw new Error(`Failed to store ${path}: ${error.message}`);
+      }
+    },
+
+    async delete(paths) {
+      const supabase = createServiceClient();
+      const { error } = await supabase.storage.from(IMAGE_STORAGE_BUCKET).remove(paths);
+      if (error) {
+        throw new Error(`Failed to delete ${paths.join(", ")}: ${error.message}`);
+      }
+    },
+  };
+}
+
+/**
+ * Local files (not shared between instances; IMAGE_STORAGE_DIR is git-ignored by default)
+ */
+export function createLocalImageStorage(): ImageStorage {
+  // Paths are generated by the proxy, but never leave the storage directory
+  const toFilePath = (path: string) => {
+    const filePath = resolve(IMAGE_STORAGE_DIR, path);
+    if (!filePath.startsWith(IMAGE_STORAGE_DIR)) {
+      throw new Error(`Invalid image storage path: ${path}`);
+    }
+    return filePath;
+  };
+
+  return {
+    id: "local",
+
+    async get(path) {
+      try {
+        return await readFile(toFilePath(path));
+      } catch {
+        return null;
+      }
+    },
+
+    async put(path, data) {
+      const filePath = toFilePath(path);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async delete(paths) {
+      await Promise.all(paths.map((path) => rm(toFilePath(path), { force: true })));
+    },
+  };
+}
+
+const IMAGE_STORAGE_FACTORIES: Record<string, () => ImageStorage> = {
+  supabase: createSupabaseImageStorage,
+  local: createLocalImageStorage,
+};
+
+let imageStorage: ImageStorage | null = null;
+
+/**
+ * Resolve the configured image storage (IMAGE_STORAGE_BACKEND, defaults to "supabase")
+ */
+export function getImageStorage(): ImageStorage {
+  if (imageStorage) {
+    return imageStorage;
+  }
+
+  const id = process.env.IMAGE_STORAGE_BACKEND || "supabase";
+  const factory = IMAGE_STORAGE_FACTORIES[id];
+  if (!factory) {
+    throw new Error(
+      `Unknown image storage "${id}". Available: ${Object.keys(IMAGE_STORAGE_FACTORIES).join(", ")}`,
+    );
+  }
+
+  imageStorage = factory();
+  return imageStorage;
+}
+
+/**
+ * Storage path of a stored object (e.g. "proxy/ab12.../card.webp")
+ */
+export function buildImageStoragePath(...segments: string[]): string {
+  return join(...segments).replace(/\\/g, "/");
+}
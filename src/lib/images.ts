@@ -1,55 +1,119 @@
 /**
  * Image Loading Service
  *
- * Handles fetching and caching playground images from Google Custom Search API.
+ * Handles fetching and caching playground images from the enabled image
+ * sources (Google Custom Search by default, see src/lib/image-sources).
  * This is completely separate from AI insights (Gemini) service.
  *
  * Features:
- * - Google Custom Search integration
- * - 90-day cache TTL by default (configurable via IMAGES_CACHE_TTL_MS)
- * - SafeSearch enabled
- * - Photo-only results
+ * - Pluggable image sources (IMAGE_SOURCE_PROVIDERS): Google Custom Search,
+ *   Wikimedia Commons, Mapillary and local fixtures
+ * - Results of all sources merged, near-duplicates collapsed and ranked
+ *   locally (src/lib/image-ranking.ts)
+ * - 90-day soft cache TTL by default (configurable via IMAGES_CACHE_TTL_MS):
+ *   stale entries are served while a background search refreshes them
+ * - 180-day hard cache TTL (IMAGES_CACHE_HARD_TTL_MS), after which entries expire
+ * - Each image records the source that found it and its licence (if known)
+ * - Approved user photos (src/lib/user-photos.ts) come first; they aren't
+ *   cached with the search results since moderation changes them
+ * - Image proxy: cached entries point at WebP variants stored by
+ *   src/lib/image-proxy.ts instead of hotlinking the originals
  *
- * Rate Limits:
+ * Rate Limits (Google Custom Search):
  * - Free tier: 100 queries/day
  * - Paid: $5 per 1000 queries
  */
 
-import { searchImages, buildPlaygroundImageQuery } from "@/lib/google-image-search";
+import { after } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { buildImagesCacheKey } from "@/lib/cache-keys";
+import { buildImagesCacheKey, IMAGES_CACHE_VERSION } from "@/lib/cache-keys";
 import { isValidImageUrl } from "@/lib/utils";
+import { recordCacheLookups, type ApiUsageContext } from "@/lib/api-usage";
+import { rankPlaygroundImages, type ImageRanking, type ImageRankingCandidate } from "@/lib/image-ranking";
+import { getImageSourceProviders, type ImageSourceRequest } from "@/lib/image-sources";
+import { fetchApprovedUserPhotoImages } from "@/lib/user-photos";
+import {
+  isFailedProxiedImage,
+  processProxiedImages,
+  registerProxiedImages,
+} from "@/lib/image-proxy";
+
+export interface ImageLicense {
+  // Short name (e.g. "CC BY-SA 4.0")
+  name: string;
+  url?: string;
+  // Credit line the licence asks for (plain text, e.g. the author)
+  attribution?: string;
+}
 
 export interface PlaygroundImage {
+  // Proxied full-size variant (/api/image/{id}/full), or the original for unproxied images
   image_url: string;
+  // Page the image was found on
   origin_url: string;
   height: number;
   width: number;
   title?: string;
   thumbnail_url?: string;
+  // Proxied card-size variant
+  card_url?: string;
+  // Original image URL (set once the image goes through the proxy)
+  source_url?: string;
+  // Why the image was picked (see image-ranking.ts; absent on entries cached before ranking)
+  ranking?: ImageRanking;
+  // Image source that found it (e.g. "wikimedia"; absent on entries cached before sources)
+  provider?: string;
+  // Reuse licence; null if unknown (web search results)
+  license?: ImageLicense | null;
+}
+
+export interface ImagesCacheEntry {
+  images: PlaygroundImage[];
+  // Past the soft TTL - serve it, but refresh it in the background
+  isStale: boolean;
 }
 
-// Cache configuration
+// Cache configuration (age counts from refreshed_at)
 const IMAGES_CACHE_TTL_MS = parseInt(
   process.env.IMAGES_CACHE_TTL_MS || "7776000000",
-); // 90 days in milliseconds (was 1 year)
+); // Soft TTL: 90 days in milliseconds (was 1 year)
+const IMAGES_CACHE_HARD_TTL_MS = parseInt(
+  process.env.IMAGES_CACHE_HARD_TTL_MS || "15552000000",
+); // Hard TTL: 180 days
+// Minimum time between background refreshes of the same entry on one instance (1 hour)
+const IMAGES_REFRESH_RETRY_MS = parseInt(
+  process.env.IMAGES_REFRESH_RETRY_MS || "3600000",
+);
 const IMAGES_CACHE_TABLE_NAME = "playground_images_cache";
 
+// Last background refresh per cache key (keeps failed refreshes from spending a search per view)
+const refreshAttempts = new Map<string, number>();
+
+function getCacheAgeMs(row: { created_at: string; refreshed_at?: string | null }, now: number): number {
+  return now - new Date(row.refreshed_at ?? row.created_at).getTime();
+}
+
+// Images kept per playground after ranking
+const MAX_PLAYGROUND_IMAGES = 10;
+
+// Batch lookups are split into chunks so the `in` filter keeps request URLs short
+const BATCH_FETCH_CHUNK_SIZE = 200;
+
 /**
- * Fetch images from cache
- * Cache invalidation: Version is in cache_key (e.g., "v1:N123456")
+ * Fetch a cache entry with its staleness
+ * Hard-expired entries are deleted in the background and reported as a miss
  */
-export async function fetchImagesFromCache({
+export async function fetchImagesCacheEntry({
   cacheKey,
 }: {
   cacheKey: string;
-}): Promise<PlaygroundImage[] | null> {
+}): Promise<ImagesCacheEntry | null> {
   try {
     const supabase = await createClient();
 
     const { data, error } = await supabase
       .from(IMAGES_CACHE_TABLE_NAME)
-      .select("images, created_at")
+      .select("images, created_at, refreshed_at")
       .eq("cache_key", cacheKey)
       .single();
 
@@ -58,25 +122,99 @@ export async function fetchImagesFromCache({
     }
 
     // Check TTL
-    const createdAt = new Date(data.created_at).getTime();
-    const now = Date.now();
+    const age = getCacheAgeMs(data, Date.now());
 
-    if (now - createdAt > IMAGES_CACHE_TTL_MS) {
-      await supabase
+    if (age > IMAGES_CACHE_HARD_TTL_MS) {
+      supabase
         .from(IMAGES_CACHE_TABLE_NAME)
         .delete()
-        .eq("cache_key", cacheKey);
+        .eq("cache_key", cacheKey)
+        .then(({ error: deleteError }) => {
+          if (deleteError) {
+            console.error("[CacheImages] ❌ Error deleting expired entry:", deleteError);
+          }
+        });
 
       return null;
     }
 
-    return data.images as PlaygroundImage[];
+    return { images: data.images as PlaygroundImage[], isStale: age > IMAGES_CACHE_TTL_MS };
   } catch (error) {
     console.error("[CacheImages] ❌ Error fetching from cache:", error);
     return null;
   }
 }
 
+/**
+ * Fetch images from cache (stale entries included)
+ * Cache invalidation: Version is in cache_key (e.g., "v1:N123456")
+ */
+export async function fetchImagesFromCache({
+  cacheKey,
+}: {
+  cacheKey: string;
+}): Promise<PlaygroundImage[] | null> {
+  const entry = await fetchImagesCacheEntry({ cacheKey });
+  return entry?.images ?? null;
+}
+
+/**
+ * Batch check which cache keys have unexpired, non-empty cached images
+ * Returns the set of matching cache keys (used by the map's "has photos" filter)
+ */
+export async function batchFetchImageCacheKeysWithImages({
+  cacheKeys,
+}: {
+  cacheKeys: string[];
+}): Promise<Set<string>> {
+  const results = new Set<string>();
+
+  if (cacheKeys.length === 0) {
+    return results;
+  }
+
+  if (cacheKeys.length > BATCH_FETCH_CHUNK_SIZE) {
+    const chunks: string[][] = [];
+    for (let i = 0; i < cacheKeys.length; i += BATCH_FETCH_CHUNK_SIZE) {
+      chunks.push(cacheKeys.slice(i, i + BATCH_FETCH_CHUNK_SIZE));
+    }
+    const chunkResults = await Promise.all(
+      chunks.map((chunk) => batchFetchImageCacheKeysWithImages({ cacheKeys: chunk })),
+    );
+    return new Set(chunkResults.flatMap((chunkResult) => Array.from(chunkResult)));
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from(IMAGES_CACHE_TABLE_NAME)
+      .select("cache_key, images, created_at, refreshed_at")
+      .in("cache_key", cacheKeys);
+
+    if (error || !data) {
+      console.error("[CacheImages] ❌ Error batch fetching from cache:", error);
+      return results;
+    }
+
+    const now = Date.now();
+    for (const row of data) {
+      const images = row.images as PlaygroundImage[] | null;
+      if (
+        getCacheAgeMs(row, now) <= IMAGES_CACHE_HARD_TTL_MS &&
+        images?.some((img) => isValidImageUrl(img.image_url))
+      ) {
+        results.add(row.cache_key);
+      }
+    }
+
+    return results;
+  } catch (error) {
+    console.error("[CacheImages] ❌ Error batch fetching from cache:", error);
+    return results;
+  }
+}
+
 /**
  * Save images to cache
  * Cache invalidation: Version is in cache_key (e.g., "v1:N123456")
@@ -90,6 +228,7 @@ export async function saveImagesToCache({
 }): Promise<void> {
   try {
     const supabase = await createClient();
+    const now = new Date().toISOString();
 
     const { error } = await supabase
       .from(IMAGES_CACHE_TABLE_NAME)
@@ -97,7 +236,8 @@ export async function saveImagesToCache({
         {
           cache_key: cacheKey,
           images,
-          created_at: new Date().toISOString(),
+          created_at: now,
+          refreshed_at: now,
         },
         { onConflict: "cache_key" },
       );
@@ -111,6 +251,55 @@ export async function saveImagesToCache({
   }
 }
 
+/**
+ * Replace an entry's images without changing its age
+ */
+export async function updateCachedImages({
+  cacheKey,
+  images,
+}: {
+  cacheKey: string;
+  images: PlaygroundImage[];
+}): Promise<void> {
+  try {
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from(IMAGES_CACHE_TABLE_NAME)
+      .update({ images })
+      .eq("cache_key", cacheKey);
+
+    if (error) {
+      console.error("[CacheImages] ❌ Error updating cached images:", error);
+    }
+  } catch (error) {
+    console.error("[CacheImages] ❌ Error updating cached images:", error);
+  }
+}
+
+/**
+ * Mark a cache entry as refreshed without changing it
+ * Used when a refresh found the same images
+ */
+export async function touchImagesCache({
+  cacheKey,
+}: {
+  cacheKey: string;
+}): Promise<void> {
+  try {
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from(IMAGES_CACHE_TABLE_NAME)
+      .update({ refreshed_at: new Date().toISOString() })
+      .eq("cache_key", cacheKey);
+
+    if (error) {
+      console.error("[CacheImages] ❌ Error touching cache:", error);
+    }
+  } catch (error) {
+    console.error("[CacheImages] ❌ Error touching cache:", error);
+  }
+}
+
 /**
  * Clear images cache for a specific playground
  */
@@ -193,25 +382,255 @@ export async function clearImagesCacheByPattern({
 }
 
 /**
- * Fetch images for a playground with caching
+ * Entries the image health sweeper should check next: never checked first,
+ * then those last checked before checkedBefore
+ * Only current-version entries count (hard-expired ones are skipped)
+ */
+export async function listImagesHealthCandidates({
+  limit,
+  checkedBefore,
+}: {
+  limit: number;
+  checkedBefore: Date;
+}): Promise<Array<{ cacheKey: string; images: PlaygroundImage[] }>> {
+  try {
+    const supabase = await createClient();
+    const expiredBefore = new Date(Date.now() - IMAGES_CACHE_HARD_TTL_MS).toISOString();
+
+    const { data, error } = await supabase
+      .from(IMAGES_CACHE_TABLE_NAME)
+      .select("cache_key, images")
+      .like("cache_key", `${IMAGES_CACHE_VERSION}:%`)
+      .or(`health_checked_at.is.null,health_checked_at.lt.${checkedBefore.toISOString()}`)
+      .gt("refreshed_at", expiredBefore)
+      .order("health_checked_at", { ascending: true, nullsFirst: true })
+      .limit(limit);
+
+    if (error || !data) {
+      console.error("[CacheImages] ❌ Error listing health check candidates:", error);
+      return [];
+    }
+
+    return data.map((row) => ({ cacheKey: row.cache_key, images: (row.images ?? []) as PlaygroundImage[] }));
+  } catch (error) {
+    console.error("[CacheImages] ❌ Error listing health check candidates:", error);
+    return [];
+  }
+}
+
+/**
+ * Record that an entry was health checked (without changing its age)
+ */
+export async function markImagesHealthChecked({
+  cacheKey,
+}: {
+  cacheKey: string;
+}): Promise<void> {
+  try {
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from(IMAGES_CACHE_TABLE_NAME)
+      .update({ health_checked_at: new Date().toISOString() })
+      .eq("cache_key", cacheKey);
+
+    if (error) {
+      console.error("[CacheImages] ❌ Error marking health check:", error);
+    }
+  } catch (error) {
+    console.error("[CacheImages] ❌ Error marking health check:", error);
+  }
+}
+
+type PlaygroundImageSearchParams = ImageSourceRequest;
+
+/**
+ * Search the enabled image sources for a playground's images (no caching)
+ * Results of every source and query are pooled, then deduplicated and ranked locally
+ */
+async function searchPlaygroundImages(
+  searchParams: PlaygroundImageSearchParams,
+): Promise<PlaygroundImage[]> {
+  const { signal } = searchParams;
+
+  // A failing source shouldn't cost the others' results
+  const results = await Promise.all(
+    getImageSourceProviders().map(async (provider) => {
+      try {
+        return await provider.searchImages(searchParams);
+      } catch (error) {
+        if (!(error instanceof DOMException && error.name === "AbortError")) {
+          console.error(`[Images] ❌ Image source ${provider.id} failed:`, error);
+        }
+        return [];
+      }
+    }),
+  );
+
+  // Same URL from several queries or sources: keep its best rank
+  const candidates: Map<string, ImageRankingCandidate> = new Map();
+  for (const candidate of results.flat()) {
+    const existing = candidates.get(candidate.image.image_url);
+    if (!existing || candidate.rank < existing.rank) {
+      candidates.set(candidate.image.image_url, candidate);
+    }
+  }
+
+  if (candidates.size === 0 || signal?.aborted) {
+    return [];
+  }
+
+  return rankPlaygroundImages(Array.from(candidates.values()), { limit: MAX_PLAYGROUND_IMAGES });
+}
+
+/**
+ * Re-run the search for a stale entry
+ * Unchanged results only bump refreshed_at; empty results keep the stale entry
+ */
+async function refreshPlaygroundImages({
+  cacheKey,
+  cachedImages,
+  ...searchParams
+}: PlaygroundImageSearchParams & {
+  cacheKey: string;
+  cachedImages: PlaygroundImage[];
+}): Promise<void> {
+  try {
+    const freshImages = (await searchPlaygroundImages(searchParams)).filter((img) =>
+      isValidImageUrl(img.image_url),
+    );
+
+    if (freshImages.length === 0) {
+      console.warn(`[Images] ⚠️ Refresh found no images for ${cacheKey} - keeping stale entry`);
+      return;
+    }
+
+    // Cached images are compared by their original URL
+    const cachedUrls = new Set(cachedImages.map((img) => img.source_url ?? img.image_url));
+    const isUnchanged =
+      freshImages.length === cachedUrls.size &&
+      freshImages.every((img) => cachedUrls.has(img.image_url));
+
+    if (isUnchanged) {
+      await touchImagesCache({ cacheKey });
+    } else {
+      const images = await registerProxiedImages(freshImages);
+      await saveImagesToCache({ cacheKey, images });
+      await pruneFailedImages({ cacheKey, images });
+    }
+  } catch (error) {
+    console.error("[Images] ❌ Error refreshing images:", error);
+  }
+}
+
+/**
+ * Store an entry's proxied images and drop the ones whose originals
+ * couldn't be fetched or decoded (dead links, oversized or non-image files)
+ * Entries left without images are removed, like searches that found none
+ */
+async function pruneFailedImages({
+  cacheKey,
+  images,
+}: {
+  cacheKey: string;
+  images: PlaygroundImage[];
+}): Promise<void> {
+  try {
+    const failedIds = await processProxiedImages(images);
+    if (failedIds.size === 0) {
+      return;
+    }
+
+    const remaining = images.filter((img) => !isFailedProxiedImage(img, failedIds));
+    console.warn(`[Images] ⚠️ Dropping ${images.length - remaining.length} unreachable image(s) from ${cacheKey}`);
+    if (remaining.length > 0) {
+      await updateCachedImages({ cacheKey, images: remaining });
+    } else {
+      await clearImagesCache({ cacheKey });
+    }
+  } catch (error) {
+    console.error("[Images] ❌ Error processing proxied images:", error);
+  }
+}
+
+/**
+ * Run a task after the response is sent
+ */
+function runAfterResponse(task: () => Promise<void>) {
+  try {
+    after(task);
+  } catch {
+    // Outside a request scope (scripts) - run it now without waiting
+    void task();
+  }
+}
+
+/**
+ * Schedule a refresh of a stale entry after the response is sent
+ * (at most once per IMAGES_REFRESH_RETRY_MS per instance)
+ */
+function scheduleImagesRefresh(params: Parameters<typeof refreshPlaygroundImages>[0]) {
+  const lastAttempt = refreshAttempts.get(params.cacheKey);
+  if (lastAttempt && Date.now() - lastAttempt < IMAGES_REFRESH_RETRY_MS) {
+    return;
+  }
+  refreshAttempts.set(params.cacheKey, Date.now());
+
+  // The request's signal would abort the search once the response is sent
+  runAfterResponse(() => refreshPlaygroundImages({ ...params, signal: undefined }));
+}
+
+/**
+ * Fetch images for a playground: approved user photos first, then search-engine images
+ * With refresh, only the search runs (image health repairs count search results)
+ */
+export async function fetchPlaygroundImages(
+  params: Parameters<typeof fetchSearchedPlaygroundImages>[0],
+): Promise<PlaygroundImage[] | null> {
+  const { osmId, refresh } = params;
+  const [userPhotos, searchedImages] = await Promise.all([
+    osmId && !refresh ? fetchApprovedUserPhotoImages({ osmId }) : Promise.resolve([]),
+    fetchSearchedPlaygroundImages(params),
+  ]);
+
+  if (userPhotos.length === 0 || params.signal?.aborted) {
+    return searchedImages;
+  }
+  return [...userPhotos, ...(searchedImages ?? [])];
+}
+
+/**
+ * Fetch search-engine images for a playground with caching
  * Now supports Gemini-generated search queries for better results
+ * Stale cache entries are returned immediately and refreshed in the background
+ * With refresh, the cache is skipped and the entry is replaced if the search finds images
  */
-export async function fetchPlaygroundImages({
+async function fetchSearchedPlaygroundImages({
   playgroundName,
   city,
   region,
   country,
+  lat,
+  lon,
   osmId,
   signal,
   imageSearchQueries, // NEW: Gemini-generated queries
+  usage,
+  refresh = false,
 }: {
   playgroundName: string;
   city?: string;
   region?: string;
   country?: string;
+  // Playground coordinates (used by location-based sources like Wikimedia and Mapillary)
+  lat?: number;
+  lon?: number;
   osmId?: string;
   signal?: AbortSignal;
   imageSearchQueries?: string[] | null; // NEW: Optional Gemini queries
+  // Route to record cache lookups and searches for (see api-usage.ts)
+  usage?: ApiUsageContext;
+  // Search again even if cached (image health repairs)
+  refresh?: boolean;
 }): Promise<PlaygroundImage[] | null> {
   if (signal?.aborted) {
     return null;
@@ -226,9 +645,27 @@ export async function fetchPlaygroundImages({
     country,
   });
 
+  const searchParams = {
+    playgroundName,
+    city,
+    region,
+    country,
+    lat,
+    lon,
+    osmId,
+    signal,
+    imageSearchQueries,
+    usage: usage && { ...usage, playgroundId: usage.playgroundId ?? osmId ?? cacheKey },
+  };
+
   // Try cache first
-  const cachedImages = await fetchImagesFromCache({ cacheKey });
-  if (cachedImages) {
+  const cachedEntry = refresh ? null : await fetchImagesCacheEntry({ cacheKey });
+  if (usage && !refresh) {
+    const isHit = Boolean(cachedEntry?.images.some((img) => isValidImageUrl(img.image_url)));
+    recordCacheLookups({ service: "custom_search", route: usage.route, hits: isHit ? 1 : 0, misses: isHit ? 0 : 1 });
+  }
+  if (cachedEntry) {
+    const cachedImages = cachedEntry.images;
     // Filter out invalid/inaccessible image URLs (x-raw-image:// format from old cache)
     const validCachedImages = cachedImages.filter(img =>
       isValidImageUrl(img.image_url)
@@ -237,6 +674,20 @@ export async function fetchPlaygroundImages({
     // If all cached images were invalid, treat as cache miss
     if (validCachedImages.length === 0) {
       // Don't return null - fall through to fetch fresh images
+    } else if (validCachedImages.some((img) => !img.source_url)) {
+      // Cached before the image proxy - point the entry at proxied variants
+      const images = await registerProxiedImages(validCachedImages);
+      if (images !== validCachedImages) {
+        await updateCachedImages({ cacheKey, images });
+        runAfterResponse(() => pruneFailedImages({ cacheKey, images }));
+      }
+      if (cachedEntry.isStale) {
+        scheduleImagesRefresh({ ...searchParams, cacheKey, cachedImages: images });
+      }
+      return images;
+    } else if (cachedEntry.isStale) {
+      scheduleImagesRefresh({ ...searchParams, cacheKey, cachedImages: validCachedImages });
+      return validCachedImages;
     } else if (validCachedImages.length < cachedImages.length) {
       // Write back cleaned cache to avoid repeatedly serving invalid entries
       try {
@@ -250,59 +701,20 @@ export async function fetchPlaygroundImages({
     }
   }
 
-  // Cache miss - fetch from Google Custom Search
+  // Cache miss - search the image sources
   try {
-    let rawImages: PlaygroundImage[] = [];
-
-    // NEW: Use Gemini-generated queries if available
-    if (imageSearchQueries && imageSearchQueries.length > 0) {
-      imageSearchQueries.forEach((q, i) => console.log(`[Images]    ${i + 1}. "${q}"`));
-
-      // Search with each query and deduplicate results
-      const allResults: Map<string, PlaygroundImage> = new Map();
-
-      for (const query of imageSearchQueries) {
-        if (signal?.aborted) break;
-
-        const results = await searchImages(query, {
-          maxResults: 10,
-          signal,
-        });
-
-        // Deduplicate by image_url
-        for (const img of results) {
-          if (!allResults.has(img.image_url)) {
-            allResults.set(img.image_url, img);
-          }
-        }
-      }
-
-      // Take first 10 results (already in Google's relevance order)
-      rawImages = Array.from(allResults.values()).slice(0, 10);
-
-    } else {
-      // Fallback to old method if no Gemini queries
-      const imageQuery = buildPlaygroundImageQuery({
-        name: playgroundName,
-        city,
-        region,
-        country,
-      });
-
-      rawImages = await searchImages(imageQuery, {
-        maxResults: 10,
-        signal,
-      });
-    }
+    const rawImages = await searchPlaygroundImages(searchParams);
 
     if (rawImages.length === 0) {
       return null;
     }
 
-    // Save to cache
-    await saveImagesToCache({ cacheKey, images: rawImages });
+    // Save to cache (pointing at the proxy); originals are stored after the response
+    const images = await registerProxiedImages(rawImages);
+    await saveImagesToCache({ cacheKey, images });
+    runAfterResponse(() => pruneFailedImages({ cacheKey, images }));
 
-    return rawImages;
+    return images;
   } catch (error) {
     if (error instanceof DOMException && error.name === "AbortError") {
       return null;
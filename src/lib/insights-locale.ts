@@ -0,0 +1,170 @@
+/**
+ * Insights Locale
+ * Language that AI insights (description, parking, tier reasoning) are written in.
+ *
+ * Insights are cached per locale (see buildAIInsightsCacheKey); the default
+ * locale keeps the original, unprefixed cache keys. Tier, features and
+ * accessibility use a fixed English vocabulary, so lookups fall back to the
+ * default locale for those (see batchFetchLocalizedAIInsightsFromCache).
+ */
+
+type InsightsLanguage = {
+  // Words local sources use for playgrounds (prompt search hints)
+  searchTerms: string[];
+  // Playground words accepted by the description validator
+  keywords: string[];
+  // Words that make a nearby place mention harmless ("near Boston")
+  proximityTerms: string[];
+};
+
+// Languages descriptions can be written in (ISO 639-1)
+const INSIGHTS_LANGUAGES = {
+  en: {
+    searchTerms: ["playground", "play area"],
+    keywords: [],
+    proximityTerms: ["near", "nearby", "like", "similar", "style", "inspired"],
+  },
+  fr: {
+    searchTerms: ["aire de jeux", "parc pour enfants"],
+    keywords: ["aire de jeux", "jeux pour enfants", "toboggan", "balançoire", "escalade", "bac à sable", "tourniquet"],
+    proximityTerms: ["près", "proche", "comme", "style", "inspiré"],
+  },
+  de: {
+    searchTerms: ["Spielplatz", "Kinderspielplatz"],
+    keywords: ["spielplatz", "spielgeräte", "rutsche", "schaukel", "klettergerüst", "klettern", "sandkasten", "wippe"],
+    proximityTerms: ["nahe", "nähe", "wie", "stil", "inspiriert"],
+  },
+  es: {
+    searchTerms: ["parque infantil", "zona de juegos"],
+    keywords: ["parque infantil", "zona de juegos", "juegos infantiles", "tobogán", "columpio", "escalada", "arenero", "arenal"],
+    proximityTerms: ["cerca", "como", "similar", "estilo", "inspirado"],
+  },
+  it: {
+    searchTerms: ["parco giochi", "area giochi"],
+    keywords: ["parco giochi", "area giochi", "giochi per bambini", "scivolo", "altalena", "arrampicata", "sabbiera"],
+    proximityTerms: ["vicino", "come", "simile", "stile", "ispirato"],
+  },
+  nl: {
+    searchTerms: ["speeltuin", "speelplaats"],
+    keywords: ["speeltuin", "speelplaats", "speeltoestel", "glijbaan", "schommel", "klimrek", "klimmen", "zandbak", "wip"],
+    proximityTerms: ["bij", "nabij", "zoals", "stijl", "geïnspireerd"],
+  },
+  pt: {
+    searchTerms: ["parque infantil", "parquinho"],
+    keywords: ["parque infantil", "parquinho", "escorrega", "escorregador", "baloiço", "balanço", "escalada", "caixa de areia"],
+    proximityTerms: ["perto", "próximo", "como", "estilo", "inspirado"],
+  },
+  sv: {
+    searchTerms: ["lekplats", "lekpark"],
+    keywords: ["lekplats", "lekpark", "rutschkana", "gunga", "gungor", "klätterställning", "klättra", "sandlåda"],
+    proximityTerms: ["nära", "som", "liknande", "stil", "inspirerad"],
+  },
+  da: {
+    searchTerms: ["legeplads"],
+    keywords: ["legeplads", "rutsjebane", "gynge", "gynger", "klatrestativ", "klatre", "sandkasse"],
+    proximityTerms: ["nær", "ved", "som", "stil", "inspireret"],
+  },
+  nb: {
+    searchTerms: ["lekeplass"],
+    keywords: ["lekeplass", "sklie", "huske", "disse", "klatrestativ", "klatre", "sandkasse"],
+    proximityTerms: ["nær", "ved", "som", "stil", "inspirert"],
+  },
+  fi: {
+    searchTerms: ["leikkipuisto", "leikkipaikka"],
+    keywords: ["leikkipuisto", "leikkipaikka", "liukumäki", "keinu", "kiipeily", "hiekkalaatikko"],
+    proximityTerms: ["lähellä", "kuten", "tyylinen", "inspiroima"],
+  },
+  pl: {
+    searchTerms: ["plac zabaw"],
+    keywords: ["plac zabaw", "placu zabaw", "zjeżdżalnia", "huśtawka", "huśtawki", "wspinaczka", "piaskownica"],
+    proximityTerms: ["blisko", "obok", "niedaleko", "jak", "styl", "inspirowany"],
+  },
+} as const satisfies Record<string, InsightsLanguage>;
+
+export type InsightsLocale = keyof typeof INSIGHTS_LANGUAGES;
+
+export const SUPPORTED_INSIGHTS_LOCALES = Object.keys(INSIGHTS_LANGUAGES) as InsightsLocale[];
+
+export const DEFAULT_INSIGHTS_LOCALE: InsightsLocale = "en";
+
+// Norwegian is often reported as "no" (or Nynorsk "nn") rather than Bokmål "nb"
+const LANGUAGE_ALIASES: Record<string, InsightsLocale> = {
+  no: "nb",
+  nn: "nb",
+};
+
+/**
+ * Map a language tag ("fr-CA", "de", "en-US") to a supported locale
+ * Unsupported or invalid values fall back to the default locale
+ */
+export function normalizeInsightsLocale(value: unknown): InsightsLocale {
+  if (typeof value !== "string") {
+    return DEFAULT_INSIGHTS_LOCALE;
+  }
+
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  if (Object.hasOwn(INSIGHTS_LANGUAGES, language)) {
+    return language as InsightsLocale;
+  }
+
+  return LANGUAGE_ALIASES[language] || DEFAULT_INSIGHTS_LOCALE;
+}
+
+/**
+ * Insights locale for the current browser (default locale on the server)
+ */
+export function getBrowserInsightsLocale(): InsightsLocale {
+  if (typeof navigator === "undefined") {
+    return DEFAULT_INSIGHTS_LOCALE;
+  }
+
+  // Use the first preferred language we support
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const code = language.toLowerCase().split(/[-_]/)[0];
+    if (Object.hasOwn(INSIGHTS_LANGUAGES, code) || Object.hasOwn(LANGUAGE_ALIASES, code)) {
+      return normalizeInsightsLocale(code);
+    }
+  }
+
+  return DEFAULT_INSIGHTS_LOCALE;
+}
+
+/**
+ * English name of a language ("de" -> "German") for prompts
+ */
+export function getLanguageName(language: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(language) || language;
+  } catch {
+    return language;
+  }
+}
+
+/**
+ * Local words for "playground" in a language (empty if unknown)
+ */
+export function getPlaygroundSearchTerms(language: string): readonly string[] {
+  const code = language.toLowerCase();
+  const locale = Object.hasOwn(INSIGHTS_LANGUAGES, code)
+    ? (code as InsightsLocale)
+    : LANGUAGE_ALIASES[code];
+  return locale ? INSIGHTS_LANGUAGES[locale].searchTerms : [];
+}
+
+/**
+ * Playground keywords for a locale (in addition to the English ones)
+ */
+export function getPlaygroundKeywords(locale: InsightsLocale): readonly string[] {
+  return INSIGHTS_LANGUAGES[locale].keywords;
+}
+
+/**
+ * Proximity words for a locale; English ones always apply
+ */
+export function getProximityTerms(locale: InsightsLocale): string[] {
+  return Array.from(new Set([
+    ...INSIGHTS_LANGUAGES[DEFAULT_INSIGHTS_LOCALE].proximityTerms,
+    ...INSIGHTS_LANGUAGES[locale].proximityTerms,
+  ]));
+}
@@ -0,0 +1,286 @@
+/**
+ * Insights Provenance
+ * Records which grounding sources support each enriched field and how
+ * confident we are in it, so parents can see "how we know this".
+ *
+ * Providers return citations (spans of the response text -> sources). Each
+ * field is matched against the citations on its JSON value and on the text
+ * that explains it:
+ * - name: name, location_verification
+ * - features / accessibility: the field itself, description
+ * - parking: parking
+ * - tier: tier, tier_reasoning
+ * Fields without a citation list every source of the answer (cited: false).
+ *
+ * Confidence per field:
+ * - high: an official source (parks department, government) or 2+ other reliable sources
+ * - medium: one reliable source (wiki, review site, other website)
+ * - low: only social media or blogs, or no source at all
+ * Uncited fields are capped at medium, and the name at the location confidence.
+ */
+
+import type { InsightsProviderResponse } from "@/lib/insights-providers";
+import type { ResultScore } from "@/lib/validators/result-scorer";
+import { getSourceKind } from "@/lib/validators/source-validator";
+import type {
+  AIInsights,
+  FieldConfidence,
+  FieldProvenance,
+  InsightsProvenance,
+  InsightsScore,
+  InsightsSource,
+  ProvenanceField,
+  SourceKind,
+} from "@/types/ai-insights";
+
+export type TextSpan = {
+  start: number;
+  end: number; // exclusive
+};
+
+// JSON fields whose citations count for each provenance field
+const FIELD_SPANS: Record<ProvenanceField, string[]> = {
+  name: ["name", "location_verification"],
+  features: ["features", "description"],
+  accessibility: ["accessibility", "description"],
+  parking: ["parking"],
+  tier: ["tier", "tier_reasoning"],
+};
+
+// Personal posts can't back a claim on their own
+const UNRELIABLE_SOURCE_KINDS: SourceKind[] = ["social", "blog"];
+
+const CONFIDENCE_RANK: Record<FieldConfidence, number> = { low: 0, medium: 1, high: 2 };
+
+function minConfidence(a: FieldConfidence, b: FieldConfidence): FieldConfidence {
+  return CONFIDENCE_RANK[a] <= CONFIDENCE_RANK[b] ? a : b;
+}
+
+/**
+ * Find the value of each top-level field in the first JSON object of a text
+ * Works on raw model output (code fences, trailing commas) without parsing it
+ */
+export function findJsonFieldSpans(text: string): Map<string, TextSpan> {
+  const spans = new Map<string, TextSpan>();
+  const objectStart = text.indexOf("{");
+  if (objectStart < 0) {
+    return spans;
+  }
+
+  let depth = 0;
+  let inString = false;
+  let stringStart = -1;
+  let lastKey: string | null = null;
+  let currentKey: string | null = null;
+  let valueStart = -1;
+
+  const closeValue = (end: number) => {
+    if (currentKey !== null && valueStart >= 0) {
+      let valueEnd = end;
+      while (valueEnd > valueStart && /\s/.test(text[valueEnd - 1])) valueEnd--;
+      spans.set(currentKey, { start: valueStart, end: valueEnd });
+    }
+    currentKey = null;
+    valueStart = -1;
+  };
+
+  for (let i = objectStart; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === "\\") {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+        // A string at the top level before a colon is a key
+        if (depth === 1 && currentKey === null) {
+          lastKey = text.slice(stringStart + 1, i);
+        }
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringStart = i;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      if (depth === 1) {
+        closeValue(i);
+        break;
+      }
+      depth--;
+    } else if (depth === 1 && char === ":" && lastKey !== null && currentKey === null) {
+      currentKey = lastKey;
+      lastKey = null;
+      valueStart = i + 1;
+      while (valueStart < text.length && /\s/.test(text[valueStart])) valueStart++;
+    } else if (depth === 1 && char === ",") {
+      closeValue(i);
+      lastKey = null;
+    }
+  }
+
+  return spans;
+}
+
+function hasValue(insights: AIInsights, field: ProvenanceField): boolean {
+  const value = insights[field];
+  return Array.isArray(value) ? value.length > 0 : value !== null && value !== "";
+}
+
+function rateSources(sources: InsightsSource[]): FieldConfidence {
+  if (sources.some((source) => source.kind === "official")) {
+    return "high";
+  }
+
+  const reliable = sources.filter((source) => !UNRELIABLE_SOURCE_KINDS.includes(source.kind));
+  if (reliable.length >= 2) return "high";
+  if (reliable.length === 1) return "medium";
+  return "low";
+}
+
+/**
+ * Build provenance for parsed insights from the raw provider response
+ * The score is added once the result has been scored (see withProvenanceScore)
+ */
+export function buildInsightsProvenance({
+  response,
+  insights,
+  locationConfidence,
+  locationVerification,
+}: {
+  response: InsightsProviderResponse;
+  insights: AIInsights;
+  locationConfidence: FieldConfidence;
+  locationVerification: string | null;
+}): InsightsProvenance {
+  const sources: InsightsSource[] = response.sources.map((url, index) => {
+    const title = response.sourceTitles?.[index] ?? null;
+    return { url, title, kind: getSourceKind(url, title) };
+  });
+
+  const spans = findJsonFieldSpans(response.text);
+  const citations = response.citations ?? [];
+  const fields: InsightsProvenance["fields"] = {};
+
+  for (const field of Object.keys(FIELD_SPANS) as ProvenanceField[]) {
+    if (!hasValue(insights, field)) continue;
+
+    const fieldSpans = FIELD_SPANS[field]
+      .map((key) => spans.get(key))
+      .filter((span): span is TextSpan => span !== undefined);
+
+    const cited = new Set<number>();
+    for (const citation of citations) {
+      if (fieldSpans.some((span) => citation.start < span.end && citation.end > span.start)) {
+        citation.sources.forEach((index) => cited.add(index));
+      }
+    }
+
+    const isCited = cited.size > 0;
+    const fieldSources = isCited
+      ? Array.from(cited).sort((a, b) => a - b).map((index) => sources[index]).filter(Boolean)
+      : sources;
+
+    let confidence = rateSources(fieldSources);
+    if (!isCited) confidence = minConfidence(confidence, "medium");
+    if (field === "name") confidence = minConfidence(confidence, locationConfidence);
+
+    const provenance: FieldProvenance = {
+      sources: fieldSources.map((source) => source.url),
+      cited: isCited,
+      confidence,
+    };
+    fields[field] = provenance;
+  }
+
+  return {
+    sources,
+    fields,
+    location_confidence: locationConfidence,
+    location_verification: locationVerification,
+    score: null,
+  };
+}
+
+/**
+ * Stored form of a result score (without the raw validation results)
+ */
+export function toInsightsScore(score: ResultScore): InsightsScore {
+  return {
+    overall: score.overallScore,
+    confidence: score.confidence,
+    breakdown: {
+      sources: score.breakdown.sourceScore,
+      description: score.breakdown.descriptionScore,
+      data_completeness: score.breakdown.dataCompletenessScore,
+      location_confidence: score.breakdown.locationConfidenceScore,
+    },
+    flags: score.flags,
+  };
+}
+
+/**
+ * Attach the result score (breakdown and flags) to provenance
+ */
+export function withProvenanceScore(
+  provenance: InsightsProvenance | null,
+  score: ResultScore,
+): InsightsProvenance | null {
+  if (!provenance) {
+    return null;
+  }
+
+  return { ...provenance, score: toInsightsScore(score) };
+}
+
+/**
+ * Mark fields a moderator edited: the answer's sources no longer back them
+ */
+export function withReviewedFields(
+  provenance: InsightsProvenance | null,
+  fields: ProvenanceField[],
+): InsightsProvenance | null {
+  if (!provenance || fields.length === 0) {
+    return provenance;
+  }
+
+  const updatedFields = { ...provenance.fields };
+  for (const field of fields) {
+    updatedFields[field] = { sources: [], cited: false, confidence: "high", reviewed: true };
+  }
+
+  return { ...provenance, fields: updatedFields };
+}
+
+/**
+ * Cite a source that isn't a grounding result (e.g. OpenStreetMap tags) for some fields
+ * The source replaces uncited fields' source lists, and confidence is re-rated
+ */
+export function withProvenanceSource(
+  provenance: InsightsProvenance,
+  source: InsightsSource,
+  fields: ProvenanceField[],
+): InsightsProvenance {
+  const sources = provenance.sources.some((existing) => existing.url === source.url)
+    ? provenance.sources
+    : [...provenance.sources, source];
+  const updatedFields = { ...provenance.fields };
+
+  for (const field of fields) {
+    const existing = updatedFields[field];
+    const fieldSources = existing?.cited
+      ? [...sources.filter((candidate) => existing.sources.includes(candidate.url) && candidate.url !== source.url), source]
+      : [source];
+
+    updatedFields[field] = {
+      sources: fieldSources.map((fieldSource) => fieldSource.url),
+      cited: true,
+      confidence: rateSources(fieldSources),
+    };
+  }
+
+  return { ...provenance, sources, fields: updatedFields };
+}
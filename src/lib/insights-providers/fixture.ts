@@ -0,0 +1,130 @@
+/**
+ * Local fixture insights provider
+ *
+ * Reads canned model responses from disk so the whole enrichment pipeline
+ * (parsing, validation, scoring, caching) can run offline in dev and tests.
+ *
+ * Lookup order inside INSIGHTS_FIXTURES_DIR (default: fixtures/insights):
+ * 1. {osmId}.json (e.g., "W969448818.json")
+ * 2. {lat},{lon}.json with 6 decimal places (e.g., "38.889500,-77.035300.json")
+ * 3. default.json
+ *
+ * Fixture format:
+ * {
+ *   "response": { ...model JSON... },   // or "text": "raw model output"
+ *   "sources": ["https://..."],
+ *   "sourceTitles": ["example.gov"],    // optional, same order as sources
+ *   "citations": [{ "field": "features", "sources": [0] }]  // optional
+ * }
+ *
+ * Citations name a top-level JSON field instead of text offsets, since the
+ * fixture text is generated; they are resolved against the final text.
+ *
+ * String values may contain {{name}}, {{city}}, {{region}}, {{country}},
+ * {{latitude}} and {{longitude}} placeholders, which are filled from the request.
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import type {
+  InsightsCitation,
+  InsightsProvider,
+  InsightsProviderRequest,
+  InsightsProviderResponse,
+} from "@/lib/insights-providers";
+import { findJsonFieldSpans } from "@/lib/insights-provenance";
+
+type InsightsFixture = {
+  response?: unknown;
+  text?: string;
+  sources?: string[];
+  sourceTitles?: (string | null)[];
+  citations?: { field: string; sources: number[] }[];
+};
+
+function getFixturesDir(): string {
+  return process.env.INSIGHTS_FIXTURES_DIR || join(process.cwd(), "fixtures", "insights");
+}
+
+async function readFixture(fileName: string): Promise<InsightsFixture | null> {
+  try {
+    const content = await readFile(join(getFixturesDir(), fileName), "utf-8");
+    return JSON.parse(content) as InsightsFixture;
+  } catch (error) {
+    if (error && typeof error === "object" && "code" in error && error.code === "ENOENT") {
+      return null;
+    }
+    console.error(`[InsightsFixture] ❌ Failed to read fixture ${fileName}:`, error);
+    return null;
+  }
+}
+
+function fillPlaceholders(text: string, request: InsightsProviderRequest): string {
+  const { location, name } = request;
+  const values: Record<string, string> = {
+    name: name || "Neighborhood Playground",
+    city: location.city || "",
+    region: location.region || "",
+    country: location.country,
+    latitude: location.latitude.toFixed(6),
+    longitude: location.longitude.toFixed(6),
+  };
+
+  // Escape values so placeholders inside JSON strings keep the fixture valid JSON
+  return text.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+    key in values ? JSON.stringify(values[key]).slice(1, -1) : match,
+  );
+}
+
+function resolveFieldCitations(
+  text: string,
+  citations: InsightsFixture["citations"],
+): InsightsCitation[] | undefined {
+  if (!citations) {
+    return undefined;
+  }
+
+  const spans = findJsonFieldSpans(text);
+  return citations.flatMap(({ field, sources }) => {
+    const span = spans.get(field);
+    return span ? [{ ...span, sources }] : [];
+  });
+}
+
+export function createFixtureInsightsProvider(): InsightsProvider {
+  return {
+    id: "fixture",
+    async generateInsights(
+      request: InsightsProviderRequest,
+    ): Promise<InsightsProviderResponse | null> {
+      if (request.signal?.aborted) {
+        return null;
+      }
+
+      const { location, osmId } = request;
+      const candidates = [
+        osmId ? `${osmId}.json` : null,
+        `${location.latitude.toFixed(6)},${location.longitude.toFixed(6)}.json`,
+        "default.json",
+      ].filter((fileName): fileName is string => fileName !== null);
+
+      for (const fileName of candidates) {
+        const fixture = await readFixture(fileName);
+        if (!fixture) continue;
+
+        const rawText = fixture.text ?? JSON.stringify(fixture.response ?? {}, null, 2);
+        const text = fillPlaceholders(rawText, request);
+
+        return {
+          text,
+          sources: (fixture.sources ?? []).map((source) => fillPlaceholders(source, request)),
+          sourceTitles: fixture.sourceTitles,
+          citations: resolveFieldCitations(text, fixture.citations),
+        };
+      }
+
+      console.warn(`[InsightsFixture] ⚠️ No fixture found for ${osmId || `${location.latitude},${location.longitude}`}`);
+      return null;
+    },
+  };
+}
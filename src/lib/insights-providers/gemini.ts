@@ -0,0 +1,145 @@
+/**
+ * Google Gemini insights provider
+ *
+ * Sends the enrichment prompt to Gemini with Google Search grounding and
+ * returns the raw text plus grounding source URLs, their titles and which
+ * parts of the text each source supports.
+ *
+ * Rate Limits:
+ * - Gemini: Free tier 15 RPM, Paid tier 2,000 RPM (gemini-2.0-flash)
+ *
+ * @see https://ai.google.dev/ - Google Gemini API docs
+ */
+
+import { GoogleGenAI, type GenerateContentResponse, type Tool } from "@google/genai";
+import type {
+  InsightsCitation,
+  InsightsProvider,
+  InsightsProviderRequest,
+  InsightsProviderResponse,
+} from "@/lib/insights-providers";
+
+// Grounding segments are byte offsets into the UTF-8 text; citations use string offsets
+function toCharOffset(bytes: Buffer, byteOffset: number): number {
+  return bytes.subarray(0, byteOffset).toString("utf-8").length;
+}
+
+export function createGeminiInsightsProvider(): InsightsProvider {
+  let genai: GoogleGenAI | null = null;
+
+  return {
+    id: "gemini",
+    async generateInsights({
+      prompt,
+      signal,
+    }: InsightsProviderRequest): Promise<InsightsProviderResponse | null> {
+      if (signal?.aborted) {
+        return null;
+      }
+
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error("Gemini API key is missing");
+      }
+
+      // Initialize Google Gemini client lazily so a missing key only fails on use
+      // Note: Don't specify apiVersion - SDK will use the correct default for google_search
+      genai ??= new GoogleGenAI({ apiKey });
+
+      // Configure grounding with Google Search
+      const groundingTool: Tool = {
+        googleSearch: {}
+      };
+
+      try {
+        // Generate content with web search grounding
+        const model = process.env.GEMINI_MODEL ?? "gemini-2.0-flash-exp";
+        const temperature = Number(process.env.GEMINI_TEMPERATURE ?? 0.2);
+
+        const response: GenerateContentResponse = await genai.models.generateContent({
+          model,
+          contents: prompt,
+          config: {
+            temperature,
+            tools: [groundingTool],
+            // Try without responseMimeType first to see if that's causing issues
+            // responseMimeType: 'application/json',
+          },
+        });
+
+        if (signal?.aborted) {
+          return null;
+        }
+
+        // Check for blocked content or other issues
+        const candidate = response.candidates?.[0];
+        if (!candidate) {
+          console.error('[Gemini] ❌ No candidates in response');
+          return null;
+        }
+
+        // Check finish reason
+        if (candidate.finishReason && candidate.finishReason !== 'STOP') {
+          if (candidate.finishReason === 'SAFETY') {
+            console.warn('[Gemini] ⚠️ Content blocked by safety filters');
+          } else {
+            console.warn('[Gemini] ⚠️ Unexpected finish reason:', candidate.finishReason);
+          }
+        }
+
+        // Extract the text response
+        const contentText = candidate.content?.parts?.[0]?.text;
+        if (!contentText) {
+          console.warn('[Gemini] ⚠️ No content in response');
+          return null;
+        }
+
+        // Extract sources from grounding metadata
+        const sources: string[] = [];
+        const sourceTitles: (string | null)[] = [];
+        const sourceIndexByChunk = new Map<number, number>();
+        (candidate.groundingMetadata?.groundingChunks ?? []).forEach((chunk, chunkIndex) => {
+          if (chunk.web?.uri) {
+            sourceIndexByChunk.set(chunkIndex, sources.length);
+            sources.push(chunk.web.uri);
+            sourceTitles.push(chunk.web.title ?? null);
+          }
+        });
+
+        // Map grounding supports (text segment -> chunks) onto the text
+        const bytes = Buffer.from(contentText, "utf-8");
+        const citations: InsightsCitation[] = [];
+        for (const support of candidate.groundingMetadata?.groundingSupports ?? []) {
+          const segment = support.segment;
+          if (!segment || (segment.partIndex ?? 0) !== 0 || segment.endIndex == null) continue;
+
+          const supportSources = (support.groundingChunkIndices ?? [])
+            .map((chunkIndex) => sourceIndexByChunk.get(chunkIndex))
+            .filter((index): index is number => index !== undefined);
+          if (supportSources.length === 0) continue;
+
+          citations.push({
+            start: toCharOffset(bytes, segment.startIndex ?? 0),
+            end: toCharOffset(bytes, segment.endIndex),
+            sources: supportSources,
+          });
+        }
+
+        const usage = {
+          inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+          outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+        };
+
+        return { text: contentText, sources, sourceTitles, citations, usage };
+      } catch (error) {
+        // Check if it's a rate limit error
+        if (error && typeof error === 'object' && 'status' in error && error.status === 429) {
+          console.warn('[Gemini] ⚠️ Rate limit exceeded - consider upgrading to paid tier');
+        } else {
+          console.error('[Gemini] ❌ API error:', error);
+        }
+        throw error;
+      }
+    },
+  };
+}
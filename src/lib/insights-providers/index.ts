@@ -0,0 +1,84 @@
+/**
+ * AI Insights Providers
+ *
+ * The enrichment pipeline (src/lib/gemini.ts) builds the prompt, parses the
+ * model output, validates and caches it. Providers only turn a prompt into a
+ * raw model response, so switching vendors (or running offline) never touches
+ * the route handlers or the validation layers.
+ *
+ * Available providers (select with INSIGHTS_PROVIDER):
+ * - "gemini": Google Gemini with Google Search grounding (default)
+ * - "fixture": Deterministic canned JSON from disk for offline dev and tests
+ */
+
+import { AILocation } from "@/types/ai-insights";
+import { createGeminiInsightsProvider } from "@/lib/insights-providers/gemini";
+import { createFixtureInsightsProvider } from "@/lib/insights-providers/fixture";
+
+export interface InsightsProviderRequest {
+  prompt: string;
+  location: AILocation;
+  name?: string;
+  osmId?: string;
+  signal?: AbortSignal;
+}
+
+// A span of the response text and the sources supporting it
+export interface InsightsCitation {
+  // Character offsets into InsightsProviderResponse.text (end is exclusive)
+  start: number;
+  end: number;
+  // Indexes into InsightsProviderResponse.sources
+  sources: number[];
+}
+
+export interface InsightsProviderResponse {
+  // Raw model output - expected to be JSON, possibly wrapped in a markdown code block
+  text: string;
+  // Source URLs the model grounded its answer on
+  sources: string[];
+  // Site names for the sources, same order (e.g. "cityofpaloalto.org")
+  sourceTitles?: (string | null)[];
+  // Which parts of the text each source supports (used for field provenance)
+  citations?: InsightsCitation[];
+  // Token counts reported by the model (used for cost estimates)
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface InsightsProvider {
+  id: string;
+  generateInsights(
+    request: InsightsProviderRequest,
+  ): Promise<InsightsProviderResponse | null>;
+}
+
+const INSIGHTS_PROVIDER_FACTORIES: Record<string, () => InsightsProvider> = {
+  gemini: createGeminiInsightsProvider,
+  fixture: createFixtureInsightsProvider,
+};
+
+const providerInstances = new Map<string, InsightsProvider>();
+
+/**
+ * Resolve the configured insights provider (INSIGHTS_PROVIDER, defaults to "gemini")
+ * Instances are reused across requests
+ */
+export function getInsightsProvider(
+  id: string = process.env.INSIGHTS_PROVIDER || "gemini",
+): InsightsProvider {
+  const existing = providerInstances.get(id);
+  if (existing) {
+    return existing;
+  }
+
+  const factory = INSIGHTS_PROVIDER_FACTORIES[id];
+  if (!factory) {
+    throw new Error(
+      `Unknown insights provider "${id}". Available: ${Object.keys(INSIGHTS_PROVIDER_FACTORIES).join(", ")}`,
+    );
+  }
+
+  const provider = factory();
+  providerInstances.set(id, provider);
+  return provider;
+}
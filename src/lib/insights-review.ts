@@ -0,0 +1,484 @@
+/**
+ * Insights Review Queue
+ * Borderline AI results - accepted by scoreResult but below the cache
+ * threshold - are held for moderation instead of being thrown away.
+ *
+ * Flow:
+ * 1. fetchGeminiInsightsWithCache saves the result as "pending" together with
+ *    its score, flags, location verification and the raw model response
+ * 2. While pending, the result is served for its cache key, so visitors don't
+ *    re-trigger a paid model call
+ * 3. Admins (APP_ADMIN_ROLE) review it at /admin/reviews: approve (promote to
+ *    the cache, optionally with edits), edit, or reject with a reason
+ * 4. A rejected result is not served (the OSM tag result is) and the cache
+ *    key is not re-enriched until the cache version changes
+ * 5. Reviewed results become eval cases (scripts/eval-enrichment.ts --import-reviews)
+ *
+ * Table is defined in supabase-schema.sql (section 7).
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { saveAIInsightsToCache } from "@/lib/cache";
+import type { InsightsProviderResponse } from "@/lib/insights-providers";
+import { normalizeInsightsLocale, type InsightsLocale } from "@/lib/insights-locale";
+import { withReviewedFields } from "@/lib/insights-provenance";
+import { reconcilePlaygroundTier } from "@/lib/tier-calculator";
+import {
+  normalizeAccessibility,
+  normalizeFeature,
+} from "@/lib/validators/insights-schema";
+import type {
+  AIInsights,
+  AILocation,
+  InsightsScore,
+  ProvenanceField,
+} from "@/types/ai-insights";
+
+const INSIGHTS_REVIEWS_TABLE_NAME =
+  process.env.INSIGHTS_REVIEWS_TABLE_NAME || "insights_reviews";
+
+export const INSIGHTS_REVIEW_COLUMNS =
+  "id, cache_key, osm_id, osm_name, location, locale, insights, score, location_verification, response, status, rejection_reason, reviewed_by, reviewed_at, created_at, updated_at";
+
+// Longest rejection reason kept
+const MAX_REJECTION_REASON_LENGTH = 500;
+
+export type InsightsReviewStatus = "pending" | "approved" | "rejected";
+
+export type InsightsReviewRow = {
+  id: number;
+  cache_key: string;
+  osm_id: string | null;
+  osm_name: string | null;
+  location: AILocation;
+  locale: string | null;
+  insights: AIInsights;
+  score: InsightsScore;
+  location_verification: string | null;
+  response: InsightsProviderResponse | null;
+  status: InsightsReviewStatus;
+  rejection_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export interface InsightsReview {
+  id: number;
+  cacheKey: string;
+  osmId: string | null;
+  // OSM name passed to the prompt
+  osmName: string | null;
+  location: AILocation;
+  locale: InsightsLocale;
+  insights: AIInsights;
+  score: InsightsScore;
+  locationVerification: string | null;
+  // Raw model response, kept so the case can be replayed in the eval
+  response: InsightsProviderResponse | null;
+  status: InsightsReviewStatus;
+  rejectionReason: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fields an admin may edit before approving
+export type InsightsReviewEdits = Partial<
+  Pick<
+    AIInsights,
+    "name" | "description" | "features" | "parking" | "accessibility" | "tier" | "tier_reasoning"
+  >
+>;
+
+export function toInsightsReview(row: InsightsReviewRow): InsightsReview {
+  return {
+    id: row.id,
+    cacheKey: row.cache_key,
+    osmId: row.osm_id,
+    osmName: row.osm_name,
+    location: row.location,
+    locale: normalizeInsightsLocale(row.locale),
+    insights: row.insights,
+    score: row.score,
+    locationVerification: row.location_verification,
+    response: row.response,
+    status: row.status,
+    rejectionReason: row.rejection_reason,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const PLAYGROUND_TIERS = ["neighborhood", "gem", "star"];
+
+function readEditText(value: unknown): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== "string") throw new Error("expected a string");
+  return value.trim() || null;
+}
+
+function readEditList(
+  value: unknown,
+  normalize: (value: string) => string | null,
+): string[] | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (!Array.isArray(value)) throw new Error("expected a list");
+
+  const items = new Set<string>();
+  for (const item of value) {
+    const normalized = typeof item === "string" ? normalize(item) : null;
+    if (!normalized) throw new Error(`unknown value ${JSON.stringify(item)}`);
+    items.add(normalized);
+  }
+  return Array.from(items);
+}
+
+function readEditTier(value: unknown): AIInsights["tier"] | undefined {
+  if (value === undefined || value === null) return value;
+  if (typeof value !== "string" || !PLAYGROUND_TIERS.includes(value)) {
+    throw new Error(`unknown value ${JSON.stringify(value)}`);
+  }
+  return value as AIInsights["tier"];
+}
+
+const EDIT_READERS: Record<keyof InsightsReviewEdits, (value: unknown) => unknown> = {
+  name: readEditText,
+  description: readEditText,
+  parking: readEditText,
+  tier_reasoning: readEditText,
+  features: (value) => readEditList(value, normalizeFeature),
+  accessibility: (value) => readEditList(value, normalizeAccessibility),
+  tier: readEditTier,
+};
+
+/**
+ * Validate admin edits from a request body
+ * Features and accessibility must use the controlled vocabulary
+ * Returns an error message for invalid input
+ */
+export function parseInsightsReviewEdits(
+  body: unknown,
+): { edits: InsightsReviewEdits } | { error: string } {
+  if (body === undefined || body === null) {
+    return { edits: {} };
+  }
+  if (typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Edits must be an object" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const edits: Record<string, unknown> = {};
+  for (const [field, read] of Object.entries(EDIT_READERS)) {
+    try {
+      const value = read(input[field]);
+      if (value !== undefined) edits[field] = value;
+    } catch (error) {
+      return { error: `${field}: ${(error as Error).message}` };
+    }
+  }
+
+  return { edits: edits as InsightsReviewEdits };
+}
+
+/**
+ * Hold a borderline result for review
+ * Only one pending review exists per cache key; later saves are ignored
+ */
+export async function saveInsightsForReview({
+  cacheKey,
+  osmId,
+  osmName,
+  location,
+  locale,
+  insights,
+  score,
+  locationVerification,
+  response,
+}: {
+  cacheKey: string;
+  osmId?: string;
+  osmName?: string;
+  location: AILocation;
+  locale: InsightsLocale;
+  insights: AIInsights;
+  score: InsightsScore;
+  locationVerification: string | null;
+  response: InsightsProviderResponse | null;
+}): Promise<void> {
+  try {
+    // Server only: a queued result is served to every visitor
+    const supabase = createServiceClient();
+
+    const { error } = await supabase.from(INSIGHTS_REVIEWS_TABLE_NAME).insert({
+      cache_key: cacheKey,
+      osm_id: osmId ?? null,
+      osm_name: osmName ?? null,
+      location,
+      locale,
+      insights,
+      score,
+      location_verification: locationVerification,
+      response,
+      status: "pending",
+    });
+
+    // 23505: a review is already pending for this cache key
+    if (error && error.code !== "23505") {
+      console.error("[InsightsReview] ❌ Error saving result for review:", error);
+    }
+  } catch (error) {
+    console.error("[InsightsReview] ❌ Error saving result for review:", error);
+  }
+}
+
+/**
+ * Latest unapproved review for a cache key
+ * - pending: serve its insights instead of calling the model again
+ * - rejected: serve nothing and don't re-enrich
+ * Returns null when there is none (or it was approved)
+ */
+export async function fetchOpenInsightsReview({
+  cacheKey,
+}: {
+  cacheKey: string;
+}): Promise<Pick<InsightsReview, "id" | "status" | "insights"> | null> {
+  try {
+    // Visitors can't read the table (reviewer emails, raw responses) - only these columns are served
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from(INSIGHTS_REVIEWS_TABLE_NAME)
+      .select("id, status, insights")
+      .eq("cache_key", cacheKey)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data || data.status === "approved") {
+      return null;
+    }
+
+    return data as Pick<InsightsReview, "id" | "status" | "insights">;
+  } catch (error) {
+    console.error("[InsightsReview] ❌ Error fetching review:", error);
+    return null;
+  }
+}
+
+/**
+ * List reviews, newest first
+ */
+export async function listInsightsReviews({
+  status,
+  limit = 50,
+}: {
+  status?: InsightsReviewStatus;
+  limit?: number;
+}): Promise<InsightsReview[]> {
+  try {
+    const supabase = await createClient();
+
+    let query = supabase
+      .from(INSIGHTS_REVIEWS_TABLE_NAME)
+      .select(INSIGHTS_REVIEW_COLUMNS)
+      .order(status === "pending" ? "created_at" : "updated_at", { ascending: false })
+      .limit(limit);
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("[InsightsReview] ❌ Error listing reviews:", error);
+      return [];
+    }
+
+    return ((data ?? []) as InsightsReviewRow[]).map(toInsightsReview);
+  } catch (error) {
+    console.error("[InsightsReview] ❌ Error listing reviews:", error);
+    return [];
+  }
+}
+
+async function updatePendingReview(
+  id: number,
+  update: Partial<InsightsReviewRow>,
+): Promise<InsightsReview | null> {
+  const supabase = await createClient();
+
+  // Only pending reviews can change; a concurrent decision wins
+  const { data, error } = await supabase
+    .from(INSIGHTS_REVIEWS_TABLE_NAME)
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "pending")
+    .select(INSIGHTS_REVIEW_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[InsightsReview] ❌ Error updating review ${id}:`, error);
+    return null;
+  }
+
+  return data ? toInsightsReview(data as InsightsReviewRow) : null;
+}
+
+async function fetchPendingReview(id: number): Promise<InsightsReview | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from(INSIGHTS_REVIEWS_TABLE_NAME)
+    .select(INSIGHTS_REVIEW_COLUMNS)
+    .eq("id", id)
+    .eq("status", "pending")
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return toInsightsReview(data as InsightsReviewRow);
+}
+
+// Edited fields whose provenance is replaced by the moderator's edit
+const REVIEWED_PROVENANCE_FIELDS: ProvenanceField[] = ["name", "features", "parking", "accessibility"];
+
+/**
+ * Apply admin edits to reviewed insights
+ * The tier is reconciled again (an edited tier stands in for the model's label),
+ * and edited fields are marked as reviewed in the provenance
+ */
+function applyInsightsReviewEdits(insights: AIInsights, edits: InsightsReviewEdits): AIInsights {
+  if (Object.keys(edits).length === 0) {
+    return insights;
+  }
+
+  const edited: AIInsights = { ...insights, ...edits };
+  // tier holds the reconciled tier - reconcile from the model's label unless the admin set one
+  const modelTier = insights.tier_score ? insights.tier_score.model_tier : insights.tier;
+  const { tier, tierScore } = reconcilePlaygroundTier({ ...edited, tier: edits.tier ?? modelTier });
+
+  const isChanged = (field: ProvenanceField) =>
+    field in edits && JSON.stringify(edited[field]) !== JSON.stringify(insights[field]);
+  const reviewedFields = REVIEWED_PROVENANCE_FIELDS.filter(isChanged);
+  if (edits.tier !== undefined && edits.tier !== modelTier) {
+    reviewedFields.push("tier");
+  }
+
+  return {
+    ...edited,
+    tier,
+    tier_score: tierScore,
+    provenance: withReviewedFields(insights.provenance, reviewedFields),
+  };
+}
+
+/**
+ * Save edits to a pending review (it stays pending and is served with the edits)
+ * Returns null if the review doesn't exist or was already decided
+ */
+export async function editInsightsReview({
+  id,
+  edits,
+}: {
+  id: number;
+  edits: InsightsReviewEdits;
+}): Promise<InsightsReview | null> {
+  try {
+    const review = await fetchPendingReview(id);
+    if (!review) {
+      return null;
+    }
+
+    return await updatePendingReview(id, { insights: applyInsightsReviewEdits(review.insights, edits) });
+  } catch (error) {
+    console.error(`[InsightsReview] ❌ Error editing review ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Approve a pending review (with optional edits) and promote it to the cache
+ * Returns null if the review doesn't exist or was already decided
+ */
+export async function approveInsightsReview({
+  id,
+  edits = {},
+  reviewedBy,
+}: {
+  id: number;
+  edits?: InsightsReviewEdits;
+  reviewedBy: string;
+}): Promise<InsightsReview | null> {
+  try {
+    const review = await fetchPendingReview(id);
+    if (!review) {
+      return null;
+    }
+
+    const approved = await updatePendingReview(id, {
+      insights: applyInsightsReviewEdits(review.insights, edits),
+      status: "approved",
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString(),
+    });
+    if (!approved) {
+      return null;
+    }
+
+    await saveAIInsightsToCache({
+      cacheKey: approved.cacheKey,
+      insights: approved.insights,
+      refreshInput: {
+        location: approved.location,
+        name: approved.osmName ?? undefined,
+        osmId: approved.osmId ?? undefined,
+        locale: approved.locale,
+      },
+    });
+    console.log(`[InsightsReview] ✅ Approved review ${id} (${approved.cacheKey})`);
+    return approved;
+  } catch (error) {
+    console.error(`[InsightsReview] ❌ Error approving review ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reject a pending review with a reason
+ * Returns null if the review doesn't exist or was already decided
+ */
+export async function rejectInsightsReview({
+  id,
+  reason,
+  reviewedBy,
+}: {
+  id: number;
+  reason: string;
+  reviewedBy: string;
+}): Promise<InsightsReview | null> {
+  try {
+    const rejected = await updatePendingReview(id, {
+      status: "rejected",
+      rejection_reason: reason.trim().slice(0, MAX_REJECTION_REASON_LENGTH),
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString(),
+    });
+
+    if (rejected) {
+      console.log(`[InsightsReview] 🚫 Rejected review ${id} (${rejected.cacheKey}): ${rejected.rejectionReason}`);
+    }
+    return rejected;
+  } catch (error) {
+    console.error(`[InsightsReview] ❌ Error rejecting review ${id}:`, error);
+    return null;
+  }
+}
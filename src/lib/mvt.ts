@@ -0,0 +1,172 @@
+/**
+ * Minimal Mapbox Vector Tile (MVT 2.1) encoder for point layers
+ * Spec: https://github.com/mapbox/vector-tile-spec/tree/master/2.1
+ *
+ * Only what the playground layer needs: POINT geometries with string,
+ * number and boolean properties. Coordinates are tile-local (0..extent).
+ */
+
+export type MVTPropertyValue = string | number | boolean;
+
+export type MVTPointFeature = {
+  id?: number;
+  x: number;
+  y: number;
+  properties: Record<string, MVTPropertyValue | null | undefined>;
+};
+
+export type MVTLayer = {
+  name: string;
+  extent?: number;
+  features: MVTPointFeature[];
+};
+
+export const MVT_EXTENT = 4096;
+
+// Protobuf wire types
+const WIRE_VARINT = 0;
+const WIRE_64BIT = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+
+// Geometry commands
+const COMMAND_MOVE_TO = 1;
+const GEOM_TYPE_POINT = 1;
+
+/**
+ * Growable protobuf byte writer
+ */
+class ProtobufWriter {
+  private bytes: number[] = [];
+
+  // Unsigned varint; arithmetic (not bitwise) so ids above 2^32 survive
+  varint(value: number): this {
+    let remaining = Math.floor(value);
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytes.push(remaining);
+    return this;
+  }
+
+  tag(field: number, wireType: number): this {
+    return this.varint(field * 8 + wireType);
+  }
+
+  double(value: number): this {
+    const buffer = new DataView(new ArrayBuffer(8));
+    buffer.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) {
+      this.bytes.push(buffer.getUint8(i));
+    }
+    return this;
+  }
+
+  bytesField(field: number, bytes: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED).varint(bytes.length);
+    for (const byte of bytes) {
+      this.bytes.push(byte);
+    }
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.bytesField(field, new TextEncoder().encode(value));
+  }
+
+  packedVarints(field: number, values: number[]): this {
+    const packed = new ProtobufWriter();
+    values.forEach((value) => packed.varint(value));
+    return this.bytesField(field, packed.finish());
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+// Value message: string_value = 1, double_value = 3, uint_value = 5, sint_value = 6, bool_value = 7
+function encodeValue(value: MVTPropertyValue): Uint8Array {
+  const writer = new ProtobufWriter();
+
+  if (typeof value === "string") {
+    writer.string(1, value);
+  } else if (typeof value === "boolean") {
+    writer.tag(7, WIRE_VARINT).varint(value ? 1 : 0);
+  } else if (Number.isInteger(value) && value >= 0) {
+    writer.tag(5, WIRE_VARINT).varint(value);
+  } else if (Number.isInteger(value)) {
+    writer.tag(6, WIRE_VARINT).varint(zigzag(value));
+  } else {
+    writer.tag(3, WIRE_64BIT).double(value);
+  }
+
+  return writer.finish();
+}
+
+function encodeLayer(layer: MVTLayer): Uint8Array {
+  const keys: string[] = [];
+  const keyIndex = new Map<string, number>();
+  const values: MVTPropertyValue[] = [];
+  const valueIndex = new Map<string, number>();
+
+  const features = layer.features.map((feature) => {
+    const tags: number[] = [];
+
+    for (const [key, value] of Object.entries(feature.properties)) {
+      if (value === null || value === undefined) {
+        continue;
+      }
+
+      if (!keyIndex.has(key)) {
+        keyIndex.set(key, keys.length);
+        keys.push(key);
+      }
+
+      // Values are deduplicated per type ("1" and 1 are different values)
+      const valueKey = `${typeof value}:${value}`;
+      if (!valueIndex.has(valueKey)) {
+        valueIndex.set(valueKey, values.length);
+        values.push(value);
+      }
+
+      tags.push(keyIndex.get(key)!, valueIndex.get(valueKey)!);
+    }
+
+    const writer = new ProtobufWriter();
+    if (feature.id !== undefined) {
+      writer.tag(1, WIRE_VARINT).varint(feature.id);
+    }
+    writer.packedVarints(2, tags);
+    writer.tag(3, WIRE_VARINT).varint(GEOM_TYPE_POINT);
+    // MoveTo(1) followed by the zigzag-encoded point
+    writer.packedVarints(4, [
+      (COMMAND_MOVE_TO & 0x7) | (1 << 3),
+      zigzag(feature.x),
+      zigzag(feature.y),
+    ]);
+    return writer.finish();
+  });
+
+  const writer = new ProtobufWriter();
+  writer.tag(15, WIRE_VARINT).varint(2); // version
+  writer.string(1, layer.name);
+  features.forEach((feature) => writer.bytesField(2, feature));
+  keys.forEach((key) => writer.string(3, key));
+  values.forEach((value) => writer.bytesField(4, encodeValue(value)));
+  writer.tag(5, WIRE_VARINT).varint(layer.extent ?? MVT_EXTENT);
+  return writer.finish();
+}
+
+/**
+ * Encode point layers as a vector tile (application/vnd.mapbox-vector-tile)
+ */
+export function encodePointTile(layers: MVTLayer[]): Uint8Array {
+  const writer = new ProtobufWriter();
+  layers.forEach((layer) => writer.bytesField(3, encodeLayer(layer)));
+  return writer.finish();
+}
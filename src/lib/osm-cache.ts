@@ -2,183 +2,268 @@ import { MapBounds } from "@/types/map";
 import { OSMQueryResults } from "@/types/osm";
 import { createClient } from "@/lib/supabase/server";
 import { OSM_CACHE_VERSION } from "@/lib/cache-keys";
+import { runOSMQuery } from "@/lib/osm";
+import { overpassLimiter } from "@/lib/rate-limiter";
+import {
+  getCoveringTiles,
+  getTileBounds,
+  getTileForPoint,
+  type MapTile,
+} from "@/lib/tiles";
 
 // Cache configuration
-const OSM_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const OSM_CACHE_TABLE_NAME = "osm_query_cache";
-const MAX_CACHE_ENTRIES = 10000; // LRU eviction threshold
+const OSM_CACHE_TTL_MS = parseInt(
+  process.env.OSM_CACHE_TTL_MS || String(24 * 60 * 60 * 1000), // 24 hours
+);
+const OSM_CACHE_TABLE_NAME = process.env.OSM_QUERY_CACHE_TABLE_NAME || "osm_query_cache";
+
+// Playgrounds are cached per slippy-map tile at one fixed zoom, so any viewport
+// is assembled from the same tiles (z13 tiles are ~4km wide at mid latitudes)
+export const OSM_CACHE_TILE_ZOOM = parseInt(process.env.OSM_CACHE_TILE_ZOOM || "13");
+
+// Viewports covering more tiles than this (zoomed far out) skip the tile cache
+export const MAX_TILES_PER_VIEWPORT = 256;
+
+// Overpass limit when filling missing tiles; tiles from a truncated response aren't cached
+const TILE_QUERY_LIMIT = 5000;
+
+// Expired tiles are deleted at most this often per server instance
+const EVICTION_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+let lastEvictionAt = 0;
 
 /**
- * Generates a cache key for OSM queries based on quantized bounding box and zoom level.
- * Quantization reduces cache fragmentation by grouping similar queries together.
+ * Generates the cache key for a tile, e.g. "v1:osm-tile:13/1316/3176"
  *
- * @param bounds - Map bounding box
- * @param zoom - Current zoom level
+ * @param tile - Slippy-map tile
  * @returns Cache key string
  */
-export function generateOSMCacheKey(bounds: MapBounds, zoom: number): string {
-  // Quantize coordinates based on zoom level
-  // Higher zoom = higher precision (more decimal places)
-  // Lower zoom = lower precision (fewer decimal places, more cache hits)
-  const precision = Math.max(2, 6 - Math.floor(zoom / 3));
-
-  const north = bounds.north.toFixed(precision);
-  const south = bounds.south.toFixed(precision);
-  const east = bounds.east.toFixed(precision);
-  const west = bounds.west.toFixed(precision);
-  const zoomBucket = Math.floor(zoom); // Group by integer zoom
-
-  return `${OSM_CACHE_VERSION}:osm:${north}:${south}:${east}:${west}:${zoomBucket}`;
+export function generateOSMTileCacheKey({ z, x, y }: MapTile): string {
+  return `${OSM_CACHE_VERSION}:osm-tile:${z}/${x}/${y}`;
+}
+
+function getElementPosition(element: OSMQueryResults): { lat: number; lon: number } | null {
+  const position = element.type === "node" ? element : element.center;
+  if (position?.lat == null || position?.lon == null) {
+    return null;
+  }
+  return { lat: position.lat, lon: position.lon };
 }
 
 /**
- * Checks if a cache entry has expired based on TTL.
+ * Checks if a tile has expired based on TTL.
  *
- * @param createdAt - ISO timestamp of cache creation
- * @returns True if cache has expired
+ * @param createdAt - ISO timestamp of when the tile was fetched
+ * @returns True if the tile has expired
  */
-function isCacheExpired(createdAt: string): boolean {
-  const now = Date.now();
-  const created = new Date(createdAt).getTime();
-  return now - created > OSM_CACHE_TTL_MS;
+function isTileExpired(createdAt: string): boolean {
+  return Date.now() - new Date(createdAt).getTime() > OSM_CACHE_TTL_MS;
 }
 
 /**
- * Fetches OSM query results from cache.
+ * Fetches fresh tiles from cache.
  *
- * @param cacheKey - Cache key generated by generateOSMCacheKey
- * @returns Cached playgrounds or null if cache miss/expired
+ * @param tiles - Tiles to look up
+ * @returns Cached playgrounds by tile cache key (missing and expired tiles are absent)
  */
-export async function fetchOSMFromCache(
-  cacheKey: string
-): Promise<OSMQueryResults[] | null> {
+export async function fetchOSMTilesFromCache(
+  tiles: MapTile[]
+): Promise<Map<string, OSMQueryResults[]>> {
+  const cached = new Map<string, OSMQueryResults[]>();
+
+  if (tiles.length === 0) {
+    return cached;
+  }
+
   try {
     const supabase = await createClient();
 
     const { data, error } = await supabase
       .from(OSM_CACHE_TABLE_NAME)
-      .select("playgrounds, created_at, query_count")
-      .eq("cache_key", cacheKey)
-      .single();
+      .select("cache_key, playgrounds, created_at")
+      .in("cache_key", tiles.map(generateOSMTileCacheKey));
 
     if (error || !data) {
-      return null;
+      if (error) {
+        console.error("[OSM Cache] ❌ Error fetching tiles from cache:", error.message);
+      }
+      return cached;
     }
 
-    // Check if cache has expired
-    if (isCacheExpired(data.created_at)) {
-      // Delete expired entry
-      await supabase
-        .from(OSM_CACHE_TABLE_NAME)
-        .delete()
-        .eq("cache_key", cacheKey);
-
-      return null;
+    for (const row of data) {
+      // Expired tiles are refetched (and overwritten) like missing ones
+      if (!isTileExpired(row.created_at)) {
+        cached.set(row.cache_key, row.playgrounds as OSMQueryResults[]);
+      }
     }
 
-    // Update access time and query count for LRU tracking
-    await supabase
-      .from(OSM_CACHE_TABLE_NAME)
-      .update({
-        last_accessed_at: new Date().toISOString(),
-        query_count: data.query_count + 1
-      })
-      .eq("cache_key", cacheKey);
-
-    return data.playgrounds as OSMQueryResults[];
+    return cached;
   } catch (error) {
-    console.error("[OSM Cache] ❌ Error fetching from cache:", error);
-    return null;
+    console.error("[OSM Cache] ❌ Error fetching tiles from cache:", error);
+    return cached;
   }
 }
 
 /**
- * Saves OSM query results to cache.
+ * Saves tiles to cache, including empty ones (prevents repeated queries for
+ * areas without playgrounds).
  *
- * @param cacheKey - Cache key generated by generateOSMCacheKey
- * @param bounds - Map bounding box
- * @param zoom - Current zoom level
- * @param playgrounds - OSM query results to cache
+ * @param entries - Tiles with all of their playgrounds
  */
-export async function saveOSMToCache(
-  cacheKey: string,
-  bounds: MapBounds,
-  zoom: number,
-  playgrounds: OSMQueryResults[]
+export async function saveOSMTilesToCache(
+  entries: Array<{ tile: MapTile; playgrounds: OSMQueryResults[] }>
 ): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
   try {
     const supabase = await createClient();
+    const now = new Date().toISOString();
 
-    // Upsert cache entry
     // Note: Supabase automatically handles JSON serialization for JSONB columns
     const { error } = await supabase
       .from(OSM_CACHE_TABLE_NAME)
-      .upsert({
-        cache_key: cacheKey,
-        bounds: bounds, // JSONB column - no need for JSON.stringify
-        zoom_level: Math.floor(zoom),
-        playgrounds: playgrounds, // JSONB column - no need for JSON.stringify
-        query_count: 1,
-        created_at: new Date().toISOString(),
-        last_accessed_at: new Date().toISOString()
-      }, { onConflict: "cache_key" });
+      .upsert(
+        entries.map(({ tile, playgrounds }) => ({
+          cache_key: generateOSMTileCacheKey(tile),
+          bounds: getTileBounds(tile),
+          zoom_level: tile.z,
+          playgrounds,
+          created_at: now,
+        })),
+        { onConflict: "cache_key" },
+      );
 
     if (error) {
-      console.error("[OSM Cache] ❌ Failed to save cache entry:", error.message);
+      console.error("[OSM Cache] ❌ Failed to save tiles:", error.message);
       return;
     }
 
-
-    // Trigger LRU eviction if cache is too large (async, non-blocking)
-    evictLRUIfNeeded().catch(err =>
-      console.error("[OSM Cache] ❌ Error evicting LRU cache:", err)
+    // Drop expired tiles occasionally (async, non-blocking)
+    evictExpiredTilesIfDue().catch(err =>
+      console.error("[OSM Cache] ❌ Error evicting expired tiles:", err)
     );
   } catch (error) {
     // Don't throw - cache failures shouldn't break the app
-    console.error("[OSM Cache] ❌ Error saving OSM to cache:", error);
+    console.error("[OSM Cache] ❌ Error saving tiles to cache:", error);
   }
 }
 
 /**
- * Evicts least recently used cache entries if cache exceeds max size.
- * Runs asynchronously to avoid blocking the main query.
+ * Fetches every playground in the tiles covering a viewport.
+ * Fresh tiles come from cache; missing or expired tiles are filled with one
+ * Overpass query over their combined bounding box (at most OVERPASS_CONCURRENCY
+ * at a time per instance) and cached per tile.
+ *
+ * @returns Playgrounds in the covering tiles (may extend past the viewport),
+ * or null if the viewport covers too many tiles to use the tile cache
  */
-async function evictLRUIfNeeded(): Promise<void> {
-  try {
-    const supabase = await createClient();
+export async function fetchOSMTilesForBounds({
+  bounds,
+  timeout,
+  signal,
+}: {
+  bounds: MapBounds;
+  timeout: number;
+  signal?: AbortSignal;
+}): Promise<OSMQueryResults[] | null> {
+  const tiles = getCoveringTiles(bounds, OSM_CACHE_TILE_ZOOM);
 
-    // Check cache size
-    const { count } = await supabase
-      .from(OSM_CACHE_TABLE_NAME)
-      .select("*", { count: "exact", head: true });
+  if (tiles.length === 0 || tiles.length > MAX_TILES_PER_VIEWPORT) {
+    return null;
+  }
 
-    if (!count || count <= MAX_CACHE_ENTRIES) {
-      return;
-    }
+  const cached = await fetchOSMTilesFromCache(tiles);
+  const missingTiles = tiles.filter((tile) => !cached.has(generateOSMTileCacheKey(tile)));
 
-    // Calculate how many entries to evict (10% buffer)
-    const entriesToEvict = count - Math.floor(MAX_CACHE_ENTRIES * 0.9);
+  const results = Array.from(cached.values()).flat();
 
-    // Get least recently used entries
-    const { data: lruEntries } = await supabase
-      .from(OSM_CACHE_TABLE_NAME)
-      .select("cache_key")
-      .order("last_accessed_at", { ascending: true })
-      .limit(entriesToEvict);
+  if (missingTiles.length === 0) {
+    return results;
+  }
 
-    if (!lruEntries || lruEntries.length === 0) {
-      return;
+  // One query over the rectangle spanning all missing tiles
+  const missingBounds = missingTiles.map(getTileBounds).reduce((combined, tileBounds) => ({
+    north: Math.max(combined.north, tileBounds.north),
+    south: Math.min(combined.south, tileBounds.south),
+    east: Math.max(combined.east, tileBounds.east),
+    west: Math.min(combined.west, tileBounds.west),
+    zoom: combined.zoom,
+  }));
+
+  // Concurrent map tiles queue here instead of all hitting Overpass at once
+  const fetched = await overpassLimiter(() => runOSMQuery({
+    bounds: missingBounds,
+    leisure: "playground",
+    timeout,
+    limit: TILE_QUERY_LIMIT,
+    signal,
+  }));
+
+  if (signal?.aborted) {
+    return results;
+  }
+
+  // Split the response back into tiles
+  const fetchedByTile = new Map<string, OSMQueryResults[]>(
+    missingTiles.map((tile) => [generateOSMTileCacheKey(tile), []]),
+  );
+  for (const element of fetched) {
+    const position = getElementPosition(element);
+    if (!position) {
+      continue;
+    }
+    const tileElements = fetchedByTile.get(
+      generateOSMTileCacheKey(getTileForPoint(position.lat, position.lon, OSM_CACHE_TILE_ZOOM)),
+    );
+    if (tileElements) {
+      tileElements.push(element);
+      results.push(element);
     }
+  }
+
+  // A truncated response could leave tiles incomplete - serve it, but don't cache it
+  if (fetched.length >= TILE_QUERY_LIMIT) {
+    console.warn(`[OSM Cache] ⚠️ Tile query hit the ${TILE_QUERY_LIMIT} result limit, not caching ${missingTiles.length} tiles`);
+    return results;
+  }
 
-    // Delete LRU entries
-    const keysToDelete = lruEntries.map(entry => entry.cache_key);
-    await supabase
+  saveOSMTilesToCache(
+    missingTiles.map((tile) => ({
+      tile,
+      playgrounds: fetchedByTile.get(generateOSMTileCacheKey(tile)) || [],
+    })),
+  ).catch(err =>
+    console.error("[OSM Cache] ❌ Failed to save tiles:", err)
+  );
+
+  return results;
+}
+
+/**
+ * Deletes tiles older than the TTL (replaces row-count LRU eviction).
+ * Throttled so concurrent searches don't all run the delete.
+ */
+async function evictExpiredTilesIfDue(): Promise<void> {
+  if (Date.now() - lastEvictionAt < EVICTION_INTERVAL_MS) {
+    return;
+  }
+  lastEvictionAt = Date.now();
+
+  try {
+    const supabase = await createClient();
+    const expiredBefore = new Date(Date.now() - OSM_CACHE_TTL_MS).toISOString();
+
+    const { error } = await supabase
       .from(OSM_CACHE_TABLE_NAME)
       .delete()
-      .in("cache_key", keysToDelete);
+      .lt("created_at", expiredBefore);
 
+    if (error) {
+      console.error("[OSM Cache] ❌ Error evicting expired tiles:", error.message);
+    }
   } catch (error) {
-    console.error("[OSM Cache] ❌ Error in LRU eviction:", error);
+    console.error("[OSM Cache] ❌ Error evicting expired tiles:", error);
   }
 }
 
@@ -201,16 +286,16 @@ export async function clearAllOSMCache(): Promise<void> {
 export async function getOSMCacheStats() {
   try {
     const supabase = await createClient();
+    const expiredBefore = new Date(Date.now() - OSM_CACHE_TTL_MS).toISOString();
 
-    const { count: totalEntries } = await supabase
+    const { count: totalTiles } = await supabase
       .from(OSM_CACHE_TABLE_NAME)
       .select("*", { count: "exact", head: true });
 
-    const { data: topQueries } = await supabase
+    const { count: expiredTiles } = await supabase
       .from(OSM_CACHE_TABLE_NAME)
-      .select("cache_key, query_count, zoom_level")
-      .order("query_count", { ascending: false })
-      .limit(10);
+      .select("*", { count: "exact", head: true })
+      .lt("created_at", expiredBefore);
 
     const { data: oldestEntry } = await supabase
       .from(OSM_CACHE_TABLE_NAME)
@@ -220,10 +305,9 @@ export async function getOSMCacheStats() {
       .single();
 
     return {
-      totalEntries: totalEntries || 0,
-      maxEntries: MAX_CACHE_ENTRIES,
-      utilizationPercent: totalEntries ? (totalEntries / MAX_CACHE_ENTRIES * 100).toFixed(1) : 0,
-      topQueries: topQueries || [],
+      tileZoom: OSM_CACHE_TILE_ZOOM,
+      totalTiles: totalTiles || 0,
+      expiredTiles: expiredTiles || 0,
       oldestCacheAge: oldestEntry ?
         Math.floor((Date.now() - new Date(oldestEntry.created_at).getTime()) / 1000 / 60 / 60) : 0 // hours
     };
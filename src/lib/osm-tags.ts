@@ -0,0 +1,368 @@
+/**
+ * OSM Tag Interpretation
+ * Turns the tags mappers put on a leisure=playground feature into the
+ * insights vocabulary, so OpenStreetMap acts as ground truth for enrichment.
+ *
+ * - Equipment (playground:swing=yes, playground:slide=2, ...) -> features
+ * - wheelchair, surface, barrier=fence, covered, toilets, ... -> accessibility
+ * - access, fee, opening_hours, operator, min_age/max_age -> prompt hints
+ *
+ * Tags can also say something is absent ("playground:seesaw=no",
+ * "wheelchair=no"). mergeOsmTagFacts prefers OSM whenever the model disagrees
+ * and reports each conflict.
+ */
+
+import { withProvenanceSource } from "@/lib/insights-provenance";
+import type { AIInsights, InsightsSource } from "@/types/ai-insights";
+import type { AccessibilityFeature, PlaygroundFeature } from "@/lib/validators/insights-schema";
+
+export type OsmTags = Record<string, string>;
+
+export type OsmTagFacts = {
+  features: PlaygroundFeature[];
+  absentFeatures: PlaygroundFeature[];
+  accessibility: AccessibilityFeature[];
+  absentAccessibility: AccessibilityFeature[];
+  // Tag behind each feature/accessibility value, e.g. { seesaw: "playground:seesaw=no" }
+  evidence: Record<string, string>;
+  // Facts outside the vocabulary, e.g. "Entry fee: yes"
+  hints: string[];
+};
+
+export type OsmTagMerge = {
+  insights: AIInsights;
+  // Model values OSM says are absent (removed from the result)
+  conflicts: string[];
+  // Values OSM added or confirmed, per field
+  supported: {
+    features: boolean;
+    accessibility: boolean;
+  };
+};
+
+// Most tags a request may carry (a playground has a few dozen at most)
+const MAX_OSM_TAGS = 100;
+const MAX_OSM_TAG_LENGTH = 255;
+
+// playground:{equipment} keys (see https://wiki.openstreetmap.org/wiki/Key:playground)
+const EQUIPMENT_FEATURES: Record<string, PlaygroundFeature> = {
+  swing: "swing",
+  basketswing: "swing",
+  baby_swing: "bucket_swing",
+  tire_swing: "tire_swing",
+  slide: "slide",
+  tube_slide: "tube_slide",
+  climbingframe: "climbing_frame",
+  climbingwall: "climbing_wall",
+  climbing_net: "rope_climber",
+  rope_traverse: "rope_course",
+  horizontal_ladder: "monkey_bars",
+  balancebeam: "balance_beam",
+  roundabout: "merry_go_round",
+  spinner: "spinner",
+  spinning_disk: "spinner",
+  seesaw: "seesaw",
+  springy: "spring_rider",
+  sandpit: "sandbox",
+  water: "water_play",
+  splash_pad: "splash_pad",
+  zipwire: "zip_line",
+  playhouse: "playhouse",
+  trampoline: "trampoline",
+  musical_instrument: "musical_instruments",
+  sensory: "sensory_play",
+  obstacle_course: "obstacle_course",
+};
+
+// Amenity tags with plain yes/no values
+const AMENITY_ACCESSIBILITY: Record<string, AccessibilityFeature> = {
+  wheelchair: "wheelchair_accessible",
+  covered: "shade",
+  shade: "shade",
+  toilets: "restrooms",
+  "toilets:wheelchair": "accessible_restrooms",
+  changing_table: "changing_table",
+  drinking_water: "drinking_fountain",
+  bench: "benches",
+};
+
+// Unitary surfaces a wheelchair can roll on; loose fill that it can't
+const ACCESSIBLE_SURFACES = ["rubber", "tartan", "rubber_mulch", "rubberized", "artificial_turf", "synthetic", "asphalt", "concrete", "paved"];
+const LOOSE_SURFACES = ["sand", "gravel", "pebblestone", "fine_gravel"];
+
+const ENCLOSING_BARRIERS = ["fence", "wall", "hedge"];
+
+// Children this young mean the playground is built for toddlers
+const TODDLER_MAX_AGE = 5;
+
+const ACCESS_HINTS: Record<string, string> = {
+  private: "private (not open to the public)",
+  no: "not open to the public",
+  customers: "customers only",
+  members: "members only",
+  permissive: "open to the public by permission of the owner",
+  destination: "visitors only",
+};
+
+function isYes(value: string): boolean {
+  return ["yes", "true", "1"].includes(value) || /^[1-9]\d*$/.test(value);
+}
+
+function isNo(value: string): boolean {
+  return ["no", "false", "0", "none"].includes(value);
+}
+
+// "Present" wins when two tags disagree (e.g. swing=yes, basketswing=no)
+function addFact<T extends string>(
+  present: T[],
+  absent: T[],
+  value: T,
+  isPresent: boolean,
+  evidence: string,
+  evidenceByValue: Record<string, string>,
+) {
+  if (present.includes(value)) return;
+  if (!isPresent && absent.includes(value)) return;
+
+  if (isPresent) {
+    const absentIndex = absent.indexOf(value);
+    if (absentIndex >= 0) absent.splice(absentIndex, 1);
+    present.push(value);
+  } else {
+    absent.push(value);
+  }
+  evidenceByValue[value] = evidence;
+}
+
+/**
+ * Read OSM tags from untyped JSON (string values only, size-limited)
+ */
+export function parseOsmTags(value: unknown): OsmTags | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const tags: OsmTags = {};
+  for (const [key, tagValue] of Object.entries(value).slice(0, MAX_OSM_TAGS)) {
+    if (typeof tagValue === "string" && key.length <= MAX_OSM_TAG_LENGTH) {
+      tags[key] = tagValue.slice(0, MAX_OSM_TAG_LENGTH);
+    }
+  }
+
+  return Object.keys(tags).length > 0 ? tags : undefined;
+}
+
+/**
+ * OpenStreetMap page for an element ("W123" -> https://www.openstreetmap.org/way/123)
+ */
+export function getOsmElementUrl(osmId: string): string | null {
+  const match = osmId.match(/^([NWR])(\d+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const type = { N: "node", W: "way", R: "relation" }[match[1].toUpperCase() as "N" | "W" | "R"];
+  return `https://www.openstreetmap.org/${type}/${match[2]}`;
+}
+
+/**
+ * Provenance source for facts taken from an element's tags
+ */
+export function getOsmTagSource(osmId: string | undefined): InsightsSource | null {
+  const url = osmId ? getOsmElementUrl(osmId) : null;
+  return url ? { url, title: "OpenStreetMap", kind: "community" } : null;
+}
+
+/**
+ * Interpret a playground's OSM tags
+ */
+export function interpretOsmTags(tags: OsmTags | null | undefined): OsmTagFacts {
+  const facts: OsmTagFacts = {
+    features: [],
+    absentFeatures: [],
+    accessibility: [],
+    absentAccessibility: [],
+    evidence: {},
+    hints: [],
+  };
+  if (!tags) {
+    return facts;
+  }
+
+  const addFeature = (feature: PlaygroundFeature, present: boolean, evidence: string) =>
+    addFact(facts.features, facts.absentFeatures, feature, present, evidence, facts.evidence);
+  const addAccessibility = (value: AccessibilityFeature, present: boolean, evidence: string) =>
+    addFact(facts.accessibility, facts.absentAccessibility, value, present, evidence, facts.evidence);
+
+  for (const [key, rawValue] of Object.entries(tags)) {
+    const value = rawValue.trim().toLowerCase();
+    const evidence = `${key}=${rawValue}`;
+
+    if (key.startsWith("playground:")) {
+      const feature = EQUIPMENT_FEATURES[key.slice("playground:".length)];
+      if (feature && (isYes(value) || isNo(value))) {
+        addFeature(feature, isYes(value), evidence);
+      }
+      continue;
+    }
+
+    const amenity = AMENITY_ACCESSIBILITY[key];
+    if (amenity) {
+      if (isYes(value) || isNo(value)) {
+        addAccessibility(amenity, isYes(value), evidence);
+      } else if (key === "wheelchair" && value === "limited") {
+        facts.hints.push("Wheelchair access: limited");
+      }
+      continue;
+    }
+
+    if (key === "surface") {
+      if (ACCESSIBLE_SURFACES.includes(value)) addAccessibility("accessible_surface", true, evidence);
+      if (LOOSE_SURFACES.includes(value)) addAccessibility("accessible_surface", false, evidence);
+      facts.hints.push(`Surface: ${rawValue}`);
+    } else if (key === "barrier" && ENCLOSING_BARRIERS.includes(value)) {
+      addAccessibility("fenced", true, evidence);
+    } else if (key === "access" && ACCESS_HINTS[value]) {
+      facts.hints.push(`Access: ${ACCESS_HINTS[value]}`);
+    } else if (key === "fee" && (isYes(value) || isNo(value))) {
+      facts.hints.push(isYes(value) ? "Entry fee: yes" : "Entry fee: free");
+    } else if (key === "opening_hours") {
+      facts.hints.push(`Opening hours: ${rawValue}`);
+    } else if (key === "operator") {
+      facts.hints.push(`Operator: ${rawValue}`);
+    }
+  }
+
+  const minAge = parseInt(tags.min_age ?? "", 10);
+  const maxAge = parseInt(tags.max_age ?? "", 10);
+  if (!isNaN(minAge) || !isNaN(maxAge)) {
+    facts.hints.push(
+      !isNaN(minAge) && !isNaN(maxAge)
+        ? `Ages: ${minAge}-${maxAge}`
+        : !isNaN(minAge) ? `Ages: ${minAge}+` : `Ages: up to ${maxAge}`,
+    );
+    if (!isNaN(maxAge) && maxAge <= TODDLER_MAX_AGE) {
+      addFeature("toddler_area", true, `max_age=${tags.max_age}`);
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * Whether the tags say anything about the playground
+ */
+export function hasOsmTagFacts(facts: OsmTagFacts): boolean {
+  return (
+    facts.features.length > 0 ||
+    facts.absentFeatures.length > 0 ||
+    facts.accessibility.length > 0 ||
+    facts.absentAccessibility.length > 0 ||
+    facts.hints.length > 0
+  );
+}
+
+/**
+ * Facts as prompt lines, e.g. "- Equipment: swing, slide"
+ */
+export function formatOsmTagFacts(facts: OsmTagFacts): string[] {
+  const lines: string[] = [];
+  if (facts.features.length > 0) lines.push(`- Equipment: ${facts.features.join(", ")}`);
+  if (facts.absentFeatures.length > 0) lines.push(`- No: ${facts.absentFeatures.join(", ")}`);
+  if (facts.accessibility.length > 0) lines.push(`- Accessibility/amenities: ${facts.accessibility.join(", ")}`);
+  if (facts.absentAccessibility.length > 0) lines.push(`- Not available: ${facts.absentAccessibility.join(", ")}`);
+  return [...lines, ...facts.hints.map((hint) => `- ${hint}`)];
+}
+
+function mergeList<T extends string>(
+  modelValues: string[] | null,
+  present: T[],
+  absent: T[],
+  evidence: Record<string, string>,
+  conflicts: string[],
+): { values: string[] | null; supported: boolean } {
+  const values = (modelValues ?? []).filter((value) => {
+    if (!absent.includes(value as T)) return true;
+    conflicts.push(`OSM conflict: model listed "${value}" but ${evidence[value]}`);
+    return false;
+  });
+
+  for (const value of present) {
+    if (!values.includes(value)) values.push(value);
+  }
+
+  return {
+    values: values.length > 0 || modelValues ? values : null,
+    supported: present.length > 0,
+  };
+}
+
+/**
+ * Merge OSM facts into model insights
+ * OSM wins: absent values are removed (and reported), present ones are added
+ */
+export function mergeOsmTagFacts(insights: AIInsights, facts: OsmTagFacts): OsmTagMerge {
+  const conflicts: string[] = [];
+  const features = mergeList(insights.features, facts.features, facts.absentFeatures, facts.evidence, conflicts);
+  const accessibility = mergeList(
+    insights.accessibility,
+    facts.accessibility,
+    facts.absentAccessibility,
+    facts.evidence,
+    conflicts,
+  );
+
+  return {
+    insights: { ...insights, features: features.values, accessibility: accessibility.values },
+    conflicts,
+    supported: { features: features.supported, accessibility: accessibility.supported },
+  };
+}
+
+/**
+ * Insights from OSM tags alone, for when the model result was rejected
+ * Returns null if the tags don't list any equipment or accessibility
+ */
+export function buildOsmTagInsights({
+  facts,
+  name,
+  osmId,
+}: {
+  facts: OsmTagFacts;
+  name?: string;
+  osmId?: string;
+}): AIInsights | null {
+  if (facts.features.length === 0 && facts.accessibility.length === 0) {
+    return null;
+  }
+
+  const source = getOsmTagSource(osmId);
+  const features = facts.features.length > 0 ? facts.features : null;
+  const accessibility = facts.accessibility.length > 0 ? facts.accessibility : null;
+  return {
+    name: name ?? null,
+    description: null,
+    features,
+    parking: null,
+    sources: source ? [source.url] : null,
+    images: null,
+    accessibility,
+    tier: null,
+    tier_reasoning: null,
+    tier_score: null,
+    image_search_queries: null,
+    provenance: source
+      ? withProvenanceSource(
+        {
+          sources: [],
+          fields: {},
+          location_confidence: "high",
+          location_verification: "Taken from the tags of the OpenStreetMap element",
+          score: null,
+        },
+        source,
+        [...(features ? ["features" as const] : []), ...(accessibility ? ["accessibility" as const] : [])],
+      )
+      : null,
+  };
+}
@@ -2,12 +2,43 @@ import { OSMPlaceDetails, OSMQueryResults } from "@/types/osm";
 import { MapBounds } from "@/types/map";
 
 // Multiple Overpass API endpoints for redundancy
-const OVERPASS_ENDPOINTS = [
+// Override with OVERPASS_ENDPOINTS (comma-separated), e.g. to point at the
+// local stand-in server (scripts/osm-stand-in-server.ts)
+const DEFAULT_OVERPASS_ENDPOINTS = [
   "https://overpass-api.de/api/interpreter",
   "https://overpass.kumi.systems/api/interpreter",
   "https://overpass.openstreetmap.ru/api/interpreter",
 ];
 
+const OVERPASS_ENDPOINTS = process.env.OVERPASS_ENDPOINTS
+  ? process.env.OVERPASS_ENDPOINTS.split(",").map((endpoint) => endpoint.trim()).filter(Boolean)
+  : DEFAULT_OVERPASS_ENDPOINTS;
+
+// Nominatim base URL (lookup and reverse geocoding)
+const NOMINATIM_BASE_URL = (
+  process.env.NOMINATIM_BASE_URL || "https://nominatim.openstreetmap.org"
+).replace(/\/+$/, "");
+
+// Headers required by the Nominatim usage policy
+const NOMINATIM_HEADERS = {
+  "User-Agent": "GoodPlaygroundMap/1.0 (ivan.seredkin@gmail.com)",
+  Referer: "https://www.goodplaygroundmap.com/",
+};
+
+/**
+ * Build a Nominatim API URL for the configured instance
+ * e.g. buildNominatimUrl("reverse", { lat, lon }) -> ".../reverse?lat=..&lon=..&format=json&addressdetails=1"
+ */
+export function buildNominatimUrl(
+  endpoint: "lookup" | "reverse",
+  params: Record<string, string | number>,
+): string {
+  const query = Object.entries({ ...params, format: "json", addressdetails: 1 })
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join("&");
+  return `${NOMINATIM_BASE_URL}/${endpoint}?${query}`;
+}
+
 // Overpass API configuration
 const OVERPASS_MAX_SIZE_BYTES = 536870912; // 512MB - prevents memory issues on Overpass servers
 
@@ -154,13 +185,11 @@ export async function fetchMultipleOSMPlaceDetails({
   try {
     const response = await fetchWithRetry(
       () => fetch(
-        `https://nominatim.openstreetmap.org/lookup?osm_ids=${osmIds}&addressdetails=1&format=json`,
+        // extratags: the element's other tags (equipment, wheelchair, surface, ...)
+        buildNominatimUrl("lookup", { osm_ids: osmIds.join(","), extratags: 1 }),
         {
           signal,
-          headers: {
-            "User-Agent": "GoodPlaygroundMap/1.0 (ivan.seredkin@gmail.com)",
-            Referer: "https://www.goodplaygroundmap.com/",
-          },
+          headers: NOMINATIM_HEADERS,
         },
       ),
       3, // 3 retries for Nominatim
@@ -180,6 +209,37 @@ export async function fetchMultipleOSMPlaceDetails({
   }
 }
 
+/**
+ * Reverse geocode a single coordinate with the configured Nominatim instance
+ */
+export async function reverseGeocode({
+  lat,
+  lon,
+  signal,
+}: {
+  lat: number;
+  lon: number;
+  signal?: AbortSignal;
+}): Promise<Record<string, unknown>> {
+  const response = await fetchWithRetry(
+    () =>
+      fetch(buildNominatimUrl("reverse", { lat, lon }), {
+        signal,
+        headers: NOMINATIM_HEADERS,
+      }),
+    3, // 3 retries
+    1000
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `Nominatim API error: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return await response.json();
+}
+
 // Function to batch reverse geocode multiple coordinates
 export async function batchReverseGeocode({
   coordinates,
@@ -199,29 +259,7 @@ export async function batchReverseGeocode({
   const results = await Promise.all(
     coordinates.map(async ({ lat, lon }) => {
       try {
-        const response = await fetchWithRetry(
-          () =>
-            fetch(
-              `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lon}&format=json&addressdetails=1`,
-              {
-                signal,
-                headers: {
-                  "User-Agent": "GoodPlaygroundMap/1.0 (ivan.seredkin@gmail.com)",
-                  Referer: "https://www.goodplaygroundmap.com/",
-                },
-              }
-            ),
-          3, // 3 retries
-          1000
-        );
-
-        if (!response.ok) {
-          throw new Error(
-            `Nominatim API error: ${response.status} ${response.statusText}`
-          );
-        }
-
-        const data = await response.json();
+        const data = await reverseGeocode({ lat, lon, signal });
         return { lat, lon, data };
       } catch (error) {
         console.error(`[OSM] ❌ Reverse geocoding failed for ${lat},${lon}:`, error);
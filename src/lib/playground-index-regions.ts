@@ -0,0 +1,50 @@
+import { MapBounds } from "@/types/map";
+
+export type PlaygroundIndexRegion = {
+  name: string;
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+};
+
+/**
+ * Regions imported into the playground index by scripts/import-playground-index.ts
+ * Viewports inside one of these (once imported) are answered without Overpass
+ */
+export const PLAYGROUND_INDEX_REGIONS: PlaygroundIndexRegion[] = [
+  {
+    name: "sf-bay-area",
+    south: 36.9,
+    west: -123.1,
+    north: 38.4,
+    east: -121.5,
+  },
+];
+
+// Overpass queries are capped at 25s, so regions are imported in cells of this size
+const IMPORT_CELL_SIZE_DEGREES = 0.25;
+
+/**
+ * Split a region into import cells (row by row, south-west first)
+ */
+export function splitRegionIntoCells(
+  region: PlaygroundIndexRegion,
+  cellSize: number = IMPORT_CELL_SIZE_DEGREES,
+): MapBounds[] {
+  const cells: MapBounds[] = [];
+
+  for (let south = region.south; south < region.north; south += cellSize) {
+    for (let west = region.west; west < region.east; west += cellSize) {
+      cells.push({
+        south,
+        west,
+        north: Math.min(south + cellSize, region.north),
+        east: Math.min(west + cellSize, region.east),
+        zoom: 12,
+      });
+    }
+  }
+
+  return cells;
+}
@@ -0,0 +1,138 @@
+import { MapBounds } from "@/types/map";
+import { OSMQueryResults } from "@/types/osm";
+import { createClient } from "@/lib/supabase/server";
+
+// Set PLAYGROUND_INDEX_ENABLED=false to always go to the OSM cache / Overpass
+const PLAYGROUND_INDEX_ENABLED = process.env.PLAYGROUND_INDEX_ENABLED !== "false";
+const PLAYGROUND_INDEX_TABLE_NAME = "playground_index";
+const PLAYGROUND_INDEX_REGIONS_TABLE_NAME = "playground_index_regions";
+
+const OSM_TYPE_BY_PREFIX = { N: "node", W: "way", R: "relation" } as const;
+
+type PlaygroundIndexRow = {
+  osm_type: OSMQueryResults["type"];
+  osm_id: number;
+  lat: number;
+  lon: number;
+  tags: Record<string, string> | null;
+};
+
+/**
+ * Convert an index row back to the Overpass element shape used by /api/search
+ */
+function toOSMQueryResult(row: PlaygroundIndexRow): OSMQueryResults {
+  const tags = row.tags || {};
+
+  if (row.osm_type === "node") {
+    return { type: "node", id: row.osm_id, lat: row.lat, lon: row.lon, tags };
+  }
+  if (row.osm_type === "way") {
+    return { type: "way", id: row.osm_id, center: { lat: row.lat, lon: row.lon }, nodes: [], tags };
+  }
+  return { type: "relation", id: row.osm_id, center: { lat: row.lat, lon: row.lon }, members: [], tags };
+}
+
+/**
+ * Search the self-hosted playground index for a bbox
+ *
+ * @param allowPartialCoverage - Answer even if no imported region covers the
+ * whole bbox (only the imported part is returned)
+ * @returns Playgrounds (closest to the bbox center first), or null if the
+ * bbox isn't covered by an imported region or the index is unavailable -
+ * callers fall back to Overpass
+ */
+export async function searchPlaygroundIndex({
+  bounds,
+  limit,
+  allowPartialCoverage = false,
+}: {
+  bounds: MapBounds;
+  limit: number;
+  allowPartialCoverage?: boolean;
+}): Promise<OSMQueryResults[] | null> {
+  if (!PLAYGROUND_INDEX_ENABLED) {
+    return null;
+  }
+
+  try {
+    const supabase = await createClient();
+
+    // Only answer from the index when one imported region covers the whole
+    // viewport, otherwise playgrounds outside the region would be missing
+    if (!allowPartialCoverage) {
+      const { data: regions, error: regionsError } = await supabase
+        .from(PLAYGROUND_INDEX_REGIONS_TABLE_NAME)
+        .select("name")
+        .lte("south", bounds.south)
+        .gte("north", bounds.north)
+        .lte("west", bounds.west)
+        .gte("east", bounds.east)
+        .limit(1);
+
+      if (regionsError) {
+        console.error("[PlaygroundIndex] ❌ Error checking region coverage:", regionsError.message);
+        return null;
+      }
+
+      if (!regions || regions.length === 0) {
+        return null;
+      }
+    }
+
+    const { data, error } = await supabase.rpc("search_playground_index", {
+      p_south: bounds.south,
+      p_west: bounds.west,
+      p_north: bounds.north,
+      p_east: bounds.east,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.error("[PlaygroundIndex] ❌ Error searching index:", error.message);
+      return null;
+    }
+
+    return ((data || []) as PlaygroundIndexRow[]).map(toOSMQueryResult);
+  } catch (error) {
+    console.error("[PlaygroundIndex] ❌ Error searching index:", error);
+    return null;
+  }
+}
+
+/**
+ * Tags of an indexed playground (e.g., "W123456")
+ *
+ * @returns The element's tags, or null if it isn't indexed or the index is
+ * unavailable
+ */
+export async function fetchPlaygroundIndexTags({
+  osmId,
+}: {
+  osmId: string;
+}): Promise<Record<string, string> | null> {
+  const match = osmId.match(/^([NWR])(\d+)$/);
+  if (!PLAYGROUND_INDEX_ENABLED || !match) {
+    return null;
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from(PLAYGROUND_INDEX_TABLE_NAME)
+      .select("tags")
+      .eq("osm_type", OSM_TYPE_BY_PREFIX[match[1] as keyof typeof OSM_TYPE_BY_PREFIX])
+      .eq("osm_id", Number(match[2]))
+      .maybeSingle();
+
+    if (error) {
+      console.error("[PlaygroundIndex] ❌ Error fetching tags:", error.message);
+      return null;
+    }
+
+    return (data as Pick<PlaygroundIndexRow, "tags"> | null)?.tags ?? null;
+  } catch (error) {
+    console.error("[PlaygroundIndex] ❌ Error fetching tags:", error);
+    return null;
+  }
+}
@@ -0,0 +1,256 @@
+import { MapBounds } from "@/types/map";
+import { OSMQueryResults } from "@/types/osm";
+import { AIInsights } from "@/types/ai-insights";
+import { runOSMQuery } from "@/lib/osm";
+import { searchPlaygroundIndex } from "@/lib/playground-index";
+import { fetchOSMTilesForBounds, OSM_CACHE_TILE_ZOOM, MAX_TILES_PER_VIEWPORT } from "@/lib/osm-cache";
+import { batchFetchLocalizedAIInsightsFromCache } from "@/lib/cache";
+import { batchFetchImageCacheKeysWithImages } from "@/lib/images";
+import { buildImagesCacheKey } from "@/lib/cache-keys";
+import { DEFAULT_INSIGHTS_LOCALE, type InsightsLocale } from "@/lib/insights-locale";
+import { overpassLimiter } from "@/lib/rate-limiter";
+import {
+  matchesPlaygroundFilters,
+  toFilterablePlayground,
+  hasActiveFilters,
+  EMPTY_PLAYGROUND_FILTERS,
+  type PlaygroundFilters,
+} from "@/lib/filters";
+import { encodePointTile, MVT_EXTENT, type MVTPointFeature } from "@/lib/mvt";
+import { getTileBounds, projectToTile, type MapTile } from "@/lib/tiles";
+import { PLAYGROUND_TILE_LAYER, PLAYGROUND_TILE_MAX_ZOOM, UNNAMED_PLAYGROUND } from "@/lib/constants";
+
+// Safety cap on playgrounds per tile (a whole metro area is a few thousand)
+const MAX_TILE_PLAYGROUNDS = 20000;
+
+// Tiles too far out for the OSM tile cache show a limited Overpass sample
+// (same size as the zoomed-out list), but only down to this zoom - wider
+// bboxes would time out
+const TILE_FALLBACK_MIN_ZOOM = parseInt(process.env.TILE_FALLBACK_MIN_ZOOM || "6");
+const TILE_FALLBACK_LIMIT = 20;
+
+// Below the max tile zoom, points are clustered on a grid of this many cells
+// per tile side (16 cells = 32px cells on 512px tiles)
+const CLUSTER_GRID_SIZE = 16;
+
+type TilePlayground = {
+  element: OSMQueryResults;
+  lat: number;
+  lon: number;
+  insights: AIInsights | null;
+};
+
+function formatOSMId(element: OSMQueryResults): string {
+  return `${element.type[0].toUpperCase()}${element.id}`;
+}
+
+// Same abbreviation Mapbox uses for GeoJSON clusters (e.g. "1.2k")
+function abbreviateCount(count: number): string {
+  if (count >= 10000) return `${Math.round(count / 1000)}k`;
+  if (count >= 1000) return `${(Math.round(count / 100) / 10).toFixed(1)}k`;
+  return String(count);
+}
+
+/**
+ * Load every playground inside a tile
+ * Imported regions come from the playground index, other areas from the OSM
+ * tile cache. Tiles too far out for the tile cache fall back to a limited
+ * Overpass query (a sample, like the zoomed-out list) plus any imported part;
+ * below TILE_FALLBACK_MIN_ZOOM they only show imported data
+ */
+async function fetchTileElements(tile: MapTile, signal?: AbortSignal): Promise<OSMQueryResults[]> {
+  const bounds = getTileBounds(tile);
+  const timeout = parseInt(process.env.OSM_QUERY_TIMEOUT || "25");
+
+  const indexed = await searchPlaygroundIndex({ bounds, limit: MAX_TILE_PLAYGROUNDS });
+  if (indexed) {
+    return indexed;
+  }
+
+  // OSM cache tiles are smaller than low-zoom map tiles; only use them while
+  // the map tile spans a bounded number of them
+  const cacheTilesPerSide = 2 ** Math.max(0, OSM_CACHE_TILE_ZOOM - tile.z);
+  if (cacheTilesPerSide ** 2 <= MAX_TILES_PER_VIEWPORT) {
+    const cached = await fetchOSMTilesForBounds({ bounds, timeout, signal });
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const [partial, sampled] = await Promise.all([
+    searchPlaygroundIndex({ bounds, limit: MAX_TILE_PLAYGROUNDS, allowPartialCoverage: true }),
+    tile.z >= TILE_FALLBACK_MIN_ZOOM ? fetchTileSample(bounds, timeout, signal) : [],
+  ]);
+
+  // The sample may repeat imported playgrounds
+  const elements = new Map<string, OSMQueryResults>();
+  for (const element of [...(partial || []), ...sampled]) {
+    elements.set(formatOSMId(element), element);
+  }
+  return Array.from(elements.values());
+}
+
+async function fetchTileSample(
+  bounds: MapBounds,
+  timeout: number,
+  signal?: AbortSignal,
+): Promise<OSMQueryResults[]> {
+  try {
+    return await overpassLimiter(() => runOSMQuery({
+      bounds,
+      leisure: "playground",
+      timeout,
+      limit: TILE_FALLBACK_LIMIT,
+      signal,
+    }));
+  } catch (error) {
+    console.error("[PlaygroundTiles] ❌ Error sampling tile from Overpass:", error);
+    return [];
+  }
+}
+
+// Insights in the requested locale, or the default locale's (names and tiers
+// are the same in every language)
+async function fetchTileInsights(
+  elements: OSMQueryResults[],
+  locale: InsightsLocale,
+): Promise<Map<string, AIInsights>> {
+  const cached = await batchFetchLocalizedAIInsightsFromCache({
+    osmIds: elements.map(formatOSMId),
+    locale,
+  });
+  return new Map(Array.from(cached, ([osmId, { insights }]) => [osmId, insights]));
+}
+
+// Image cache keys with photos (only looked up for the "has photos" filter)
+async function fetchTilePhotoKeys(elements: OSMQueryResults[]): Promise<Set<string>> {
+  return batchFetchImageCacheKeysWithImages({
+    cacheKeys: elements.map((element) => buildImagesCacheKey({ osmId: formatOSMId(element) })),
+  });
+}
+
+function toPointFeature(playground: TilePlayground, tile: MapTile): MVTPointFeature {
+  const { element, insights } = playground;
+  const { x, y } = projectToTile(playground.lat, playground.lon, tile, MVT_EXTENT);
+
+  return {
+    id: element.id,
+    x,
+    y,
+    properties: {
+      id: element.id,
+      type: element.type,
+      // Unenriched playgrounds have no label, matching the list
+      name: insights ? insights.name || element.tags?.name || UNNAMED_PLAYGROUND : "",
+      osmName: element.tags?.name,
+      tier: insights?.tier || "neighborhood",
+      enriched: insights !== null,
+    },
+  };
+}
+
+/**
+ * Group playgrounds into grid cells; cells with several playgrounds become one
+ * cluster feature (same properties as the former client-side GeoJSON clusters)
+ */
+function clusterPlaygrounds(playgrounds: TilePlayground[], tile: MapTile): MVTPointFeature[] {
+  const cellSize = MVT_EXTENT / CLUSTER_GRID_SIZE;
+  const cells = new Map<string, TilePlayground[]>();
+
+  for (const playground of playgrounds) {
+    const { x, y } = projectToTile(playground.lat, playground.lon, tile, MVT_EXTENT);
+    const cellKey = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(cellKey);
+    if (cell) {
+      cell.push(playground);
+    } else {
+      cells.set(cellKey, [playground]);
+    }
+  }
+
+  return Array.from(cells.values()).map((cell) => {
+    if (cell.length === 1) {
+      return toPointFeature(cell[0], tile);
+    }
+
+    const lat = cell.reduce((sum, pg) => sum + pg.lat, 0) / cell.length;
+    const lon = cell.reduce((sum, pg) => sum + pg.lon, 0) / cell.length;
+    const { x, y } = projectToTile(lat, lon, tile, MVT_EXTENT);
+
+    return {
+      x,
+      y,
+      properties: {
+        cluster: true,
+        point_count: cell.length,
+        point_count_abbreviated: abbreviateCount(cell.length),
+        hasStar: cell.some((pg) => pg.insights?.tier === "star"),
+        hasGem: cell.some((pg) => pg.insights?.tier === "gem"),
+      },
+    };
+  });
+}
+
+/**
+ * Build the playground vector tile for z/x/y
+ * Points carry id, type, name, tier and enriched; below the max tile zoom
+ * nearby points are merged into clusters with point_count, hasStar and hasGem.
+ * Filters are applied before clustering so cluster counts match the list.
+ */
+export async function buildPlaygroundTile({
+  tile,
+  filters = EMPTY_PLAYGROUND_FILTERS,
+  locale = DEFAULT_INSIGHTS_LOCALE,
+  signal,
+}: {
+  tile: MapTile;
+  filters?: PlaygroundFilters;
+  locale?: InsightsLocale;
+  signal?: AbortSignal;
+}): Promise<Uint8Array> {
+  const bounds = getTileBounds(tile);
+  const elements = await fetchTileElements(tile, signal);
+
+  // Cached OSM tiles and the index bbox can reach slightly past the tile edges
+  const inTile = elements
+    .map((element) => {
+      const position = element.type === "node" ? element : element.center;
+      return { element, lat: position?.lat, lon: position?.lon };
+    })
+    .filter((item): item is { element: OSMQueryResults; lat: number; lon: number } =>
+      item.lat != null && item.lon != null &&
+      item.lat >= bounds.south && item.lat < bounds.north &&
+      item.lon >= bounds.west && item.lon < bounds.east
+    )
+    .slice(0, MAX_TILE_PLAYGROUNDS);
+
+  const insightsByOsmId = await fetchTileInsights(inTile.map(({ element }) => element), locale);
+
+  let playgrounds: TilePlayground[] = inTile.map((item) => ({
+    ...item,
+    insights: insightsByOsmId.get(formatOSMId(item.element)) || null,
+  }));
+
+  if (hasActiveFilters(filters)) {
+    const photoKeys = filters.hasPhotos
+      ? await fetchTilePhotoKeys(playgrounds.filter((pg) => pg.insights).map((pg) => pg.element))
+      : new Set<string>();
+
+    playgrounds = playgrounds.filter(({ element, insights }) =>
+      matchesPlaygroundFilters(
+        toFilterablePlayground({
+          insights,
+          hasKnownPhotos: Boolean(insights?.images?.length) ||
+            photoKeys.has(buildImagesCacheKey({ osmId: formatOSMId(element) })),
+        }),
+        filters,
+      ),
+    );
+  }
+
+  const features = tile.z < PLAYGROUND_TILE_MAX_ZOOM
+    ? clusterPlaygrounds(playgrounds, tile)
+    : playgrounds.map((playground) => toPointFeature(playground, tile));
+
+  return encodePointTile([{ name: PLAYGROUND_TILE_LAYER, extent: MVT_EXTENT, features }]);
+}
@@ -0,0 +1,126 @@
+/**
+ * Fetch for third-party URLs the server didn't choose (image search results,
+ * cached image links). Only http(s) URLs whose host resolves to a public
+ * address are fetched, checked again on every redirect, so a stored URL can't
+ * make the server request its own network (loopback, private ranges, cloud
+ * metadata endpoints).
+ *
+ * Host names are checked in the connection's own DNS lookup (an undici Agent),
+ * so the address that was vetted is the one connected to - a host can't
+ * resolve to a public address for the check and a private one for the request
+ * (DNS rebinding).
+ */
+
+import { lookup as dnsLookup } from "dns";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { Agent } from "undici";
+
+const MAX_REDIRECTS = 5;
+
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local (cloud metadata)
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 3], // Multicast and reserved
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // Unspecified and loopback
+  ["64:ff9b::", 96], // IPv4/IPv6 translation
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return PRIVATE_ADDRESSES.check(mapped[1], "ipv4");
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * DNS lookup for outgoing connections that fails unless every address of the
+ * host is public
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(Object.assign(new Error(`Blocked non-public host ${hostname}`), { code: "EBLOCKED" }), "");
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Connections only to vetted addresses (IP literals skip the lookup, see assertPublicUrl)
+const publicAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Throws unless the URL is http(s) and, for an IP literal host, the address is public
+ * Host names are checked when connecting (lookupPublicAddress)
+ */
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new Error(`Blocked non-public host ${url.hostname}`);
+  }
+}
+
+/**
+ * fetch() that only reaches public hosts, following up to MAX_REDIRECTS redirects itself
+ */
+export async function fetchPublicUrl(url: string, init: Omit<RequestInit, "redirect"> = {}): Promise<Response> {
+  let currentUrl = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(currentUrl);
+
+    // Node's fetch takes an undici dispatcher (not in the DOM RequestInit type)
+    const response = await fetch(currentUrl, {
+      ...init,
+      redirect: "manual",
+      dispatcher: publicAgent,
+    } as RequestInit);
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error("Too many redirects");
+    }
+    currentUrl = new URL(location, currentUrl);
+  }
+}
@@ -1,8 +1,15 @@
 import pLimit from "p-limit";
+import type { ApiService } from "@/lib/api-usage";
+import { getCoordinator, type TokenBucketLimit } from "@/lib/coordination";
 
 /**
  * Rate limiter for AI APIs to prevent 429 errors and ensure
  * smooth operation during peak usage.
+ *
+ * - aiLimiter: concurrency limit within this instance
+ * - overpassLimiter: same for Overpass queries (src/lib/osm.ts)
+ * - waitForApiToken: global requests-per-minute limit shared by all
+ *   instances (token bucket per upstream API, see src/lib/coordination.ts)
  */
 
 // AI API rate limiter (used for Gemini and other AI providers)
@@ -10,3 +17,45 @@ import pLimit from "p-limit";
 // Gemini 2.0 Flash: 15 RPM free tier, 2,000 RPM paid tier
 // With paid tier, we can safely handle multiple concurrent requests
 export const aiLimiter = pLimit(2);
+
+// Overpass queries in flight within this instance (the public endpoints
+// rate-limit per IP, and one map view can request many tiles at once)
+export const overpassLimiter = pLimit(parseInt(process.env.OVERPASS_CONCURRENCY || "2"));
+
+// Requests per minute across all instances, with short bursts up to the burst size
+const API_RATE_LIMITS: Record<ApiService, { perMinute: number; burst: number }> = {
+  gemini: {
+    perMinute: parseInt(process.env.GEMINI_RATE_LIMIT_PER_MINUTE || "120"),
+    burst: parseInt(process.env.GEMINI_RATE_LIMIT_BURST || "10"),
+  },
+  // Custom Search allows 100 queries per minute per user by default
+  custom_search: {
+    perMinute: parseInt(process.env.CUSTOM_SEARCH_RATE_LIMIT_PER_MINUTE || "100"),
+    burst: parseInt(process.env.CUSTOM_SEARCH_RATE_LIMIT_BURST || "10"),
+  },
+};
+
+// Longest a request waits for a token before giving up (30 seconds)
+const API_RATE_LIMIT_MAX_WAIT_MS = parseInt(
+  process.env.API_RATE_LIMIT_MAX_WAIT_MS || "30000",
+);
+
+export function getApiRateLimit(service: ApiService): TokenBucketLimit {
+  const { perMinute, burst } = API_RATE_LIMITS[service];
+  return { capacity: Math.max(burst, 1), refillPerSecond: perMinute / 60 };
+}
+
+/**
+ * Wait for the global rate limit of an upstream API before calling it
+ * Returns false if the signal aborted or no token was available within
+ * API_RATE_LIMIT_MAX_WAIT_MS (treat it like a 429)
+ */
+export function waitForApiToken(
+  service: ApiService,
+  { signal }: { signal?: AbortSignal } = {},
+): Promise<boolean> {
+  return getCoordinator().waitForToken(`api:${service}`, getApiRateLimit(service), {
+    signal,
+    maxWaitMs: API_RATE_LIMIT_MAX_WAIT_MS,
+  });
+}
@@ -1,40 +1,35 @@
 /**
  * Request deduplication utility to prevent duplicate API calls
  * when multiple users or components request the same data simultaneously.
+ *
+ * Requests are shared within this instance and single-flighted across
+ * instances through lease-based locks (src/lib/coordination.ts).
  */
 
-const inflightRequests = new Map<string, Promise<unknown>>();
+import { getCoordinator, type SingleFlightOptions } from "@/lib/coordination";
 
 /**
  * Wraps a fetch function with deduplication logic.
- * If a request with the same key is already in-flight, returns the existing promise.
- * Otherwise, executes the fetch function and caches the promise until it resolves.
+ * If a request with the same key is already in-flight on this instance, returns the existing promise.
+ * If another instance holds the key's lock, waits for it to finish and then runs the fetch function
+ * (which should find the other instance's result in the cache).
  *
  * @param key - Unique identifier for the request
  * @param fetchFn - Function that performs the actual fetch operation
+ * @param options - `peek` answers without locking (e.g. cache hits), `signal` stops waiting for the lock
  * @returns Promise with the fetched data
  *
  * @example
  * const data = await deduplicatedFetch(
  *   `ai:${playgroundId}`,
- *   () => fetchFromAPI(playgroundId)
+ *   () => fetchFromAPI(playgroundId),
+ *   { peek: async () => (await readCache(playgroundId)) ?? undefined }
  * );
  */
 export async function deduplicatedFetch<T>(
   key: string,
-  fetchFn: () => Promise<T>
+  fetchFn: () => Promise<T>,
+  options: SingleFlightOptions<T> = {}
 ): Promise<T> {
-  // Check if request is already in-flight
-  if (inflightRequests.has(key)) {
-    return inflightRequests.get(key) as Promise<T>;
-  }
-
-  // Create new request and cache it
-  const promise = fetchFn().finally(() => {
-    // Clean up after request completes (success or failure)
-    inflightRequests.delete(key);
-  });
-
-  inflightRequests.set(key, promise);
-  return promise;
+  return getCoordinator().singleFlight(key, fetchFn, options);
 }
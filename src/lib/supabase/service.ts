@@ -0,0 +1,22 @@
+import { createClient as createSupabaseClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let serviceClient: SupabaseClient | null = null;
+
+/**
+ * Server-only client with the service role key (bypasses RLS)
+ * For tables and storage that clients may not touch (image proxy, user photos, review queue).
+ * Never import this from client components.
+ */
+export function createServiceClient(): SupabaseClient {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+  }
+
+  if (!serviceClient) {
+    serviceClient = createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return serviceClient;
+}
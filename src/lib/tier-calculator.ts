@@ -1,12 +1,48 @@
-import { AIInsights } from "@/types/ai-insights";
+import { AIInsights, InsightsTierScore } from "@/types/ai-insights";
+import type { PlaygroundFeature } from "@/lib/validators/insights-schema";
 
 /**
  * Playground Tier System: "Playground Gems"
  * Categorizes playgrounds by quality and experience level
+ *
+ * The stored tier reconciles two opinions (reconcilePlaygroundTier):
+ * - Gemini's tier label (reads the web, but is a single unexplained label)
+ * - calculatePlaygroundTier points (deterministic, explained by reasons)
  */
 
 export type PlaygroundTier = "neighborhood" | "gem" | "star";
 
+// Minimum points per tier (below gem is neighborhood)
+export const TIER_THRESHOLDS = {
+  star: 76,
+  gem: 41,
+};
+
+// How much each opinion counts in the final score (normalised to sum to 1)
+const TIER_MODEL_WEIGHT = parseFloat(process.env.TIER_MODEL_WEIGHT || "0.5");
+const TIER_CALCULATED_WEIGHT = parseFloat(process.env.TIER_CALCULATED_WEIGHT || "0.5");
+
+// Gemini's label as points: the middle of each tier's range
+const MODEL_TIER_POINTS: Record<PlaygroundTier, number> = {
+  neighborhood: 20,
+  gem: 58,
+  star: 88,
+};
+
+const MAX_TIER_POINTS = 100;
+
+// Standout equipment (insights vocabulary ids)
+const PREMIUM_FEATURES: ReadonlySet<string> = new Set<PlaygroundFeature>([
+  "zip_line",
+  "water_play",
+  "splash_pad",
+  "climbing_wall",
+  "rope_course",
+  "musical_instruments",
+  "sensory_play",
+  "obstacle_course",
+]);
+
 export interface TierScore {
   tier: PlaygroundTier;
   score: number;
@@ -14,7 +50,10 @@ export interface TierScore {
 }
 
 /**
- * Calculate playground tier based on features, amenities, and description quality
+ * Calculate playground tier based on features and amenities
+ * Only vocabulary fields count: description and parking are written in the
+ * user's locale, so keywords in them would give each locale a different tier
+ * (descriptive qualities like themes are left to Gemini's tier)
  */
 export function calculatePlaygroundTier(insights: AIInsights | null): TierScore {
   if (!insights) {
@@ -44,27 +83,9 @@ export function calculatePlaygroundTier(insights: AIInsights | null): TierScore
   }
 
   // Premium features bonus
-  const premiumFeatures = [
-    "zip line",
-    "zipline",
-    "zip-line",
-    "water play",
-    "splash pad",
-    "water feature",
-    "climbing wall",
-    "rope course",
-    "musical instruments",
-    "sensory play",
-    "adventure playground",
-  ];
-
-  const description = insights.description?.toLowerCase() || "";
-  const featuresText = insights.features?.join(" ").toLowerCase() || "";
-  const combinedText = `${description} ${featuresText}`;
-
   let premiumCount = 0;
-  for (const feature of premiumFeatures) {
-    if (combinedText.includes(feature)) {
+  for (const feature of insights.features ?? []) {
+    if (PREMIUM_FEATURES.has(feature)) {
       score += 15;
       premiumCount++;
     }
@@ -74,113 +95,42 @@ export function calculatePlaygroundTier(insights: AIInsights | null): TierScore
     reasons.push(`${premiumCount} premium feature${premiumCount > 1 ? "s" : ""}`);
   }
 
-  // ========================================
-  // 2. THEMED & UNIQUE (0-25 points)
-  // ========================================
-  const themedKeywords = [
-    "pirate",
-    "castle",
-    "space",
-    "dinosaur",
-    "rocket",
-    "train",
-    "ship",
-    "themed",
-    "theme park",
-    "adventure",
-    "fantasy",
-    "jungle",
-    "safari",
-  ];
-
-  let themedScore = 0;
-  for (const keyword of themedKeywords) {
-    if (combinedText.includes(keyword)) {
-      themedScore = 20;
-      reasons.push(`Themed playground (${keyword})`);
-      break;
-    }
-  }
-  score += themedScore;
-
   // Named playground (not just "Unnamed Playground")
   if (insights.name && insights.name.length > 3 && !insights.name.toLowerCase().includes("playground")) {
     score += 5;
   }
 
   // ========================================
-  // 3. DESTINATION QUALITY (0-30 points)
-  // ========================================
-  const destinationKeywords = [
-    { word: "destination playground", points: 30 },
-    { word: "award-winning", points: 25 },
-    { word: "famous", points: 20 },
-    { word: "renowned", points: 20 },
-    { word: "popular", points: 10 },
-    { word: "well-known", points: 10 },
-    { word: "unique", points: 15 },
-    { word: "elaborate", points: 15 },
-    { word: "impressive", points: 15 },
-    { word: "spectacular", points: 15 },
-    { word: "world-class", points: 25 },
-  ];
-
-  let destinationBonus = 0;
-  for (const { word, points } of destinationKeywords) {
-    if (description.includes(word)) {
-      destinationBonus = Math.max(destinationBonus, points);
-      if (points >= 20) {
-        reasons.push(`Destination-quality (${word})`);
-      }
-    }
-  }
-  score += destinationBonus;
-
-  // ========================================
-  // 4. AMENITIES & ACCESSIBILITY (0-30 points)
+  // 2. AMENITIES & ACCESSIBILITY (0-30 points)
   // ========================================
   const amenityReasons: string[] = [];
 
-  // Parking
-  if (insights.parking && insights.parking.toLowerCase() !== "no parking information available") {
-    if (insights.parking.toLowerCase().includes("ample") || insights.parking.toLowerCase().includes("large")) {
-      score += 10;
-      amenityReasons.push("ample parking");
-    } else {
-      score += 5;
-      amenityReasons.push("parking available");
-    }
+  // Parking (free text in the user's locale, so only its presence counts)
+  if (insights.parking) {
+    score += 5;
+    amenityReasons.push("parking available");
   }
 
-  // Accessibility features (array format)
-  const accessibilityCount = insights.accessibility?.length || 0;
-
-  if (accessibilityCount > 0) {
-    const accessibilityText = insights.accessibility?.join(" ").toLowerCase() || "";
+  const accessibility = new Set(insights.accessibility ?? []);
 
-    // Wheelchair accessible
-    if (accessibilityText.includes("wheelchair")) {
-      score += 10;
-      amenityReasons.push("wheelchair accessible");
-    }
+  if (accessibility.has("wheelchair_accessible")) {
+    score += 10;
+    amenityReasons.push("wheelchair accessible");
+  }
 
-    // Shade coverage
-    if (accessibilityText.includes("shade")) {
-      score += 5;
-      amenityReasons.push("shade coverage");
-    }
+  if (accessibility.has("shade")) {
+    score += 5;
+    amenityReasons.push("shade coverage");
+  }
 
-    // Accessible restrooms
-    if (accessibilityText.includes("restroom") || accessibilityText.includes("changing_table")) {
-      score += 5;
-      amenityReasons.push("accessible restrooms");
-    }
+  if (accessibility.has("accessible_restrooms") || accessibility.has("changing_table")) {
+    score += 5;
+    amenityReasons.push("accessible restrooms");
+  }
 
-    // Sensory friendly
-    if (accessibilityText.includes("sensory") || accessibilityText.includes("tactile") || accessibilityText.includes("quiet")) {
-      score += 5;
-      amenityReasons.push("sensory-friendly features");
-    }
+  if (accessibility.has("sensory_friendly")) {
+    score += 5;
+    amenityReasons.push("sensory-friendly features");
   }
 
   // Add amenities to reasons (list them out instead of just a count)
@@ -188,28 +138,10 @@ export function calculatePlaygroundTier(insights: AIInsights | null): TierScore
     amenityReasons.forEach(amenity => reasons.push(amenity));
   }
 
-  // ========================================
-  // 5. IMAGES (0-10 points)
-  // ========================================
-  const imageCount = insights.images?.length || 0;
-  if (imageCount >= 3) {
-    score += 10;
-  } else if (imageCount >= 1) {
-    score += 5;
-  }
-
   // ========================================
   // TIER ASSIGNMENT
   // ========================================
-  let tier: PlaygroundTier;
-
-  if (score >= 76) {
-    tier = "star";
-  } else if (score >= 41) {
-    tier = "gem";
-  } else {
-    tier = "neighborhood";
-  }
+  const tier = getTierForScore(score);
 
   // Ensure at least one reason
   if (reasons.length === 0) {
@@ -225,6 +157,52 @@ export function calculatePlaygroundTier(insights: AIInsights | null): TierScore
   };
 }
 
+/**
+ * Tier for a points score
+ */
+export function getTierForScore(score: number): PlaygroundTier {
+  if (score >= TIER_THRESHOLDS.star) return "star";
+  if (score >= TIER_THRESHOLDS.gem) return "gem";
+  return "neighborhood";
+}
+
+/**
+ * Reconcile Gemini's tier with calculatePlaygroundTier
+ * Both are turned into points and averaged with the configured weights;
+ * without a Gemini tier the calculated score is used on its own
+ */
+export function reconcilePlaygroundTier(
+  insights: AIInsights,
+  weights: { model: number; calculated: number } = {
+    model: TIER_MODEL_WEIGHT,
+    calculated: TIER_CALCULATED_WEIGHT,
+  },
+): { tier: PlaygroundTier; tierScore: InsightsTierScore } {
+  const calculated = calculatePlaygroundTier(insights);
+  const calculatedScore = Math.min(calculated.score, MAX_TIER_POINTS);
+  const modelTier = insights.tier;
+
+  const totalWeight = weights.model + weights.calculated;
+  const modelWeight = modelTier && totalWeight > 0 ? weights.model / totalWeight : 0;
+  const score = Math.round(
+    modelTier
+      ? modelWeight * MODEL_TIER_POINTS[modelTier] + (1 - modelWeight) * calculatedScore
+      : calculatedScore,
+  );
+
+  return {
+    tier: getTierForScore(score),
+    tierScore: {
+      score,
+      model_tier: modelTier,
+      calculated_tier: calculated.tier,
+      calculated_score: calculatedScore,
+      reasons: calculated.reasons,
+      weights: { model: modelWeight, calculated: 1 - modelWeight },
+    },
+  };
+}
+
 /**
  * Get display information for a tier
  */
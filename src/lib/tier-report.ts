@@ -0,0 +1,117 @@
+/**
+ * Tier Disagreement Report
+ * Compares Gemini's tier with the points-based calculated tier across cached
+ * insights (tier_score, see reconcilePlaygroundTier) so admins can tune the
+ * prompt, the calculator or the weights.
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import type { PlaygroundTier } from "@/lib/tier-calculator";
+import type { InsightsTierScore } from "@/types/ai-insights";
+
+const AI_INSIGHTS_CACHE_TABLE_NAME =
+  process.env.AI_INSIGHTS_CACHE_TABLE_NAME ||
+  "ai_insights_cache";
+
+const TIERS: PlaygroundTier[] = ["neighborhood", "gem", "star"];
+
+type TierScoreRow = {
+  cache_key: string;
+  name: string | null;
+  tier: PlaygroundTier | null;
+  tier_score: InsightsTierScore;
+  created_at: string;
+};
+
+export type TierDisagreement = {
+  cacheKey: string;
+  name: string | null;
+  tier: PlaygroundTier | null;
+  tierScore: InsightsTierScore;
+  createdAt: string;
+};
+
+export type TierReport = {
+  // Cache entries with a tier score (the most recent `limit`)
+  total: number;
+  // Entries where Gemini and the calculator picked the same tier
+  agreements: number;
+  // Gemini tier -> calculated tier -> count
+  matrix: Record<PlaygroundTier, Record<PlaygroundTier, number>>;
+  // Entries without a Gemini tier (calculated score only)
+  withoutModelTier: number;
+  // Largest gaps between Gemini's tier and the calculated one first
+  disagreements: TierDisagreement[];
+};
+
+const TIER_RANK: Record<PlaygroundTier, number> = { neighborhood: 0, gem: 1, star: 2 };
+
+function emptyMatrix(): TierReport["matrix"] {
+  return Object.fromEntries(
+    TIERS.map((modelTier) => [modelTier, Object.fromEntries(TIERS.map((tier) => [tier, 0]))]),
+  ) as TierReport["matrix"];
+}
+
+/**
+ * Build the report from the most recently cached insights
+ * Returns null if the cache can't be read
+ */
+export async function fetchTierReport({
+  limit = 1000,
+}: {
+  limit?: number;
+} = {}): Promise<TierReport | null> {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from(AI_INSIGHTS_CACHE_TABLE_NAME)
+      .select("cache_key, name, tier, tier_score, created_at")
+      .not("tier_score", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error || !data) {
+      console.error("[TierReport] ❌ Error fetching tier scores:", error);
+      return null;
+    }
+
+    const report: TierReport = {
+      total: data.length,
+      agreements: 0,
+      matrix: emptyMatrix(),
+      withoutModelTier: 0,
+      disagreements: [],
+    };
+
+    for (const row of data as TierScoreRow[]) {
+      const { model_tier: modelTier, calculated_tier: calculatedTier } = row.tier_score;
+      if (!modelTier) {
+        report.withoutModelTier++;
+        continue;
+      }
+
+      report.matrix[modelTier][calculatedTier]++;
+      if (modelTier === calculatedTier) {
+        report.agreements++;
+      } else {
+        report.disagreements.push({
+          cacheKey: row.cache_key,
+          name: row.name,
+          tier: row.tier,
+          tierScore: row.tier_score,
+          createdAt: row.created_at,
+        });
+      }
+    }
+
+    const gap = (entry: TierDisagreement) =>
+      Math.abs(TIER_RANK[entry.tierScore.model_tier!] - TIER_RANK[entry.tierScore.calculated_tier]);
+    report.disagreements.sort((a, b) => gap(b) - gap(a));
+
+    return report;
+  } catch (error) {
+    console.error("[TierReport] ❌ Error building tier report:", error);
+    return null;
+  }
+}
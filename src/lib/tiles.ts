@@ -0,0 +1,106 @@
+import { MapBounds } from "@/types/map";
+
+/**
+ * Slippy-map (XYZ / Web Mercator) tile math shared by the OSM tile cache and
+ * the vector tile endpoint
+ */
+
+export type MapTile = {
+  z: number;
+  x: number;
+  y: number;
+};
+
+// Web Mercator latitude limit
+const MAX_LATITUDE = 85.05112878;
+
+// Fractional tile coordinates of a point at zoom z
+function lonToTileXFraction(lon: number, z: number): number {
+  return ((lon + 180) / 360) * 2 ** z;
+}
+
+function latToTileYFraction(lat: number, z: number): number {
+  const clamped = Math.min(Math.max(lat, -MAX_LATITUDE), MAX_LATITUDE);
+  const latRad = (clamped * Math.PI) / 180;
+  return ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * 2 ** z;
+}
+
+function clampTileIndex(value: number, z: number): number {
+  return Math.min(Math.max(Math.floor(value), 0), 2 ** z - 1);
+}
+
+function tileYToLat(y: number, z: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** z;
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+}
+
+/**
+ * Check that z/x/y address an existing tile
+ */
+export function isValidTile({ z, x, y }: MapTile, maxZoom: number = 22): boolean {
+  return (
+    Number.isInteger(z) && Number.isInteger(x) && Number.isInteger(y) &&
+    z >= 0 && z <= maxZoom &&
+    x >= 0 && x < 2 ** z &&
+    y >= 0 && y < 2 ** z
+  );
+}
+
+/**
+ * Get the tile containing a point
+ */
+export function getTileForPoint(lat: number, lon: number, z: number): MapTile {
+  return {
+    z,
+    x: clampTileIndex(lonToTileXFraction(lon, z), z),
+    y: clampTileIndex(latToTileYFraction(lat, z), z),
+  };
+}
+
+/**
+ * Get the bounding box of a tile
+ */
+export function getTileBounds({ z, x, y }: MapTile): MapBounds {
+  return {
+    north: tileYToLat(y, z),
+    south: tileYToLat(y + 1, z),
+    west: (x / 2 ** z) * 360 - 180,
+    east: ((x + 1) / 2 ** z) * 360 - 180,
+    zoom: z,
+  };
+}
+
+/**
+ * Get all tiles intersecting a viewport
+ * Returns an empty array for viewports crossing the antimeridian (west > east)
+ */
+export function getCoveringTiles(bounds: MapBounds, z: number): MapTile[] {
+  const minX = clampTileIndex(lonToTileXFraction(bounds.west, z), z);
+  const maxX = clampTileIndex(lonToTileXFraction(bounds.east, z), z);
+  // Tile rows count from the north
+  const minY = clampTileIndex(latToTileYFraction(bounds.north, z), z);
+  const maxY = clampTileIndex(latToTileYFraction(bounds.south, z), z);
+
+  const tiles: MapTile[] = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Project a point into tile-local coordinates (0..extent inside the tile)
+ */
+export function projectToTile(
+  lat: number,
+  lon: number,
+  { z, x, y }: MapTile,
+  extent: number,
+): { x: number; y: number } {
+  return {
+    x: Math.round((lonToTileXFraction(lon, z) - x) * extent),
+    y: Math.round((latToTileYFraction(lat, z) - y) * extent),
+  };
+}
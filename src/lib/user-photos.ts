@@ -0,0 +1,597 @@
+/**
+ * User Photos
+ * Signed-in visitors upload their own photos of a playground. Photos are held
+ * for moderation and only shown once an admin (APP_ADMIN_ROLE) approves them.
+ *
+ * Flow:
+ * 1. POST /api/user-photos checks the upload: size (USER_PHOTO_MAX_BYTES),
+ *    type (USER_PHOTO_TYPES, verified by decoding), minimum dimensions and a
+ *    daily per-user limit (USER_PHOTO_DAILY_LIMIT)
+ * 2. Proximity: the photo's EXIF GPS position (or the device location sent
+ *    with the upload) must be within USER_PHOTO_MAX_DISTANCE_M of the
+ *    playground. The device location is whatever the client sent, so only an
+ *    EXIF position counts as verified: photos located by the device or not at
+ *    all are accepted and flagged for the moderator
+ * 3. The photo is re-encoded into the image proxy's WebP variants, which drops
+ *    EXIF (GPS, camera, timestamps); the original bytes are never stored
+ * 4. Admins approve or reject pending photos at /admin/photos (approved photos
+ *    can still be taken down by rejecting them)
+ * 5. fetchPlaygroundImages puts approved photos ahead of search-engine images
+ *
+ * Only the server reads and writes the table and the stored variants (service
+ * role; RLS blocks the anon key), so every upload goes through these checks.
+ * Variants are stored under user-photos/{id}/{variant}.webp and served from
+ * /api/user-photos/{id}/{variant}; pending and rejected photos only to their
+ * uploader and admins.
+ *
+ * Table is defined in supabase-schema.sql (section 12).
+ */
+
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import type { User } from "@supabase/supabase-js";
+import { createServiceClient } from "@/lib/supabase/service";
+import { getSignedInUser } from "@/lib/admin";
+import { fetchMultipleOSMPlaceDetails } from "@/lib/osm";
+import { buildImageStoragePath, getImageStorage } from "@/lib/image-storage";
+import { isImageVariant, renderVariants, type ImageVariant } from "@/lib/image-proxy";
+import { APP_ADMIN_ROLE, USER_PHOTO_TYPES } from "@/lib/constants";
+import { getDistanceMeters } from "@/lib/utils";
+import type { PlaygroundImage } from "@/lib/images";
+
+const USER_PHOTOS_TABLE_NAME = process.env.USER_PHOTOS_TABLE_NAME || "user_photos";
+
+// Uploads larger than this are rejected (10 MB)
+const USER_PHOTO_MAX_BYTES = parseInt(process.env.USER_PHOTO_MAX_BYTES || "10485760");
+// Shorter side in pixels
+const USER_PHOTO_MIN_DIMENSION = parseInt(process.env.USER_PHOTO_MIN_DIMENSION || "480");
+// Photos taken further from the playground are rejected
+const USER_PHOTO_MAX_DISTANCE_M = parseInt(process.env.USER_PHOTO_MAX_DISTANCE_M || "300");
+// Uploads per user in 24 hours
+const USER_PHOTO_DAILY_LIMIT = parseInt(process.env.USER_PHOTO_DAILY_LIMIT || "10");
+// Approved photos shown per playground (newest approvals first)
+const USER_PHOTO_MAX_PER_PLAYGROUND = 10;
+
+// Decompression bomb guard (pixels in the decoded upload)
+const MAX_INPUT_PIXELS = 50_000_000;
+// Longest rejection reason kept
+const MAX_REJECTION_REASON_LENGTH = 500;
+
+const USER_PHOTO_COLUMNS =
+  "id, osm_id, user_id, status, width, height, original_bytes, distance_m, location_source, rejection_reason, reviewed_by, reviewed_at, created_at";
+
+export type UserPhotoStatus = "pending" | "approved" | "rejected";
+
+// Where the proximity check's position came from ("device" is client-reported)
+export type UserPhotoLocationSource = "exif" | "device";
+
+type UserPhotoRow = {
+  id: string;
+  osm_id: string;
+  user_id: string;
+  status: UserPhotoStatus;
+  width: number;
+  height: number;
+  original_bytes: number;
+  distance_m: number | null;
+  location_source: UserPhotoLocationSource | null;
+  rejection_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+};
+
+export interface UserPhoto {
+  id: string;
+  osmId: string;
+  userId: string;
+  status: UserPhotoStatus;
+  // The photo as a playground image (variants served from /api/user-photos)
+  image: PlaygroundImage;
+  originalBytes: number;
+  // Distance from the playground in meters; null if the photo had no location
+  distanceM: number | null;
+  locationSource: UserPhotoLocationSource | null;
+  // Only an EXIF GPS position is verified; moderators check the rest by eye
+  locationVerified: boolean;
+  rejectionReason: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+// Why an upload was refused (the route maps these to HTTP statuses)
+export type UserPhotoUploadError =
+  | "too_large"
+  | "unsupported_type"
+  | "too_small"
+  | "too_far"
+  | "unknown_playground"
+  | "rate_limited"
+  | "failed";
+
+export function isUserPhotoId(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(value);
+}
+
+export function buildUserPhotoUrl(id: string, variant: ImageVariant): string {
+  return `/api/user-photos/${id}/${variant}`;
+}
+
+/**
+ * ID and variant of a user photo URL ("/api/user-photos/{id}/{variant}"), null for other URLs
+ */
+export function parseUserPhotoUrl(url: string): { id: string; variant: ImageVariant } | null {
+  const match = url.match(/^\/api\/user-photos\/([0-9a-f-]{36})\/(\w+)$/);
+  return match && isUserPhotoId(match[1]) && isImageVariant(match[2])
+    ? { id: match[1], variant: match[2] }
+    : null;
+}
+
+function getVariantPath(id: string, variant: ImageVariant): string {
+  return buildImageStoragePath("user-photos", id, `${variant}.webp`);
+}
+
+function toPlaygroundImage(row: Pick<UserPhotoRow, "id" | "width" | "height">): PlaygroundImage {
+  const fullUrl = buildUserPhotoUrl(row.id, "full");
+  return {
+    image_url: fullUrl,
+    origin_url: fullUrl,
+    width: row.width,
+    height: row.height,
+    title: "Visitor photo",
+    card_url: buildUserPhotoUrl(row.id, "card"),
+    thumbnail_url: buildUserPhotoUrl(row.id, "thumbnail"),
+    provider: "user",
+    license: null,
+  };
+}
+
+function toUserPhoto(row: UserPhotoRow): UserPhoto {
+  return {
+    id: row.id,
+    osmId: row.osm_id,
+    userId: row.user_id,
+    status: row.status,
+    image: toPlaygroundImage(row),
+    originalBytes: row.original_bytes,
+    distanceM: row.distance_m,
+    locationSource: row.location_source,
+    locationVerified: row.location_source === "exif",
+    rejectionReason: row.rejection_reason,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * GPS position from a raw EXIF block (sharp's metadata().exif), null if it has none
+ * Reads GPSLatitude/GPSLongitude and their N/S, E/W refs from the GPS IFD
+ */
+function readExifGpsPosition(exif: Buffer): { lat: number; lon: number } | null {
+  try {
+    // sharp includes the APP1 "Exif\0\0" header before the TIFF data
+    const tiff = exif.toString("latin1", 0, 6) === "Exif\0\0" ? exif.subarray(6) : exif;
+    const littleEndian = tiff.toString("latin1", 0, 2) === "II";
+    const readUInt16 = (offset: number) =>
+      littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+    const readUInt32 = (offset: number) =>
+      littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+    // Offset of an IFD entry (12 bytes: tag, type, count, value or offset)
+    const findEntry = (ifdOffset: number, tag: number): number | null => {
+      const count = readUInt16(ifdOffset);
+      for (let index = 0; index < count; index++) {
+        const entry = ifdOffset + 2 + index * 12;
+        if (readUInt16(entry) === tag) return entry;
+      }
+      return null;
+    };
+
+    const gpsPointer = findEntry(readUInt32(4), 0x8825);
+    if (gpsPointer === null) {
+      return null;
+    }
+    const gpsIfd = readUInt32(gpsPointer + 8);
+
+    // Degrees, minutes and seconds are three RATIONALs (stored at an offset); the ref is inline ASCII
+    const readCoordinate = (refTag: number, valueTag: number): number | null => {
+      const refEntry = findEntry(gpsIfd, refTag);
+      const valueEntry = findEntry(gpsIfd, valueTag);
+      if (refEntry === null || valueEntry === null) return null;
+
+      const valueOffset = readUInt32(valueEntry + 8);
+      const [degrees, minutes, seconds] = [0, 1, 2].map(
+        (index) => readUInt32(valueOffset + index * 8) / readUInt32(valueOffset + index * 8 + 4),
+      );
+      const ref = String.fromCharCode(tiff[refEntry + 8]);
+      const value = degrees + minutes / 60 + seconds / 3600;
+      return ref === "S" || ref === "W" ? -value : value;
+    };
+
+    const lat = readCoordinate(1, 2);
+    const lon = readCoordinate(3, 4);
+    if (lat === null || lon === null || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+      return null;
+    }
+    // Cameras without a fix write zeros
+    if ((lat === 0 && lon === 0) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return null;
+    }
+    return { lat, lon };
+  } catch {
+    // Truncated or malformed EXIF (reads past the end of the buffer)
+    return null;
+  }
+}
+
+const USER_PHOTO_VARIANTS: ImageVariant[] = ["full", "card", "thumbnail"];
+
+const DAILY_LIMIT_REACHED = {
+  error: "You've reached today's upload limit - try again tomorrow",
+  reason: "rate_limited",
+} as const;
+
+/**
+ * Uploads in the last 24 hours (a cheap early check; insertUserPhoto enforces the limit)
+ */
+async function countRecentUploads(userId: string): Promise<number> {
+  const supabase = createServiceClient();
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const { count, error } = await supabase
+    .from(USER_PHOTOS_TABLE_NAME)
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .gte("created_at", since);
+
+  if (error) {
+    console.error("[UserPhotos] ❌ Error counting recent uploads:", error);
+    return 0;
+  }
+  return count ?? 0;
+}
+
+/**
+ * Insert a pending photo unless the user reached the daily limit (null then)
+ * insert_user_photo counts and inserts under a per-user lock, so parallel
+ * uploads can't all pass the limit
+ */
+async function insertUserPhoto(
+  row: Omit<UserPhotoRow, "status" | "rejection_reason" | "reviewed_by" | "reviewed_at" | "created_at">,
+): Promise<UserPhotoRow | null> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.rpc("insert_user_photo", {
+    p_id: row.id,
+    p_osm_id: row.osm_id,
+    p_user_id: row.user_id,
+    p_width: row.width,
+    p_height: row.height,
+    p_original_bytes: row.original_bytes,
+    p_distance_m: row.distance_m,
+    p_location_source: row.location_source,
+    p_daily_limit: USER_PHOTO_DAILY_LIMIT,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save photo: ${error.message}`);
+  }
+  return ((data ?? []) as UserPhotoRow[])[0] ?? null;
+}
+
+async function deleteVariants(id: string): Promise<void> {
+  try {
+    await getImageStorage().delete(USER_PHOTO_VARIANTS.map((variant) => getVariantPath(id, variant)));
+  } catch (error) {
+    console.error(`[UserPhotos] ❌ Error deleting variants of ${id}:`, error);
+  }
+}
+
+/**
+ * Check, strip and store an uploaded photo as pending
+ * Returns the photo, or why it was refused
+ */
+export async function uploadUserPhoto({
+  osmId,
+  data,
+  contentType,
+  deviceLocation,
+  user,
+}: {
+  osmId: string;
+  data: Buffer;
+  contentType: string;
+  // Where the uploader's device was (used if the photo has no GPS position)
+  deviceLocation?: { lat: number; lon: number } | null;
+  user: User;
+}): Promise<{ photo: UserPhoto } | { error: string; reason: UserPhotoUploadError }> {
+  if (data.byteLength > USER_PHOTO_MAX_BYTES) {
+    return {
+      error: `Photos can be at most ${Math.round(USER_PHOTO_MAX_BYTES / 1048576)} MB`,
+      reason: "too_large",
+    };
+  }
+
+  const unsupported = { error: "Only JPEG, PNG and WebP photos are supported", reason: "unsupported_type" } as const;
+  if (!USER_PHOTO_TYPES.includes(contentType)) {
+    return unsupported;
+  }
+
+  // The declared type isn't trusted: the bytes must decode as one of the formats
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    return unsupported;
+  }
+  if (!metadata.format || !["jpeg", "png", "webp"].includes(metadata.format)) {
+    return unsupported;
+  }
+  if (Math.min(metadata.width ?? 0, metadata.height ?? 0) < USER_PHOTO_MIN_DIMENSION) {
+    return {
+      error: `Photos must be at least ${USER_PHOTO_MIN_DIMENSION} pixels on each side`,
+      reason: "too_small",
+    };
+  }
+
+  try {
+    if ((await countRecentUploads(user.id)) >= USER_PHOTO_DAILY_LIMIT) {
+      return DAILY_LIMIT_REACHED;
+    }
+
+    const [place] = await fetchMultipleOSMPlaceDetails({ osmIds: [osmId] });
+    if (!place || place.type !== "playground") {
+      return { error: "Playground not found", reason: "unknown_playground" };
+    }
+    const playground = { lat: parseFloat(place.lat), lon: parseFloat(place.lon) };
+
+    const exifPosition = metadata.exif ? readExifGpsPosition(metadata.exif) : null;
+    const position = exifPosition ?? deviceLocation ?? null;
+    const distanceM = position ? Math.round(getDistanceMeters(position, playground)) : null;
+    if (distanceM !== null && distanceM > USER_PHOTO_MAX_DISTANCE_M) {
+      return {
+        error: exifPosition
+          ? `This photo was taken ${distanceM} m from the playground`
+          : `You seem to be ${distanceM} m from the playground - upload photos taken there`,
+        reason: "too_far",
+      };
+    }
+
+    // Re-encoding drops every metadata block (EXIF GPS included)
+    const id = randomUUID();
+    const { variants, width, height } = await renderVariants(data);
+
+    let row: UserPhotoRow | null = null;
+    try {
+      const storage = getImageStorage();
+      for (const variant of USER_PHOTO_VARIANTS) {
+        await storage.put(getVariantPath(id, variant), variants[variant], "image/webp");
+      }
+
+      row = await insertUserPhoto({
+        id,
+        osm_id: osmId,
+        user_id: user.id,
+        width,
+        height,
+        original_bytes: data.byteLength,
+        distance_m: distanceM,
+        location_source: exifPosition ? "exif" : deviceLocation ? "device" : null,
+      });
+    } finally {
+      // Variants without a row would never be served or cleaned up
+      if (!row) {
+        await deleteVariants(id);
+      }
+    }
+
+    if (!row) {
+      return DAILY_LIMIT_REACHED;
+    }
+
+    console.log(`[UserPhotos] 📷 Photo ${id} uploaded for ${osmId} (pending)`);
+    return { photo: toUserPhoto(row) };
+  } catch (error) {
+    console.error("[UserPhotos] ❌ Error uploading photo:", error);
+    return { error: "Failed to save photo", reason: "failed" };
+  }
+}
+
+/**
+ * Approved photos of a playground as images, newest approvals first
+ */
+export async function fetchApprovedUserPhotoImages({
+  osmId,
+}: {
+  osmId: string;
+}): Promise<PlaygroundImage[]> {
+  try {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from(USER_PHOTOS_TABLE_NAME)
+      .select("id, width, height")
+      .eq("osm_id", osmId)
+      .eq("status", "approved")
+      .order("reviewed_at", { ascending: false })
+      .limit(USER_PHOTO_MAX_PER_PLAYGROUND);
+
+    if (error || !data) {
+      console.error("[UserPhotos] ❌ Error fetching approved photos:", error);
+      return [];
+    }
+
+    return data.map(toPlaygroundImage);
+  } catch (error) {
+    console.error("[UserPhotos] ❌ Error fetching approved photos:", error);
+    return [];
+  }
+}
+
+/**
+ * Stored WebP bytes of a photo's variant with its status
+ * Null if the photo doesn't exist or isn't visible to the caller (pending and
+ * rejected photos are only visible to their uploader and admins)
+ */
+export async function getUserPhotoVariant({
+  id,
+  variant,
+}: {
+  id: string;
+  variant: ImageVariant;
+}): Promise<{ data: Buffer; status: UserPhotoStatus } | null> {
+  try {
+    const supabase = createServiceClient();
+    const { data: row, error } = await supabase
+      .from(USER_PHOTOS_TABLE_NAME)
+      .select("status, user_id")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error || !row) {
+      return null;
+    }
+
+    if (row.status !== "approved") {
+      const user = await getSignedInUser();
+      if (!user || (user.id !== row.user_id && user.role !== APP_ADMIN_ROLE)) {
+        return null;
+      }
+    }
+
+    const data = await getImageStorage().get(getVariantPath(id, variant));
+    return data ? { data, status: row.status as UserPhotoStatus } : null;
+  } catch (error) {
+    console.error(`[UserPhotos] ❌ Error serving photo ${id}/${variant}:`, error);
+    return null;
+  }
+}
+
+/**
+ * An approved photo's variant as JPEG, for renderers without WebP support (OG images)
+ */
+export async function getUserPhotoJpeg({
+  id,
+  variant,
+}: {
+  id: string;
+  variant: ImageVariant;
+}): Promise<Buffer | null> {
+  const photo = await getUserPhotoVariant({ id, variant });
+  if (!photo || photo.status !== "approved") {
+    return null;
+  }
+
+  try {
+    return await sharp(photo.data).jpeg({ quality: 85 }).toBuffer();
+  } catch (error) {
+    console.error(`[UserPhotos] ❌ Error converting photo ${id}/${variant}:`, error);
+    return null;
+  }
+}
+
+/**
+ * List photos for moderation (pending: oldest first, so the queue is worked in order)
+ */
+export async function listUserPhotos({
+  status,
+  limit = 50,
+}: {
+  status: UserPhotoStatus;
+  limit?: number;
+}): Promise<UserPhoto[]> {
+  try {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from(USER_PHOTOS_TABLE_NAME)
+      .select(USER_PHOTO_COLUMNS)
+      .eq("status", status)
+      .order(status === "pending" ? "created_at" : "reviewed_at", { ascending: status === "pending" })
+      .limit(limit);
+
+    if (error) {
+      console.error("[UserPhotos] ❌ Error listing photos:", error);
+      return [];
+    }
+
+    return ((data ?? []) as UserPhotoRow[]).map(toUserPhoto);
+  } catch (error) {
+    console.error("[UserPhotos] ❌ Error listing photos:", error);
+    return [];
+  }
+}
+
+async function updateUserPhotoStatus(
+  id: string,
+  fromStatuses: UserPhotoStatus[],
+  update: Partial<UserPhotoRow>,
+): Promise<UserPhoto | null> {
+  const supabase = createServiceClient();
+
+  // A concurrent decision wins
+  const { data, error } = await supabase
+    .from(USER_PHOTOS_TABLE_NAME)
+    .update({ ...update, reviewed_at: new Date().toISOString() })
+    .eq("id", id)
+    .in("status", fromStatuses)
+    .select(USER_PHOTO_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[UserPhotos] ❌ Error updating photo ${id}:`, error);
+    return null;
+  }
+
+  return data ? toUserPhoto(data as UserPhotoRow) : null;
+}
+
+/**
+ * Approve a pending photo (shown ahead of search-engine images from now on)
+ * Returns null if the photo doesn't exist or was already decided
+ */
+export async function approveUserPhoto({
+  id,
+  reviewedBy,
+}: {
+  id: string;
+  reviewedBy: string;
+}): Promise<UserPhoto | null> {
+  try {
+    const photo = await updateUserPhotoStatus(id, ["pending"], {
+      status: "approved",
+      rejection_reason: null,
+      reviewed_by: reviewedBy,
+    });
+    if (photo) {
+      console.log(`[UserPhotos] ✅ Approved photo ${id} (${photo.osmId})`);
+    }
+    return photo;
+  } catch (error) {
+    console.error(`[UserPhotos] ❌ Error approving photo ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reject a pending photo, or take down an approved one
+ * Returns null if the photo doesn't exist or was already rejected
+ */
+export async function rejectUserPhoto({
+  id,
+  reason,
+  reviewedBy,
+}: {
+  id: string;
+  reason?: string;
+  reviewedBy: string;
+}): Promise<UserPhoto | null> {
+  try {
+    return await updateUserPhotoStatus(id, ["pending", "approved"], {
+      status: "rejected",
+      rejection_reason: reason?.trim().slice(0, MAX_REJECTION_REASON_LENGTH) || null,
+      reviewed_by: reviewedBy,
+    });
+  } catch (error) {
+    console.error(`[UserPhotos] ❌ Error rejecting photo ${id}:`, error);
+    return null;
+  }
+}
@@ -1,6 +1,14 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { MapBounds } from "@/types/map";
+import {
+  EMPTY_PLAYGROUND_FILTERS,
+  hasActiveFilters,
+  normalizePlaygroundFilters,
+  parsePlaygroundFilters,
+  setPlaygroundFilterParams,
+  type PlaygroundFilters,
+} from "@/lib/filters";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -86,7 +94,16 @@ export function getMapBoundsStateFromUrl(): MapBounds | null {
   return bounds;
 }
 
+export function getFiltersStateFromUrl(): PlaygroundFilters {
+  if (typeof window === "undefined") {
+    return EMPTY_PLAYGROUND_FILTERS;
+  }
+
+  return parsePlaygroundFilters(new URLSearchParams(window.location.search));
+}
+
 const SESSION_STORAGE_KEY = "mapBounds";
+const FILTERS_SESSION_STORAGE_KEY = "playgroundFilters";
 
 export function saveMapBoundsToSession(bounds: MapBounds | null) {
   if (typeof window === "undefined") {
@@ -140,13 +157,53 @@ export function getMapBoundsFromSession(): MapBounds | null {
   }
 }
 
-export function updateUrlWithMapBounds(bounds: MapBounds | null) {
+export function saveFiltersToSession(filters: PlaygroundFilters) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    if (hasActiveFilters(filters)) {
+      sessionStorage.setItem(FILTERS_SESSION_STORAGE_KEY, JSON.stringify(filters));
+    } else {
+      sessionStorage.removeItem(FILTERS_SESSION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to save filters to session storage:", error);
+  }
+}
+
+export function getFiltersFromSession(): PlaygroundFilters | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  try {
+    const stored = sessionStorage.getItem(FILTERS_SESSION_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    const filters = normalizePlaygroundFilters(JSON.parse(stored));
+
+    return hasActiveFilters(filters) ? filters : null;
+  } catch (error) {
+    console.error("Failed to load filters from session storage:", error);
+    return null;
+  }
+}
+
+export function updateUrlWithMapBounds(
+  bounds: MapBounds | null,
+  filters: PlaygroundFilters = EMPTY_PLAYGROUND_FILTERS,
+) {
   if (typeof window === "undefined") {
     return;
   }
 
   // Save to session storage
   saveMapBoundsToSession(bounds);
+  saveFiltersToSession(filters);
 
   const url = new URL(window.location.href);
   const params = new URLSearchParams(url.search);
@@ -165,6 +222,9 @@ export function updateUrlWithMapBounds(bounds: MapBounds | null) {
     params.delete("zoom");
   }
 
+  // Filters sit next to the bounds (e.g. "&tier=gem&features=swings")
+  setPlaygroundFilterParams(params, filters);
+
   if (params.toString()) {
     window.history.pushState({}, "", `${url.pathname}?${params.toString()}`);
   } else {
@@ -195,6 +255,28 @@ export function isValidImageUrl(url: string | null | undefined): boolean {
   // Explicitly reject x-raw-image:// format
   if (url.startsWith('x-raw-image://')) return false;
 
+  // Variants served by the image proxy (src/lib/image-proxy.ts)
+  if (url.startsWith('/api/image/')) return true;
+
+  // Approved user photos (src/lib/user-photos.ts)
+  if (url.startsWith('/api/user-photos/')) return true;
+
   // Only accept http:// or https:// URLs
   return url.startsWith('http://') || url.startsWith('https://');
 }
+
+/**
+ * Great-circle distance between two coordinates in meters (haversine)
+ */
+export function getDistanceMeters(
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number },
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
@@ -1,9 +1,24 @@
 /**
  * NLP Description Validator
  * Validates that descriptions contain playground-related content and
- * don't mention conflicting locations.
+ * don't mention conflicting locations (places from the bundled gazetteer,
+ * see src/lib/gazetteer; only checked for countries it covers).
  */
 
+import {
+  findPlaceMentions,
+  isGazetteerCountry,
+  normalizePlaceText,
+  resolveRegionCode,
+  type PlaceMention,
+} from '@/lib/gazetteer';
+import {
+  DEFAULT_INSIGHTS_LOCALE,
+  getPlaygroundKeywords,
+  getProximityTerms,
+  type InsightsLocale,
+} from '@/lib/insights-locale';
+
 export interface DescriptionValidationResult {
   isValid: boolean;
   score: number; // 0-100
@@ -77,33 +92,67 @@ const NEGATIVE_KEYWORDS = [
   'property listing',
 ];
 
-// Common US states (abbreviated and full names) for location conflict detection
-const US_STATES = [
-  'alabama', 'al', 'alaska', 'ak', 'arizona', 'az', 'arkansas', 'ar',
-  'california', 'ca', 'colorado', 'co', 'connecticut', 'ct',
-  'delaware', 'de', 'florida', 'fl', 'georgia', 'ga',
-  'hawaii', 'hi', 'idaho', 'id', 'illinois', 'il', 'indiana', 'in',
-  'iowa', 'ia', 'kansas', 'ks', 'kentucky', 'ky', 'louisiana', 'la',
-  'maine', 'me', 'maryland', 'md', 'massachusetts', 'ma', 'michigan', 'mi',
-  'minnesota', 'mn', 'mississippi', 'ms', 'missouri', 'mo', 'montana', 'mt',
-  'nebraska', 'ne', 'nevada', 'nv', 'new hampshire', 'nh', 'new jersey', 'nj',
-  'new mexico', 'nm', 'new york', 'ny', 'north carolina', 'nc', 'north dakota', 'nd',
-  'ohio', 'oh', 'oklahoma', 'ok', 'oregon', 'or', 'pennsylvania', 'pa',
-  'rhode island', 'ri', 'south carolina', 'sc', 'south dakota', 'sd',
-  'tennessee', 'tn', 'texas', 'tx', 'utah', 'ut', 'vermont', 'vt',
-  'virginia', 'va', 'washington', 'wa', 'west virginia', 'wv',
-  'wisconsin', 'wi', 'wyoming', 'wy',
-];
+/**
+ * Whether one of the places a mention could refer to is at the target location
+ */
+function isAtTargetLocation(
+  mention: PlaceMention,
+  targetCountry: string,
+  targetRegionCode: string | null
+): boolean {
+  return mention.places.some((place) =>
+    place.countryCode === targetCountry &&
+    (place.kind === 'country' || !targetRegionCode || !place.regionCode || place.regionCode === targetRegionCode)
+  );
+}
 
-// Major US cities for location conflict detection
-const MAJOR_CITIES = [
-  'new york', 'los angeles', 'chicago', 'houston', 'phoenix', 'philadelphia',
-  'san antonio', 'san diego', 'dallas', 'san jose', 'austin', 'jacksonville',
-  'fort worth', 'columbus', 'charlotte', 'san francisco', 'indianapolis',
-  'seattle', 'denver', 'washington', 'boston', 'nashville', 'detroit',
-  'portland', 'memphis', 'oklahoma city', 'las vegas', 'baltimore', 'milwaukee',
-  'albuquerque', 'tucson', 'fresno', 'sacramento', 'atlanta', 'miami',
-];
+/**
+ * Places mentioned in a description that don't match the target location
+ * Mentions that are part of the playground's own name or location ("Ontario
+ * Street Playground") and comparisons ("near Boston") are ignored
+ */
+function findLocationConflicts({
+  description,
+  name,
+  targetCity,
+  targetRegion,
+  targetCountry,
+  locale,
+}: {
+  description: string;
+  name: string | null;
+  targetCity?: string;
+  targetRegion?: string;
+  targetCountry: string;
+  locale: InsightsLocale;
+}): string[] {
+  const country = targetCountry.toUpperCase();
+  const targetRegionCode = resolveRegionCode({ countryCode: country, region: targetRegion, city: targetCity });
+  const ownNames = normalizePlaceText([name, targetCity, targetRegion].filter(Boolean).join(' | '));
+  const proximityTerms = getProximityTerms(locale).map((term) => normalizePlaceText(term));
+  const text = normalizePlaceText(description);
+  const lowerText = text.toLowerCase();
+  const conflicts = new Set<string>();
+
+  for (const mention of findPlaceMentions(description)) {
+    if (ownNames.includes(mention.text) || isAtTargetLocation(mention, country, targetRegionCode)) {
+      continue;
+    }
+
+    // Make sure it's not in context of "near" or "similar to"
+    const context = lowerText.substring(
+      Math.max(0, mention.index - 30),
+      Math.min(text.length, mention.index + mention.text.length + 30)
+    );
+    if (proximityTerms.some((term) => new RegExp(`(^|[^\\p{L}])${term}([^\\p{L}]|$)`, 'u').test(context))) {
+      continue;
+    }
+
+    conflicts.add(mention.text);
+  }
+
+  return Array.from(conflicts);
+}
 
 /**
  * Validates a description for playground relevance and location accuracy
@@ -112,7 +161,9 @@ export function validateDescription(
   description: string | null,
   name: string | null,
   targetCity?: string,
-  targetRegion?: string
+  targetRegion?: string,
+  targetCountry?: string,
+  locale: InsightsLocale = DEFAULT_INSIGHTS_LOCALE
 ): DescriptionValidationResult {
   const result: DescriptionValidationResult = {
     isValid: true,
@@ -140,8 +191,8 @@ export function validateDescription(
   const lowerName = name?.toLowerCase() || '';
   const combinedText = `${lowerDesc} ${lowerName}`;
 
-  // Count core playground keywords
-  for (const keyword of CORE_PLAYGROUND_KEYWORDS) {
+  // Count core playground keywords (English plus the description's language)
+  for (const keyword of [...CORE_PLAYGROUND_KEYWORDS, ...getPlaygroundKeywords(locale)]) {
     if (combinedText.includes(keyword)) {
       result.playgroundKeywordCount++;
       result.score += 5;
@@ -170,56 +221,23 @@ export function validateDescription(
     }
   }
 
-  // Check for location conflicts (only check multi-word city/state names to avoid false positives)
-  if (targetCity && targetRegion) {
-    const targetCityLower = targetCity.toLowerCase();
-    const targetRegionLower = targetRegion.toLowerCase();
-
-    // Only check multi-word cities/states (less false positives)
-    const multiWordCities = MAJOR_CITIES.filter(city => city.includes(' '));
-    const multiWordStates = US_STATES.filter(state => state.includes(' '));
-
-    // Check if description mentions different cities
-    for (const city of multiWordCities) {
-      if (city === targetCityLower) continue; // Skip target city
-
-      // Use word boundary regex for more accurate matching
-      const cityRegex = new RegExp(`\\b${city}\\b`, 'i');
-      if (cityRegex.test(combinedText)) {
-        // Make sure it's not in context of "near" or "similar to"
-        const cityIndex = combinedText.indexOf(city);
-        const beforeContext = combinedText.substring(Math.max(0, cityIndex - 30), cityIndex);
-        const afterContext = combinedText.substring(cityIndex, Math.min(combinedText.length, cityIndex + city.length + 30));
-        const context = beforeContext + afterContext;
-
-        // If it mentions the city without "near", "like", "similar", "style", "inspired" context, it's a conflict
-        if (!context.includes('near') && !context.includes('like') && !context.includes('similar') &&
-            !context.includes('style') && !context.includes('inspired')) {
-          result.locationConflicts.push(city);
-          result.score -= 15; // Reduced penalty
-          result.flags.push(`location_conflict: ${city}`);
-        }
-      }
-    }
+  // Check for location conflicts: places outside the target country, or in
+  // another region of it when the target region is known
+  // Only for countries the gazetteer covers - elsewhere local places are unknown
+  if (targetCountry && isGazetteerCountry(targetCountry)) {
+    const conflicts = findLocationConflicts({
+      description,
+      name,
+      targetCity,
+      targetRegion,
+      targetCountry,
+      locale,
+    });
 
-    // Check if description mentions different states (only full multi-word names)
-    for (const state of multiWordStates) {
-      if (state === targetRegionLower) continue; // Skip target state
-
-      const stateRegex = new RegExp(`\\b${state}\\b`, 'i');
-      if (stateRegex.test(combinedText)) {
-        const stateIndex = combinedText.indexOf(state);
-        const beforeContext = combinedText.substring(Math.max(0, stateIndex - 30), stateIndex);
-        const afterContext = combinedText.substring(stateIndex, Math.min(combinedText.length, stateIndex + state.length + 30));
-        const context = beforeContext + afterContext;
-
-        if (!context.includes('near') && !context.includes('like') && !context.includes('similar') &&
-            !context.includes('style') && !context.includes('inspired')) {
-          result.locationConflicts.push(state);
-          result.score -= 15; // Reduced penalty
-          result.flags.push(`location_conflict: ${state}`);
-        }
-      }
+    for (const place of conflicts) {
+      result.locationConflicts.push(place);
+      result.score -= 15; // Reduced penalty
+      result.flags.push(`location_conflict: ${place}`);
     }
   }
 
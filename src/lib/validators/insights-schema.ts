@@ -0,0 +1,467 @@
+/**
+ * Insights Response Schema
+ * Runtime validation for the JSON returned by the insights model.
+ * Every field is type-checked, enums are coerced and features/accessibility
+ * are normalised to a controlled vocabulary. Malformed responses are rejected
+ * with a typed failure reason so they never reach the cache.
+ */
+
+import { PlaygroundTier } from "@/types/playground";
+
+export type LocationConfidence = "high" | "medium" | "low";
+
+// Controlled vocabulary for play equipment
+export const PLAYGROUND_FEATURES = [
+  "swing",
+  "bucket_swing",
+  "tire_swing",
+  "accessible_swing",
+  "slide",
+  "tube_slide",
+  "climbing_frame",
+  "climbing_wall",
+  "rope_climber",
+  "rope_course",
+  "monkey_bars",
+  "balance_beam",
+  "spinner",
+  "merry_go_round",
+  "seesaw",
+  "spring_rider",
+  "sandbox",
+  "water_play",
+  "splash_pad",
+  "zip_line",
+  "playhouse",
+  "trampoline",
+  "musical_instruments",
+  "sensory_play",
+  "obstacle_course",
+  "toddler_area",
+  "fitness_equipment",
+  "sports_court",
+  "picnic_area",
+] as const;
+
+export type PlaygroundFeature = (typeof PLAYGROUND_FEATURES)[number];
+
+// Controlled vocabulary for accessibility and amenities
+export const ACCESSIBILITY_FEATURES = [
+  "wheelchair_accessible",
+  "accessible_surface",
+  "ramps",
+  "transfer_station",
+  "sensory_friendly",
+  "shade",
+  "restrooms",
+  "accessible_restrooms",
+  "changing_table",
+  "fenced",
+  "benches",
+  "drinking_fountain",
+] as const;
+
+export type AccessibilityFeature = (typeof ACCESSIBILITY_FEATURES)[number];
+
+// Common model phrasings mapped onto the vocabulary (keys are already normalised)
+const FEATURE_SYNONYMS: Record<string, PlaygroundFeature> = {
+  swing_set: "swing",
+  baby_swing: "bucket_swing",
+  toddler_swing: "bucket_swing",
+  infant_swing: "bucket_swing",
+  adaptive_swing: "accessible_swing",
+  wheelchair_swing: "accessible_swing",
+  slides: "slide",
+  spiral_slide: "slide",
+  tunnel_slide: "tube_slide",
+  climbing_structure: "climbing_frame",
+  climbing_structures: "climbing_frame",
+  climber: "climbing_frame",
+  jungle_gym: "climbing_frame",
+  play_structure: "climbing_frame",
+  rock_wall: "climbing_wall",
+  rock_climbing_wall: "climbing_wall",
+  bouldering_wall: "climbing_wall",
+  rope_net: "rope_climber",
+  climbing_net: "rope_climber",
+  net_climber: "rope_climber",
+  ropes_course: "rope_course",
+  monkey_bar: "monkey_bars",
+  overhead_ladder: "monkey_bars",
+  spinning_equipment: "spinner",
+  roundabout: "merry_go_round",
+  merry_go_rounds: "merry_go_round",
+  teeter_totter: "seesaw",
+  see_saw: "seesaw",
+  springer: "spring_rider",
+  spring_toy: "spring_rider",
+  sand_box: "sandbox",
+  sandpit: "sandbox",
+  sand_pit: "sandbox",
+  sand_play: "sandbox",
+  sand_area: "sandbox",
+  water_feature: "water_play",
+  water_features: "water_play",
+  water_table: "water_play",
+  splashpad: "splash_pad",
+  spray_park: "splash_pad",
+  spray_ground: "splash_pad",
+  sprayground: "splash_pad",
+  zipline: "zip_line",
+  zip_lines: "zip_line",
+  cable_ride: "zip_line",
+  play_house: "playhouse",
+  musical_instrument: "musical_instruments",
+  music_panels: "musical_instruments",
+  musical_play: "musical_instruments",
+  sensory_panels: "sensory_play",
+  sensory_elements: "sensory_play",
+  obstacle_courses: "obstacle_course",
+  toddler_play_area: "toddler_area",
+  tot_lot: "toddler_area",
+  toddler_equipment: "toddler_area",
+  exercise_equipment: "fitness_equipment",
+  outdoor_gym: "fitness_equipment",
+  basketball_court: "sports_court",
+  tennis_court: "sports_court",
+  picnic_tables: "picnic_area",
+  picnic_table: "picnic_area",
+};
+
+const ACCESSIBILITY_SYNONYMS: Record<string, AccessibilityFeature> = {
+  wheelchair: "wheelchair_accessible",
+  wheelchair_access: "wheelchair_accessible",
+  ada_accessible: "wheelchair_accessible",
+  ada_compliant: "wheelchair_accessible",
+  rubber_surface: "accessible_surface",
+  rubberized_surface: "accessible_surface",
+  poured_rubber: "accessible_surface",
+  accessible_surfacing: "accessible_surface",
+  unitary_surface: "accessible_surface",
+  ramp: "ramps",
+  accessible_ramps: "ramps",
+  transfer_platform: "transfer_station",
+  sensory: "sensory_friendly",
+  sensory_friendly_features: "sensory_friendly",
+  quiet_area: "sensory_friendly",
+  shaded: "shade",
+  shade_structure: "shade",
+  shade_structures: "shade",
+  shade_sails: "shade",
+  restroom: "restrooms",
+  bathrooms: "restrooms",
+  toilets: "restrooms",
+  accessible_restroom: "accessible_restrooms",
+  accessible_bathrooms: "accessible_restrooms",
+  changing_tables: "changing_table",
+  baby_changing: "changing_table",
+  fence: "fenced",
+  fully_fenced: "fenced",
+  enclosed: "fenced",
+  bench: "benches",
+  seating: "benches",
+  water_fountain: "drinking_fountain",
+  drinking_water: "drinking_fountain",
+};
+
+export type InsightsParseFailureReason =
+  | "empty_response"
+  | "no_json_found"
+  | "invalid_json"
+  | "not_an_object"
+  | "missing_field"
+  | "invalid_field_type"
+  | "invalid_enum_value";
+
+export interface InsightsParseFailure {
+  reason: InsightsParseFailureReason;
+  field?: string;
+  detail: string;
+}
+
+export interface ParsedInsightsResponse {
+  location_confidence: LocationConfidence;
+  location_verification: string | null;
+  name: string | null;
+  description: string | null;
+  features: PlaygroundFeature[] | null;
+  parking: string | null;
+  accessibility: AccessibilityFeature[] | null;
+  tier: PlaygroundTier | null;
+  tier_reasoning: string | null;
+  image_search_queries: string[] | null;
+}
+
+export type InsightsParseResult =
+  | { success: true; data: ParsedInsightsResponse; warnings: string[] }
+  | { success: false; failure: InsightsParseFailure };
+
+// Placeholder strings models use instead of null
+const NULL_LIKE_STRINGS = ["", "null", "none", "n/a", "unknown", "not available"];
+
+const MAX_IMAGE_SEARCH_QUERIES = 5;
+
+class SchemaViolation extends Error {
+  constructor(readonly failure: InsightsParseFailure) {
+    super(failure.detail);
+  }
+}
+
+function fail(reason: InsightsParseFailureReason, field: string | undefined, detail: string): never {
+  throw new SchemaViolation({ reason, field, detail });
+}
+
+/**
+ * Normalise a free-form label to snake_case (e.g., "Zip-Line " -> "zip_line")
+ */
+export function normalizeVocabularyKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function toVocabulary<T extends string>(
+  value: string,
+  vocabulary: readonly T[],
+  synonyms: Record<string, T>,
+): T | null {
+  const key = normalizeVocabularyKey(value);
+  if ((vocabulary as readonly string[]).includes(key)) {
+    return key as T;
+  }
+  if (synonyms[key]) {
+    return synonyms[key];
+  }
+  // Simple plural handling (e.g., "swings" -> "swing")
+  if (key.endsWith("s")) {
+    const singular = key.slice(0, -1);
+    if ((vocabulary as readonly string[]).includes(singular)) {
+      return singular as T;
+    }
+    if (synonyms[singular]) {
+      return synonyms[singular];
+    }
+  }
+  return null;
+}
+
+/**
+ * Map a single feature label onto the controlled vocabulary (null if unknown)
+ */
+export function normalizeFeature(value: string): PlaygroundFeature | null {
+  return toVocabulary(value, PLAYGROUND_FEATURES, FEATURE_SYNONYMS);
+}
+
+/**
+ * Map a single accessibility label onto the controlled vocabulary (null if unknown)
+ */
+export function normalizeAccessibility(value: string): AccessibilityFeature | null {
+  return toVocabulary(value, ACCESSIBILITY_FEATURES, ACCESSIBILITY_SYNONYMS);
+}
+
+function readOptionalString(
+  obj: Record<string, unknown>,
+  field: string,
+): string | null {
+  const value = obj[field];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "string") {
+    fail("invalid_field_type", field, `Expected string or null for "${field}", got ${typeof value}`);
+  }
+  const trimmed = value.trim();
+  return NULL_LIKE_STRINGS.includes(trimmed.toLowerCase()) ? null : trimmed;
+}
+
+function readStringList(
+  obj: Record<string, unknown>,
+  field: string,
+  warnings: string[],
+): string[] | null {
+  const value = obj[field];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  // Models occasionally return a comma-separated string instead of an array
+  if (typeof value === "string") {
+    warnings.push(`coerced_string_to_list: ${field}`);
+    return value.split(",").map((item) => item.trim()).filter(Boolean);
+  }
+  if (!Array.isArray(value)) {
+    fail("invalid_field_type", field, `Expected array or null for "${field}", got ${typeof value}`);
+  }
+
+  const items: string[] = [];
+  for (const item of value) {
+    if (typeof item === "string" && item.trim()) {
+      items.push(item.trim());
+    } else {
+      warnings.push(`dropped_non_string_item: ${field}`);
+    }
+  }
+  return items;
+}
+
+function readVocabularyList<T extends string>(
+  obj: Record<string, unknown>,
+  field: string,
+  normalize: (value: string) => T | null,
+  warnings: string[],
+): T[] | null {
+  const rawItems = readStringList(obj, field, warnings);
+  if (!rawItems) {
+    return null;
+  }
+
+  const normalized = new Set<T>();
+  for (const item of rawItems) {
+    const mapped = normalize(item);
+    if (mapped) {
+      normalized.add(mapped);
+    } else if (!NULL_LIKE_STRINGS.includes(item.toLowerCase())) {
+      warnings.push(`unknown_${field}_value: ${item}`);
+    }
+  }
+  return normalized.size > 0 ? Array.from(normalized) : null;
+}
+
+function readLocationConfidence(obj: Record<string, unknown>): LocationConfidence {
+  const value = obj.location_confidence;
+  if (value === undefined || value === null) {
+    fail("missing_field", "location_confidence", "Response is missing location_confidence");
+  }
+  if (typeof value !== "string") {
+    fail("invalid_field_type", "location_confidence", `Expected string for "location_confidence", got ${typeof value}`);
+  }
+
+  const normalized = value.trim().toLowerCase();
+  for (const level of ["high", "medium", "low"] as const) {
+    if (normalized === level || normalized.startsWith(`${level} `)) {
+      return level;
+    }
+  }
+  fail("invalid_enum_value", "location_confidence", `Unrecognised location_confidence "${value}"`);
+}
+
+function readTier(obj: Record<string, unknown>, warnings: string[]): PlaygroundTier | null {
+  const value = obj.tier;
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "string") {
+    fail("invalid_field_type", "tier", `Expected string or null for "tier", got ${typeof value}`);
+  }
+
+  // Coerce labels like "Star ⭐", "GEM", "Neighbourhood playground"
+  const normalized = value.toLowerCase();
+  if (normalized.includes("star") || value.includes("⭐")) return "star";
+  if (normalized.includes("gem") || value.includes("💎")) return "gem";
+  if (/neighbo(u)?rhood|local|standard/.test(normalized)) return "neighborhood";
+
+  warnings.push(`unknown_tier_value: ${value}`);
+  return null;
+}
+
+/**
+ * Extract the JSON payload from raw model output
+ * Handles plain JSON, markdown code fences and trailing commas
+ */
+function extractJson(text: string): unknown {
+  const candidates: string[] = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced?.[1]) {
+    candidates.push(fenced[1]);
+  }
+
+  const firstBrace = text.indexOf("{");
+  const lastBrace = text.lastIndexOf("}");
+  if (firstBrace !== -1 && lastBrace > firstBrace) {
+    candidates.push(text.slice(firstBrace, lastBrace + 1));
+  }
+
+  if (candidates.length === 1 && !text.trim().startsWith("{") && !text.trim().startsWith("[")) {
+    fail("no_json_found", undefined, "Could not find a JSON object in the response");
+  }
+
+  let lastError: unknown = null;
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      lastError = error;
+    }
+    try {
+      // Only fix structural issues (trailing commas), never content inside strings
+      return JSON.parse(candidate.replace(/,(\s*[}\]])/g, "$1").trim());
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  fail(
+    "invalid_json",
+    undefined,
+    `Response JSON could not be parsed: ${lastError instanceof Error ? lastError.message : String(lastError)}`,
+  );
+}
+
+/**
+ * Parse and validate raw model output against the insights schema
+ */
+export function parseInsightsResponse(text: string | null | undefined): InsightsParseResult {
+  if (!text || !text.trim()) {
+    return {
+      success: false,
+      failure: { reason: "empty_response", detail: "Model returned no text" },
+    };
+  }
+
+  const warnings: string[] = [];
+
+  try {
+    const parsed = extractJson(text);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      fail("not_an_object", undefined, `Expected a JSON object, got ${Array.isArray(parsed) ? "array" : typeof parsed}`);
+    }
+
+    const obj = parsed as Record<string, unknown>;
+
+    const imageSearchQueries = readStringList(obj, "image_search_queries", warnings);
+    if (!imageSearchQueries) {
+      warnings.push("missing_image_search_queries");
+    }
+
+    const data: ParsedInsightsResponse = {
+      location_confidence: readLocationConfidence(obj),
+      location_verification: readOptionalString(obj, "location_verification"),
+      name: readOptionalString(obj, "name"),
+      description: readOptionalString(obj, "description"),
+      features: readVocabularyList(obj, "features", normalizeFeature, warnings),
+      parking: readOptionalString(obj, "parking"),
+      accessibility: readVocabularyList(obj, "accessibility", normalizeAccessibility, warnings),
+      tier: readTier(obj, warnings),
+      tier_reasoning: readOptionalString(obj, "tier_reasoning"),
+      image_search_queries: imageSearchQueries && imageSearchQueries.length > 0
+        ? imageSearchQueries.slice(0, MAX_IMAGE_SEARCH_QUERIES)
+        : null,
+    };
+
+    return { success: true, data, warnings };
+  } catch (error) {
+    if (error instanceof SchemaViolation) {
+      return { success: false, failure: error.failure };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Format a parse failure for logs (e.g., "invalid_field_type (tier): ...")
+ */
+export function formatParseFailure(failure: InsightsParseFailure): string {
+  return `${failure.reason}${failure.field ? ` (${failure.field})` : ""}: ${failure.detail}`;
+}
@@ -7,6 +7,7 @@
 import { validateSources, SourceValidationResult } from './source-validator';
 import { validateDescription, DescriptionValidationResult } from './description-validator';
 import { AIInsights } from '@/types/ai-insights';
+import type { InsightsLocale } from '@/lib/insights-locale';
 
 export interface ResultScore {
   overallScore: number; // 0-100
@@ -54,7 +55,9 @@ export function scoreResult(
   locationConfidence: string,
   locationVerification: string | null,
   targetCity?: string,
-  targetRegion?: string
+  targetRegion?: string,
+  targetCountry?: string,
+  locale?: InsightsLocale
 ): ResultScore {
   const score: ResultScore = {
     overallScore: 0,
@@ -112,7 +115,9 @@ export function scoreResult(
     result.description,
     result.name,
     targetCity,
-    targetRegion
+    targetRegion,
+    targetCountry,
+    locale
   );
   score.validationResults.description = descriptionValidation;
   score.breakdown.descriptionScore = descriptionValidation.score * (SCORING_WEIGHTS.description / 100);
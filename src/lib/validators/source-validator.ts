@@ -4,6 +4,8 @@
  * appropriate geographic context to prevent wrong-location data.
  */
 
+import type { SourceKind } from '@/types/ai-insights';
+
 export interface SourceValidationResult {
   isValid: boolean;
   score: number; // 0-100
@@ -86,6 +88,38 @@ const GEO_KEYWORDS = [
   'district',
 ];
 
+// Site kinds shown to parents in the "how we know this" panel, first match wins
+// Patterns are matched against the host (or grounding title) plus path
+const SOURCE_KIND_PATTERNS: [SourceKind, RegExp][] = [
+  ['official', /(^|\.)(gov|gob|gouv|govt|gc\.ca|gv\.at|admin\.ch|bund\.de)(\.|\/|$)|(^|\.)(cityof|townof|countyof|villageof)|parks?(dept|department|district)|recpark|nycgovparks|laparks|(^|\.)parks?\./],
+  ['community', /(^|\.)(wikipedia|wikimedia|wikidata|openstreetmap)\.org/],
+  ['reviews', /(^|\.)(yelp|tripadvisor|alltrails|foursquare)\.|google\.[a-z.]+\/maps|maps\.google\./],
+  ['social', /(^|\.)(facebook|instagram|twitter|x|tiktok|reddit|nextdoor|youtube|pinterest)\.com/],
+  ['blog', /(^|\.)(blogspot|wordpress|medium|substack|tumblr)\.com|(^|[./-])blog([./-]|$)/],
+];
+
+/**
+ * Classify a source URL (official site, wiki, review site, social media, blog)
+ * Grounding URLs are often redirects, so the grounding title (usually the
+ * site's domain) is used when given
+ */
+export function getSourceKind(url: string, title?: string | null): SourceKind {
+  let target = url.toLowerCase();
+  try {
+    const parsed = new URL(url);
+    target = `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname}`.toLowerCase();
+  } catch {
+    // Not a URL - match the raw string
+  }
+
+  // Prefer the title when the URL only points at a redirect service
+  if (title && /^vertexaisearch\.cloud\.google\.com/.test(target)) {
+    target = title.toLowerCase().replace(/^www\./, '');
+  }
+
+  return SOURCE_KIND_PATTERNS.find(([, pattern]) => pattern.test(target))?.[0] ?? 'other';
+}
+
 /**
  * Validates an array of source URLs for trustworthiness and geographic relevance
  */
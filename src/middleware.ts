@@ -18,12 +18,26 @@ export async function middleware(request: NextRequest) {
     }
   }
 
+  // Proxied images are loaded by <img> tags, crawlers and OG renderers and
+  // don't depend on the session
+  if (request.nextUrl.pathname.startsWith('/api/image/')) {
+    return NextResponse.next();
+  }
+
   // Check if this is an API request
   if (request.nextUrl.pathname.startsWith('/api/')) {
     // Allow OG image endpoints to be accessible from outside
     if (request.nextUrl.pathname.startsWith('/api/og/')) {
       // Skip the header check for OG endpoints
     }
+    // Cron endpoints are called by the scheduler and authenticate with CRON_SECRET
+    else if (request.nextUrl.pathname.startsWith('/api/cron/')) {
+      // Skip the header check for cron endpoints
+    }
+    // User photos are loaded by <img> tags; the session decides who sees pending ones
+    else if (request.nextUrl.pathname.startsWith('/api/user-photos/') && request.method === 'GET') {
+      // Skip the header check for user photo images
+    }
     // For all other API routes, check for the custom header
     else {
       const appOrigin = request.headers.get('x-app-origin');
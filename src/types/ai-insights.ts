@@ -24,6 +24,79 @@ export type AIInsights = {
   // Tier rating (determined by Gemini AI based on features, uniqueness, destination quality)
   tier: "neighborhood" | "gem" | "star" | null;
   tier_reasoning: string | null; // Why Gemini assigned this tier
+  // How the final tier was reached from Gemini's tier and the points-based score (null for old cache entries)
+  tier_score: InsightsTierScore | null;
   // Image search queries (generated by Gemini AI for optimal image search)
   image_search_queries: string[] | null;
+  // Which sources support each field and how confident we are (null for old cache entries)
+  provenance: InsightsProvenance | null;
 };
+
+type InsightsTier = "neighborhood" | "gem" | "star";
+
+// Reconciled tier (see reconcilePlaygroundTier in src/lib/tier-calculator.ts)
+export type InsightsTierScore = {
+  // Weighted score (0-100); the final tier uses the calculator's thresholds
+  score: number;
+  model_tier: InsightsTier | null;
+  calculated_tier: InsightsTier;
+  calculated_score: number; // calculatePlaygroundTier points (capped at 100)
+  reasons: string[];
+  weights: {
+    model: number;
+    calculated: number;
+  };
+};
+
+// Fields that record provenance (see src/lib/insights-provenance.ts)
+export type ProvenanceField = "name" | "features" | "parking" | "accessibility" | "tier";
+
+export type FieldConfidence = "high" | "medium" | "low";
+
+// What kind of site a source is (see getSourceKind in src/lib/validators/source-validator.ts)
+export type SourceKind = "official" | "community" | "reviews" | "social" | "blog" | "other";
+
+export type InsightsSource = {
+  url: string;
+  // Site name from the grounding metadata (grounding URLs are often redirects)
+  title: string | null;
+  kind: SourceKind;
+};
+
+export type FieldProvenance = {
+  // URLs (from InsightsProvenance.sources) that support this field
+  sources: string[];
+  // false when no source cited this field - sources are then all sources of the answer
+  cited: boolean;
+  confidence: FieldConfidence;
+  // true when a moderator edited the value (the answer's sources no longer apply)
+  reviewed?: boolean;
+};
+
+// Stored form of a ResultScore (src/lib/validators/result-scorer.ts)
+export type InsightsScore = {
+  overall: number;
+  confidence: FieldConfidence;
+  breakdown: {
+    sources: number;
+    description: number;
+    data_completeness: number;
+    location_confidence: number;
+  };
+  flags: string[];
+};
+
+export type InsightsProvenance = {
+  sources: InsightsSource[];
+  fields: Partial<Record<ProvenanceField, FieldProvenance>>;
+  location_confidence: FieldConfidence;
+  location_verification: string | null;
+  // Result score at enrichment time (null until scored)
+  score: InsightsScore | null;
+};
+
+// Status of an enrichment request (see src/lib/enrichment-queue.ts)
+// - completed: insights are final (null if nothing reliable was found)
+// - pending: queued or running - poll again later
+// - failed: gave up after repeated errors
+export type EnrichmentStatus = "completed" | "pending" | "failed";
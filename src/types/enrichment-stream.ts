@@ -0,0 +1,40 @@
+import { AIInsights, EnrichmentStatus } from "@/types/ai-insights";
+import { PlaygroundImage } from "@/lib/images";
+
+// Server-Sent Events emitted by /api/insights-stream
+export type EnrichmentStreamEvent =
+  | {
+      // Insights for one playground (sent as soon as it's available)
+      event: "insights";
+      data: {
+        playgroundId: number;
+        insights: AIInsights | null;
+        status: EnrichmentStatus;
+        location?: {
+          city?: string;
+          region?: string;
+          country?: string;
+        };
+      };
+    }
+  | {
+      // Images for one playground (sent after its insights)
+      event: "images";
+      data: {
+        playgroundId: number;
+        images: PlaygroundImage[];
+      };
+    }
+  | {
+      // Stream finished; playgrounds still queued should be requested again later
+      event: "done";
+      data: {
+        pending: number[];
+      };
+    }
+  | {
+      event: "error";
+      data: {
+        message: string;
+      };
+    };
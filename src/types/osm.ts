@@ -48,4 +48,6 @@ export type OSMPlaceDetails = {
     [key: string]: string | undefined;
   };
   boundingbox: [string, string, string, string];
+  // Only with extratags=1
+  extratags?: Record<string, string> | null;
 };
@@ -1,3 +1,5 @@
+import type { InsightsProvenance, InsightsTierScore } from "@/types/ai-insights";
+
 // Tier types (now determined by Gemini AI)
 export type PlaygroundTier = "neighborhood" | "gem" | "star";
 
@@ -21,6 +23,12 @@ export type Playground = {
         origin_url: string;
         height: number;
         width: number;
+        // Smaller variants served by the image proxy (absent for unproxied images)
+        card_url?: string;
+        thumbnail_url?: string;
+        // Image source that found it and its reuse licence (null if unknown)
+        provider?: string;
+        license?: { name: string; url?: string; attribution?: string } | null;
       }[]
     | null;
   osmId: number;
@@ -31,6 +39,23 @@ export type Playground = {
   // Tier rating from Gemini AI
   tier: PlaygroundTier | null;
   tierReasoning: string | null; // AI explanation for the tier
+  // Gemini tier vs points-based score behind the tier (numeric score and reasons)
+  tierScore?: InsightsTierScore | null;
   // Image search queries generated by Gemini AI
   imageSearchQueries?: string[] | null;
+  // Sources and confidence per AI field ("how we know this")
+  provenance?: InsightsProvenance | null;
+};
+
+// Playgrounds in a /api/search viewport per tier, counted before the result limit
+export type PlaygroundTierCounts = Record<PlaygroundTier, number> & {
+  unenriched: number;
+};
+
+// /api/search response envelope
+export type PlaygroundSearchResponse = {
+  playgrounds: Playground[];
+  total: number; // playgrounds matching the criteria (before the limit)
+  tierCounts: PlaygroundTierCounts; // tier filter not applied, so every tier is counted
+  truncated: boolean; // the candidate cap was reached - counts are lower bounds
 };
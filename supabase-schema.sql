@@ -6,23 +6,27 @@
 -- ============================================
 -- 1. OSM Query Cache Table
 -- ============================================
+-- One row per slippy-map tile at a fixed zoom (see src/lib/osm-cache.ts)
+-- Cache key: "{OSM_CACHE_VERSION}:osm-tile:{z}/{x}/{y}"
 CREATE TABLE IF NOT EXISTS osm_query_cache (
   cache_key TEXT PRIMARY KEY,
-  bounds JSONB NOT NULL,
-  zoom_level INTEGER NOT NULL,
-  playgrounds JSONB NOT NULL,
-  query_count INTEGER DEFAULT 1,
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  last_accessed_at TIMESTAMPTZ DEFAULT NOW()
+  bounds JSONB NOT NULL, -- Tile bounding box
+  zoom_level INTEGER NOT NULL, -- Tile zoom (OSM_CACHE_TILE_ZOOM)
+  playgrounds JSONB NOT NULL, -- All playgrounds in the tile (may be empty)
+  created_at TIMESTAMPTZ DEFAULT NOW() -- Fetch time, drives TTL expiry and eviction
 );
 
+-- Upgrading from per-viewport caching: LRU columns are no longer used
+ALTER TABLE osm_query_cache DROP COLUMN IF EXISTS query_count;
+ALTER TABLE osm_query_cache DROP COLUMN IF EXISTS last_accessed_at;
+DELETE FROM osm_query_cache WHERE cache_key NOT LIKE '%:osm-tile:%';
+
 -- Add indexes for performance
 CREATE INDEX IF NOT EXISTS idx_osm_cache_created_at ON osm_query_cache(created_at);
-CREATE INDEX IF NOT EXISTS idx_osm_cache_last_accessed ON osm_query_cache(last_accessed_at);
 CREATE INDEX IF NOT EXISTS idx_osm_cache_zoom ON osm_query_cache(zoom_level);
 
 -- Add comment
-COMMENT ON TABLE osm_query_cache IS 'Caches OpenStreetMap query results for 24 hours with LRU eviction';
+COMMENT ON TABLE osm_query_cache IS 'Caches OpenStreetMap playgrounds per XYZ tile for 24 hours, expired tiles are evicted';
 
 -- Disable RLS for cache table (no user-specific data)
 ALTER TABLE osm_query_cache DISABLE ROW LEVEL SECURITY;
@@ -32,6 +36,7 @@ ALTER TABLE osm_query_cache DISABLE ROW LEVEL SECURITY;
 -- 2. AI Insights Cache Table
 -- ============================================
 -- Cache invalidation: Version is in cache_key (e.g., "v18-image-queries:N123456")
+-- Schema changes are migrated in place via schema_version (src/lib/cache-migrations.ts)
 CREATE TABLE IF NOT EXISTS ai_insights_cache (
   cache_key TEXT PRIMARY KEY,
   name TEXT,
@@ -43,10 +48,34 @@ CREATE TABLE IF NOT EXISTS ai_insights_cache (
   accessibility JSONB,
   tier TEXT CHECK (tier IN ('neighborhood', 'gem', 'star')),
   tier_reasoning TEXT,
+  tier_score JSONB, -- Gemini tier vs calculated points, weights, final score and reasons
   image_search_queries JSONB, -- Array of optimized search queries from Gemini AI
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  provenance JSONB, -- Sources and confidence per field, plus the result score breakdown and flags
+  refresh_input JSONB, -- Location, name, OSM ID/tags and locale used to re-enrich the entry
+  view_count INTEGER NOT NULL DEFAULT 0, -- Detail views (ranks the refresh sweeper)
+  schema_version INTEGER NOT NULL DEFAULT 1, -- Row format version (upgraded by cache migrations)
+  last_viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  refreshed_at TIMESTAMPTZ DEFAULT NOW() -- Last save or unchanged refresh (soft/hard TTL age)
 );
 
+-- Existing databases: add the provenance column
+ALTER TABLE ai_insights_cache ADD COLUMN IF NOT EXISTS provenance JSONB;
+
+-- Existing databases: add the tier_score column
+ALTER TABLE ai_insights_cache ADD COLUMN IF NOT EXISTS tier_score JSONB;
+
+-- Existing databases: add the refresh columns (refreshed_at starts at created_at)
+ALTER TABLE ai_insights_cache ADD COLUMN IF NOT EXISTS refresh_input JSONB;
+ALTER TABLE ai_insights_cache ADD COLUMN IF NOT EXISTS view_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ai_insights_cache ADD COLUMN IF NOT EXISTS last_viewed_at TIMESTAMPTZ;
+ALTER TABLE ai_insights_cache ADD COLUMN IF NOT EXISTS refreshed_at TIMESTAMPTZ;
+UPDATE ai_insights_cache SET refreshed_at = created_at WHERE refreshed_at IS NULL;
+ALTER TABLE ai_insights_cache ALTER COLUMN refreshed_at SET DEFAULT NOW();
+
+-- Existing databases: add the schema_version column (existing rows start at 1)
+ALTER TABLE ai_insights_cache ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
+
 -- Add indexes
 CREATE INDEX IF NOT EXISTS idx_ai_insights_cache_accessibility
 ON ai_insights_cache USING GIN (accessibility);
@@ -60,12 +89,30 @@ ON ai_insights_cache USING GIN (image_search_queries);
 CREATE INDEX IF NOT EXISTS idx_ai_insights_cache_tier
 ON ai_insights_cache(tier) WHERE tier IS NOT NULL;
 
+-- Cache migrations: rows below the current schema version
+CREATE INDEX IF NOT EXISTS idx_ai_insights_cache_schema_version
+ON ai_insights_cache(schema_version, cache_key);
+
+-- Refresh sweeper: most-viewed entries first
+CREATE INDEX IF NOT EXISTS idx_ai_insights_cache_view_count_refreshed_at
+ON ai_insights_cache(view_count DESC, refreshed_at) WHERE refresh_input IS NOT NULL;
+
 -- Add comment
-COMMENT ON TABLE ai_insights_cache IS 'Caches AI-generated playground insights with 90 day TTL';
+COMMENT ON TABLE ai_insights_cache IS 'Caches AI-generated playground insights (served stale after 90 days, expires after 180)';
 
 -- Disable RLS for cache table (no user-specific data)
 ALTER TABLE ai_insights_cache DISABLE ROW LEVEL SECURITY;
 
+-- Count a detail view (atomic increment)
+CREATE OR REPLACE FUNCTION record_ai_insights_view(p_cache_key TEXT)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE ai_insights_cache
+  SET view_count = view_count + 1, last_viewed_at = NOW()
+  WHERE cache_key = p_cache_key;
+$$;
+
 
 -- ============================================
 -- 3. Playground Images Cache Table
@@ -74,15 +121,21 @@ ALTER TABLE ai_insights_cache DISABLE ROW LEVEL SECURITY;
 CREATE TABLE IF NOT EXISTS playground_images_cache (
   cache_key TEXT PRIMARY KEY,
   images JSONB NOT NULL,
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  refreshed_at TIMESTAMPTZ DEFAULT NOW() -- Last save or unchanged refresh (soft/hard TTL age)
 );
 
+-- Existing databases: add the refreshed_at column (starts at created_at)
+ALTER TABLE playground_images_cache ADD COLUMN IF NOT EXISTS refreshed_at TIMESTAMPTZ;
+UPDATE playground_images_cache SET refreshed_at = created_at WHERE refreshed_at IS NULL;
+ALTER TABLE playground_images_cache ALTER COLUMN refreshed_at SET DEFAULT NOW();
+
 -- Add index for created_at for TTL checks
 CREATE INDEX IF NOT EXISTS idx_playground_images_cache_created_at
 ON playground_images_cache(created_at);
 
 -- Add comment
-COMMENT ON TABLE playground_images_cache IS 'Caches playground images from Google Custom Search with 90 day TTL';
+COMMENT ON TABLE playground_images_cache IS 'Caches playground images from Google Custom Search (served stale after 90 days, expires after 180)';
 
 -- Disable RLS for cache table (no user-specific data)
 ALTER TABLE playground_images_cache DISABLE ROW LEVEL SECURITY;
@@ -141,6 +194,699 @@ USING (
 );
 
 
+-- ============================================
+-- 5. Enrichment Jobs Table
+-- ============================================
+-- Queue for AI enrichment (see src/lib/enrichment-queue.ts)
+-- API routes enqueue cache misses; workers lease jobs in priority order
+CREATE TABLE IF NOT EXISTS enrichment_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  cache_key TEXT NOT NULL, -- AI insights cache key (e.g., "v18-image-queries:N123456")
+  osm_id TEXT,
+  name TEXT,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  location JSONB, -- Geocoded AILocation (filled by the worker if not provided)
+  locale TEXT NOT NULL DEFAULT 'en', -- Language of the insights text (also part of cache_key)
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('high', 'medium', 'low')),
+  priority_rank SMALLINT NOT NULL DEFAULT 1, -- 0 = high, 1 = medium, 2 = low
+  refresh BOOLEAN NOT NULL DEFAULT FALSE, -- Re-enrich a stale cache entry (diffed against it)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Next attempt time (retry backoff)
+  leased_by TEXT,
+  leased_until TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB, -- Final AIInsights (null if the result was rejected)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Existing installs: add the locale column
+ALTER TABLE enrichment_jobs ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en';
+
+-- Existing installs: drop the client-supplied osm_tags column (the worker looks tags up itself)
+ALTER TABLE enrichment_jobs DROP COLUMN IF EXISTS osm_tags;
+
+-- Existing installs: add the refresh column
+ALTER TABLE enrichment_jobs ADD COLUMN IF NOT EXISTS refresh BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Only one active job per cache key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_enrichment_jobs_active_cache_key
+ON enrichment_jobs(cache_key) WHERE status IN ('pending', 'running');
+
+-- Leasing order
+CREATE INDEX IF NOT EXISTS idx_enrichment_jobs_pending
+ON enrichment_jobs(priority_rank, run_after) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_enrichment_jobs_leased_until
+ON enrichment_jobs(leased_until) WHERE status = 'running';
+
+-- Status lookups from API routes
+CREATE INDEX IF NOT EXISTS idx_enrichment_jobs_cache_key_created_at
+ON enrichment_jobs(cache_key, created_at DESC);
+
+-- Add comment
+COMMENT ON TABLE enrichment_jobs IS 'AI enrichment job queue with leasing, retry backoff and failure tracking';
+
+-- Enable RLS without policies: only the server (service role) may touch the
+-- queue - job results are served to other visitors
+ALTER TABLE enrichment_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Enqueue jobs; re-enqueuing an active job only raises its priority
+-- (a cache miss job turns an active refresh job into a regular one)
+CREATE OR REPLACE FUNCTION enqueue_enrichment_jobs(p_jobs JSONB)
+RETURNS SETOF enrichment_jobs
+LANGUAGE sql
+AS $$
+  INSERT INTO enrichment_jobs (
+    cache_key, osm_id, name, latitude, longitude, location, locale, priority, priority_rank, refresh, max_attempts
+  )
+  SELECT
+    j.cache_key, j.osm_id, j.name, j.latitude, j.longitude, j.location,
+    COALESCE(j.locale, 'en'), j.priority, j.priority_rank, COALESCE(j.refresh, FALSE), COALESCE(j.max_attempts, 5)
+  FROM jsonb_to_recordset(p_jobs) AS j(
+    cache_key TEXT,
+    osm_id TEXT,
+    name TEXT,
+    latitude DOUBLE PRECISION,
+    longitude DOUBLE PRECISION,
+    location JSONB,
+    locale TEXT,
+    priority TEXT,
+    priority_rank SMALLINT,
+    refresh BOOLEAN,
+    max_attempts INTEGER
+  )
+  ON CONFLICT (cache_key) WHERE status IN ('pending', 'running')
+  DO UPDATE SET
+    priority = CASE
+      WHEN EXCLUDED.priority_rank < enrichment_jobs.priority_rank THEN EXCLUDED.priority
+      ELSE enrichment_jobs.priority
+    END,
+    priority_rank = LEAST(enrichment_jobs.priority_rank, EXCLUDED.priority_rank),
+    location = COALESCE(enrichment_jobs.location, EXCLUDED.location),
+    refresh = enrichment_jobs.refresh AND EXCLUDED.refresh,
+    updated_at = NOW()
+  RETURNING *;
+$$;
+
+-- Lease due jobs (pending past run_after, or running with an expired lease)
+-- SKIP LOCKED lets several workers lease concurrently without double-processing
+CREATE OR REPLACE FUNCTION lease_enrichment_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF enrichment_jobs
+LANGUAGE sql
+AS $$
+  UPDATE enrichment_jobs
+  SET
+    status = 'running',
+    leased_by = p_worker_id,
+    leased_until = NOW() + make_interval(secs => p_lease_seconds),
+    attempts = attempts + 1,
+    updated_at = NOW()
+  WHERE id IN (
+    SELECT id
+    FROM enrichment_jobs
+    WHERE (status = 'pending' AND run_after <= NOW())
+       OR (status = 'running' AND leased_until < NOW())
+    ORDER BY priority_rank, run_after, id
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Server only (called with the service role key)
+REVOKE EXECUTE ON FUNCTION enqueue_enrichment_jobs(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION lease_enrichment_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Cleanup (optional): finished jobs are only needed for recent status lookups
+-- DELETE FROM enrichment_jobs WHERE status IN ('completed', 'failed') AND completed_at < NOW() - INTERVAL '7 days';
+
+
+-- ============================================
+-- 6. Playground Index Tables
+-- ============================================
+-- Self-hosted copy of leisure=playground features for configured regions
+-- (see src/lib/playground-index.ts, filled by scripts/import-playground-index.ts)
+-- /api/search answers bbox queries from here; Overpass is only the fallback
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+CREATE TABLE IF NOT EXISTS playground_index (
+  osm_type TEXT NOT NULL CHECK (osm_type IN ('node', 'way', 'relation')),
+  osm_id BIGINT NOT NULL,
+  lat DOUBLE PRECISION NOT NULL, -- Node position or way/relation center
+  lon DOUBLE PRECISION NOT NULL,
+  location GEOGRAPHY(POINT, 4326) GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(lon, lat), 4326)::geography) STORED,
+  tags JSONB NOT NULL DEFAULT '{}'::jsonb,
+  region TEXT NOT NULL, -- Region that imported this feature
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (osm_type, osm_id)
+);
+
+-- Spatial index for bbox queries
+CREATE INDEX IF NOT EXISTS idx_playground_index_location
+ON playground_index USING GIST (location);
+
+-- Stale row cleanup after each region import
+CREATE INDEX IF NOT EXISTS idx_playground_index_region_imported_at
+ON playground_index(region, imported_at);
+
+-- Imported regions; a bbox is only answered from the index when one region covers it
+CREATE TABLE IF NOT EXISTS playground_index_regions (
+  name TEXT PRIMARY KEY,
+  south DOUBLE PRECISION NOT NULL,
+  west DOUBLE PRECISION NOT NULL,
+  north DOUBLE PRECISION NOT NULL,
+  east DOUBLE PRECISION NOT NULL,
+  feature_count INTEGER NOT NULL DEFAULT 0,
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add comments
+COMMENT ON TABLE playground_index IS 'Imported OSM playground features with a spatial index for bbox search';
+COMMENT ON TABLE playground_index_regions IS 'Regions fully imported into playground_index';
+
+-- Public OSM data: anyone can read, only the import script (service role) writes
+-- (enrichment trusts the indexed tags as ground truth)
+ALTER TABLE playground_index ENABLE ROW LEVEL SECURITY;
+ALTER TABLE playground_index_regions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read the playground index" ON playground_index;
+CREATE POLICY "Anyone can read the playground index"
+ON playground_index FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Anyone can read index regions" ON playground_index_regions;
+CREATE POLICY "Anyone can read index regions"
+ON playground_index_regions FOR SELECT
+USING (true);
+
+-- Bbox search, closest to the bbox center first (so zoom-based limits keep the middle of the map)
+CREATE OR REPLACE FUNCTION search_playground_index(
+  p_south DOUBLE PRECISION,
+  p_west DOUBLE PRECISION,
+  p_north DOUBLE PRECISION,
+  p_east DOUBLE PRECISION,
+  p_limit INTEGER
+)
+RETURNS TABLE (osm_type TEXT, osm_id BIGINT, lat DOUBLE PRECISION, lon DOUBLE PRECISION, tags JSONB)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT pi.osm_type, pi.osm_id, pi.lat, pi.lon, pi.tags
+  FROM playground_index pi
+  WHERE pi.location && ST_MakeEnvelope(p_west, p_south, p_east, p_north, 4326)::geography
+    AND pi.lat BETWEEN p_south AND p_north
+    AND pi.lon BETWEEN p_west AND p_east
+  ORDER BY pi.location <-> ST_SetSRID(ST_MakePoint((p_west + p_east) / 2, (p_south + p_north) / 2), 4326)::geography
+  LIMIT p_limit;
+$$;
+
+
+-- ============================================
+-- 7. Insights Review Queue
+-- ============================================
+-- Borderline AI results (accepted but below the cache threshold) held for moderation
+-- (see src/lib/insights-review.ts); admins review them at /admin/reviews
+CREATE TABLE IF NOT EXISTS insights_reviews (
+  id BIGSERIAL PRIMARY KEY,
+  cache_key TEXT NOT NULL, -- AI insights cache key the result is promoted to on approval
+  osm_id TEXT,
+  osm_name TEXT, -- OSM name passed to the prompt
+  location JSONB NOT NULL, -- AILocation used for the prompt
+  locale TEXT NOT NULL DEFAULT 'en',
+  insights JSONB NOT NULL, -- AIInsights as served (including admin edits)
+  score JSONB NOT NULL, -- Result score: overall, confidence, breakdown, flags
+  location_verification TEXT,
+  response JSONB, -- Raw model response (text, sources), replayed by the enrichment eval
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  rejection_reason TEXT,
+  reviewed_by TEXT, -- Admin email
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One pending review per cache key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_insights_reviews_pending_cache_key
+ON insights_reviews(cache_key) WHERE status = 'pending';
+
+-- Latest review per cache key (served while pending)
+CREATE INDEX IF NOT EXISTS idx_insights_reviews_cache_key_created_at
+ON insights_reviews(cache_key, created_at DESC);
+
+-- Review queue listing
+CREATE INDEX IF NOT EXISTS idx_insights_reviews_status_created_at
+ON insights_reviews(status, created_at DESC);
+
+-- Add comment
+COMMENT ON TABLE insights_reviews IS 'Borderline AI insights awaiting admin approval, edit or rejection';
+
+-- Enable RLS: the server queues and serves results (service role key); only
+-- admins can list and decide them. Visitors never read the table directly
+-- (reviewer emails, rejection reasons, raw model responses)
+ALTER TABLE insights_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to allow re-running this script)
+DROP POLICY IF EXISTS "Anyone can submit reviews" ON insights_reviews;
+DROP POLICY IF EXISTS "Anyone can view reviews" ON insights_reviews;
+DROP POLICY IF EXISTS "Only admins can view reviews" ON insights_reviews;
+DROP POLICY IF EXISTS "Only admins can update reviews" ON insights_reviews;
+
+CREATE POLICY "Only admins can view reviews"
+ON insights_reviews FOR SELECT
+TO authenticated
+USING (
+  auth.jwt() ->> 'role' = 'app_admin'
+);
+
+-- Only admins can approve, edit or reject
+CREATE POLICY "Only admins can update reviews"
+ON insights_reviews FOR UPDATE
+TO authenticated
+USING (
+  auth.jwt() ->> 'role' = 'app_admin'
+);
+
+
+-- ============================================
+-- 8. API Usage (cost accounting and budgets)
+-- ============================================
+-- One row per Gemini / Custom Search request, plus aggregated cache lookups
+-- (see src/lib/api-usage.ts). Costs are estimates from the configured prices.
+CREATE TABLE IF NOT EXISTS api_usage (
+  id BIGSERIAL PRIMARY KEY,
+  service TEXT NOT NULL CHECK (service IN ('gemini', 'custom_search')),
+  route TEXT NOT NULL, -- Route or page that triggered the request (e.g., "/api/insights-stream")
+  playground_id TEXT, -- OSM ID (or cache key for playgrounds without one)
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'empty', 'error', 'rate_limited', 'cache_hit', 'cache_miss')),
+  requests INTEGER NOT NULL DEFAULT 1, -- > 1 for aggregated cache lookups
+  latency_ms INTEGER,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Spend lookups (budgets) and the admin report
+CREATE INDEX IF NOT EXISTS idx_api_usage_service_created_at
+ON api_usage(service, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_api_usage_created_at
+ON api_usage(created_at);
+
+-- Add comment
+COMMENT ON TABLE api_usage IS 'Gemini and Custom Search requests with latency, outcome and estimated cost';
+
+-- Enable RLS: usage is recorded by the server (service role) only, since
+-- forged rows would use up the budgets; admins may read it
+ALTER TABLE api_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can record usage" ON api_usage;
+DROP POLICY IF EXISTS "Only admins can view usage" ON api_usage;
+
+CREATE POLICY "Only admins can view usage"
+ON api_usage FOR SELECT
+TO authenticated
+USING (
+  auth.jwt() ->> 'role' = 'app_admin'
+);
+
+-- Today's and this month's spend for a service (UTC), used for budget checks
+CREATE OR REPLACE FUNCTION get_api_spend(p_service TEXT)
+RETURNS TABLE (day_cost_usd NUMERIC, month_cost_usd NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    COALESCE(SUM(cost_usd) FILTER (WHERE created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'), 0),
+    COALESCE(SUM(cost_usd), 0)
+  FROM api_usage
+  WHERE service = p_service
+    AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+$$;
+
+-- Usage grouped by UTC day, service, route and outcome (admin report)
+CREATE OR REPLACE FUNCTION api_usage_summary(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  day DATE,
+  service TEXT,
+  route TEXT,
+  outcome TEXT,
+  requests BIGINT,
+  cost_usd NUMERIC,
+  avg_latency_ms NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (created_at AT TIME ZONE 'UTC')::DATE,
+    service,
+    route,
+    outcome,
+    SUM(requests),
+    SUM(cost_usd),
+    AVG(latency_ms)
+  FROM api_usage
+  WHERE created_at >= p_since
+  GROUP BY 1, 2, 3, 4;
+$$;
+
+-- Server only (called with the service role key)
+REVOKE EXECUTE ON FUNCTION get_api_spend(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION api_usage_summary(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Optional cleanup (run periodically; the report and budgets only need the current month):
+-- DELETE FROM api_usage WHERE created_at < NOW() - INTERVAL '90 days';
+
+
+-- ============================================
+-- 9. Coordination (cross-instance locks and rate limits)
+-- ============================================
+-- Shared by every serverless instance (see src/lib/coordination.ts):
+-- single-flight locks per cache key and a token bucket per upstream API
+CREATE TABLE IF NOT EXISTS coordination_locks (
+  lock_key TEXT PRIMARY KEY, -- e.g. "gemini:v1:N123456"
+  owner TEXT NOT NULL, -- Random token of the holder (only the holder may release)
+  expires_at TIMESTAMPTZ NOT NULL, -- Lease end; expired locks may be taken over
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket TEXT PRIMARY KEY, -- e.g. "api:gemini"
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add comments
+COMMENT ON TABLE coordination_locks IS 'Lease-based single-flight locks shared across instances';
+COMMENT ON TABLE rate_limit_buckets IS 'Token buckets for global upstream API rate limits';
+
+-- Enable RLS without policies: only the server (service role) may take locks
+-- or tokens - a client could otherwise hold locks or drain the API buckets
+ALTER TABLE coordination_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Take a lock unless another owner holds an unexpired lease
+CREATE OR REPLACE FUNCTION try_acquire_lock(
+  p_lock_key TEXT,
+  p_owner TEXT,
+  p_lease_seconds DOUBLE PRECISION
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  acquired_by TEXT;
+BEGIN
+  INSERT INTO coordination_locks (lock_key, owner, expires_at, created_at)
+  VALUES (p_lock_key, p_owner, clock_timestamp() + make_interval(secs => p_lease_seconds), clock_timestamp())
+  ON CONFLICT (lock_key) DO UPDATE
+  SET
+    owner = EXCLUDED.owner,
+    expires_at = EXCLUDED.expires_at,
+    created_at = EXCLUDED.created_at
+  WHERE coordination_locks.expires_at <= clock_timestamp()
+  RETURNING owner INTO acquired_by;
+
+  RETURN acquired_by IS NOT NULL;
+END;
+$$;
+
+-- Extend a held lock's lease; false if another owner took it over
+CREATE OR REPLACE FUNCTION renew_lock(
+  p_lock_key TEXT,
+  p_owner TEXT,
+  p_lease_seconds DOUBLE PRECISION
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+AS $$
+  WITH renewed AS (
+    UPDATE coordination_locks
+    SET expires_at = clock_timestamp() + make_interval(secs => p_lease_seconds)
+    WHERE lock_key = p_lock_key AND owner = p_owner
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM renewed);
+$$;
+
+-- Release a lock (no-op if the lease expired and someone else took it)
+CREATE OR REPLACE FUNCTION release_lock(p_lock_key TEXT, p_owner TEXT)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  DELETE FROM coordination_locks
+  WHERE lock_key = p_lock_key AND owner = p_owner;
+$$;
+
+-- Take one token from a bucket (refilled continuously up to its capacity)
+-- Returns whether it was granted and, if not, when the next token is available
+CREATE OR REPLACE FUNCTION take_rate_limit_token(
+  p_bucket TEXT,
+  p_capacity DOUBLE PRECISION,
+  p_refill_per_second DOUBLE PRECISION
+)
+RETURNS TABLE (granted BOOLEAN, retry_after_ms INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  available DOUBLE PRECISION;
+BEGIN
+  INSERT INTO rate_limit_buckets (bucket, tokens, updated_at)
+  VALUES (p_bucket, p_capacity, clock_timestamp())
+  ON CONFLICT (bucket) DO NOTHING;
+
+  -- Lock the bucket before reading the clock so concurrent takers queue up
+  PERFORM 1 FROM rate_limit_buckets b WHERE b.bucket = p_bucket FOR UPDATE;
+
+  SELECT LEAST(p_capacity, b.tokens + EXTRACT(EPOCH FROM clock_timestamp() - b.updated_at) * p_refill_per_second)
+  INTO available
+  FROM rate_limit_buckets b
+  WHERE b.bucket = p_bucket;
+
+  IF available >= 1 THEN
+    UPDATE rate_limit_buckets b
+    SET tokens = available - 1, updated_at = clock_timestamp()
+    WHERE b.bucket = p_bucket;
+    RETURN QUERY SELECT TRUE, 0;
+  ELSE
+    UPDATE rate_limit_buckets b
+    SET tokens = available, updated_at = clock_timestamp()
+    WHERE b.bucket = p_bucket;
+    RETURN QUERY SELECT FALSE, CEIL((1 - available) / p_refill_per_second * 1000)::INTEGER;
+  END IF;
+END;
+$$;
+
+-- Server only (called with the service role key)
+REVOKE EXECUTE ON FUNCTION try_acquire_lock(TEXT, TEXT, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION renew_lock(TEXT, TEXT, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_lock(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION take_rate_limit_token(TEXT, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+
+-- Cleanup (optional): locks of crashed instances stay until their key is locked again
+-- DELETE FROM coordination_locks WHERE expires_at < NOW() - INTERVAL '1 day';
+
+
+-- ============================================
+-- 10. Image Proxy
+-- ============================================
+-- Originals registered with the image proxy (see src/lib/image-proxy.ts);
+-- /api/image/{id}/{variant} only fetches URLs listed here. WebP variants are
+-- stored in the playground-images bucket under proxy/{id}/{variant}.webp
+CREATE TABLE IF NOT EXISTS proxied_images (
+  id TEXT PRIMARY KEY, -- First 32 hex chars of SHA-256(source_url)
+  source_url TEXT NOT NULL, -- Original image URL (from the image search)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'ready', 'failed')),
+  width INTEGER, -- Full variant size
+  height INTEGER,
+  original_bytes INTEGER,
+  error TEXT, -- Why the original couldn't be processed (dead link, too large, not an image...)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+  stored_at TIMESTAMPTZ
+);
+
+-- Add index for status (pending / failed images)
+CREATE INDEX IF NOT EXISTS idx_proxied_images_status
+ON proxied_images(status, last_attempt_at);
+
+-- Add comment
+COMMENT ON TABLE proxied_images IS 'Original image URLs behind /api/image and whether their WebP variants are stored';
+
+-- Enable RLS without policies: only the server (service role key) reads and
+-- writes it. A URL listed here is fetched by the server, so clients must not add any
+ALTER TABLE proxied_images ENABLE ROW LEVEL SECURITY;
+
+-- Storage bucket for the variants (private: served through /api/image)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('playground-images', 'playground-images', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- No storage policies: only the server (service role key) reads and writes the
+-- bucket. Variants are served as immutable, so a replaced one would stay cached
+DROP POLICY IF EXISTS "Anyone can read playground images" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can store playground images" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can replace playground images" ON storage.objects;
+
+
+-- ============================================
+-- 11. Image Health
+-- ============================================
+-- Last check of every cached original image URL (see src/lib/image-health.ts).
+-- Filled by the image health sweeper cron; the admin report groups it by domain
+-- to show which hosts rot (candidates for EXCLUDED_DOMAINS)
+CREATE TABLE IF NOT EXISTS image_health_checks (
+  image_url TEXT PRIMARY KEY, -- Original image URL
+  domain TEXT NOT NULL, -- Host without www.
+  status TEXT NOT NULL CHECK (status IN ('ok', 'broken', 'unreachable')),
+  http_status INTEGER,
+  content_type TEXT,
+  width INTEGER, -- From the image header (null if it couldn't be read)
+  height INTEGER,
+  error TEXT,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0, -- Unreachable checks in a row
+  checked_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Add index for the per-domain report
+CREATE INDEX IF NOT EXISTS idx_image_health_checks_domain
+ON image_health_checks(domain, status);
+
+-- Add comment
+COMMENT ON TABLE image_health_checks IS 'Reachability, content type and size of cached image URLs (link rot by domain)';
+
+-- Disable RLS for cache table (no user-specific data)
+ALTER TABLE image_health_checks DISABLE ROW LEVEL SECURITY;
+
+-- When each images cache entry was last swept (oldest first)
+ALTER TABLE playground_images_cache ADD COLUMN IF NOT EXISTS health_checked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_playground_images_cache_health_checked_at
+ON playground_images_cache(health_checked_at NULLS FIRST);
+
+-- Link rot per domain (admin image health report)
+CREATE OR REPLACE FUNCTION image_link_rot_by_domain(p_min_checks INTEGER DEFAULT 1)
+RETURNS TABLE (
+  domain TEXT,
+  checked BIGINT,
+  ok BIGINT,
+  broken BIGINT,
+  unreachable BIGINT,
+  last_checked_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    h.domain,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE h.status = 'ok'),
+    COUNT(*) FILTER (WHERE h.status = 'broken'),
+    COUNT(*) FILTER (WHERE h.status = 'unreachable'),
+    MAX(h.checked_at)
+  FROM image_health_checks h
+  GROUP BY h.domain
+  HAVING COUNT(*) >= p_min_checks;
+$$;
+
+-- Optional cleanup (URLs no longer in any cache entry stop being checked):
+-- DELETE FROM image_health_checks WHERE checked_at < NOW() - INTERVAL '180 days';
+
+
+-- ============================================
+-- 12. User Photos
+-- ============================================
+-- Photos of playgrounds uploaded by signed-in users (see src/lib/user-photos.ts).
+-- Variants are stored without metadata in the playground-images bucket under
+-- user-photos/{id}/{variant}.webp and served from /api/user-photos. Pending
+-- photos wait for an app_admin; approved ones are shown ahead of search-engine images
+CREATE TABLE IF NOT EXISTS user_photos (
+  id UUID PRIMARY KEY,
+  osm_id TEXT NOT NULL, -- Formatted OSM identifier (e.g., "W123456")
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  width INTEGER NOT NULL, -- Of the full variant
+  height INTEGER NOT NULL,
+  original_bytes INTEGER NOT NULL, -- Size of the uploaded file
+  distance_m INTEGER, -- From the playground (null if the photo had no location)
+  location_source TEXT CHECK (location_source IN ('exif', 'device')),
+  rejection_reason TEXT,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Add indexes for a playground's approved photos, the moderation queue and upload limits
+CREATE INDEX IF NOT EXISTS idx_user_photos_osm_id
+ON user_photos(osm_id, status, reviewed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_user_photos_status
+ON user_photos(status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_user_photos_user_id
+ON user_photos(user_id, created_at);
+
+-- Add comment
+COMMENT ON TABLE user_photos IS 'User-uploaded playground photos and their moderation status';
+
+-- Enable RLS without policies: only the server (service role key) reads and
+-- writes photos, so uploads can't skip the checks in uploadUserPhoto and the
+-- uploader and reviewer columns are never exposed
+ALTER TABLE user_photos ENABLE ROW LEVEL SECURITY;
+
+-- Drop policies of earlier versions of this script
+DROP POLICY IF EXISTS "Users can upload photos" ON user_photos;
+DROP POLICY IF EXISTS "Anyone can view approved photos" ON user_photos;
+DROP POLICY IF EXISTS "Only admins can update photos" ON user_photos;
+
+-- Insert a pending photo unless the user uploaded p_daily_limit photos in the
+-- last 24 hours (returns no row then). The per-user advisory lock makes
+-- parallel uploads count each other
+CREATE OR REPLACE FUNCTION insert_user_photo(
+  p_id UUID,
+  p_osm_id TEXT,
+  p_user_id UUID,
+  p_width INTEGER,
+  p_height INTEGER,
+  p_original_bytes INTEGER,
+  p_distance_m INTEGER,
+  p_location_source TEXT,
+  p_daily_limit INTEGER
+)
+RETURNS SETOF user_photos
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('user_photos:' || p_user_id::text));
+
+  IF (
+    SELECT COUNT(*)
+    FROM user_photos p
+    WHERE p.user_id = p_user_id AND p.created_at > NOW() - INTERVAL '24 hours'
+  ) >= p_daily_limit THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO user_photos (id, osm_id, user_id, status, width, height, original_bytes, distance_m, location_source)
+  VALUES (p_id, p_osm_id, p_user_id, 'pending', p_width, p_height, p_original_bytes, p_distance_m, p_location_source)
+  RETURNING *;
+END;
+$$;
+
+-- Server only (called with the service role key)
+REVOKE EXECUTE ON FUNCTION insert_user_photo(UUID, TEXT, UUID, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, INTEGER)
+FROM PUBLIC, anon, authenticated;
+
 -- ============================================
 -- VERIFY TABLES EXIST
 -- ============================================
@@ -149,5 +895,5 @@ SELECT
   tablename,
   tableowner
 FROM pg_tables
-WHERE tablename IN ('osm_query_cache', 'ai_insights_cache', 'playground_images_cache', 'playground_issues')
+WHERE tablename IN ('osm_query_cache', 'ai_insights_cache', 'playground_images_cache', 'playground_issues', 'enrichment_jobs', 'playground_index', 'playground_index_regions', 'insights_reviews', 'api_usage', 'coordination_locks', 'rate_limit_buckets', 'proxied_images', 'image_health_checks', 'user_photos')
 ORDER BY tablename;